@@ -6,4 +6,13 @@
 export { default as TodoInput } from './TodoInput.vue'
 export { default as TodoFilter } from './TodoFilter.vue'
 export { default as TodoList } from './TodoList.vue'
-export { default as TodoItem } from './TodoItem.vue'
\ No newline at end of file
+export { default as TodoItem } from './TodoItem.vue'
+export { default as ProjectSwitcher } from './ProjectSwitcher.vue'
+export { default as UndoToast } from './UndoToast.vue'
+export { default as PluginSlot } from './PluginSlot.vue'
+export { default as TrashBin } from './TrashBin.vue'
+export { default as ArchiveView } from './ArchiveView.vue'
+export { default as TodoSearch } from './TodoSearch.vue'
+export { default as TodoQueryBar } from './TodoQueryBar.vue'
+export { default as ImportExportPanel } from './ImportExportPanel.vue'
+export { default as ImportPreviewDialog } from './ImportPreviewDialog.vue'
\ No newline at end of file
@@ -4,4 +4,7 @@
 
 export * from './useTodos'
 export * from './useLocalStorage'
-export * from './useTodoStorage'
\ No newline at end of file
+export * from './useTodoStorage'
+export * from './useHistoryShortcuts'
+export * from './useTodoEvents'
+export * from './useImportExport'
\ No newline at end of file
@@ -0,0 +1,100 @@
+// 【知识点】Vue3 组合式函数 useHistoryShortcuts
+// - 全局键盘快捷键的注册与清理
+// - 生命周期钩子 onMounted / onUnmounted
+// - 工程化最佳实践
+/**
+ * useHistoryShortcuts 组合式函数
+ *
+ * 为撤销/重做注册全局键盘快捷键：
+ * 1. Ctrl+Z（macOS 上为 Cmd+Z）撤销
+ * 2. Ctrl+Shift+Z 或 Ctrl+Y 重做
+ *
+ * 焦点在输入框、文本域或可编辑元素中时不拦截，保留浏览器自带的文本撤销
+ */
+
+import { onMounted, onUnmounted } from 'vue'
+
+/**
+ * useHistoryShortcuts 组合式函数配置选项
+ */
+export interface UseHistoryShortcutsOptions {
+  /** 撤销回调 */
+  onUndo: () => void
+  /** 重做回调 */
+  onRedo: () => void
+  /** 监听的目标，默认为window */
+  target?: Window | HTMLElement
+}
+
+/**
+ * 判断键盘事件是否发生在可编辑元素中
+ * @param event - 键盘事件
+ * @returns 是否在可编辑元素中
+ */
+export function isEditableTarget(event: KeyboardEvent): boolean {
+  const target = event.target as HTMLElement | null
+  if (!target || !target.tagName) return false
+
+  const tagName = target.tagName.toLowerCase()
+  return tagName === 'input' ||
+    tagName === 'textarea' ||
+    tagName === 'select' ||
+    target.isContentEditable
+}
+
+/**
+ * 根据键盘事件判断对应的历史操作
+ * @param event - 键盘事件
+ * @returns 'undo'、'redo'，不是撤销/重做快捷键时返回null
+ */
+export function getHistoryShortcut(event: KeyboardEvent): 'undo' | 'redo' | null {
+  if (!(event.ctrlKey || event.metaKey) || event.altKey) return null
+
+  const key = event.key.toLowerCase()
+  if (key === 'z') {
+    return event.shiftKey ? 'redo' : 'undo'
+  }
+  if (key === 'y' && !event.shiftKey) {
+    return 'redo'
+  }
+
+  return null
+}
+
+/**
+ * useHistoryShortcuts 组合式函数
+ *
+ * @param options - 配置选项
+ */
+export function useHistoryShortcuts(options: UseHistoryShortcutsOptions): void {
+  const { onUndo, onRedo, target } = options
+
+  /**
+   * 处理键盘事件
+   * @param event - 键盘事件
+   */
+  const handleKeydown = (event: Event) => {
+    const keyboardEvent = event as KeyboardEvent
+    if (isEditableTarget(keyboardEvent)) return
+
+    const action = getHistoryShortcut(keyboardEvent)
+    if (!action) return
+
+    keyboardEvent.preventDefault()
+    if (action === 'undo') {
+      onUndo()
+    } else {
+      onRedo()
+    }
+  }
+
+  onMounted(() => {
+    (target ?? window).addEventListener('keydown', handleKeydown)
+  })
+
+  onUnmounted(() => {
+    (target ?? window).removeEventListener('keydown', handleKeydown)
+  })
+}
+
+export default useHistoryShortcuts
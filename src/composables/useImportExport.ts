@@ -0,0 +1,215 @@
+// 【知识点】Vue3 组合式函数 useImportExport
+// - 先预览、后提交的两阶段导入
+// - 通过 Store 的 action 修改数据，导入可以撤销并同步到其他标签页
+// - FileReader 与 Blob 下载
+/**
+ * useImportExport 组合式函数
+ *
+ * 为界面上的导入导出提供：
+ * 1. 按文件扩展名识别格式，解析后生成与 Store 中现有数据对比的预览
+ * 2. 确认导入策略后通过 store.importTodos 提交
+ * 3. 把 Store 中的待办事项导出为文件并下载
+ */
+
+import { ref, type Ref } from 'vue'
+import { useTodoStore } from '@/stores/todoStore'
+import type { Todo } from '@/types/todo'
+import type { ImportPreview, ImportResult, ImportStrategy, TransferFormat, TransferFormatOption } from '@/types/utils'
+import { TRANSFER_FORMATS } from '@/types'
+import { parseTodosJson, createImportPreview } from '@/utils/importPreview'
+import { exportTodosToCsv, importTodosFromCsv } from '@/utils/csv'
+import { exportTodosToXlsx, importTodosFromXlsx } from '@/utils/xlsx'
+import { exportTodosToTodoTxt, importTodosFromTodoTxt } from '@/utils/todoTxt'
+import { exportTodosToICal, importTodosFromICal } from '@/utils/ical'
+import { exportTodosToMarkdown, importTodosFromMarkdown } from '@/utils/markdown'
+
+/**
+ * useImportExport 返回值类型
+ */
+export interface UseImportExportReturn {
+  /** 当前的导入预览，没有待确认的导入时为null */
+  preview: Ref<ImportPreview<Todo> | null>
+
+  /** 预览中的文件名 */
+  fileName: Ref<string>
+
+  /** 是否正在读取或解析文件 */
+  loading: Ref<boolean>
+
+  /** 读取文件并生成预览，格式不支持时返回null */
+  previewFile: (file: File) => Promise<ImportPreview<Todo> | null>
+
+  /** 按选择的策略提交预览中的数据 */
+  commitImport: (strategy: ImportStrategy) => boolean
+
+  /** 放弃预览中的导入 */
+  cancelImport: () => void
+
+  /** 导出为文件并下载 */
+  exportTodos: (format: TransferFormat) => void
+}
+
+/**
+ * 根据文件名查找对应的格式
+ *
+ * @param fileName - 文件名
+ * @returns 格式配置，扩展名不支持时返回undefined
+ */
+export function getTransferFormat(fileName: string): TransferFormatOption | undefined {
+  const extension = fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+  return TRANSFER_FORMATS.find(option => option.extensions.includes(extension))
+}
+
+/**
+ * 以文本读取文件
+ */
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file)
+  })
+}
+
+/**
+ * 以二进制读取文件
+ */
+function readFileAsArrayBuffer(file: File): Promise<ArrayBuffer> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as ArrayBuffer)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsArrayBuffer(file)
+  })
+}
+
+/**
+ * 下载文件
+ */
+function downloadFile(content: BlobPart, fileName: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * 界面导入导出的组合式函数
+ *
+ * @returns 导入预览状态和操作方法
+ */
+export function useImportExport(): UseImportExportReturn {
+  const store = useTodoStore()
+
+  const preview = ref<ImportPreview<Todo> | null>(null)
+  const fileName = ref('')
+  const loading = ref(false)
+
+  /**
+   * 解析文件内容
+   */
+  const parseFile = async (format: TransferFormat, file: File): Promise<ImportResult<Todo>> => {
+    switch (format) {
+      case 'json':
+        return parseTodosJson(await readFileAsText(file))
+      case 'csv':
+        return importTodosFromCsv(await readFileAsText(file))
+      case 'xlsx':
+        return importTodosFromXlsx(await readFileAsArrayBuffer(file))
+      case 'todotxt':
+        return importTodosFromTodoTxt(await readFileAsText(file))
+      case 'ical':
+        return importTodosFromICal(await readFileAsText(file))
+      case 'markdown':
+        return importTodosFromMarkdown(await readFileAsText(file), {
+          projects: store.activeProjects,
+          defaultProjectId: store.currentProjectId
+        })
+    }
+  }
+
+  const previewFile = async (file: File): Promise<ImportPreview<Todo> | null> => {
+    const format = getTransferFormat(file.name)
+    if (!format) {
+      store.setError(`不支持的文件格式：${file.name}`)
+      return null
+    }
+
+    loading.value = true
+    try {
+      const result = await parseFile(format.value, file)
+      preview.value = createImportPreview(store.todos, result)
+      fileName.value = file.name
+      store.clearError()
+      return preview.value
+    } catch (error) {
+      console.error('读取导入文件失败:', error)
+      store.setError('读取导入文件失败')
+      return null
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const commitImport = (strategy: ImportStrategy): boolean => {
+    if (!preview.value || !preview.value.success) {
+      return false
+    }
+
+    store.importTodos(preview.value.items, strategy)
+    if (store.error) {
+      return false
+    }
+
+    cancelImport()
+    return true
+  }
+
+  const cancelImport = () => {
+    preview.value = null
+    fileName.value = ''
+  }
+
+  const exportTodos = (format: TransferFormat) => {
+    const option = TRANSFER_FORMATS.find(item => item.value === format)!
+    const date = new Date().toISOString().slice(0, 10)
+    let content: BlobPart
+
+    switch (format) {
+      case 'json':
+        content = JSON.stringify({ todos: store.todos, exportTime: new Date().toISOString(), version: '1.0.0' }, null, 2)
+        break
+      case 'csv':
+        content = exportTodosToCsv(store.todos)
+        break
+      case 'xlsx':
+        // 复制到普通的 ArrayBuffer 中，Blob 不接受基于 SharedArrayBuffer 的数据
+        content = new Uint8Array(exportTodosToXlsx(store.todos))
+        break
+      case 'todotxt':
+        content = exportTodosToTodoTxt(store.todos)
+        break
+      case 'ical':
+        content = exportTodosToICal(store.todos)
+        break
+      case 'markdown':
+        content = exportTodosToMarkdown(store.todos, { projects: store.projects })
+        break
+    }
+
+    downloadFile(content, `todos-${date}.${option.extensions[0]}`, option.mimeType)
+  }
+
+  return {
+    preview,
+    fileName,
+    loading,
+    previewFile,
+    commitImport,
+    cancelImport,
+    exportTodos
+  }
+}
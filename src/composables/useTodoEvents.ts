@@ -0,0 +1,34 @@
+// 【知识点】Vue3 组合式函数 useTodoEvents
+// - 订阅 Store 的事件总线
+// - effect 作用域销毁时自动取消订阅
+// - 工程化最佳实践
+/**
+ * useTodoEvents 组合式函数
+ *
+ * 在组件或其他 effect 作用域中订阅 EVENT_NAMES 中的事件，
+ * 组件卸载时自动取消订阅；在作用域之外调用时需要自行调用返回的函数取消订阅
+ */
+
+import { getCurrentScope, onScopeDispose } from 'vue'
+import { useTodoStore } from '@/stores/todoStore'
+import type { AppEventMap } from '@/types/todo'
+import type { AppEventName } from '@/types'
+import type { EventHandler } from '@/utils/eventBus'
+
+/**
+ * 订阅 Store 的事件
+ *
+ * @param event - 事件名称
+ * @param listener - 监听函数，载荷类型由事件名称决定
+ * @returns 取消订阅的函数
+ */
+export function useTodoEvent<K extends AppEventName>(event: K, listener: EventHandler<AppEventMap[K]>): () => void {
+  const store = useTodoStore()
+  const stop = store.events.on(event, listener)
+
+  if (getCurrentScope()) {
+    onScopeDispose(stop)
+  }
+
+  return stop
+}
@@ -4,9 +4,20 @@
 // - 逻辑复用与副作用
 // - 工程化最佳实践
 
-import { computed, type ComputedRef } from 'vue'
+import { computed, watch, type ComputedRef } from 'vue'
 import type { Todo, FilterType } from '@/types/todo'
-import { STORAGE_KEYS } from '@/types'
+import type { ExportConfig, ImportConfig, ImportResult, ImportPreview, ImportStrategy, StorageResult } from '@/types/utils'
+import { STORAGE_KEYS, DEFAULT_PROJECT } from '@/types'
+import { isValidFilter, reviveTodo, loadTodos, saveTodos } from '@/utils/todoStorage'
+import { deleteStorageItem } from '@/utils/storage'
+import { ErrorCode, TodoError } from '@/types/error'
+import { exportTodosToCsv, importTodosFromCsv } from '@/utils/csv'
+import { exportTodosToXlsx, importTodosFromXlsx } from '@/utils/xlsx'
+import { exportTodosToTodoTxt, importTodosFromTodoTxt, type TodoTxtOptions } from '@/utils/todoTxt'
+import { exportTodosToICal, importTodosFromICal, type ICalImportOptions } from '@/utils/ical'
+import { parseTodosJson, createImportPreview, applyImportStrategy } from '@/utils/importPreview'
+import { validateTitle, toTodoError } from '@/utils/validation'
+import { useTodoStore } from '@/stores/todoStore'
 import { useLocalStorage, useLocalStorageArray, useLocalStorageObject } from './useLocalStorage'
 
 /**
@@ -76,8 +87,17 @@ export interface UseTodoStorageReturn {
   markAllActive: () => void
   
   // 存储管理
-  exportData: () => string
-  importData: (jsonData: string) => boolean
+  exportData: (config?: ExportConfig) => string
+  importData: (jsonData: string, strategy?: ImportStrategy) => boolean
+  previewImport: (jsonData: string, config?: Omit<ImportConfig, 'format'>) => Promise<ImportPreview<Todo>>
+  commitImport: (preview: ImportPreview<Todo>, strategy: ImportStrategy) => boolean
+  importCsv: (csvText: string, config?: Omit<ImportConfig, 'format'>) => Promise<ImportResult<Todo>>
+  exportXlsx: (config?: Omit<ExportConfig, 'format'>) => Uint8Array
+  importXlsx: (data: Uint8Array | ArrayBuffer, config?: Omit<ImportConfig, 'format'>) => Promise<ImportResult<Todo>>
+  exportTodoTxt: (options?: TodoTxtOptions) => string
+  importTodoTxt: (text: string, options?: TodoTxtOptions) => ImportResult<Todo>
+  exportICal: () => string
+  importICal: (text: string, options?: ICalImportOptions) => ImportResult<Todo>
   clearAllData: () => void
   getStorageInfo: () => {
     todosCount: number
@@ -93,6 +113,104 @@ function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2)
 }
 
+/**
+ * 响应式的待办事项列表，通过 loadTodos/saveTodos 读写
+ * 
+ * 与 store 使用相同的存储适配器、版本号和数据迁移，
+ * 读取旧版本数据时会升级，保存时带上版本号
+ * 
+ * @param saveDelay - 自动保存的防抖延迟（毫秒）
+ * @returns 与 useLocalStorageArray 相同的操作对象
+ */
+function useVersionedTodos(saveDelay: number): UseTodoStorageReturn['todos'] {
+  const todos = useLocalStorageArray<Todo>(STORAGE_KEYS.TODOS, [], {
+    immediate: false,
+    autoSave: false
+  })
+  let saveTimer: ReturnType<typeof setTimeout> | null = null
+  let changeCount = 0
+  let applying = false
+  
+  const handleError = (message: string) => {
+    todos.error.value = message
+    console.error('Todo列表存储错误:', message)
+  }
+  
+  /**
+   * 加载数据，等待期间列表被修改时保留修改后的数据
+   */
+  const load = async (): Promise<StorageResult<Todo[]>> => {
+    const startCount = changeCount
+    todos.loading.value = true
+    todos.error.value = null
+    
+    try {
+      const result = await loadTodos()
+      if (!result.success) {
+        handleError(result.error || '加载数据失败')
+      } else if (changeCount === startCount) {
+        applying = true
+        todos.value.value = result.data ?? []
+        applying = false
+      }
+      return result
+    } finally {
+      todos.loading.value = false
+    }
+  }
+  
+  const save = async (newValue?: Todo[]): Promise<StorageResult<Todo[]>> => {
+    if (newValue !== undefined) {
+      todos.value.value = newValue
+    }
+    
+    todos.loading.value = true
+    todos.error.value = null
+    
+    try {
+      const result = await saveTodos(todos.value.value)
+      if (!result.success) {
+        handleError(result.error || '保存数据失败')
+      }
+      return result
+    } finally {
+      todos.loading.value = false
+    }
+  }
+  
+  const remove = async (): Promise<StorageResult<null>> => {
+    const result = await deleteStorageItem(STORAGE_KEYS.TODOS)
+    if (result.success) {
+      applying = true
+      todos.value.value = []
+      applying = false
+    } else {
+      handleError(result.error || '删除数据失败')
+    }
+    return result
+  }
+  
+  watch(todos.value, () => {
+    if (applying) return
+    changeCount++
+    if (saveTimer) {
+      clearTimeout(saveTimer)
+    }
+    saveTimer = setTimeout(() => {
+      save()
+    }, saveDelay)
+  }, { deep: true, flush: 'sync' })
+  
+  load()
+  
+  return {
+    ...todos,
+    load,
+    save,
+    remove
+  }
+}
+
 /**
  * Todo应用的响应式存储组合式函数
  * 
@@ -100,14 +218,7 @@ function generateId(): string {
  */
 export function useTodoStorage(): UseTodoStorageReturn {
   // 初始化各个存储
-  const todos = useLocalStorageArray<Todo>(STORAGE_KEYS.TODOS, [], {
-    immediate: true,
-    autoSave: true,
-    saveDelay: 500,
-    onError: (error) => {
-      console.error('Todo列表存储错误:', error)
-    }
-  })
+  const todos = useVersionedTodos(500)
   
   const filter = useLocalStorage<FilterType>(STORAGE_KEYS.FILTER, 'all', {
     immediate: true,
@@ -165,10 +276,18 @@ export function useTodoStorage(): UseTodoStorageReturn {
 
   // 便捷方法
   const addTodo = (title: string): Todo => {
+    const titleError = toTodoError(validateTitle(title))
+    if (titleError) {
+      throw titleError
+    }
+    
     const newTodo: Todo = {
       id: generateId(),
       title: title.trim(),
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: DEFAULT_PROJECT.ID,
       createdAt: new Date(),
       updatedAt: new Date()
     }
@@ -184,6 +303,7 @@ export function useTodoStorage(): UseTodoStorageReturn {
   const updateTodo = (id: string, updates: Partial<Todo>): boolean => {
     const todoIndex = todos.value.value.findIndex(todo => todo.id === id)
     if (todoIndex === -1) return false
+    if (updates.title !== undefined && !validateTitle(updates.title).valid) return false
     
     const updatedTodo = {
       ...todos.value.value[todoIndex],
@@ -238,7 +358,15 @@ export function useTodoStorage(): UseTodoStorageReturn {
   }
 
   // 存储管理
-  const exportData = (): string => {
+  const exportData = (config?: ExportConfig): string => {
+    if (config?.format === 'csv') {
+      return exportTodosToCsv(todos.value.value, config)
+    }
+
+    if (config?.format === 'xlsx') {
+      throw new TodoError('XLSX 是二进制格式，请使用 exportXlsx 导出', ErrorCode.VALIDATION_ERROR)
+    }
+
     const exportData = {
       todos: todos.value.value,
       filter: filter.value.value,
@@ -250,7 +378,11 @@ export function useTodoStorage(): UseTodoStorageReturn {
     return JSON.stringify(exportData, null, 2)
   }
   
-  const importData = (jsonData: string): boolean => {
+  /**
+   * 导入 JSON 备份
+   * 数据中有任何无效的待办事项时不导入；只有 replace 策略会同时恢复过滤器和设置
+   */
+  const importData = (jsonData: string, strategy: ImportStrategy = 'replace'): boolean => {
     try {
       const data = JSON.parse(jsonData)
       
@@ -264,21 +396,19 @@ export function useTodoStorage(): UseTodoStorageReturn {
         if (!todo.id || typeof todo.title !== 'string' || typeof todo.completed !== 'boolean') {
           throw new Error('Todo项数据格式不正确')
         }
-        
-        // 确保日期字段是Date对象
-        todo.createdAt = new Date(todo.createdAt)
-        todo.updatedAt = new Date(todo.updatedAt)
       }
       
-      // 导入数据
-      todos.value.value = data.todos
+      // 导入数据，确保日期字段是Date对象
+      todos.value.value = applyImportStrategy(todos.value.value, data.todos.map(reviveTodo), strategy)
       
-      if (data.filter && ['all', 'active', 'completed'].includes(data.filter)) {
-        filter.value.value = data.filter
-      }
-      
-      if (data.settings && typeof data.settings === 'object') {
-        settings.update(data.settings)
+      if (strategy === 'replace') {
+        if (data.filter && isValidFilter(data.filter)) {
+          filter.value.value = data.filter
+        }
+        
+        if (data.settings && typeof data.settings === 'object') {
+          settings.update(data.settings)
+        }
       }
       
       return true
@@ -288,6 +418,84 @@ export function useTodoStorage(): UseTodoStorageReturn {
     }
   }
   
+  /**
+   * 预览 JSON 备份导入到 Store 的结果，不修改任何数据
+   * 与 Store 中的待办事项对比，统计新增、ID重复、标题重复的待办事项，以及未通过格式检查或 validationRules 的行
+   */
+  const previewImport = async (
+    jsonData: string,
+    config: Omit<ImportConfig, 'format'> = {}
+  ): Promise<ImportPreview<Todo>> => {
+    return createImportPreview(useTodoStore().todos, await parseTodosJson(jsonData, config))
+  }
+  
+  /**
+   * 按选择的策略通过 store.importTodos 提交预览中的有效数据，导入可以撤销
+   * 文件本身无效或 Store 拒绝导入时不修改任何数据并返回false
+   */
+  const commitImport = (preview: ImportPreview<Todo>, strategy: ImportStrategy): boolean => {
+    if (!preview.success) {
+      return false
+    }
+    
+    const store = useTodoStore()
+    store.importTodos(preview.items, strategy)
+    return !store.error
+  }
+  
+  /**
+   * 通过 store.importTodos 将表格、todo.txt 或 iCalendar 导入的结果追加到 Store，导入可以撤销
+   * 有错误且不是跳过策略时不导入任何数据；ID冲突时重新生成，并同步更新子任务的父任务ID；
+   * Store 拒绝导入时 success 为 false，原因见 store.error
+   */
+  const appendImported = (result: ImportResult<Todo>): ImportResult<Todo> => {
+    if (!result.success || result.data.length === 0) {
+      return result
+    }
+    
+    const store = useTodoStore()
+    const imported = store.importTodos(result.data, 'append')
+    if (store.error) {
+      return { ...result, success: false, data: [], skipped: result.total }
+    }
+    
+    return { ...result, data: imported }
+  }
+  
+  const importCsv = async (
+    csvText: string,
+    config: Omit<ImportConfig, 'format'> = {}
+  ): Promise<ImportResult<Todo>> => {
+    return appendImported(await importTodosFromCsv(csvText, config))
+  }
+  
+  const exportXlsx = (config: Omit<ExportConfig, 'format'> = {}): Uint8Array => {
+    return exportTodosToXlsx(todos.value.value, config)
+  }
+  
+  const importXlsx = async (
+    data: Uint8Array | ArrayBuffer,
+    config: Omit<ImportConfig, 'format'> = {}
+  ): Promise<ImportResult<Todo>> => {
+    return appendImported(await importTodosFromXlsx(data, config))
+  }
+  
+  const exportTodoTxt = (options: TodoTxtOptions = {}): string => {
+    return exportTodosToTodoTxt(todos.value.value, options)
+  }
+  
+  const importTodoTxt = (text: string, options: TodoTxtOptions = {}): ImportResult<Todo> => {
+    return appendImported(importTodosFromTodoTxt(text, options))
+  }
+  
+  const exportICal = (): string => {
+    return exportTodosToICal(todos.value.value)
+  }
+  
+  const importICal = (text: string, options: ICalImportOptions = {}): ImportResult<Todo> => {
+    return appendImported(importTodosFromICal(text, options))
+  }
+  
   const clearAllData = (): void => {
     todos.clear()
     filter.reset()
@@ -333,6 +541,15 @@ export function useTodoStorage(): UseTodoStorageReturn {
     // 存储管理
     exportData,
     importData,
+    previewImport,
+    commitImport,
+    importCsv,
+    exportXlsx,
+    importXlsx,
+    exportTodoTxt,
+    importTodoTxt,
+    exportICal,
+    importICal,
     clearAllData,
     getStorageInfo
   }
@@ -11,6 +11,9 @@
  * 2. 业务逻辑的处理
  * 3. 错误处理和状态管理
  * 4. 响应式数据的暴露
+ * 5. 撤销/重做及其键盘快捷键
+ * 6. 多标签页同步
+ * 7. Markdown 任务列表的导入导出
  * 
  * 使用这个组合式函数可以让组件更专注于UI渲染，
  * 而将业务逻辑集中在这里管理。
@@ -18,7 +21,17 @@
 
 import { computed, ref, watch, onMounted, onUnmounted, type Ref } from 'vue'
 import { useTodoStore } from '@/stores/todoStore'
-import type { Todo, FilterType, TodoStats, TodoState } from '@/types/todo'
+import { useHistoryShortcuts } from './useHistoryShortcuts'
+import { exportTodosToMarkdown, parseMarkdownTasks } from '@/utils/markdown'
+import type {
+  Todo,
+  FilterType,
+  TodoStats,
+  TodoState,
+  CreateTodoInput,
+  UpdateTodoInput,
+  BatchTodoInput
+} from '@/types/todo'
 
 /**
  * useTodos 组合式函数的返回类型
@@ -47,14 +60,18 @@ export interface UseTodosReturn {
   hasCompleted: Readonly<Ref<boolean>>
   /** 是否为空状态 */
   isEmpty: Readonly<Ref<boolean>>
+  /** 是否可以撤销 */
+  canUndo: Readonly<Ref<boolean>>
+  /** 是否可以重做 */
+  canRedo: Readonly<Ref<boolean>>
   
   // ===== 操作方法 =====
   /** 添加新的待办事项 */
-  addTodo: (title: string) => Promise<Todo | null>
+  addTodo: (title: string, options?: Omit<CreateTodoInput, 'title'>) => Promise<Todo | null>
   /** 切换待办事项完成状态 */
   toggleTodo: (id: string) => Promise<boolean>
-  /** 更新待办事项标题 */
-  updateTodo: (id: string, title: string) => Promise<boolean>
+  /** 更新待办事项 */
+  updateTodo: (id: string, input: string | UpdateTodoInput) => Promise<boolean>
   /** 删除待办事项 */
   deleteTodo: (id: string) => Promise<boolean>
   /** 设置过滤器 */
@@ -63,8 +80,18 @@ export interface UseTodosReturn {
   toggleAllTodos: (completed?: boolean) => Promise<void>
   /** 清除所有已完成的待办事项 */
   clearCompleted: () => Promise<number>
-  /** 批量添加待办事项 */
-  addMultipleTodos: (titles: string[]) => Promise<Todo[]>
+  /** 批量添加待办事项，可以指定完成状态和子任务 */
+  addMultipleTodos: (items: Array<string | BatchTodoInput>) => Promise<Todo[]>
+  /** 导出为 Markdown 任务列表，每个列表一个标题 */
+  exportMarkdown: () => string
+  /** 导入粘贴的 Markdown 任务列表 */
+  importMarkdown: (text: string) => Promise<Todo[]>
+  /** 撤销上一次操作 */
+  undo: () => boolean
+  /** 重做上一次撤销的操作 */
+  redo: () => boolean
+  /** 设置最多保留的历史记录条数 */
+  setHistoryLimit: (limit: number) => boolean
   
   // ===== 工具方法 =====
   /** 根据ID查找待办事项 */
@@ -89,6 +116,12 @@ export interface UseTodosOptions {
   onError?: (error: Error) => void
   /** 数据变化回调 */
   onChange?: (todos: Todo[]) => void
+  /** 最多保留的历史记录条数，不传时使用store当前的设置 */
+  historyLimit?: number
+  /** 是否注册 Ctrl+Z / Ctrl+Shift+Z 撤销/重做快捷键 */
+  shortcuts?: boolean
+  /** 是否在初始化后与其他标签页同步 */
+  sync?: boolean
 }
 
 /**
@@ -102,7 +135,10 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     autoInit = true,
     autoSave = true, // eslint-disable-line @typescript-eslint/no-unused-vars
     onError,
-    onChange
+    onChange,
+    historyLimit,
+    shortcuts = false,
+    sync = false
   } = options
 
   // ===== Store 实例 =====
@@ -111,6 +147,10 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
   // ===== 内部状态 =====
   const isProcessing = ref(false)
 
+  if (historyLimit !== undefined) {
+    store.setHistoryLimit(historyLimit)
+  }
+
   // ===== 响应式数据 =====
   const todos = computed(() => store.filteredTodos)
   const currentFilter = computed(() => store.filter)
@@ -122,6 +162,9 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
   
   /**
    * 统计信息
+   * 
+   * 子任务与顶层任务一样计入总数，另外分别给出两者的数量；
+   * 回收站中的待办事项不计入总数，单独给出数量
    */
   const stats = computed((): TodoStats => {
     const total = store.totalCount
@@ -133,7 +176,10 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
       total,
       completed,
       active,
-      completionRate
+      completionRate,
+      topLevel: store.topLevelCount,
+      subtasks: store.subtaskCount,
+      trashed: store.trashCount
     }
   })
 
@@ -159,19 +205,33 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     return !loading.value && !error.value && todos.value.length === 0
   })
 
+  /**
+   * 是否可以撤销
+   */
+  const canUndo = computed(() => store.canUndo)
+
+  /**
+   * 是否可以重做
+   */
+  const canRedo = computed(() => store.canRedo)
+
   // ===== 操作方法 =====
 
   /**
    * 添加新的待办事项
    * @param title - 待办事项标题
+   * @param options - 可选的开始/截止日期
    * @returns 新创建的待办事项，失败时返回null
    */
-  const addTodo = async (title: string): Promise<Todo | null> => {
+  const addTodo = async (
+    title: string,
+    options?: Omit<CreateTodoInput, 'title'>
+  ): Promise<Todo | null> => {
     if (isProcessing.value) return null
 
     try {
       isProcessing.value = true
-      const newTodo = store.addTodo(title)
+      const newTodo = options ? store.addTodo(title, options) : store.addTodo(title)
       
       // 触发变化回调
       if (onChange) {
@@ -215,17 +275,17 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
   }
 
   /**
-   * 更新待办事项标题
+   * 更新待办事项
    * @param id - 待办事项ID
-   * @param title - 新标题
+   * @param input - 新标题或要更新的字段
    * @returns 是否操作成功
    */
-  const updateTodo = async (id: string, title: string): Promise<boolean> => {
+  const updateTodo = async (id: string, input: string | UpdateTodoInput): Promise<boolean> => {
     if (isProcessing.value) return false
 
     try {
       isProcessing.value = true
-      const success = store.updateTodo(id, title)
+      const success = store.updateTodo(id, input)
       
       if (success && onChange) {
         onChange(store.todos)
@@ -330,15 +390,15 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
 
   /**
    * 批量添加待办事项
-   * @param titles - 待办事项标题数组
+   * @param items - 待办事项标题或批量添加的输入数据
    * @returns 新创建的待办事项数组
    */
-  const addMultipleTodos = async (titles: string[]): Promise<Todo[]> => {
+  const addMultipleTodos = async (items: Array<string | BatchTodoInput>): Promise<Todo[]> => {
     if (isProcessing.value) return []
 
     try {
       isProcessing.value = true
-      const newTodos = store.addMultipleTodos(titles)
+      const newTodos = store.addMultipleTodos(items)
       
       if (newTodos.length > 0 && onChange) {
         onChange(store.todos)
@@ -354,6 +414,76 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     }
   }
 
+  /**
+   * 导出所有待办事项为 Markdown 任务列表
+   * @returns Markdown 文本
+   */
+  const exportMarkdown = (): string => {
+    return exportTodosToMarkdown(store.todos, { projects: store.projects })
+  }
+
+  /**
+   * 导入 Markdown 任务列表
+   * 
+   * 标题与未归档列表的名称相同时导入到该列表，否则导入到当前列表
+   * 
+   * @param text - Markdown 文本
+   * @returns 新创建的待办事项数组
+   */
+  const importMarkdown = async (text: string): Promise<Todo[]> => {
+    const items = parseMarkdownTasks(text).flatMap(section => {
+      const name = section.heading?.toLowerCase()
+      const project = name
+        ? store.activeProjects.find(item => item.name.toLowerCase() === name)
+        : undefined
+      return section.items.map(item => ({ ...item, projectId: project?.id ?? store.currentProjectId }))
+    })
+
+    if (items.length === 0) {
+      handleError(new Error('没有找到 Markdown 任务列表项'))
+      return []
+    }
+
+    return addMultipleTodos(items)
+  }
+
+  /**
+   * 撤销上一次操作
+   * @returns 是否操作成功
+   */
+  const undo = (): boolean => {
+    const success = store.undo()
+
+    if (success && onChange) {
+      onChange(store.todos)
+    }
+
+    return success
+  }
+
+  /**
+   * 重做上一次撤销的操作
+   * @returns 是否操作成功
+   */
+  const redo = (): boolean => {
+    const success = store.redo()
+
+    if (success && onChange) {
+      onChange(store.todos)
+    }
+
+    return success
+  }
+
+  /**
+   * 设置最多保留的历史记录条数
+   * @param limit - 历史记录条数
+   * @returns 是否操作成功
+   */
+  const setHistoryLimit = (limit: number): boolean => {
+    return store.setHistoryLimit(limit)
+  }
+
   // ===== 工具方法 =====
 
   /**
@@ -425,6 +555,9 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
 
     try {
       await store.loadFromStorage()
+      if (sync) {
+        store.startTabSync()
+      }
     } catch (error) {
       const err = error instanceof Error ? error : new Error('初始化失败')
       handleError(err)
@@ -448,6 +581,12 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     )
   }
 
+  // ===== 键盘快捷键 =====
+
+  if (shortcuts) {
+    useHistoryShortcuts({ onUndo: undo, onRedo: redo })
+  }
+
   // ===== 挂载和卸载 =====
 
   onMounted(() => {
@@ -459,6 +598,10 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     if (unwatch) {
       unwatch()
     }
+    
+    if (sync) {
+      store.stopTabSync()
+    }
   })
 
   // ===== 返回API =====
@@ -476,6 +619,8 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     allCompleted,
     hasCompleted,
     isEmpty,
+    canUndo,
+    canRedo,
     
     // 操作方法
     addTodo,
@@ -486,6 +631,11 @@ export function useTodos(options: UseTodosOptions = {}): UseTodosReturn {
     toggleAllTodos,
     clearCompleted,
     addMultipleTodos,
+    exportMarkdown,
+    importMarkdown,
+    undo,
+    redo,
+    setHistoryLimit,
     
     // 工具方法
     findTodoById,
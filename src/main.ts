@@ -4,12 +4,16 @@
  * 这个文件是整个应用的启动点，负责：
  * 1. 创建Vue应用实例
  * 2. 配置Pinia状态管理
- * 3. 挂载应用到DOM
+ * 3. 注册插件
+ * 4. 选择存储后端（优先IndexedDB）
+ * 5. 挂载应用到DOM
  */
 
 import { createApp } from 'vue'
 import { createPinia } from 'pinia'
 import App from './App.vue'
+import { createTodoPlugins, selectStorageAdapter, setStorageAdapter } from './utils'
+import type { TodoPlugin } from './types'
 import './styles/main.css'
 import './styles/components.css'
 
@@ -20,5 +24,12 @@ const app = createApp(App)
 const pinia = createPinia()
 app.use(pinia)
 
-// 挂载应用到DOM
-app.mount('#app')
\ No newline at end of file
+// 注册插件，需要在Pinia之后安装，插件中才能使用Store
+const plugins: TodoPlugin[] = []
+app.use(createTodoPlugins(plugins))
+
+// 选择存储后端后再挂载应用到DOM，保证首次加载就读取正确的数据
+selectStorageAdapter()
+  .then(setStorageAdapter)
+  .catch(error => console.error('❌ 选择存储后端失败，使用localStorage:', error))
+  .finally(() => app.mount('#app'))
\ No newline at end of file
@@ -2,7 +2,7 @@
 // - 定义全局 store，集中管理待办事项数据和业务逻辑
 // - TypeScript 类型安全，提升开发体验
 // - 组合式 API 便于逻辑复用
-// - 状态持久化（localStorage）
+// - 状态持久化（可切换的存储适配器）
 // - 工程化最佳实践
 /**
  * Todo Store - Pinia状态管理
@@ -10,14 +10,124 @@
  * 这个Store管理待办事项应用的所有状态，包括：
  * 1. 待办事项列表的CRUD操作
  * 2. 过滤器状态管理
- * 3. 计算属性（过滤后的待办事项、统计信息等）
- * 4. 与本地存储的集成
+ * 3. 标签库管理（重命名、合并、删除会同步到所有待办事项）
+ * 4. 子任务层级与完成状态的级联
+ * 5. 重复待办事项的自动生成
+ * 6. 多列表（项目）管理，待办事项按当前列表展示
+ * 7. 待办事项操作的撤销/重做
+ * 8. 计算属性（过滤后的待办事项、统计信息等）
+ * 9. 与本地存储的集成（localStorage、IndexedDB或内存）
+ * 10. 多标签页之间的实时同步
+ * 11. 通过事件总线发出 EVENT_NAMES 中的事件，集成功能无需修改Store即可订阅
+ * 12. 调用插件的生命周期钩子，校验插件增加的字段
+ * 13. 回收站：删除的待办事项可以恢复，超过保留天数后自动彻底删除
+ * 14. 归档：已完成的待办事项可以归档保存，归档项单独存储，不参与列表的过滤和统计
+ * 15. 手动排序：拖拽调整的顺序保存在待办事项的排序键上，过滤时保持不变
+ * 16. 全文搜索：搜索关键字与状态、标签过滤同时生效，支持正则表达式和区分大小写
  */
 
 import { defineStore } from 'pinia'
-import { computed, ref, watch } from 'vue'
-import type { Todo, FilterType, TodoState } from '@/types/todo'
-import { generateId, saveTodos, loadTodos, saveFilter, loadFilter } from '@/utils/todoStorage'
+import { computed, markRaw, ref, watch } from 'vue'
+import type {
+  Todo,
+  FilterType,
+  TodoState,
+  CreateTodoInput,
+  BatchTodoInput,
+  UpdateTodoInput,
+  Tag,
+  TagMatchMode,
+  CascadeRules,
+  Project,
+  HistoryEntry,
+  TrashedTodo,
+  ArchivedTodo,
+  AppEventMap,
+  TodoChangeContext
+} from '@/types/todo'
+import type {
+  SortConfig,
+  SearchConfig,
+  SearchOptions,
+  StorageAdapter,
+  StorageAdapterType,
+  StorageRecovery,
+  StorageResult,
+  RecoveryAction,
+  ImportStrategy
+} from '@/types/utils'
+import { DEFAULT_CASCADE_RULES, DEFAULT_PROJECT, EVENT_NAMES, HISTORY_CONFIG, SEARCH_CONFIG, TRASH_CONFIG, VALIDATION_RULES } from '@/types'
+import { ErrorCode, TodoError } from '@/types/error'
+import {
+  generateId,
+  saveTodos,
+  loadTodos,
+  saveFilter,
+  loadFilter,
+  saveTags,
+  loadTags,
+  saveProjects,
+  loadProjects,
+  saveTrash,
+  loadTrash,
+  saveArchive,
+  loadArchive,
+  resetStoredData
+} from '@/utils/todoStorage'
+import { getStorageAdapter, setStorageAdapter } from '@/utils/storage'
+import {
+  createTabSync,
+  createSyncBase,
+  mergeRecords,
+  type TabSync,
+  type SyncBase,
+  type TabSyncTransport
+} from '@/utils/tabSync'
+import { getDueStatus } from '@/utils/dueDate'
+import { validateTitle, toTodoError } from '@/utils/validation'
+import { isValidPriority, sortTodos } from '@/utils/sort'
+import {
+  normalizeTagName,
+  normalizeTagList,
+  validateTagName,
+  replaceTags,
+  matchesTagFilter,
+  isValidTagColor,
+  pickTagColor
+} from '@/utils/tags'
+import {
+  getChildren,
+  getAncestorIds,
+  getDescendantIds,
+  getDepth,
+  getSubtreeHeight,
+  getProgressMap,
+  repairHierarchy
+} from '@/utils/hierarchy'
+import { validateRecurrenceRule, getNextOccurrenceDates, pinRecurrenceRule } from '@/utils/recurrence'
+import {
+  createDefaultProject,
+  validateProjectName,
+  migrateProjects,
+  moveItem
+} from '@/utils/projects'
+import { cloneTodo, cloneTodos, diffTodos, isSameSnapshot, pushHistory } from '@/utils/history'
+import { createEventBus } from '@/utils/eventBus'
+import {
+  runBeforeAdd,
+  runAfterToggle,
+  runBeforeDelete,
+  runOnLoad,
+  getPluginFields,
+  resolvePluginFields
+} from '@/utils/plugins'
+import { applyImportStrategy, resolveIdConflicts } from '@/utils/importPreview'
+import { toTrashedTodos, fromTrashedTodo, getTrashSubtreeIds, splitExpiredTrash } from '@/utils/trash'
+import { toArchivedTodos, fromArchivedTodo } from '@/utils/archive'
+import { sortByManualOrder, moveInView } from '@/utils/ordering'
+import { createSearchPattern, matchesSearch, type SearchHighlight } from '@/utils/search'
+import { createFuzzyIndex, type FuzzyFieldMatch, type FuzzyIndex, type FuzzyResult } from '@/utils/fuzzy'
+import { filterByQuery, parseQuery, stringifyQuery, type QueryError, type QueryNode } from '@/utils/query'
 
 /**
  * Todo Store
@@ -32,6 +142,66 @@ export const useTodoStore = defineStore('todo', () => {
   /** 当前过滤器 */
   const filter = ref<FilterType>('all')
   
+  /** 当前排序配置，为null时按手动顺序排列 */
+  const sortConfig = ref<SortConfig<Todo> | null>(null)
+  
+  /** 标签库 */
+  const tags = ref<Tag[]>([])
+  
+  /** 当前选中的过滤标签 */
+  const tagFilter = ref<string[]>([])
+  
+  /** 标签过滤的匹配方式 */
+  const tagFilterMode = ref<TagMatchMode>('any')
+  
+  /** 智能过滤的查询条件（已解析），为null时不过滤 */
+  const filterQuery = ref<QueryNode | null>(null)
+  
+  /** 智能过滤的查询文本 */
+  const filterQueryText = ref('')
+  
+  /** 最近一次设置的查询文本格式错误时的错误信息 */
+  const filterQueryError = ref<QueryError | null>(null)
+  
+  /** 搜索关键字，为空时不搜索 */
+  const searchQuery = ref('')
+  
+  /** 搜索选项：搜索的字段、是否区分大小写、是否使用正则表达式、是否模糊匹配、高亮配置 */
+  const searchOptions = ref<SearchOptions>({
+    fields: [...SEARCH_CONFIG.DEFAULT_FIELDS],
+    caseSensitive: false,
+    useRegex: false,
+    fuzzy: false,
+    highlight: { enabled: true }
+  })
+  
+  /** 完成状态的级联规则 */
+  const cascadeRules = ref<CascadeRules>({ ...DEFAULT_CASCADE_RULES })
+  
+  /** 列表（项目），数组顺序即显示顺序 */
+  const projects = ref<Project[]>([createDefaultProject()])
+  
+  /** 当前选中的列表ID */
+  const currentProjectId = ref<string>(DEFAULT_PROJECT.ID)
+  
+  /** 可撤销的操作，栈顶在数组末尾 */
+  const undoStack = ref<HistoryEntry[]>([])
+  
+  /** 可重做的操作，栈顶在数组末尾 */
+  const redoStack = ref<HistoryEntry[]>([])
+  
+  /** 最多保留的历史记录条数 */
+  const historyLimit = ref<number>(HISTORY_CONFIG.DEFAULT_LIMIT)
+  
+  /** 回收站，最近删除的在前 */
+  const trash = ref<TrashedTodo[]>([])
+  
+  /** 回收站的保留天数 */
+  const trashRetentionDays = ref<number>(TRASH_CONFIG.DEFAULT_RETENTION_DAYS)
+  
+  /** 已归档的待办事项，最近归档的在前 */
+  const archive = ref<ArchivedTodo[]>([])
+  
   /** 加载状态 */
   const loading = ref(false)
   
@@ -40,6 +210,74 @@ export const useTodoStore = defineStore('todo', () => {
   
   /** 是否已初始化 */
   const initialized = ref(false)
+  
+  /** 当前使用的存储后端 */
+  const storageBackend = ref<StorageAdapterType>(getStorageAdapter().type)
+  
+  /** 无法读取的存储数据，存在时暂停自动保存，避免覆盖原始数据 */
+  const storageRecovery = ref<StorageRecovery | null>(null)
+  
+  /** 多标签页同步方式，未启动时为 'none' */
+  const syncTransport = ref<TabSyncTransport>('none')
+  
+  // 多标签页同步实例与上次同步时的记录版本，不需要响应式
+  let tabSync: TabSync | null = null
+  let todosSyncBase: SyncBase = new Map()
+  let projectsSyncBase: SyncBase = new Map()
+  let trashSyncBase: SyncBase = new Map()
+  let archiveSyncBase: SyncBase = new Map()
+  
+  // 当前操作移入回收站和归档的待办事项，由 recordable 写入历史记录
+  let pendingTrashed: TrashedTodo[] = []
+  let pendingArchived: ArchivedTodo[] = []
+  
+  // ===== 事件 =====
+  
+  /** 事件总线，组件、插件和测试可以订阅 EVENT_NAMES 中的事件 */
+  const events = markRaw(createEventBus<AppEventMap>())
+  
+  /**
+   * 是否有待办事项事件的监听函数，没有时跳过快照比较
+   */
+  const hasTodoListeners = () => {
+    return [EVENT_NAMES.TODO_ADDED, EVENT_NAMES.TODO_UPDATED, EVENT_NAMES.TODO_DELETED]
+      .some(name => events.listenerCount(name) > 0)
+  }
+  
+  /**
+   * 比较前后两次快照，为新增、修改和删除的待办事项发出事件
+   * @param before - 修改前的快照
+   * @param after - 修改后的快照
+   * @param context - 变化的来源和操作名称
+   */
+  const emitTodoChanges = (before: Todo[], after: Todo[], context: TodoChangeContext) => {
+    const { added, updated, deleted } = diffTodos(before, after)
+    
+    added.forEach(todo => {
+      events.emit(EVENT_NAMES.TODO_ADDED, { ...context, todo: cloneTodo(todo) })
+    })
+    updated.forEach(({ todo, previous }) => {
+      events.emit(EVENT_NAMES.TODO_UPDATED, { ...context, todo: cloneTodo(todo), previous: cloneTodo(previous) })
+    })
+    deleted.forEach(todo => {
+      events.emit(EVENT_NAMES.TODO_DELETED, { ...context, todo: cloneTodo(todo) })
+    })
+  }
+  
+  /**
+   * 执行不经过 recordable 的修改，并为变化的待办事项发出事件
+   * @param context - 变化的来源和操作名称
+   * @param mutate - 修改待办事项的函数
+   * @returns 修改函数的返回值
+   */
+  const trackTodoChanges = <R>(context: TodoChangeContext, mutate: () => R): R => {
+    if (!hasTodoListeners()) return mutate()
+    
+    const before = cloneTodos(todos.value)
+    const result = mutate()
+    emitTodoChanges(before, cloneTodos(todos.value), context)
+    return result
+  }
 
   // ===== 本地存储集成 =====
   
@@ -48,9 +286,11 @@ export const useTodoStore = defineStore('todo', () => {
    */
   const saveTodosToStorage = async () => {
     try {
-      const result = saveTodos(todos.value)
+      const result = await saveTodos(todos.value)
       if (!result.success) {
         setError(`保存待办事项失败: ${result.error}`)
+      } else {
+        tabSync?.broadcastTodos(todos.value)
       }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : '保存待办事项时发生未知错误'
@@ -63,7 +303,7 @@ export const useTodoStore = defineStore('todo', () => {
    */
   const saveFilterToStorage = async () => {
     try {
-      const result = saveFilter(filter.value)
+      const result = await saveFilter(filter.value)
       if (!result.success) {
         setError(`保存过滤器状态失败: ${result.error}`)
       }
@@ -73,31 +313,179 @@ export const useTodoStore = defineStore('todo', () => {
     }
   }
   
+  /**
+   * 保存标签库到本地存储
+   */
+  const saveTagsToStorage = async () => {
+    try {
+      const result = await saveTags(tags.value)
+      if (!result.success) {
+        setError(`保存标签库失败: ${result.error}`)
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '保存标签库时发生未知错误'
+      setError(errorMessage)
+    }
+  }
+  
+  /**
+   * 保存列表数据到本地存储
+   */
+  const saveProjectsToStorage = async () => {
+    try {
+      const result = await saveProjects({
+        projects: projects.value,
+        currentProjectId: currentProjectId.value
+      })
+      if (!result.success) {
+        setError(`保存列表失败: ${result.error}`)
+      } else {
+        tabSync?.broadcastProjects(projects.value)
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '保存列表时发生未知错误'
+      setError(errorMessage)
+    }
+  }
+  
+  /**
+   * 保存回收站到本地存储
+   */
+  const saveTrashToStorage = async () => {
+    try {
+      const result = await saveTrash({
+        items: trash.value,
+        retentionDays: trashRetentionDays.value
+      })
+      if (!result.success) {
+        setError(`保存回收站失败: ${result.error}`)
+      } else {
+        tabSync?.broadcastTrash(trash.value)
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '保存回收站时发生未知错误'
+      setError(errorMessage)
+    }
+  }
+  
+  /**
+   * 保存已归档的待办事项到本地存储
+   */
+  const saveArchiveToStorage = async () => {
+    try {
+      const result = await saveArchive(archive.value)
+      if (!result.success) {
+        setError(`保存归档失败: ${result.error}`)
+      } else {
+        tabSync?.broadcastArchive(archive.value)
+      }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : '保存归档时发生未知错误'
+      setError(errorMessage)
+    }
+  }
+  
+  /**
+   * 记录需要用户处理的存储数据问题，只保留第一个
+   * 
+   * @param result - 读取结果
+   */
+  const recordRecovery = (result: StorageResult) => {
+    if (!result.success && result.recoveryOptions && !storageRecovery.value) {
+      storageRecovery.value = {
+        key: result.key,
+        error: result.error ?? '数据无法读取',
+        options: result.recoveryOptions
+      }
+    }
+  }
+  
   /**
    * 从本地存储加载数据
+   * 
+   * 旧版本的单列表数据会自动迁移到默认列表中；回收站中超过保留天数的待办事项会被彻底删除
    */
   const loadFromStorage = async () => {
     setLoading(true)
     clearError()
+    storageBackend.value = getStorageAdapter().type
+    storageRecovery.value = null
     
     try {
       // 加载待办事项
-      const todosResult = loadTodos()
+      const todosResult = await loadTodos()
+      recordRecovery(todosResult)
       if (todosResult.success && todosResult.data) {
-        todos.value = todosResult.data
+        todos.value = repairHierarchy(todosResult.data)
       } else if (!todosResult.success) {
         setError(`加载待办事项失败: ${todosResult.error}`)
       }
       
       // 加载过滤器状态
-      const filterResult = loadFilter()
+      const filterResult = await loadFilter()
+      recordRecovery(filterResult)
       if (filterResult.success && filterResult.data) {
         filter.value = filterResult.data
       } else if (!filterResult.success) {
         setError(`加载过滤器状态失败: ${filterResult.error}`)
       }
       
+      // 加载标签库，并补全待办事项中引用但未登记的标签
+      const tagsResult = await loadTags()
+      recordRecovery(tagsResult)
+      if (tagsResult.success && tagsResult.data) {
+        tags.value = tagsResult.data
+      } else if (!tagsResult.success) {
+        setError(`加载标签库失败: ${tagsResult.error}`)
+      }
+      todos.value.forEach(todo => ensureTags(todo.tags))
+      
+      // 加载列表，并将旧数据迁移到默认列表
+      const projectsResult = await loadProjects()
+      recordRecovery(projectsResult)
+      if (!projectsResult.success) {
+        setError(`加载列表失败: ${projectsResult.error}`)
+      }
+      const migration = migrateProjects(projectsResult.data, todos.value)
+      projects.value = migration.data.projects
+      currentProjectId.value = migration.data.currentProjectId
+      todos.value = migration.todos
+      clearHistory()
+      
+      // 加载已归档的待办事项
+      const archiveResult = await loadArchive()
+      recordRecovery(archiveResult)
+      if (archiveResult.success && archiveResult.data) {
+        archive.value = archiveResult.data
+      } else if (!archiveResult.success) {
+        setError(`加载归档失败: ${archiveResult.error}`)
+      }
+      
+      // 加载回收站，并清理过期的待办事项
+      const trashResult = await loadTrash()
+      recordRecovery(trashResult)
+      if (trashResult.success) {
+        trash.value = trashResult.data?.items ?? []
+        trashRetentionDays.value = trashResult.data?.retentionDays ?? TRASH_CONFIG.DEFAULT_RETENTION_DAYS
+      } else {
+        setError(`加载回收站失败: ${trashResult.error}`)
+      }
+      purgeExpiredTrash()
+      
+      todosSyncBase = createSyncBase(todos.value)
+      projectsSyncBase = createSyncBase(projects.value)
+      trashSyncBase = createSyncBase(trash.value)
+      archiveSyncBase = createSyncBase(archive.value)
+      
       initialized.value = true
+      events.emit(EVENT_NAMES.DATA_LOADED, {
+        todos: cloneTodos(todos.value),
+        projects: projects.value.map(project => ({ ...project }))
+      })
+      runOnLoad({
+        todos: cloneTodos(todos.value),
+        projects: projects.value.map(project => ({ ...project }))
+      })
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : '加载数据时发生未知错误'
       setError(errorMessage)
@@ -106,11 +494,178 @@ export const useTodoStore = defineStore('todo', () => {
     }
   }
   
+  /**
+   * 切换存储后端
+   * 
+   * 切换后会把当前的全部数据写入新的存储后端，之后的自动保存也使用新后端
+   * 
+   * @param adapter - 新的存储适配器
+   * @returns 是否切换成功
+   */
+  const switchStorageAdapter = async (adapter: StorageAdapter): Promise<boolean> => {
+    if (!(await adapter.isAvailable())) {
+      setError(`存储后端${adapter.type}不可用`)
+      return false
+    }
+    
+    setStorageAdapter(adapter)
+    storageBackend.value = adapter.type
+    clearError()
+    
+    await saveTodosToStorage()
+    await saveFilterToStorage()
+    await saveTagsToStorage()
+    await saveProjectsToStorage()
+    await saveTrashToStorage()
+    await saveArchiveToStorage()
+    
+    return error.value === null
+  }
+  
+  /**
+   * 处理无法读取的存储数据
+   * 
+   * @param action - 恢复方式：retry 重新加载，reset 删除无法读取的数据后重新加载
+   * @returns 问题是否已解决
+   */
+  const recoverStorage = async (action: RecoveryAction): Promise<boolean> => {
+    const recovery = storageRecovery.value
+    if (!recovery) {
+      setError('没有需要恢复的数据')
+      return false
+    }
+    
+    if (action === 'reset') {
+      const result = await resetStoredData(recovery.key)
+      if (!result.success) {
+        setError(`清除数据失败: ${result.error}`)
+        return false
+      }
+    }
+    
+    await loadFromStorage()
+    return storageRecovery.value === null
+  }
+  
+  // ===== 多标签页同步 =====
+  
+  /**
+   * 合并其他标签页的待办事项
+   * 
+   * 按 updatedAt 逐条合并，而不是整体覆盖；合并结果有变化时会保存并通知其他标签页，
+   * 同时清空撤销历史，避免撤销覆盖其他标签页的修改
+   * 
+   * @param remote - 其他标签页的待办事项
+   * @returns 本地数据是否发生变化
+   */
+  const applyRemoteTodos = (remote: Todo[]): boolean => {
+    if (!initialized.value) return false
+    
+    const { merged, changed } = mergeRecords(todosSyncBase, todos.value, remote)
+    todosSyncBase = createSyncBase(remote)
+    if (!changed) return false
+    
+    trackTodoChanges({ source: 'sync', label: '同步其他标签页' }, () => {
+      todos.value = repairHierarchy(merged)
+    })
+    todos.value.forEach(todo => ensureTags(todo.tags))
+    clearHistory()
+    return true
+  }
+  
+  /**
+   * 合并其他标签页的列表
+   * 
+   * 当前列表被其他标签页删除或归档时，切换到第一个未归档的列表
+   * 
+   * @param remote - 其他标签页的列表
+   * @returns 本地数据是否发生变化
+   */
+  const applyRemoteProjects = (remote: Project[]): boolean => {
+    if (!initialized.value) return false
+    
+    const { merged, changed } = mergeRecords(projectsSyncBase, projects.value, remote)
+    projectsSyncBase = createSyncBase(remote)
+    if (!changed || merged.length === 0) return false
+    
+    projects.value = merged
+    const current = merged.find(project => project.id === currentProjectId.value)
+    if (!current || current.archived) {
+      currentProjectId.value = merged.find(project => !project.archived)?.id ?? merged[0].id
+    }
+    return true
+  }
+  
+  /**
+   * 合并其他标签页的回收站
+   * 
+   * 回收站不在撤销历史中，合并后不需要清空历史
+   * 
+   * @param remote - 其他标签页回收站中的待办事项
+   * @returns 本地数据是否发生变化
+   */
+  const applyRemoteTrash = (remote: TrashedTodo[]): boolean => {
+    if (!initialized.value) return false
+    
+    const { merged, changed } = mergeRecords(trashSyncBase, trash.value, remote)
+    trashSyncBase = createSyncBase(remote)
+    if (!changed) return false
+    
+    trash.value = merged
+    return true
+  }
+  
+  /**
+   * 合并其他标签页的归档
+   * 
+   * @param remote - 其他标签页已归档的待办事项
+   * @returns 本地数据是否发生变化
+   */
+  const applyRemoteArchive = (remote: ArchivedTodo[]): boolean => {
+    if (!initialized.value) return false
+    
+    const { merged, changed } = mergeRecords(archiveSyncBase, archive.value, remote)
+    archiveSyncBase = createSyncBase(remote)
+    if (!changed) return false
+    
+    archive.value = merged
+    return true
+  }
+  
+  /**
+   * 开始与其他标签页同步
+   */
+  const startTabSync = () => {
+    if (tabSync) return
+    
+    tabSync = createTabSync({
+      onTodos: applyRemoteTodos,
+      onProjects: applyRemoteProjects,
+      onTrash: applyRemoteTrash,
+      onArchive: applyRemoteArchive
+    })
+    syncTransport.value = tabSync.transport
+  }
+  
+  /**
+   * 停止与其他标签页同步
+   */
+  const stopTabSync = () => {
+    tabSync?.close()
+    tabSync = null
+    syncTransport.value = 'none'
+  }
+  
+  /**
+   * 是否可以自动保存：已初始化且没有待处理的数据问题
+   */
+  const canAutoSave = () => initialized.value && storageRecovery.value === null
+  
   // 监听数据变化，自动保存到本地存储
   watch(
     todos,
     () => {
-      if (initialized.value) {
+      if (canAutoSave()) {
         saveTodosToStorage()
       }
     },
@@ -120,240 +675,1938 @@ export const useTodoStore = defineStore('todo', () => {
   watch(
     filter,
     () => {
-      if (initialized.value) {
+      if (canAutoSave()) {
         saveFilterToStorage()
       }
     }
   )
+  
+  watch(
+    tags,
+    () => {
+      if (canAutoSave()) {
+        saveTagsToStorage()
+      }
+    },
+    { deep: true }
+  )
+  
+  watch(
+    [projects, currentProjectId],
+    () => {
+      if (canAutoSave()) {
+        saveProjectsToStorage()
+      }
+    },
+    { deep: true }
+  )
+  
+  watch(
+    [trash, trashRetentionDays],
+    () => {
+      if (canAutoSave()) {
+        saveTrashToStorage()
+      }
+    },
+    { deep: true }
+  )
+  
+  watch(
+    archive,
+    () => {
+      if (canAutoSave()) {
+        saveArchiveToStorage()
+      }
+    },
+    { deep: true }
+  )
 
   // ===== Getters =====
   
   /**
-   * 根据当前过滤器返回过滤后的待办事项
+   * 当前列表
    */
-  const filteredTodos = computed(() => {
+  const currentProject = computed(() => {
+    return projects.value.find(project => project.id === currentProjectId.value)
+  })
+  
+  /**
+   * 未归档的列表
+   */
+  const activeProjects = computed(() => {
+    return projects.value.filter(project => !project.archived)
+  })
+  
+  /**
+   * 已归档的列表
+   */
+  const archivedProjects = computed(() => {
+    return projects.value.filter(project => project.archived)
+  })
+  
+  /**
+   * 当前列表中的待办事项，按手动顺序排列
+   * 
+   * 下面的过滤和统计都只针对当前列表
+   */
+  const projectTodos = computed(() => {
+    return sortByManualOrder(todos.value.filter(todo => todo.projectId === currentProjectId.value))
+  })
+  
+  /**
+   * 各列表中未完成的待办事项数量
+   */
+  const projectCounts = computed(() => {
+    const counts: Record<string, number> = {}
+    
+    projects.value.forEach(project => {
+      counts[project.id] = 0
+    })
+    todos.value.forEach(todo => {
+      if (!todo.completed) {
+        counts[todo.projectId] = (counts[todo.projectId] ?? 0) + 1
+      }
+    })
+    
+    return counts
+  })
+  
+  /**
+   * 已逾期的未完成待办事项
+   */
+  const overdueTodos = computed(() => {
+    const now = new Date()
+    return projectTodos.value.filter(todo => getDueStatus(todo, now) === 'overdue')
+  })
+  
+  /**
+   * 今天到期的未完成待办事项
+   */
+  const dueTodayTodos = computed(() => {
+    const now = new Date()
+    return projectTodos.value.filter(todo => getDueStatus(todo, now) === 'today')
+  })
+  
+  /**
+   * 即将到期（不含今天）的未完成待办事项
+   */
+  const upcomingTodos = computed(() => {
+    const now = new Date()
+    return projectTodos.value.filter(todo => getDueStatus(todo, now) === 'upcoming')
+  })
+  
+  /**
+   * 已逾期的待办事项数量
+   */
+  const overdueCount = computed(() => overdueTodos.value.length)
+  
+  /**
+   * 今天到期的待办事项数量
+   */
+  const dueTodayCount = computed(() => dueTodayTodos.value.length)
+  
+  /**
+   * 即将到期的待办事项数量
+   */
+  const upcomingCount = computed(() => upcomingTodos.value.length)
+  
+  /**
+   * 各标签被引用的次数
+   */
+  const tagCounts = computed(() => {
+    const counts: Record<string, number> = {}
+    
+    tags.value.forEach(tag => {
+      counts[tag.name] = 0
+    })
+    todos.value.forEach(todo => {
+      todo.tags.forEach(name => {
+        counts[name] = (counts[name] ?? 0) + 1
+      })
+    })
+    
+    return counts
+  })
+  
+  /**
+   * 根据名称查找标签
+   */
+  const getTagByName = computed(() => {
+    return (name: string): Tag | undefined => {
+      return tags.value.find(tag => tag.name === name)
+    }
+  })
+  
+  /**
+   * 根据当前状态过滤器返回待办事项
+   */
+  const statusMatchedTodos = computed(() => {
     switch (filter.value) {
       case 'active':
-        return todos.value.filter(todo => !todo.completed)
+        return projectTodos.value.filter(todo => !todo.completed)
       case 'completed':
-        return todos.value.filter(todo => todo.completed)
+        return projectTodos.value.filter(todo => todo.completed)
+      case 'overdue':
+        return overdueTodos.value
+      case 'today':
+        return dueTodayTodos.value
+      case 'upcoming':
+        return upcomingTodos.value
       case 'all':
       default:
-        return todos.value
+        return projectTodos.value
     }
   })
   
+  /**
+   * 在状态过滤的基础上应用标签过滤
+   */
+  const tagMatchedTodos = computed(() => {
+    if (tagFilter.value.length === 0) {
+      return statusMatchedTodos.value
+    }
+    
+    return statusMatchedTodos.value.filter(todo =>
+      matchesTagFilter(todo.tags, tagFilter.value, tagFilterMode.value)
+    )
+  })
+  
+  /**
+   * 在状态和标签过滤的基础上应用智能过滤的查询条件
+   */
+  const queryMatchedTodos = computed(() => {
+    return filterByQuery(tagMatchedTodos.value, filterQuery.value)
+  })
+  
+  /**
+   * 当前的搜索配置
+   */
+  const searchConfig = computed((): SearchConfig => ({
+    ...searchOptions.value,
+    keyword: searchQuery.value
+  }))
+  
+  /**
+   * 编译后的搜索条件，只在关键字或选项变化时重新编译；模糊匹配时不使用
+   */
+  const searchPattern = computed(() => {
+    return searchOptions.value.fuzzy
+      ? { pattern: null, error: null }
+      : createSearchPattern(searchConfig.value)
+  })
+  
+  /**
+   * 是否使用模糊匹配且关键字不为空
+   */
+  const fuzzyEnabled = computed(() => searchOptions.value.fuzzy && searchQuery.value.trim() !== '')
+  
+  /**
+   * 模糊搜索索引，只重新索引内容有变化的待办事项
+   */
+  const fuzzyIndex = createFuzzyIndex()
+  
+  /**
+   * 与待办事项同步后的模糊搜索索引，没有使用模糊匹配时为null
+   * 
+   * 计算属性是惰性的：批量修改只会把它标记为过期，下次读取搜索结果时才同步一次。
+   * 索引对象本身不变，每次同步后返回新的包装对象，依赖它的搜索结果才会重新计算
+   */
+  const syncedFuzzyIndex = computed((): { index: FuzzyIndex } | null => {
+    if (!fuzzyEnabled.value) {
+      return null
+    }
+    
+    fuzzyIndex.sync(todos.value)
+    return { index: fuzzyIndex }
+  })
+  
+  /**
+   * 模糊搜索的结果，按分数从高到低排列；没有使用模糊匹配或关键字为空时为null
+   */
+  const fuzzyResults = computed((): FuzzyResult[] | null => {
+    return syncedFuzzyIndex.value?.index.search(searchQuery.value) ?? null
+  })
+  
+  /**
+   * 搜索关键字不是有效的正则表达式时的错误信息
+   * 
+   * 与 error 分开保存，输入过程中的无效表达式不会让列表进入错误状态
+   */
+  const searchError = computed(() => searchPattern.value.error)
+  
+  /**
+   * 是否正在模糊搜索，此时列表按相关度排列
+   */
+  const isFuzzySearching = computed(() => fuzzyResults.value !== null)
+  
+  /**
+   * 是否正在搜索（关键字不为空且有效）
+   */
+  const isSearching = computed(() => searchPattern.value.pattern !== null || isFuzzySearching.value)
+  
+  /**
+   * 列表中需要高亮的搜索结果，关闭高亮或没有搜索时为null
+   */
+  const searchHighlight = computed((): SearchHighlight | null => {
+    const { pattern } = searchPattern.value
+    const highlight = searchOptions.value.highlight
+    if (!pattern || highlight?.enabled === false) {
+      return null
+    }
+    
+    return { pattern, className: highlight?.className }
+  })
+  
+  /**
+   * 模糊搜索中各待办事项的匹配范围（待办事项ID -> 字段匹配），关闭高亮或没有模糊搜索时为空对象
+   */
+  const searchMatches = computed((): Record<string, FuzzyFieldMatch[]> => {
+    if (!fuzzyResults.value || searchOptions.value.highlight?.enabled === false) {
+      return {}
+    }
+    
+    return Object.fromEntries(fuzzyResults.value.map(result => [result.id, result.matches]))
+  })
+  
+  /**
+   * 在状态、标签和查询条件过滤的基础上应用搜索，模糊搜索时按相关度排列
+   */
+  const matchedTodos = computed(() => {
+    if (fuzzyResults.value) {
+      const candidates = new Map(queryMatchedTodos.value.map(todo => [todo.id, todo]))
+      return fuzzyResults.value
+        .map(result => candidates.get(result.id))
+        .filter((todo): todo is Todo => todo !== undefined)
+    }
+    
+    const { pattern } = searchPattern.value
+    if (!pattern) {
+      return queryMatchedTodos.value
+    }
+    
+    const fields = searchOptions.value.fields
+    return queryMatchedTodos.value.filter(todo => matchesSearch(todo, pattern, fields))
+  })
+  
+  /**
+   * 过滤并按当前排序配置排序后的待办事项
+   */
+  const filteredTodos = computed(() => {
+    return sortConfig.value ? sortTodos(matchedTodos.value, sortConfig.value) : matchedTodos.value
+  })
+  
   /**
    * 已完成的待办事项数量
    */
   const completedCount = computed(() => {
-    return todos.value.filter(todo => todo.completed).length
+    return projectTodos.value.filter(todo => todo.completed).length
   })
   
   /**
    * 未完成的待办事项数量
    */
   const activeCount = computed(() => {
-    return todos.value.filter(todo => !todo.completed).length
+    return projectTodos.value.filter(todo => !todo.completed).length
+  })
+  
+  /**
+   * 待办事项总数
+   */
+  const totalCount = computed(() => {
+    return projectTodos.value.length
+  })
+  
+  /**
+   * 是否有待办事项
+   */
+  const hasTodos = computed(() => {
+    return projectTodos.value.length > 0
+  })
+  
+  /**
+   * 是否所有待办事项都已完成
+   */
+  const allCompleted = computed(() => {
+    return projectTodos.value.length > 0 && projectTodos.value.every(todo => todo.completed)
+  })
+  
+  /**
+   * 根据ID查找待办事项
+   */
+  const getTodoById = computed(() => {
+    return (id: string): Todo | undefined => {
+      return todos.value.find(todo => todo.id === id)
+    }
+  })
+  
+  /**
+   * 顶层待办事项数量
+   */
+  const topLevelCount = computed(() => {
+    return projectTodos.value.filter(todo => !todo.parentId).length
+  })
+  
+  /**
+   * 子任务数量
+   */
+  const subtaskCount = computed(() => {
+    return projectTodos.value.length - topLevelCount.value
+  })
+  
+  /**
+   * 各父任务的子任务完成进度
+   */
+  const subtaskProgress = computed(() => getProgressMap(todos.value))
+  
+  /**
+   * 获取直接子任务
+   */
+  const getSubtasks = computed(() => {
+    return (id: string): Todo[] => getChildren(todos.value, id)
+  })
+  
+  /**
+   * 是否可以撤销
+   */
+  const canUndo = computed(() => undoStack.value.length > 0)
+  
+  /**
+   * 是否可以重做
+   */
+  const canRedo = computed(() => redoStack.value.length > 0)
+  
+  /**
+   * 下一次撤销的操作名称
+   */
+  const undoLabel = computed(() => undoStack.value[undoStack.value.length - 1]?.label ?? null)
+  
+  /**
+   * 下一次重做的操作名称
+   */
+  const redoLabel = computed(() => redoStack.value[redoStack.value.length - 1]?.label ?? null)
+  
+  /**
+   * 回收站中的待办事项数量（所有列表）
+   */
+  const trashCount = computed(() => trash.value.length)
+  
+  /**
+   * 已归档的待办事项数量（所有列表）
+   */
+  const archiveCount = computed(() => archive.value.length)
+
+  // ===== Actions =====
+  
+  /**
+   * 设置错误信息
+   */
+  const setError = (errorMessage: string | null) => {
+    error.value = errorMessage
+    if (errorMessage) {
+      console.error('[TodoStore]', errorMessage)
+      events.emit(EVENT_NAMES.ERROR_OCCURRED, { message: errorMessage })
+    }
+  }
+  
+  /**
+   * 清除错误信息
+   */
+  const clearError = () => {
+    error.value = null
+  }
+  
+  /**
+   * 将修改待办事项的操作包装为可撤销的操作
+   * 
+   * 执行前后分别保存快照，待办事项有变化时压入撤销栈并清空重做栈，
+   * 并为变化的待办事项发出事件；操作抛出异常或没有产生变化时不记录。
+   * 操作中移入回收站和归档的待办事项一并记录，撤销时从中取出
+   * 
+   * @param label - 操作名称
+   * @param action - 原始操作
+   * @returns 包装后的操作
+   */
+  const recordable = <A extends unknown[], R>(label: string, action: (...args: A) => R) => {
+    return (...args: A): R => {
+      const before = cloneTodos(todos.value)
+      pendingTrashed = []
+      pendingArchived = []
+      const result = action(...args)
+      const trashed = pendingTrashed
+      const archived = pendingArchived
+      pendingTrashed = []
+      pendingArchived = []
+      const after = cloneTodos(todos.value)
+      
+      if (!isSameSnapshot(before, after)) {
+        const entry: HistoryEntry = { label, before, after, timestamp: new Date() }
+        if (trashed.length > 0) {
+          entry.trashed = trashed
+        }
+        if (archived.length > 0) {
+          entry.archived = archived
+        }
+        undoStack.value = pushHistory(undoStack.value, entry, historyLimit.value)
+        redoStack.value = []
+        if (hasTodoListeners()) {
+          emitTodoChanges(before, after, { source: 'action', label })
+        }
+      }
+      
+      return result
+    }
+  }
+  
+  /**
+   * 校验优先级
+   * @param priority - 优先级
+   * @returns 错误信息，校验通过时返回null
+   */
+  const validatePriority = (priority: unknown): string | null => {
+    if (priority !== undefined && !isValidPriority(priority)) {
+      return `无效的优先级: ${String(priority)}`
+    }
+    
+    return null
+  }
+  
+  /**
+   * 校验开始日期和截止日期
+   * @param startDate - 开始日期
+   * @param dueDate - 截止日期
+   * @returns 错误信息，校验通过时返回null
+   */
+  const validateDates = (startDate?: Date | null, dueDate?: Date | null): string | null => {
+    if (startDate && isNaN(startDate.getTime())) {
+      return '开始日期格式不正确'
+    }
+    
+    if (dueDate && isNaN(dueDate.getTime())) {
+      return '截止日期格式不正确'
+    }
+    
+    if (startDate && dueDate && startDate.getTime() > dueDate.getTime()) {
+      return '开始日期不能晚于截止日期'
+    }
+    
+    return null
+  }
+  
+  /**
+   * 校验并规范化标签列表
+   * @param names - 原始标签名称
+   * @returns 错误信息，或规范化后的标签列表
+   */
+  const resolveTagList = (names: string[]): { error: string | null; tags: string[] } => {
+    for (const name of names) {
+      const tagError = validateTagName(normalizeTagName(name))
+      if (tagError) {
+        return { error: `${tagError}: ${name}`, tags: [] }
+      }
+    }
+    
+    return { error: null, tags: normalizeTagList(names) }
+  }
+  
+  /**
+   * 确保标签都已登记到标签库，缺失的标签以默认颜色创建
+   * @param names - 规范化后的标签名称
+   */
+  const ensureTags = (names: string[]) => {
+    names.forEach(name => {
+      if (!tags.value.some(tag => tag.name === name)) {
+        tags.value.push({
+          name,
+          color: pickTagColor(tags.value),
+          createdAt: new Date()
+        })
+      }
+    })
+  }
+  
+  /**
+   * 将所有待办事项和过滤条件中的若干标签替换为目标标签
+   * @param sources - 要替换的标签名称
+   * @param target - 目标标签名称，null表示移除
+   * @param label - 操作名称，用于待办事项事件
+   * @returns 受影响的待办事项数量
+   */
+  const cascadeTagChange = (sources: string[], target: string | null, label: string): number => {
+    const now = new Date()
+    let affected = 0
+    
+    trackTodoChanges({ source: 'action', label }, () => {
+      todos.value.forEach(todo => {
+        const next = replaceTags(todo.tags, sources, target)
+        if (next !== todo.tags) {
+          todo.tags = next
+          todo.updatedAt = now
+          affected++
+        }
+      })
+    })
+    
+    tagFilter.value = replaceTags(tagFilter.value, sources, target)
+    if (affected > 0) {
+      clearHistory()
+    }
+    
+    return affected
+  }
+  
+  /**
+   * 校验列表是否可以放入待办事项
+   * @param projectId - 列表ID
+   * @returns 错误信息，校验通过时返回null
+   */
+  const validateProject = (projectId: string): string | null => {
+    const project = projects.value.find(p => p.id === projectId)
+    
+    if (!project) {
+      return `未找到ID为 ${projectId} 的列表`
+    }
+    
+    if (project.archived) {
+      return `列表 ${project.name} 已归档`
+    }
+    
+    return null
+  }
+  
+  /**
+   * 校验父任务
+   * @param parentId - 父任务ID
+   * @param childId - 要移动的任务ID，新建任务时不传
+   * @param projectId - 子任务所在的列表，父任务必须属于同一列表
+   * @returns 错误信息，校验通过时返回null
+   */
+  const validateParent = (parentId: string, childId?: string, projectId?: string): string | null => {
+    const parent = todos.value.find(todo => todo.id === parentId)
+    if (!parent) {
+      return `未找到ID为 ${parentId} 的父任务`
+    }
+    
+    if (projectId && parent.projectId !== projectId) {
+      return '父任务和子任务必须属于同一列表'
+    }
+    
+    if (childId && (parentId === childId || getDescendantIds(todos.value, childId).includes(parentId))) {
+      return '不能将任务移动到自身或其子任务下'
+    }
+    
+    const height = childId ? getSubtreeHeight(todos.value, childId) : 0
+    if (getDepth(todos.value, parentId) + 1 + height > VALIDATION_RULES.MAX_SUBTASK_DEPTH) {
+      return `子任务最多嵌套${VALIDATION_RULES.MAX_SUBTASK_DEPTH}层`
+    }
+    
+    return null
+  }
+  
+  /**
+   * 将待办事项移出列表并放入回收站
+   * 
+   * 移入的待办事项会记录到当前操作的历史记录中，撤销时从回收站取出
+   * 
+   * @param removed - 要移入回收站的待办事项ID
+   * @param now - 删除时间
+   */
+  const moveToTrash = (removed: Set<string>, now: Date) => {
+    const items = toTrashedTodos(todos.value.filter(todo => removed.has(todo.id)), now)
+    trash.value = [...items, ...trash.value]
+    pendingTrashed.push(...items)
+    todos.value = todos.value.filter(todo => !removed.has(todo.id))
+  }
+  
+  /**
+   * 将待办事项移出列表并归档
+   * 
+   * 归档的待办事项会记录到当前操作的历史记录中，撤销时从归档中取出
+   * 
+   * @param archivedIds - 要归档的待办事项ID
+   * @param now - 归档时间
+   */
+  const moveToArchive = (archivedIds: Set<string>, now: Date) => {
+    const items = toArchivedTodos(todos.value.filter(todo => archivedIds.has(todo.id)), now)
+    archive.value = [...items, ...archive.value]
+    pendingArchived.push(...items)
+    todos.value = todos.value.filter(todo => !archivedIds.has(todo.id))
+  }
+  
+  /**
+   * 将回收站或归档中的一组待办事项放回列表，之后清空撤销历史
+   * 
+   * 根任务的父任务仍然存在时放回父任务下；否则作为顶层任务，
+   * 原列表已删除或归档时放入当前列表
+   * 
+   * @param root - 根任务
+   * @param items - 根任务及其子任务
+   * @param label - 操作名称
+   */
+  const reinsertTodos = (root: Todo, items: Todo[], label: string) => {
+    const now = new Date()
+    const existingIds = new Set(todos.value.map(todo => todo.id))
+    const parent = root.parentId ? todos.value.find(todo => todo.id === root.parentId) : undefined
+    const project = projects.value.find(p => p.id === root.projectId)
+    const projectId = parent?.projectId ?? (project && !project.archived ? project.id : currentProjectId.value)
+    
+    const restored = items
+      .filter(todo => !existingIds.has(todo.id))
+      .map(todo => ({ ...todo, projectId, updatedAt: now }))
+    
+    trackTodoChanges({ source: 'action', label }, () => {
+      todos.value = repairHierarchy([...todos.value, ...restored])
+      syncAncestors(parent?.id, now)
+    })
+    restored.forEach(todo => ensureTags(todo.tags))
+    clearHistory()
+  }
+  
+  /**
+   * 根据子任务状态同步祖先任务的完成状态
+   * @param parentId - 起始的父任务ID
+   * @param now - 更新时间
+   */
+  const syncAncestors = (parentId: string | undefined, now: Date) => {
+    let parent = parentId ? todos.value.find(t => t.id === parentId) : undefined
+    
+    while (parent) {
+      const children = getChildren(todos.value, parent.id)
+      const allDone = children.length > 0 && children.every(child => child.completed)
+      
+      if (allDone && !parent.completed && cascadeRules.value.completeParentWithChildren) {
+        parent.completed = true
+      } else if (!allDone && parent.completed && cascadeRules.value.reopenParentWithChild) {
+        parent.completed = false
+      } else {
+        // 当前层级没有变化，更上层也不会受影响
+        break
+      }
+      
+      parent.updatedAt = now
+      const nextId: string | undefined = parent.parentId
+      parent = nextId ? todos.value.find(t => t.id === nextId) : undefined
+    }
+  }
+  
+  /**
+   * 在任务完成状态变化后按级联规则更新子任务和祖先任务
+   * @param todo - 状态已变化的待办事项
+   * @param now - 更新时间
+   */
+  const applyCascade = (todo: Todo, now: Date) => {
+    if (todo.completed && cascadeRules.value.completeChildrenWithParent) {
+      const descendantIds = new Set(getDescendantIds(todos.value, todo.id))
+      todos.value.forEach(item => {
+        if (descendantIds.has(item.id) && !item.completed) {
+          item.completed = true
+          item.updatedAt = now
+        }
+      })
+    }
+    
+    syncAncestors(todo.parentId, now)
+  }
+  
+  /**
+   * 为刚完成的重复待办事项生成下一次的待办事项
+   * 
+   * 重复规则会转移到新的待办事项上，已完成的这一次不再重复，
+   * 避免反复切换完成状态时生成多个下一次
+   * 
+   * @param todo - 刚完成的待办事项
+   * @param now - 完成时间
+   * @returns 新生成的待办事项，不需要重复时返回null
+   */
+  const spawnNextOccurrence = (todo: Todo, now: Date): Todo | null => {
+    const dates = getNextOccurrenceDates(todo, now)
+    if (!dates || !todo.recurrence) {
+      return null
+    }
+    
+    const next: Todo = {
+      id: generateId(),
+      title: todo.title,
+      completed: false,
+      priority: todo.priority,
+      tags: [...todo.tags],
+      projectId: todo.projectId,
+      createdAt: now,
+      updatedAt: now,
+      dueDate: dates.dueDate,
+      recurrence: pinRecurrenceRule(todo.recurrence, todo.dueDate)
+    }
+    
+    if (dates.startDate) {
+      next.startDate = dates.startDate
+    }
+    
+    if (todo.parentId) {
+      next.parentId = todo.parentId
+    }
+    
+    delete todo.recurrence
+    todos.value.push(next)
+    return next
+  }
+  
+  /**
+   * 将待办事项及其所有子任务移动到另一个列表
+   * 
+   * 父任务不在目标列表中时会脱离父任务成为顶层任务
+   * 
+   * @param todo - 要移动的待办事项
+   * @param projectId - 目标列表ID
+   * @param now - 更新时间
+   */
+  const moveSubtreeToProject = (todo: Todo, projectId: string, now: Date) => {
+    const movedIds = new Set([todo.id, ...getDescendantIds(todos.value, todo.id)])
+    todos.value.forEach(item => {
+      if (movedIds.has(item.id)) {
+        item.projectId = projectId
+        item.updatedAt = now
+        // 原列表中的排序键在新列表中没有意义，排到新列表的最后
+        delete item.order
+      }
+    })
+    
+    const parent = todo.parentId ? todos.value.find(t => t.id === todo.parentId) : undefined
+    if (parent && parent.projectId !== projectId) {
+      delete todo.parentId
+      syncAncestors(parent.id, now)
+    }
+  }
+  
+  /**
+   * 添加新的待办事项
+   * 
+   * 校验之前先调用插件的 beforeAdd 钩子，插件可以修改输入或取消添加
+   * 
+   * @param rawTitle - 待办事项标题
+   * @param rawOptions - 可选的优先级、标签、开始/截止日期、父任务、所属列表、重复规则、插件字段
+   * @returns 新创建的待办事项
+   */
+  const addTodo = recordable('添加待办事项', (rawTitle: string, rawOptions: Omit<CreateTodoInput, 'title'> = {}): Todo => {
+    const prepared = runBeforeAdd({ ...rawOptions, title: rawTitle })
+    if (prepared.cancelledBy) {
+      const cancelError = new TodoError(`插件 ${prepared.cancelledBy} 取消了添加`, ErrorCode.PLUGIN_ERROR, { plugin: prepared.cancelledBy })
+      setError(cancelError.message)
+      throw cancelError
+    }
+    const { title, ...options } = prepared.input
+    
+    // 验证输入
+    const titleError = toTodoError(validateTitle(title))
+    if (titleError) {
+      setError(titleError.message)
+      throw titleError
+    }
+    
+    // 子任务默认放在父任务所在的列表中
+    const parent = options.parentId ? todos.value.find(t => t.id === options.parentId) : undefined
+    const projectId = options.projectId ?? parent?.projectId ?? currentProjectId.value
+    const resolvedTags = resolveTagList(options.tags ?? [])
+    const pluginFields = resolvePluginFields(options.fields, true)
+    const optionsError = validatePriority(options.priority) ||
+      validateDates(options.startDate, options.dueDate) ||
+      resolvedTags.error ||
+      validateProject(projectId) ||
+      (options.parentId ? validateParent(options.parentId, undefined, projectId) : null) ||
+      (options.recurrence ? validateRecurrenceRule(options.recurrence) : null) ||
+      pluginFields.error
+    if (optionsError) {
+      setError(optionsError)
+      throw new Error(optionsError)
+    }
+    
+    clearError()
+    ensureTags(resolvedTags.tags)
+    
+    const now = new Date()
+    const newTodo: Todo = {
+      id: generateId(),
+      title: title.trim(),
+      completed: false,
+      priority: options.priority ?? 'none',
+      tags: resolvedTags.tags,
+      projectId,
+      createdAt: now,
+      updatedAt: now
+    }
+    
+    if (options.dueDate) {
+      newTodo.dueDate = options.dueDate
+    }
+    
+    if (options.startDate) {
+      newTodo.startDate = options.startDate
+    }
+    
+    if (options.parentId) {
+      newTodo.parentId = options.parentId
+    }
+    
+    if (options.recurrence) {
+      newTodo.recurrence = pinRecurrenceRule(options.recurrence, options.dueDate)
+    }
+    
+    Object.assign(newTodo, pluginFields.fields)
+    
+    todos.value.push(newTodo)
+    syncAncestors(newTodo.parentId, now)
+    return newTodo
+  })
+  
+  /**
+   * 切换待办事项的完成状态
+   * 
+   * 会按照 cascadeRules 同步子任务和父任务的完成状态；
+   * 完成重复待办事项时会生成下一次的待办事项；最后调用插件的 afterToggle 钩子
+   * 
+   * @param id - 待办事项ID
+   * @returns 是否操作成功
+   */
+  const toggleTodo = recordable('切换完成状态', (id: string): boolean => {
+    const todo = todos.value.find(t => t.id === id)
+    
+    if (!todo) {
+      const errorMsg = `未找到ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    const now = new Date()
+    todo.completed = !todo.completed
+    todo.updatedAt = now
+    if (todo.completed) {
+      spawnNextOccurrence(todo, now)
+    }
+    applyCascade(todo, now)
+    runAfterToggle(cloneTodo(todo))
+    
+    return true
+  })
+  
+  /**
+   * 删除待办事项，其所有子任务会一并删除
+   * 
+   * 删除的待办事项移入回收站，可以恢复；插件的 beforeDelete 钩子返回 false 时取消删除
+   * 
+   * @param id - 待办事项ID
+   * @returns 是否操作成功
+   */
+  const deleteTodo = recordable('删除待办事项', (id: string): boolean => {
+    const index = todos.value.findIndex(t => t.id === id)
+    
+    if (index === -1) {
+      const errorMsg = `未找到ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
+    }
+    
+    const cancelledBy = runBeforeDelete(cloneTodo(todos.value[index]))
+    if (cancelledBy) {
+      setError(`插件 ${cancelledBy} 取消了删除`)
+      return false
+    }
+    
+    clearError()
+    moveToTrash(new Set([id, ...getDescendantIds(todos.value, id)]), new Date())
+    
+    return true
+  })
+  
+  /**
+   * 更新待办事项
+   * 
+   * 传入字符串时只更新标题；传入对象时按字段更新，
+   * 日期字段传入null表示清除，标签字段整体替换，插件字段取值为undefined表示清除；
+   * 修改所属列表时子任务一同移动，父任务不在目标列表中的会变为顶层任务
+   * 
+   * @param id - 待办事项ID
+   * @param input - 新标题或要更新的字段
+   * @returns 是否操作成功
+   */
+  const updateTodo = recordable('更新待办事项', (id: string, input: string | UpdateTodoInput): boolean => {
+    const updates: UpdateTodoInput = typeof input === 'string' ? { title: input } : input
+    
+    // 验证输入
+    if (updates.title !== undefined) {
+      const titleResult = validateTitle(updates.title)
+      if (!titleResult.valid) {
+        setError(titleResult.errors[0].message)
+        return false
+      }
+    }
+    
+    const todo = todos.value.find(t => t.id === id)
+    
+    if (!todo) {
+      const errorMsg = `未找到ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
+    }
+    
+    // 以更新后的日期组合进行校验
+    const nextStartDate = updates.startDate !== undefined ? updates.startDate : todo.startDate
+    const nextDueDate = updates.dueDate !== undefined ? updates.dueDate : todo.dueDate
+    const nextProjectId = updates.projectId ?? todo.projectId
+    const resolvedTags = resolveTagList(updates.tags ?? [])
+    const pluginFields = resolvePluginFields(updates.fields)
+    const fieldError = validatePriority(updates.priority) ||
+      validateDates(nextStartDate, nextDueDate) ||
+      resolvedTags.error ||
+      (nextProjectId !== todo.projectId ? validateProject(nextProjectId) : null) ||
+      (updates.parentId ? validateParent(updates.parentId, id, nextProjectId) : null) ||
+      (updates.recurrence ? validateRecurrenceRule(updates.recurrence) : null) ||
+      pluginFields.error
+    if (fieldError) {
+      setError(fieldError)
+      return false
+    }
+    
+    clearError()
+    const now = new Date()
+    
+    if (updates.title !== undefined) {
+      todo.title = updates.title.trim()
+    }
+    
+    const completedChanged = updates.completed !== undefined && updates.completed !== todo.completed
+    if (updates.completed !== undefined) {
+      todo.completed = updates.completed
+    }
+    
+    if (updates.priority !== undefined) {
+      todo.priority = updates.priority
+    }
+    
+    if (updates.tags !== undefined) {
+      ensureTags(resolvedTags.tags)
+      todo.tags = resolvedTags.tags
+    }
+    
+    if (updates.dueDate !== undefined) {
+      if (updates.dueDate) {
+        todo.dueDate = updates.dueDate
+      } else {
+        delete todo.dueDate
+      }
+    }
+    
+    if (updates.startDate !== undefined) {
+      if (updates.startDate) {
+        todo.startDate = updates.startDate
+      } else {
+        delete todo.startDate
+      }
+    }
+    
+    if (updates.recurrence !== undefined) {
+      if (updates.recurrence) {
+        todo.recurrence = pinRecurrenceRule(updates.recurrence, todo.dueDate)
+      } else {
+        delete todo.recurrence
+      }
+    }
+    
+    const record = todo as unknown as Record<string, unknown>
+    Object.entries(pluginFields.fields).forEach(([key, value]) => {
+      if (value === undefined) {
+        delete record[key]
+      } else {
+        record[key] = value
+      }
+    })
+    
+    todo.updatedAt = now
+    
+    if (updates.parentId !== undefined && (updates.parentId ?? undefined) !== todo.parentId) {
+      const previousParentId = todo.parentId
+      if (updates.parentId) {
+        todo.parentId = updates.parentId
+      } else {
+        delete todo.parentId
+      }
+      syncAncestors(previousParentId, now)
+      syncAncestors(todo.parentId, now)
+    }
+    
+    if (nextProjectId !== todo.projectId) {
+      moveSubtreeToProject(todo, nextProjectId, now)
+    }
+    
+    if (completedChanged) {
+      if (todo.completed) {
+        spawnNextOccurrence(todo, now)
+      }
+      applyCascade(todo, now)
+    }
+    
+    return true
+  })
+  
+  /**
+   * 设置过滤器
+   * @param newFilter - 新的过滤器类型
+   */
+  const setFilter = (newFilter: FilterType) => {
+    const previous = filter.value
+    filter.value = newFilter
+    clearError()
+    
+    if (previous !== newFilter) {
+      events.emit(EVENT_NAMES.FILTER_CHANGED, { filter: newFilter, previous })
+    }
+  }
+  
+  /**
+   * 设置排序配置
+   * @param config - 排序配置，传入null恢复插入顺序
+   */
+  const setSortConfig = (config: SortConfig<Todo> | null) => {
+    sortConfig.value = config
+    clearError()
+  }
+  
+  /**
+   * 创建标签
+   * @param name - 标签名称
+   * @param color - 标签颜色，未指定时从默认调色板中选取
+   * @returns 新创建的标签
+   */
+  const createTag = (name: string, color?: string): Tag => {
+    const tagName = normalizeTagName(name)
+    const nameError = validateTagName(tagName)
+    if (nameError) {
+      setError(nameError)
+      throw new Error(nameError)
+    }
+    
+    if (tags.value.some(tag => tag.name === tagName)) {
+      const errorMsg = `标签 ${tagName} 已存在`
+      setError(errorMsg)
+      throw new Error(errorMsg)
+    }
+    
+    if (color !== undefined && !isValidTagColor(color)) {
+      const errorMsg = `无效的标签颜色: ${color}`
+      setError(errorMsg)
+      throw new Error(errorMsg)
+    }
+    
+    clearError()
+    
+    const newTag: Tag = {
+      name: tagName,
+      color: color ?? pickTagColor(tags.value),
+      createdAt: new Date()
+    }
+    
+    tags.value.push(newTag)
+    return newTag
+  }
+  
+  /**
+   * 重命名标签，并同步更新所有引用该标签的待办事项
+   * @param oldName - 原标签名称
+   * @param newName - 新标签名称
+   * @returns 是否操作成功
+   */
+  const renameTag = (oldName: string, newName: string): boolean => {
+    const tag = tags.value.find(t => t.name === oldName)
+    
+    if (!tag) {
+      const errorMsg = `未找到名称为 ${oldName} 的标签`
+      setError(errorMsg)
+      return false
+    }
+    
+    const tagName = normalizeTagName(newName)
+    const nameError = validateTagName(tagName)
+    if (nameError) {
+      setError(nameError)
+      return false
+    }
+    
+    if (tagName !== oldName && tags.value.some(t => t.name === tagName)) {
+      const errorMsg = `标签 ${tagName} 已存在，请使用合并标签`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    
+    if (tagName !== oldName) {
+      tag.name = tagName
+      cascadeTagChange([oldName], tagName, '重命名标签')
+    }
+    
+    return true
+  }
+  
+  /**
+   * 修改标签颜色
+   * @param name - 标签名称
+   * @param color - 新的颜色
+   * @returns 是否操作成功
+   */
+  const recolorTag = (name: string, color: string): boolean => {
+    const tag = tags.value.find(t => t.name === name)
+    
+    if (!tag) {
+      const errorMsg = `未找到名称为 ${name} 的标签`
+      setError(errorMsg)
+      return false
+    }
+    
+    if (!isValidTagColor(color)) {
+      const errorMsg = `无效的标签颜色: ${color}`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    tag.color = color
+    
+    return true
+  }
+  
+  /**
+   * 将多个标签合并为一个标签
+   * 
+   * 源标签会从标签库中移除，引用源标签的待办事项改为引用目标标签；
+   * 目标标签不存在时会自动创建
+   * 
+   * @param sources - 要合并的标签名称
+   * @param target - 目标标签名称
+   * @returns 是否操作成功
+   */
+  const mergeTags = (sources: string[], target: string): boolean => {
+    const targetName = normalizeTagName(target)
+    const nameError = validateTagName(targetName)
+    if (nameError) {
+      setError(nameError)
+      return false
+    }
+    
+    const missing = sources.find(name => !tags.value.some(tag => tag.name === name))
+    if (missing !== undefined) {
+      const errorMsg = `未找到名称为 ${missing} 的标签`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    
+    const sourceNames = sources.filter(name => name !== targetName)
+    ensureTags([targetName])
+    tags.value = tags.value.filter(tag => !sourceNames.includes(tag.name))
+    cascadeTagChange(sourceNames, targetName, '合并标签')
+    
+    return true
+  }
+  
+  /**
+   * 删除标签，并从所有待办事项中移除该标签
+   * @param name - 标签名称
+   * @returns 是否操作成功
+   */
+  const deleteTag = (name: string): boolean => {
+    const index = tags.value.findIndex(tag => tag.name === name)
+    
+    if (index === -1) {
+      const errorMsg = `未找到名称为 ${name} 的标签`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    tags.value.splice(index, 1)
+    cascadeTagChange([name], null, '删除标签')
+    
+    return true
+  }
+  
+  /**
+   * 设置标签过滤条件
+   * @param names - 选中的标签名称，空数组表示不过滤
+   * @param mode - 匹配方式，未指定时保持当前方式
+   */
+  const setTagFilter = (names: string[], mode?: TagMatchMode) => {
+    tagFilter.value = normalizeTagList(names)
+    if (mode) {
+      tagFilterMode.value = mode
+    }
+    clearError()
+  }
+  
+  /**
+   * 切换单个标签的选中状态
+   * @param name - 标签名称
+   */
+  const toggleTagFilter = (name: string) => {
+    tagFilter.value = tagFilter.value.includes(name)
+      ? tagFilter.value.filter(tag => tag !== name)
+      : [...tagFilter.value, name]
+    clearError()
+  }
+  
+  /**
+   * 设置搜索关键字
+   * @param query - 搜索关键字，空字符串表示不搜索
+   */
+  const setSearchQuery = (query: string) => {
+    searchQuery.value = query
+  }
+  
+  /**
+   * 修改搜索选项
+   * @param options - 要修改的选项，未提供的保持不变
+   * @returns 是否操作成功
+   */
+  const setSearchOptions = (options: Partial<SearchOptions>): boolean => {
+    if (options.fields && options.fields.length === 0) {
+      const errorMsg = '至少需要搜索一个字段'
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    searchOptions.value = {
+      ...searchOptions.value,
+      ...options,
+      fields: options.fields ? [...options.fields] : searchOptions.value.fields
+    }
+    
+    return true
+  }
+  
+  /**
+   * 清除搜索关键字，搜索选项保持不变
+   */
+  const clearSearch = () => {
+    searchQuery.value = ''
+  }
+  
+  /**
+   * 设置智能过滤的查询条件
+   * 
+   * 查询文本格式错误时保留原有的条件，错误信息保存在 filterQueryError 中，
+   * 与 error 分开保存，输入过程中的错误不会让列表进入错误状态
+   * 
+   * @param query - 查询文本或已解析的语法树，空字符串或null表示不过滤
+   * @returns 是否操作成功
+   */
+  const setFilterQuery = (query: string | QueryNode | null): boolean => {
+    if (query === null || typeof query !== 'string') {
+      filterQuery.value = query
+      filterQueryText.value = query ? stringifyQuery(query) : ''
+      filterQueryError.value = null
+      return true
+    }
+    
+    const result = parseQuery(query)
+    if (result.error) {
+      filterQueryError.value = result.error
+      return false
+    }
+    
+    filterQuery.value = result.query
+    filterQueryText.value = result.query ? query.trim() : ''
+    filterQueryError.value = null
+    return true
+  }
+  
+  /**
+   * 清除智能过滤的查询条件
+   */
+  const clearFilterQuery = () => {
+    setFilterQuery(null)
+  }
+  
+  /**
+   * 切换当前列表中所有待办事项的完成状态
+   * 
+   * 每个状态有变化的待办事项都会调用插件的 afterToggle 钩子
+   * 
+   * @param completed - 目标完成状态
+   */
+  const toggleAllTodos = recordable('批量切换完成状态', (completed: boolean) => {
+    const now = new Date()
+    
+    // 先复制列表，新生成的重复待办事项不参与本次切换
+    const current = [...projectTodos.value]
+    const toggled = current.filter(todo => todo.completed !== completed)
+    toggled.forEach(todo => {
+      todo.completed = completed
+      todo.updatedAt = now
+      if (completed) {
+        spawnNextOccurrence(todo, now)
+      }
+    })
+    toggled.forEach(todo => runAfterToggle(cloneTodo(todo)))
+    
+    clearError()
+  })
+  
+  /**
+   * 设置完成状态的级联规则
+   * @param rules - 要修改的规则，未指定的规则保持不变
+   */
+  const setCascadeRules = (rules: Partial<CascadeRules>) => {
+    cascadeRules.value = { ...cascadeRules.value, ...rules }
+    clearError()
+  }
+  
+  /**
+   * 当前列表中可以清除或归档的已完成待办事项
+   * 
+   * 仍有未完成后代的已完成父任务不包含在内
+   * 
+   * @returns 待办事项ID
+   */
+  const getSettledCompletedIds = (): Set<string> => {
+    // 标记所有包含未完成后代的任务，其他列表的待办事项也全部保留
+    const keep = new Set<string>()
+    todos.value.forEach(todo => {
+      if (todo.projectId !== currentProjectId.value) {
+        keep.add(todo.id)
+      } else if (!todo.completed) {
+        getAncestorIds(todos.value, todo.id).forEach(ancestorId => keep.add(ancestorId))
+      }
+    })
+    
+    return new Set(
+      todos.value.filter(todo => todo.completed && !keep.has(todo.id)).map(todo => todo.id)
+    )
+  }
+  
+  /**
+   * 清除当前列表中所有已完成的待办事项
+   * 
+   * 仍有未完成子任务的已完成父任务会被保留，避免子任务失去父任务；
+   * 清除的待办事项移入回收站。插件的 beforeDelete 钩子返回 false 的待办事项
+   * 连同其父任务一起保留，其余的照常清除
+   * 
+   * @returns 被删除的待办事项数量
+   */
+  const clearCompleted = recordable('清除已完成', (): number => {
+    const candidates = getSettledCompletedIds()
+    const kept = new Set<string>()
+    const cancelledBy = new Set<string>()
+    
+    candidates.forEach(id => {
+      const todo = todos.value.find(t => t.id === id)
+      const plugin = todo ? runBeforeDelete(cloneTodo(todo)) : null
+      if (plugin) {
+        cancelledBy.add(plugin)
+        kept.add(id)
+        getAncestorIds(todos.value, id).forEach(ancestorId => kept.add(ancestorId))
+      }
+    })
+    
+    const removed = new Set([...candidates].filter(id => !kept.has(id)))
+    moveToTrash(removed, new Date())
+    
+    if (cancelledBy.size > 0) {
+      setError(`插件 ${[...cancelledBy].join('、')} 取消了部分删除`)
+    } else {
+      clearError()
+    }
+    
+    return removed.size
   })
   
   /**
-   * 待办事项总数
+   * 从回收站恢复待办事项，其在回收站中的子任务一并恢复
+   * 
+   * 父任务仍然存在时恢复到父任务下；否则恢复为顶层任务，
+   * 原列表已删除或归档时放入当前列表。恢复后清空撤销历史
+   * 
+   * @param id - 回收站中的待办事项ID
+   * @returns 是否操作成功
    */
-  const totalCount = computed(() => {
-    return todos.value.length
-  })
+  const restoreFromTrash = (id: string): boolean => {
+    const item = trash.value.find(t => t.id === id)
+    
+    if (!item) {
+      const errorMsg = `回收站中没有ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    
+    const ids = new Set(getTrashSubtreeIds(trash.value, id))
+    const items = trash.value.filter(t => ids.has(t.id)).map(fromTrashedTodo)
+    reinsertTodos(fromTrashedTodo(item), items, '从回收站恢复')
+    trash.value = trash.value.filter(t => !ids.has(t.id))
+    
+    return true
+  }
   
   /**
-   * 是否有待办事项
+   * 归档当前列表中所有已完成的待办事项
+   * 
+   * 与清除已完成相同，仍有未完成子任务的已完成父任务会被保留；
+   * 归档的待办事项单独保存，可以在归档视图中查找和取消归档
+   * 
+   * @returns 归档的待办事项数量
    */
-  const hasTodos = computed(() => {
-    return todos.value.length > 0
+  const archiveCompleted = recordable('归档已完成', (): number => {
+    const archivedIds = getSettledCompletedIds()
+    
+    moveToArchive(archivedIds, new Date())
+    clearError()
+    
+    return archivedIds.size
   })
   
   /**
-   * 是否所有待办事项都已完成
+   * 取消归档，其已归档的子任务一并放回列表
+   * 
+   * 放回的位置与从回收站恢复相同，之后清空撤销历史
+   * 
+   * @param id - 已归档的待办事项ID
+   * @returns 是否操作成功
    */
-  const allCompleted = computed(() => {
-    return todos.value.length > 0 && todos.value.every(todo => todo.completed)
-  })
+  const unarchiveTodo = (id: string): boolean => {
+    const item = archive.value.find(a => a.id === id)
+    
+    if (!item) {
+      const errorMsg = `归档中没有ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    
+    const ids = new Set([id, ...getDescendantIds(archive.value, id)])
+    const items = archive.value.filter(a => ids.has(a.id)).map(fromArchivedTodo)
+    reinsertTodos(fromArchivedTodo(item), items, '取消归档')
+    archive.value = archive.value.filter(a => !ids.has(a.id))
+    
+    return true
+  }
   
   /**
-   * 根据ID查找待办事项
+   * 从回收站彻底删除待办事项，其在回收站中的子任务一并删除
+   * @param id - 回收站中的待办事项ID
+   * @returns 是否操作成功
    */
-  const getTodoById = computed(() => {
-    return (id: string): Todo | undefined => {
-      return todos.value.find(todo => todo.id === id)
+  const purgeFromTrash = (id: string): boolean => {
+    if (!trash.value.some(t => t.id === id)) {
+      const errorMsg = `回收站中没有ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
     }
-  })
-
-  // ===== Actions =====
+    
+    clearError()
+    const ids = new Set(getTrashSubtreeIds(trash.value, id))
+    trash.value = trash.value.filter(t => !ids.has(t.id))
+    
+    return true
+  }
   
   /**
-   * 设置错误信息
+   * 清空回收站
+   * @returns 彻底删除的数量
    */
-  const setError = (errorMessage: string | null) => {
-    error.value = errorMessage
-    if (errorMessage) {
-      console.error('[TodoStore]', errorMessage)
-    }
+  const emptyTrash = (): number => {
+    const count = trash.value.length
+    trash.value = []
+    clearError()
+    
+    return count
   }
   
   /**
-   * 清除错误信息
+   * 彻底删除回收站中超过保留天数的待办事项
+   * @param now - 当前时间
+   * @returns 彻底删除的数量
    */
-  const clearError = () => {
-    error.value = null
+  const purgeExpiredTrash = (now: Date = new Date()): number => {
+    const { kept, expired } = splitExpiredTrash(trash.value, trashRetentionDays.value, now)
+    if (expired.length > 0) {
+      trash.value = kept
+    }
+    
+    return expired.length
   }
   
   /**
-   * 添加新的待办事项
-   * @param title - 待办事项标题
-   * @returns 新创建的待办事项
+   * 设置回收站的保留天数，超过新天数的待办事项会被立即彻底删除
+   * @param days - 保留天数
+   * @returns 是否操作成功
    */
-  const addTodo = (title: string): Todo => {
-    // 验证输入
-    if (!title || title.trim().length === 0) {
-      const errorMsg = '待办事项标题不能为空'
+  const setTrashRetention = (days: number): boolean => {
+    if (!Number.isInteger(days) || days < 1 || days > TRASH_CONFIG.MAX_RETENTION_DAYS) {
+      const errorMsg = `回收站保留天数必须是1到${TRASH_CONFIG.MAX_RETENTION_DAYS}之间的整数`
       setError(errorMsg)
-      throw new Error(errorMsg)
+      return false
     }
     
-    if (title.trim().length > 200) {
-      const errorMsg = '待办事项标题不能超过200个字符'
-      setError(errorMsg)
-      throw new Error(errorMsg)
+    clearError()
+    trashRetentionDays.value = days
+    purgeExpiredTrash()
+    
+    return true
+  }
+  
+  /**
+   * 创建列表
+   * @param name - 列表名称
+   * @returns 新创建的列表
+   */
+  const createProject = (name: string): Project => {
+    const projectName = name.trim()
+    const nameError = validateProjectName(projectName, projects.value)
+    if (nameError) {
+      setError(nameError)
+      throw new Error(nameError)
     }
     
     clearError()
     
     const now = new Date()
-    const newTodo: Todo = {
+    const newProject: Project = {
       id: generateId(),
-      title: title.trim(),
-      completed: false,
+      name: projectName,
+      archived: false,
       createdAt: now,
       updatedAt: now
     }
     
-    todos.value.push(newTodo)
-    return newTodo
+    projects.value.push(newProject)
+    return newProject
   }
   
   /**
-   * 切换待办事项的完成状态
-   * @param id - 待办事项ID
+   * 重命名列表
+   * @param id - 列表ID
+   * @param name - 新的列表名称
    * @returns 是否操作成功
    */
-  const toggleTodo = (id: string): boolean => {
-    const todo = todos.value.find(t => t.id === id)
+  const renameProject = (id: string, name: string): boolean => {
+    const project = projects.value.find(p => p.id === id)
     
-    if (!todo) {
-      const errorMsg = `未找到ID为 ${id} 的待办事项`
+    if (!project) {
+      const errorMsg = `未找到ID为 ${id} 的列表`
       setError(errorMsg)
       return false
     }
     
+    const projectName = name.trim()
+    const nameError = validateProjectName(projectName, projects.value, id)
+    if (nameError) {
+      setError(nameError)
+      return false
+    }
+    
     clearError()
-    todo.completed = !todo.completed
-    todo.updatedAt = new Date()
+    
+    if (project.name !== projectName) {
+      project.name = projectName
+      project.updatedAt = new Date()
+    }
     
     return true
   }
   
   /**
-   * 删除待办事项
-   * @param id - 待办事项ID
+   * 调整列表的显示顺序
+   * @param id - 列表ID
+   * @param toIndex - 目标位置
    * @returns 是否操作成功
    */
-  const deleteTodo = (id: string): boolean => {
-    const index = todos.value.findIndex(t => t.id === id)
+  const moveProject = (id: string, toIndex: number): boolean => {
+    const index = projects.value.findIndex(p => p.id === id)
     
     if (index === -1) {
-      const errorMsg = `未找到ID为 ${id} 的待办事项`
+      const errorMsg = `未找到ID为 ${id} 的列表`
       setError(errorMsg)
       return false
     }
     
     clearError()
-    todos.value.splice(index, 1)
+    projects.value = moveItem(projects.value, index, toIndex)
     
     return true
   }
   
   /**
-   * 更新待办事项标题
-   * @param id - 待办事项ID
-   * @param title - 新标题
+   * 归档或恢复列表
+   * 
+   * 至少保留一个未归档的列表；归档当前列表时会切换到第一个未归档的列表
+   * 
+   * @param id - 列表ID
+   * @param archived - 是否归档
    * @returns 是否操作成功
    */
-  const updateTodo = (id: string, title: string): boolean => {
-    // 验证输入
-    if (!title || title.trim().length === 0) {
-      const errorMsg = '待办事项标题不能为空'
+  const archiveProject = (id: string, archived = true): boolean => {
+    const project = projects.value.find(p => p.id === id)
+    
+    if (!project) {
+      const errorMsg = `未找到ID为 ${id} 的列表`
       setError(errorMsg)
       return false
     }
     
-    if (title.trim().length > 200) {
-      const errorMsg = '待办事项标题不能超过200个字符'
+    if (archived && !project.archived && activeProjects.value.length <= 1) {
+      const errorMsg = '至少需要保留一个未归档的列表'
       setError(errorMsg)
       return false
     }
     
-    const todo = todos.value.find(t => t.id === id)
+    clearError()
     
-    if (!todo) {
-      const errorMsg = `未找到ID为 ${id} 的待办事项`
+    if (project.archived !== archived) {
+      project.archived = archived
+      project.updatedAt = new Date()
+    }
+    
+    if (archived && currentProjectId.value === id) {
+      currentProjectId.value = activeProjects.value[0].id
+    }
+    
+    return true
+  }
+  
+  /**
+   * 删除列表
+   * 
+   * 列表中的待办事项会被一并删除，指定 moveTodosTo 时改为移动到该列表
+   * 
+   * @param id - 列表ID
+   * @param moveTodosTo - 接收待办事项的列表ID
+   * @returns 是否操作成功
+   */
+  const deleteProject = (id: string, moveTodosTo?: string): boolean => {
+    const project = projects.value.find(p => p.id === id)
+    
+    if (!project) {
+      const errorMsg = `未找到ID为 ${id} 的列表`
+      setError(errorMsg)
+      return false
+    }
+    
+    const remaining = projects.value.filter(p => p.id !== id)
+    if (!remaining.some(p => !p.archived)) {
+      const errorMsg = '至少需要保留一个未归档的列表'
       setError(errorMsg)
       return false
     }
     
+    if (moveTodosTo !== undefined) {
+      const targetError = moveTodosTo === id
+        ? '不能将待办事项移动到要删除的列表'
+        : validateProject(moveTodosTo)
+      if (targetError) {
+        setError(targetError)
+        return false
+      }
+    }
+    
     clearError()
-    todo.title = title.trim()
-    todo.updatedAt = new Date()
+    
+    trackTodoChanges({ source: 'action', label: '删除列表' }, () => {
+      if (moveTodosTo !== undefined) {
+        const now = new Date()
+        todos.value.forEach(todo => {
+          if (todo.projectId === id) {
+            todo.projectId = moveTodosTo
+            todo.updatedAt = now
+          }
+        })
+      } else {
+        todos.value = todos.value.filter(todo => todo.projectId !== id)
+      }
+    })
+    
+    projects.value = remaining
+    clearHistory()
+    
+    if (currentProjectId.value === id) {
+      currentProjectId.value = activeProjects.value[0].id
+    }
     
     return true
   }
   
   /**
-   * 设置过滤器
-   * @param newFilter - 新的过滤器类型
+   * 切换当前列表
+   * @param id - 列表ID
+   * @returns 是否操作成功
    */
-  const setFilter = (newFilter: FilterType) => {
-    filter.value = newFilter
+  const setCurrentProject = (id: string): boolean => {
+    const projectError = validateProject(id)
+    if (projectError) {
+      setError(projectError)
+      return false
+    }
+    
     clearError()
+    currentProjectId.value = id
+    
+    return true
   }
   
   /**
-   * 切换所有待办事项的完成状态
-   * @param completed - 目标完成状态
+   * 将待办事项（连同子任务）移动到另一个列表
+   * @param id - 待办事项ID
+   * @param projectId - 目标列表ID
+   * @returns 是否操作成功
    */
-  const toggleAllTodos = (completed: boolean) => {
-    const now = new Date()
+  const moveTodoToProject = (id: string, projectId: string): boolean => {
+    return updateTodo(id, { projectId })
+  }
+  
+  /**
+   * 手动调整待办事项的顺序
+   * 
+   * 目标位置是在当前视图中同级显示的待办事项之间的位置，过滤掉的待办事项保持原有的相对顺序；
+   * 子任务随父任务一起移动。调整后整个列表按新顺序重新编号，排序键有变化的待办事项会更新修改时间
+   * 
+   * @param id - 待办事项ID
+   * @param toIndex - 目标位置，超出范围时会被限制在边界内
+   * @returns 是否操作成功
+   */
+  const moveTodo = recordable('调整顺序', (id: string, toIndex: number): boolean => {
+    const todo = todos.value.find(t => t.id === id)
     
-    todos.value.forEach(todo => {
-      if (todo.completed !== completed) {
-        todo.completed = completed
-        todo.updatedAt = now
+    if (!todo) {
+      const errorMsg = `未找到ID为 ${id} 的待办事项`
+      setError(errorMsg)
+      return false
+    }
+    
+    if (sortConfig.value) {
+      const errorMsg = '按字段排序时不能手动调整顺序'
+      setError(errorMsg)
+      return false
+    }
+    
+    if (isFuzzySearching.value) {
+      const errorMsg = '模糊搜索时不能手动调整顺序'
+      setError(errorMsg)
+      return false
+    }
+    
+    if (!filteredTodos.value.some(t => t.id === id)) {
+      const errorMsg = `待办事项 ${todo.title} 不在当前视图中`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    
+    const full = sortByManualOrder(todos.value.filter(t => t.projectId === todo.projectId))
+    const reordered = moveInView(full, filteredTodos.value, id, toIndex)
+    if (reordered === full) {
+      return true
+    }
+    
+    const now = new Date()
+    reordered.forEach((item, index) => {
+      if (item.order !== index) {
+        item.order = index
+        item.updatedAt = now
       }
     })
     
+    return true
+  })
+  
+  /**
+   * 撤销上一次操作
+   * @returns 是否操作成功
+   */
+  const undo = (): boolean => {
+    const entry = undoStack.value[undoStack.value.length - 1]
+    
+    if (!entry) {
+      setError('没有可以撤销的操作')
+      return false
+    }
+    
     clearError()
+    undoStack.value = undoStack.value.slice(0, -1)
+    redoStack.value = pushHistory(redoStack.value, entry, historyLimit.value)
+    trackTodoChanges({ source: 'undo', label: entry.label }, () => {
+      todos.value = cloneTodos(entry.before)
+    })
+    if (entry.trashed) {
+      const ids = new Set(entry.trashed.map(item => item.id))
+      trash.value = trash.value.filter(item => !ids.has(item.id))
+    }
+    if (entry.archived) {
+      const ids = new Set(entry.archived.map(item => item.id))
+      archive.value = archive.value.filter(item => !ids.has(item.id))
+    }
+    
+    return true
   }
   
   /**
-   * 清除所有已完成的待办事项
-   * @returns 被删除的待办事项数量
+   * 重做上一次撤销的操作
+   * @returns 是否操作成功
    */
-  const clearCompleted = (): number => {
-    const completedTodos = todos.value.filter(todo => todo.completed)
-    const count = completedTodos.length
+  const redo = (): boolean => {
+    const entry = redoStack.value[redoStack.value.length - 1]
+    
+    if (!entry) {
+      setError('没有可以重做的操作')
+      return false
+    }
     
-    todos.value = todos.value.filter(todo => !todo.completed)
     clearError()
+    redoStack.value = redoStack.value.slice(0, -1)
+    undoStack.value = pushHistory(undoStack.value, entry, historyLimit.value)
+    trackTodoChanges({ source: 'redo', label: entry.label }, () => {
+      todos.value = cloneTodos(entry.after)
+    })
+    if (entry.trashed) {
+      const existing = new Set(trash.value.map(item => item.id))
+      trash.value = [...entry.trashed.filter(item => !existing.has(item.id)), ...trash.value]
+    }
+    if (entry.archived) {
+      const existing = new Set(archive.value.map(item => item.id))
+      archive.value = [...entry.archived.filter(item => !existing.has(item.id)), ...archive.value]
+    }
     
-    return count
+    return true
+  }
+  
+  /**
+   * 设置最多保留的历史记录条数，超出的最早记录会被丢弃
+   * @param limit - 历史记录条数
+   * @returns 是否操作成功
+   */
+  const setHistoryLimit = (limit: number): boolean => {
+    if (!Number.isInteger(limit) || limit < 1 || limit > HISTORY_CONFIG.MAX_LIMIT) {
+      const errorMsg = `历史记录条数必须是1到${HISTORY_CONFIG.MAX_LIMIT}之间的整数`
+      setError(errorMsg)
+      return false
+    }
+    
+    clearError()
+    historyLimit.value = limit
+    undoStack.value = undoStack.value.slice(-limit)
+    redoStack.value = redoStack.value.slice(-limit)
+    
+    return true
+  }
+  
+  /**
+   * 清空撤销/重做历史
+   * 
+   * 不经过历史记录的批量修改（如加载数据、重命名标签、删除列表）之后调用，
+   * 避免撤销时恢复出与当前标签库或列表不一致的数据
+   */
+  const clearHistory = () => {
+    undoStack.value = []
+    redoStack.value = []
   }
   
   /**
@@ -361,7 +2614,10 @@ export const useTodoStore = defineStore('todo', () => {
    * @param newTodos - 新的待办事项列表
    */
   const setTodos = (newTodos: Todo[]) => {
-    todos.value = newTodos
+    trackTodoChanges({ source: 'action', label: '设置待办事项' }, () => {
+      todos.value = newTodos
+    })
+    clearHistory()
     clearError()
   }
   
@@ -369,7 +2625,10 @@ export const useTodoStore = defineStore('todo', () => {
    * 清空所有待办事项
    */
   const clearAllTodos = () => {
-    todos.value = []
+    trackTodoChanges({ source: 'action', label: '清空待办事项' }, () => {
+      todos.value = []
+    })
+    clearHistory()
     clearError()
   }
   
@@ -383,32 +2642,221 @@ export const useTodoStore = defineStore('todo', () => {
   
   /**
    * 批量操作：添加多个待办事项
-   * @param titles - 待办事项标题数组
-   * @returns 新创建的待办事项数组
+   * 
+   * 每一项可以是标题，也可以指定完成状态、所属列表和子任务。
+   * 完成状态按输入保留，不触发级联规则；超过最大嵌套层数的子任务挂到最深一层的父任务下；
+   * 标题为空的项及其子任务会被忽略，其他不符合标题规则的项会使整批添加失败。
+   * 与 addTodo 一样，每一项都会先经过插件的 beforeAdd 钩子并填充插件字段的默认值，
+   * 被插件取消的项及其子任务会被忽略；子任务始终与父任务在同一列表
+   * 
+   * @param items - 待办事项标题或批量添加的输入数据
+   * @returns 新创建的待办事项数组（父任务在子任务之前）
    */
-  const addMultipleTodos = (titles: string[]): Todo[] => {
-    const validTitles = titles.filter(title => title && title.trim().length > 0)
+  const addMultipleTodos = recordable('批量添加待办事项', (items: Array<string | BatchTodoInput>): Todo[] => {
+    const inputs: BatchTodoInput[] = items
+      .map(item => typeof item === 'string' ? { title: item } : item)
+      .filter(item => item && item.title && item.title.trim().length > 0)
     
-    if (validTitles.length === 0) {
+    if (inputs.length === 0) {
       const errorMsg = '没有有效的待办事项标题'
       setError(errorMsg)
       return []
     }
     
+    /** 经过插件处理和校验的一项输入 */
+    interface PreparedItem {
+      input: CreateTodoInput
+      completed: boolean
+      tags: string[]
+      fields: Record<string, unknown>
+      children: PreparedItem[]
+    }
+    
+    /**
+     * 调用插件的 beforeAdd 钩子并校验同一层级的输入，空标题和被插件取消的项会被忽略
+     * @param levelItems - 同一层级的输入数据
+     * @param topLevel - 是否为顶层，只有顶层的项可以指定所属列表
+     * @returns 处理后的输入数据，或第一个错误信息
+     */
+    const prepareLevel = (levelItems: BatchTodoInput[], topLevel: boolean): { error: string | null; items: PreparedItem[] } => {
+      const prepared: PreparedItem[] = []
+      
+      for (const item of levelItems) {
+        if (!item.title || item.title.trim().length === 0) continue
+        
+        const { input, cancelledBy } = runBeforeAdd(
+          topLevel && item.projectId ? { title: item.title, projectId: item.projectId } : { title: item.title }
+        )
+        if (cancelledBy) continue
+        
+        const titleResult = validateTitle(input.title)
+        if (!titleResult.valid) return { error: titleResult.errors[0].message, items: [] }
+        
+        const resolvedTags = resolveTagList(input.tags ?? [])
+        const pluginFields = resolvePluginFields(input.fields, true)
+        const itemError = validatePriority(input.priority) ||
+          validateDates(input.startDate, input.dueDate) ||
+          resolvedTags.error ||
+          (topLevel ? validateProject(input.projectId ?? currentProjectId.value) : null) ||
+          (input.recurrence ? validateRecurrenceRule(input.recurrence) : null) ||
+          pluginFields.error
+        if (itemError) return { error: itemError, items: [] }
+        
+        const children = prepareLevel(item.children ?? [], false)
+        if (children.error) return children
+        
+        prepared.push({
+          input,
+          completed: item.completed ?? false,
+          tags: resolvedTags.tags,
+          fields: pluginFields.fields,
+          children: children.items
+        })
+      }
+      
+      return { error: null, items: prepared }
+    }
+    
+    const prepared = prepareLevel(inputs, true)
+    if (prepared.error) {
+      setError(prepared.error)
+      return []
+    }
+    
     clearError()
     
     const now = new Date()
-    const newTodos: Todo[] = validTitles.map(title => ({
-      id: generateId(),
-      title: title.trim(),
-      completed: false,
-      createdAt: now,
-      updatedAt: now
-    }))
+    const newTodos: Todo[] = []
+    
+    /**
+     * 按层级创建待办事项
+     * @param levelItems - 同一层级处理后的输入数据
+     * @param parent - 父任务，顶层时不传
+     * @param depth - 当前层级的深度（顶层为0）
+     */
+    const createLevel = (levelItems: PreparedItem[], parent: Todo | undefined, depth: number) => {
+      levelItems.forEach(({ input, completed, tags: itemTags, fields, children }) => {
+        ensureTags(itemTags)
+        
+        const todo: Todo = {
+          id: generateId(),
+          title: input.title.trim(),
+          completed,
+          priority: input.priority ?? 'none',
+          tags: itemTags,
+          projectId: parent?.projectId ?? input.projectId ?? currentProjectId.value,
+          createdAt: now,
+          updatedAt: now
+        }
+        
+        if (input.dueDate) {
+          todo.dueDate = input.dueDate
+        }
+        
+        if (input.startDate) {
+          todo.startDate = input.startDate
+        }
+        
+        if (parent) {
+          todo.parentId = parent.id
+        }
+        
+        if (input.recurrence) {
+          todo.recurrence = pinRecurrenceRule(input.recurrence, input.dueDate)
+        }
+        
+        Object.assign(todo, fields)
+        
+        newTodos.push(todo)
+        
+        if (children.length > 0) {
+          const canNest = depth < VALIDATION_RULES.MAX_SUBTASK_DEPTH
+          createLevel(children, canNest ? todo : parent, canNest ? depth + 1 : depth)
+        }
+      })
+    }
+    
+    createLevel(prepared.items, undefined, 0)
     
     todos.value.push(...newTodos)
     return newTodos
-  }
+  })
+  
+  /**
+   * 导入待办事项
+   * 
+   * 无论ID是否与现有数据相同、使用哪种策略，每一项都和 addTodo 一样经过插件的 beforeAdd 钩子、
+   * 规则验证并填充插件字段的默认值；被插件取消的项不导入，其子任务变为顶层任务。
+   * 标签加入标签库，所属列表不存在时放入当前列表。
+   * 有任何一项不符合规则时不导入任何数据。导入可以撤销，并同步到其他标签页
+   * 
+   * @param items - 导入的待办事项
+   * @param strategy - 导入策略
+   * @returns 实际导入的待办事项（append 策略下ID冲突的已重新生成）；失败时返回空数组
+   */
+  const importTodos = recordable('导入待办事项', (items: Todo[], strategy: ImportStrategy): Todo[] => {
+    const pluginFieldNames = Object.keys(getPluginFields())
+    const prepared: Todo[] = []
+    
+    for (const item of items) {
+      const projectId = projects.value.some(project => project.id === item.projectId) ? item.projectId : currentProjectId.value
+      const record = item as unknown as Record<string, unknown>
+      const fields = Object.fromEntries(
+        pluginFieldNames.filter(name => record[name] !== undefined).map(name => [name, record[name]])
+      )
+      const { input, cancelledBy } = runBeforeAdd({
+        title: item.title,
+        priority: item.priority,
+        tags: item.tags,
+        dueDate: item.dueDate,
+        startDate: item.startDate,
+        projectId,
+        recurrence: item.recurrence,
+        fields
+      })
+      if (cancelledBy) continue
+      
+      const pluginFields = resolvePluginFields(input.fields, true)
+      const inputError = (validateTitle(input.title).errors[0]?.message ?? null) ||
+        validatePriority(input.priority) ||
+        validateDates(input.startDate, input.dueDate) ||
+        (input.recurrence ? validateRecurrenceRule(input.recurrence) : null) ||
+        pluginFields.error
+      if (inputError) {
+        setError(inputError)
+        return []
+      }
+      
+      const todo: Todo = {
+        ...item,
+        ...pluginFields.fields,
+        projectId,
+        title: input.title.trim(),
+        priority: input.priority ?? 'none',
+        tags: input.tags ?? [],
+        dueDate: input.dueDate,
+        startDate: input.startDate,
+        recurrence: input.recurrence ? pinRecurrenceRule(input.recurrence, input.dueDate) : undefined
+      }
+      for (const field of ['dueDate', 'startDate', 'recurrence'] as const) {
+        if (todo[field] === undefined) delete todo[field]
+      }
+      
+      const resolvedTags = resolveTagList(todo.tags)
+      if (resolvedTags.error) {
+        setError(resolvedTags.error)
+        return []
+      }
+      prepared.push({ ...todo, tags: resolvedTags.tags })
+    }
+    
+    clearError()
+    prepared.forEach(todo => ensureTags(todo.tags))
+    
+    const incoming = strategy === 'append' ? resolveIdConflicts(todos.value, prepared) : prepared
+    todos.value = repairHierarchy(applyImportStrategy(todos.value, incoming, strategy))
+    return incoming
+  })
   
   /**
    * 获取Store的状态快照
@@ -428,18 +2876,70 @@ export const useTodoStore = defineStore('todo', () => {
     // State
     todos,
     filter,
+    sortConfig,
+    tags,
+    tagFilter,
+    tagFilterMode,
+    filterQuery,
+    filterQueryText,
+    filterQueryError,
+    searchQuery,
+    searchOptions,
+    cascadeRules,
+    projects,
+    currentProjectId,
+    undoStack,
+    redoStack,
+    historyLimit,
+    trash,
+    trashRetentionDays,
+    archive,
     loading,
     error,
     initialized,
+    storageBackend,
+    storageRecovery,
+    syncTransport,
+    
+    // Events
+    events,
     
     // Getters
     filteredTodos,
+    searchError,
+    isSearching,
+    isFuzzySearching,
+    searchHighlight,
+    searchMatches,
     completedCount,
     activeCount,
     totalCount,
     hasTodos,
     allCompleted,
     getTodoById,
+    overdueTodos,
+    dueTodayTodos,
+    upcomingTodos,
+    overdueCount,
+    dueTodayCount,
+    upcomingCount,
+    tagCounts,
+    getTagByName,
+    topLevelCount,
+    subtaskCount,
+    subtaskProgress,
+    getSubtasks,
+    currentProject,
+    activeProjects,
+    archivedProjects,
+    projectTodos,
+    projectCounts,
+    canUndo,
+    canRedo,
+    undoLabel,
+    redoLabel,
+    trashCount,
+    archiveCount,
     
     // Actions
     addTodo,
@@ -447,20 +2947,68 @@ export const useTodoStore = defineStore('todo', () => {
     deleteTodo,
     updateTodo,
     setFilter,
+    setSortConfig,
+    createTag,
+    renameTag,
+    recolorTag,
+    mergeTags,
+    deleteTag,
+    setTagFilter,
+    toggleTagFilter,
+    setSearchQuery,
+    setSearchOptions,
+    clearSearch,
+    setFilterQuery,
+    clearFilterQuery,
+    setCascadeRules,
+    createProject,
+    renameProject,
+    moveProject,
+    archiveProject,
+    deleteProject,
+    setCurrentProject,
+    moveTodoToProject,
+    moveTodo,
+    undo,
+    redo,
+    setHistoryLimit,
+    clearHistory,
     toggleAllTodos,
     clearCompleted,
+    restoreFromTrash,
+    purgeFromTrash,
+    emptyTrash,
+    purgeExpiredTrash,
+    setTrashRetention,
+    archiveCompleted,
+    unarchiveTodo,
     setTodos,
     clearAllTodos,
     setLoading,
     setError,
     clearError,
     addMultipleTodos,
+    importTodos,
     getStateSnapshot,
     
     // Storage Actions
     loadFromStorage,
     saveTodosToStorage,
-    saveFilterToStorage
+    saveFilterToStorage,
+    saveTagsToStorage,
+    saveProjectsToStorage,
+    saveTrashToStorage,
+    saveArchiveToStorage,
+    switchStorageAdapter,
+    recoverStorage,
+    
+    // Sync Actions
+    applyRemoteTodos,
+    applyRemoteProjects,
+    applyRemoteTrash,
+    applyRemoteArchive,
+    startTabSync,
+    stopTabSync
   }
 })
 
@@ -29,6 +29,9 @@ export enum ErrorCode {
   TODO_NOT_FOUND = 'TODO_NOT_FOUND',
   DUPLICATE_TODO = 'DUPLICATE_TODO',
   
+  // 插件错误
+  PLUGIN_ERROR = 'PLUGIN_ERROR',
+  
   // 系统错误
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
   NETWORK_ERROR = 'NETWORK_ERROR'
@@ -6,8 +6,10 @@ export * from './todo'
 export * from './error'
 export * from './components'
 export * from './utils'
+export * from './plugin'
 
-import type { FilterOption, TodoState } from './todo'
+import type { FilterOption, PriorityOption, TodoState, CascadeRules } from './todo'
+import type { ValidationLimits, TransferFormatOption } from './utils'
 
 /**
  * 常用的过滤器选项配置
@@ -30,6 +32,38 @@ export const FILTER_OPTIONS: FilterOption[] = [
   }
 ]
 
+/**
+ * 按截止日期过滤的选项配置
+ */
+export const DUE_FILTER_OPTIONS: FilterOption[] = [
+  {
+    value: 'overdue',
+    label: '已逾期',
+    description: '只显示已超过截止日期的未完成待办事项'
+  },
+  {
+    value: 'today',
+    label: '今天到期',
+    description: '只显示今天到期的未完成待办事项'
+  },
+  {
+    value: 'upcoming',
+    label: '即将到期',
+    description: '只显示近期即将到期的未完成待办事项'
+  }
+]
+
+/**
+ * 优先级选项配置，按优先级从低到高排列
+ */
+export const PRIORITY_OPTIONS: PriorityOption[] = [
+  { value: 'none', label: '无', weight: 0 },
+  { value: 'low', label: '低', weight: 1 },
+  { value: 'medium', label: '中', weight: 2 },
+  { value: 'high', label: '高', weight: 3 },
+  { value: 'urgent', label: '紧急', weight: 4 }
+]
+
 /**
  * 默认的Todo状态
  */
@@ -41,9 +75,9 @@ export const DEFAULT_TODO_STATE: TodoState = {
 }
 
 /**
- * 验证规则常量
+ * 验证规则的默认值
  */
-export const VALIDATION_RULES = {
+export const DEFAULT_VALIDATION_RULES: Readonly<ValidationLimits> = Object.freeze({
   /** 标题最大长度 */
   MAX_TITLE_LENGTH: 200,
   
@@ -51,7 +85,151 @@ export const VALIDATION_RULES = {
   MIN_TITLE_LENGTH: 1,
   
   /** 最大待办事项数量 */
-  MAX_TODOS_COUNT: 1000
+  MAX_TODOS_COUNT: 1000,
+  
+  /** 标签名称最大长度 */
+  MAX_TAG_LENGTH: 30,
+  
+  /** 子任务最大嵌套层级（顶层任务为0） */
+  MAX_SUBTASK_DEPTH: 3,
+  
+  /** 重复规则的最大间隔 */
+  MAX_RECURRENCE_INTERVAL: 365,
+  
+  /** 列表名称最大长度 */
+  MAX_PROJECT_NAME_LENGTH: 50
+})
+
+/**
+ * 验证规则常量
+ *
+ * 运行时可以通过 configureValidation 修改（见 utils/validation.ts），
+ * 各处校验都在调用时读取这里的值
+ */
+export const VALIDATION_RULES: ValidationLimits = { ...DEFAULT_VALIDATION_RULES }
+
+/**
+ * 新建标签时依次使用的默认颜色
+ */
+export const TAG_COLORS = [
+  '#3b82f6',
+  '#10b981',
+  '#f59e0b',
+  '#ef4444',
+  '#8b5cf6',
+  '#ec4899',
+  '#14b8a6',
+  '#6b7280'
+] as const
+
+/**
+ * 默认的完成状态级联规则
+ */
+export const DEFAULT_CASCADE_RULES: CascadeRules = {
+  completeChildrenWithParent: true,
+  completeParentWithChildren: true,
+  reopenParentWithChild: true
+}
+
+/**
+ * 默认列表
+ * 
+ * 没有列表信息的旧数据会迁移到这个列表中
+ */
+export const DEFAULT_PROJECT = {
+  /** 默认列表ID */
+  ID: 'default',
+  
+  /** 默认列表名称 */
+  NAME: '我的待办'
+} as const
+
+/**
+ * 存储后端相关常量
+ */
+export const STORAGE_CONFIG = {
+  /** localStorage 适配器管理的键名前缀 */
+  KEY_PREFIX: 'vue-todo-list:',
+  
+  /** 大多数浏览器的localStorage限制约为5MB */
+  LOCAL_STORAGE_QUOTA: 5 * 1024 * 1024,
+  
+  /** IndexedDB 数据库名称 */
+  INDEXED_DB_NAME: 'vue-todo-list',
+  
+  /** IndexedDB 对象仓库名称 */
+  INDEXED_DB_STORE: 'keyval',
+  
+  /** 当前的数据结构版本 */
+  SCHEMA_VERSION: 1,
+  
+  /** 迁移前数据备份的键名后缀，后面接原版本号 */
+  BACKUP_SUFFIX: ':backup-v',
+  
+  /** 多标签页同步使用的 BroadcastChannel 名称 */
+  SYNC_CHANNEL: 'vue-todo-list-sync'
+} as const
+
+/**
+ * 撤销/重做历史相关常量
+ */
+export const HISTORY_CONFIG = {
+  /** 默认保留的历史记录条数 */
+  DEFAULT_LIMIT: 50,
+  
+  /** 允许设置的最大历史记录条数 */
+  MAX_LIMIT: 500,
+  
+  /** 撤销提示的显示时长（毫秒） */
+  TOAST_DURATION: 5000
+} as const
+
+/**
+ * 回收站相关常量
+ */
+export const TRASH_CONFIG = {
+  /** 默认保留天数 */
+  DEFAULT_RETENTION_DAYS: 30,
+  
+  /** 允许设置的最大保留天数 */
+  MAX_RETENTION_DAYS: 365
+} as const
+
+/**
+ * 搜索相关常量
+ */
+export const SEARCH_CONFIG = {
+  /** 默认搜索的字段 */
+  DEFAULT_FIELDS: ['title', 'tags'],
+  
+  /** 搜索框输入的防抖延迟（毫秒） */
+  DEBOUNCE_DELAY: 200,
+  
+  /** 模糊搜索的字段及权重，notes 为插件提供的备注字段 */
+  FUZZY_FIELDS: { title: 1, notes: 0.7, tags: 0.8 },
+  
+  /** 模糊搜索结果的最低分数 */
+  FUZZY_MIN_SCORE: 0.3
+} as const
+
+/**
+ * 支持导入导出的文件格式
+ */
+export const TRANSFER_FORMATS: TransferFormatOption[] = [
+  { value: 'json', label: 'JSON 备份', extensions: ['json'], mimeType: 'application/json' },
+  { value: 'csv', label: 'CSV 表格', extensions: ['csv'], mimeType: 'text/csv' },
+  { value: 'xlsx', label: 'Excel 工作簿', extensions: ['xlsx'], mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+  { value: 'todotxt', label: 'todo.txt', extensions: ['txt'], mimeType: 'text/plain' },
+  { value: 'ical', label: 'iCalendar', extensions: ['ics', 'ical'], mimeType: 'text/calendar' },
+  { value: 'markdown', label: 'Markdown 任务列表', extensions: ['md', 'markdown'], mimeType: 'text/markdown' }
+]
+
+/**
+ * 截止日期相关常量
+ */
+export const DUE_DATE_CONFIG = {
+  /** "即将到期"覆盖的天数（不含今天） */
+  UPCOMING_DAYS: 7
 } as const
 
 /**
@@ -65,7 +243,19 @@ export const STORAGE_KEYS = {
   FILTER: 'vue-todo-list:filter',
   
   /** 用户设置 */
-  SETTINGS: 'vue-todo-list:settings'
+  SETTINGS: 'vue-todo-list:settings',
+  
+  /** 标签库 */
+  TAGS: 'vue-todo-list:tags',
+  
+  /** 列表（项目） */
+  PROJECTS: 'vue-todo-list:projects',
+  
+  /** 回收站 */
+  TRASH: 'vue-todo-list:trash',
+  
+  /** 已归档的待办事项 */
+  ARCHIVE: 'vue-todo-list:archive'
 } as const
 
 /**
@@ -89,4 +279,9 @@ export const EVENT_NAMES = {
   
   /** 错误发生 */
   ERROR_OCCURRED: 'error:occurred'
-} as const
\ No newline at end of file
+} as const
+
+/**
+ * 事件名称类型
+ */
+export type AppEventName = typeof EVENT_NAMES[keyof typeof EVENT_NAMES]
\ No newline at end of file
@@ -0,0 +1,80 @@
+// 【知识点】TypeScript 类型声明 plugin.ts
+// - 定义插件的生命周期钩子、扩展字段和界面扩展点
+// - 函数类型与可选属性
+// - 类型安全与工程化
+/**
+ * 插件相关的类型定义
+ * 
+ * 插件在 main.ts 中通过 createTodoPlugins 注册，
+ * 不需要修改 Store 和组件就可以扩展添加、切换、删除和加载的行为，
+ * 为待办事项增加字段，并在 TodoItem 和 TodoList 中显示自己的组件。
+ */
+
+import type { App, Component } from 'vue'
+import type { Todo, Project, CreateTodoInput } from './todo'
+import type { ValidationRule } from './utils'
+
+/**
+ * 插件的生命周期钩子
+ * 
+ * 多个插件按注册顺序依次调用；钩子抛出异常时只记录错误，视为没有返回值
+ */
+export interface TodoPluginHooks {
+  /**
+   * 添加待办事项之前调用（校验之前）
+   * 可以返回修改后的输入（如解析标题中的命令、自动添加标签），返回 false 取消添加
+   */
+  beforeAdd?: (input: CreateTodoInput) => CreateTodoInput | false | void
+  
+  /** 切换完成状态之后调用，参数为切换后的待办事项副本 */
+  afterToggle?: (todo: Todo) => void
+  
+  /** 删除待办事项之前调用，返回 false 取消删除 */
+  beforeDelete?: (todo: Todo) => boolean | void
+  
+  /** 从存储加载数据完成后调用，参数为数据副本 */
+  onLoad?: (data: { todos: Todo[]; projects: Project[] }) => void
+}
+
+/**
+ * 插件为待办事项增加的字段
+ * 
+ * 字段直接保存在待办事项上，取值需要能够序列化为JSON；
+ * 在 TypeScript 中通过声明合并为 Todo 接口补充字段类型
+ */
+export interface PluginFieldDefinition<T = unknown> {
+  /** 新建待办事项时的默认值，函数会在每次新建时调用 */
+  default?: T | (() => T)
+  
+  /** 校验规则，新建和更新字段时执行 */
+  rules?: ValidationRule[]
+}
+
+/**
+ * 插件可以放入组件的扩展点
+ * - todo-item:meta: 待办事项的信息栏，组件接收 todo 属性
+ * - todo-item:actions: 待办事项的删除按钮之前，组件接收 todo 属性
+ * - todo-list:header: 列表顶部，组件接收 todos 属性
+ * - todo-list:footer: 列表底部，组件接收 todos 属性
+ */
+export type PluginSlotName = 'todo-item:meta' | 'todo-item:actions' | 'todo-list:header' | 'todo-list:footer'
+
+/**
+ * 插件
+ */
+export interface TodoPlugin {
+  /** 插件名称，不能重复 */
+  name: string
+  
+  /** 生命周期钩子 */
+  hooks?: TodoPluginHooks
+  
+  /** 为待办事项增加的字段：字段名 -> 定义 */
+  fields?: Record<string, PluginFieldDefinition>
+  
+  /** 放入扩展点的组件 */
+  components?: Partial<Record<PluginSlotName, Component>>
+  
+  /** 安装插件时调用，可以在这里订阅 Store 的事件、注册全局组件等 */
+  install?: (app: App) => void
+}
\ No newline at end of file
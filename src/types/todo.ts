@@ -16,7 +16,14 @@
  * - 唯一标识符
  * - 标题内容
  * - 完成状态
+ * - 优先级与标签
  * - 时间戳信息
+ * - 可选的开始/截止日期
+ * - 可选的父任务引用（子任务）
+ * - 所属的列表
+ * - 可选的重复规则
+ * - 可选的外部格式扩展字段
+ * - 插件增加的字段（见 TodoPlugin.fields，类型通过声明合并补充）
  */
 export interface Todo {
   /** 唯一标识符，使用UUID格式 */
@@ -28,6 +35,55 @@ export interface Todo {
   /** 完成状态，true表示已完成，false表示未完成 */
   completed: boolean
   
+  /** 优先级，默认为 'none' */
+  priority: TodoPriority
+  
+  /** 标签名称列表，引用标签库中的标签 */
+  tags: string[]
+  
+  /** 所属列表（项目）的ID */
+  projectId: string
+  
+  /** 创建时间戳 */
+  createdAt: Date
+  
+  /** 最后更新时间戳 */
+  updatedAt: Date
+  
+  /** 截止日期，未设置时表示没有期限 */
+  dueDate?: Date
+  
+  /** 开始日期，未设置时表示随时可以开始 */
+  startDate?: Date
+  
+  /** 父任务ID，未设置时表示顶层任务 */
+  parentId?: string
+  
+  /** 重复规则，完成后会按规则生成下一次的待办事项 */
+  recurrence?: RecurrenceRule
+  
+  /** 手动排序键，在同一列表中从小到大排列；未设置时按添加顺序排在最后 */
+  order?: number
+  
+  /** 从外部格式（如 todo.txt 的 key:value）导入的未识别字段，导出时原样写回 */
+  extensions?: Record<string, string>
+}
+
+/**
+ * 列表（项目）接口
+ * 
+ * 待办事项按列表分组，列表在数组中的顺序即显示顺序
+ */
+export interface Project {
+  /** 唯一标识符 */
+  id: string
+  
+  /** 列表名称 */
+  name: string
+  
+  /** 是否已归档，归档的列表不在切换器中显示 */
+  archived: boolean
+  
   /** 创建时间戳 */
   createdAt: Date
   
@@ -35,6 +91,132 @@ export interface Todo {
   updatedAt: Date
 }
 
+/**
+ * 列表数据的存储结构
+ */
+export interface ProjectsData {
+  /** 所有列表 */
+  projects: Project[]
+  
+  /** 当前选中的列表ID */
+  currentProjectId: string
+}
+
+/**
+ * 回收站中的待办事项
+ * 
+ * 删除的待办事项连同子任务移入回收站，保留原有字段，可以恢复或彻底删除
+ */
+export interface TrashedTodo extends Todo {
+  /** 移入回收站的时间，超过保留天数后自动彻底删除 */
+  deletedAt: Date
+}
+
+/**
+ * 回收站数据的存储结构
+ */
+export interface TrashData {
+  /** 回收站中的待办事项，最近删除的在前 */
+  items: TrashedTodo[]
+  
+  /** 保留天数 */
+  retentionDays: number
+}
+
+/**
+ * 已归档的待办事项
+ * 
+ * 归档与完成状态相互独立：已完成的待办事项归档后单独保存，
+ * 不再出现在列表中，也不参与列表的过滤和统计，可以在归档视图中查找和取消归档
+ */
+export interface ArchivedTodo extends Todo {
+  /** 归档时间 */
+  archivedAt: Date
+}
+
+/**
+ * 归档视图的筛选条件
+ */
+export interface ArchiveFilter {
+  /** 搜索关键字，匹配标题和标签，不区分大小写 */
+  query?: string
+  
+  /** 归档日期的起始日（含） */
+  from?: Date | null
+  
+  /** 归档日期的结束日（含当天） */
+  to?: Date | null
+}
+
+/**
+ * 标签接口
+ * 
+ * 标签库中的单个标签，待办事项通过名称引用标签
+ */
+export interface Tag {
+  /** 标签名称，在标签库中唯一 */
+  name: string
+  
+  /** 标签颜色，CSS颜色值 */
+  color: string
+  
+  /** 创建时间戳 */
+  createdAt: Date
+}
+
+/**
+ * 标签过滤的匹配方式
+ * 
+ * - 'any': 包含任意一个选中的标签即可
+ * - 'all': 必须包含所有选中的标签
+ */
+export type TagMatchMode = 'any' | 'all'
+
+/**
+ * 重复频率
+ * 
+ * - 'daily': 每 N 天
+ * - 'weekly': 每 N 周的指定星期几
+ * - 'monthly': 每 N 个月的指定日期
+ * - 'afterCompletion': 完成后 N 天
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'afterCompletion'
+
+/**
+ * 重复规则
+ * 
+ * 参考 iCalendar RRULE 的简化版本。除 'afterCompletion' 外，
+ * 下一次的日期都以当前截止日期为基准计算
+ */
+export interface RecurrenceRule {
+  /** 重复频率 */
+  frequency: RecurrenceFrequency
+  
+  /** 间隔，单位随频率变化（天/周/月），默认为1 */
+  interval?: number
+  
+  /** 每周重复的星期几（0表示星期日），仅用于 'weekly'，默认为截止日期所在的星期几 */
+  weekdays?: number[]
+  
+  /** 每月重复的日期（1-31），仅用于 'monthly'，超出当月天数时取当月最后一天 */
+  monthDay?: number
+  
+  /** 重复的截止日期，下一次日期晚于它时不再生成 */
+  until?: Date
+}
+
+/**
+ * 优先级类型
+ * 
+ * 从低到高依次为：
+ * - 'none': 无优先级
+ * - 'low': 低
+ * - 'medium': 中
+ * - 'high': 高
+ * - 'urgent': 紧急
+ */
+export type TodoPriority = 'none' | 'low' | 'medium' | 'high' | 'urgent'
+
 /**
  * 过滤器类型
  * 
@@ -42,8 +224,29 @@ export interface Todo {
  * - 'all': 显示所有待办事项
  * - 'active': 只显示未完成的待办事项
  * - 'completed': 只显示已完成的待办事项
+ * - 'overdue': 只显示已逾期的未完成待办事项
+ * - 'today': 只显示今天到期的未完成待办事项
+ * - 'upcoming': 只显示近期即将到期的未完成待办事项
+ */
+export type FilterType =
+  | 'all'
+  | 'active'
+  | 'completed'
+  | 'overdue'
+  | 'today'
+  | 'upcoming'
+
+/**
+ * 截止日期状态
+ * 
+ * 根据截止日期与当前时间的关系划分：
+ * - 'none': 未设置截止日期
+ * - 'overdue': 已逾期
+ * - 'today': 今天到期
+ * - 'upcoming': 近期即将到期
+ * - 'later': 到期时间较远
  */
-export type FilterType = 'all' | 'active' | 'completed'
+export type DueStatus = 'none' | 'overdue' | 'today' | 'upcoming' | 'later'
 
 /**
  * Todo应用的状态接口
@@ -73,6 +276,49 @@ export interface TodoState {
 export interface CreateTodoInput {
   /** 待办事项标题 */
   title: string
+  
+  /** 可选的优先级，默认为 'none' */
+  priority?: TodoPriority
+  
+  /** 可选的标签名称列表 */
+  tags?: string[]
+  
+  /** 可选的截止日期 */
+  dueDate?: Date
+  
+  /** 可选的开始日期 */
+  startDate?: Date
+  
+  /** 可选的父任务ID，设置后作为该任务的子任务创建 */
+  parentId?: string
+  
+  /** 可选的所属列表ID，默认为当前列表 */
+  projectId?: string
+  
+  /** 可选的重复规则 */
+  recurrence?: RecurrenceRule
+  
+  /** 可选的插件字段取值，未提供的字段使用插件定义的默认值 */
+  fields?: Record<string, unknown>
+}
+
+/**
+ * 批量添加待办事项的输入数据
+ * 
+ * 用于一次添加多个待办事项，可以指定完成状态并嵌套子任务
+ */
+export interface BatchTodoInput {
+  /** 待办事项标题 */
+  title: string
+  
+  /** 可选的完成状态，默认为未完成 */
+  completed?: boolean
+  
+  /** 可选的所属列表ID，默认为当前列表；子任务始终与父任务在同一列表 */
+  projectId?: string
+  
+  /** 可选的子任务 */
+  children?: BatchTodoInput[]
 }
 
 /**
@@ -87,6 +333,30 @@ export interface UpdateTodoInput {
   
   /** 可选的新完成状态 */
   completed?: boolean
+  
+  /** 可选的新优先级 */
+  priority?: TodoPriority
+  
+  /** 可选的新标签列表，会整体替换原有标签 */
+  tags?: string[]
+  
+  /** 可选的新截止日期，传入null表示清除 */
+  dueDate?: Date | null
+  
+  /** 可选的新开始日期，传入null表示清除 */
+  startDate?: Date | null
+  
+  /** 可选的新父任务ID，传入null表示移动为顶层任务 */
+  parentId?: string | null
+  
+  /** 可选的新所属列表ID，子任务会随之一起移动 */
+  projectId?: string
+  
+  /** 可选的新重复规则，传入null表示取消重复 */
+  recurrence?: RecurrenceRule | null
+  
+  /** 可选的插件字段新取值，取值为undefined表示清除该字段 */
+  fields?: Record<string, unknown>
 }
 
 /**
@@ -105,6 +375,22 @@ export interface FilterOption {
   description: string
 }
 
+/**
+ * 优先级选项配置
+ * 
+ * 定义了优先级的显示配置，用于UI组件
+ */
+export interface PriorityOption {
+  /** 优先级的值 */
+  value: TodoPriority
+  
+  /** 优先级的显示标签 */
+  label: string
+  
+  /** 排序权重，数值越大优先级越高 */
+  weight: number
+}
+
 /**
  * 统计信息接口
  * 
@@ -122,4 +408,128 @@ export interface TodoStats {
   
   /** 完成百分比 */
   completionRate: number
+  
+  /** 顶层任务数量 */
+  topLevel: number
+  
+  /** 子任务数量 */
+  subtasks: number
+  
+  /** 回收站中的数量，不计入上面的统计 */
+  trashed: number
+}
+
+/**
+ * 子任务完成进度
+ * 
+ * 汇总某个任务所有后代任务的完成情况
+ */
+export interface SubtaskProgress {
+  /** 已完成的后代任务数量 */
+  completed: number
+  
+  /** 后代任务总数 */
+  total: number
+  
+  /** 完成百分比 */
+  rate: number
+}
+
+/**
+ * 待办事项树节点
+ * 
+ * 用于按层级渲染待办事项
+ */
+export interface TodoTreeNode {
+  /** 当前待办事项 */
+  todo: Todo
+  
+  /** 子节点 */
+  children: TodoTreeNode[]
+}
+
+/**
+ * 完成状态的级联规则
+ * 
+ * 控制切换完成状态时父任务与子任务之间的联动
+ */
+export interface CascadeRules {
+  /** 完成父任务时同时完成所有子任务 */
+  completeChildrenWithParent: boolean
+  
+  /** 所有子任务完成后自动完成父任务 */
+  completeParentWithChildren: boolean
+  
+  /** 子任务重新打开时同时重新打开已完成的父任务 */
+  reopenParentWithChild: boolean
+}
+
+/**
+ * 撤销/重做历史记录
+ * 
+ * 记录一次操作前后的待办事项快照，撤销时恢复操作前的快照，重做时恢复操作后的快照
+ */
+export interface HistoryEntry {
+  /** 操作名称，如 "删除待办事项" */
+  label: string
+  
+  /** 操作前的待办事项 */
+  before: Todo[]
+  
+  /** 操作后的待办事项 */
+  after: Todo[]
+  
+  /** 操作时间 */
+  timestamp: Date
+  
+  /** 操作移入回收站的待办事项，撤销时从回收站取出，重做时重新放入 */
+  trashed?: TrashedTodo[]
+  
+  /** 操作归档的待办事项，撤销时从归档中取出，重做时重新归档 */
+  archived?: ArchivedTodo[]
+}
+
+/**
+ * 待办事项变化的来源
+ * - action: store 中的操作（包括标签和列表的级联修改、批量设置和清空）
+ * - undo: 撤销
+ * - redo: 重做
+ * - sync: 合并其他标签页的修改
+ */
+export type TodoChangeSource = 'action' | 'undo' | 'redo' | 'sync'
+
+/**
+ * 待办事项事件的公共字段
+ */
+export interface TodoChangeContext {
+  /** 变化的来源 */
+  source: TodoChangeSource
+  
+  /** 操作名称，撤销和重做时为原操作的名称 */
+  label: string
+}
+
+/**
+ * 应用事件与载荷的对应关系
+ * 
+ * 键与 EVENT_NAMES 中的事件名称一一对应，载荷中的待办事项都是副本
+ */
+export interface AppEventMap {
+  /** 待办事项添加 */
+  'todo:added': TodoChangeContext & { todo: Todo }
+  
+  /** 待办事项更新，previous 为更新前的版本 */
+  'todo:updated': TodoChangeContext & { todo: Todo; previous: Todo }
+  
+  /** 待办事项删除 */
+  'todo:deleted': TodoChangeContext & { todo: Todo }
+  
+  /** 过滤器变化 */
+  'filter:changed': { filter: FilterType; previous: FilterType }
+  
+  /** 从存储加载数据完成 */
+  'data:loaded': { todos: Todo[]; projects: Project[] }
+  
+  /** 错误发生 */
+  'error:occurred': { message: string }
 }
\ No newline at end of file
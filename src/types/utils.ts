@@ -8,7 +8,7 @@
  * 提供类型安全的工具函数接口。
  */
 
-// 移除未使用的导入
+import type { ErrorCode, ValidationError } from './error'
 
 /**
  * 本地存储操作的配置类型
@@ -51,6 +51,125 @@ export interface StorageResult<T = any> {
   
   /** 操作时间戳 */
   timestamp: Date
+  
+  /** 失败时的错误代码 */
+  code?: ErrorCode
+  
+  /** 数据损坏或迁移失败时可选的恢复方式 */
+  recoveryOptions?: RecoveryOption[]
+}
+
+/**
+ * 带版本号的持久化数据
+ * 
+ * 所有写入存储的数据都包装成这个结构，旧版本直接保存的数据视为版本0
+ */
+export interface VersionedData<T = unknown> {
+  /** 数据结构版本 */
+  schemaVersion: number
+  
+  /** 实际数据 */
+  data: T
+}
+
+/**
+ * 数据结构迁移
+ * 
+ * 把某个存储键的数据从 version - 1 升级到 version
+ */
+export interface SchemaMigration {
+  /** 升级后的版本号 */
+  version: number
+  
+  /** 迁移说明 */
+  description: string
+  
+  /** 迁移函数，无法迁移时抛出错误 */
+  migrate: (key: string, data: unknown) => unknown
+}
+
+/**
+ * 数据恢复方式
+ * - retry: 保留存储中的数据，重新加载
+ * - reset: 删除无法读取的数据（迁移前的备份仍会保留）
+ */
+export type RecoveryAction = 'retry' | 'reset'
+
+/**
+ * 数据恢复选项
+ */
+export interface RecoveryOption {
+  /** 恢复方式 */
+  action: RecoveryAction
+  
+  /** 显示文本 */
+  label: string
+  
+  /** 说明 */
+  description: string
+}
+
+/**
+ * 存储后端类型
+ */
+export type StorageAdapterType = 'localStorage' | 'indexedDB' | 'memory'
+
+/**
+ * 存储空间使用情况
+ */
+export interface StorageEstimate {
+  /** 已使用的空间（字节，按字符数估算） */
+  used: number
+  
+  /** 总容量（字节），无法获取时为null */
+  total: number | null
+}
+
+/**
+ * 存储适配器接口
+ * 
+ * 所有方法都是异步的，便于接入IndexedDB等异步存储；
+ * 值以JSON形式保存，读取后日期等字段需要由调用方还原。
+ * 操作失败时抛出TodoError，由 storage.ts 中的包装函数转换为 StorageResult
+ */
+export interface StorageAdapter {
+  /** 存储后端类型 */
+  readonly type: StorageAdapterType
+  
+  /** 检查存储是否可用 */
+  isAvailable(): Promise<boolean>
+  
+  /** 读取数据，键不存在时返回undefined */
+  get<T = unknown>(key: string): Promise<T | undefined>
+  
+  /** 保存数据 */
+  set<T = unknown>(key: string, value: T): Promise<void>
+  
+  /** 删除数据 */
+  remove(key: string): Promise<void>
+  
+  /** 获取所有键名 */
+  keys(): Promise<string[]>
+  
+  /** 清空适配器管理的所有数据 */
+  clear(): Promise<void>
+  
+  /** 获取存储空间使用情况 */
+  estimate(): Promise<StorageEstimate>
+}
+
+/**
+ * 等待用户处理的存储数据问题
+ */
+export interface StorageRecovery {
+  /** 无法读取的存储键名 */
+  key: string
+  
+  /** 错误信息 */
+  error: string
+  
+  /** 可选的恢复方式 */
+  options: RecoveryOption[]
 }
 
 /**
@@ -111,8 +230,11 @@ export interface ValidationRule {
   /** 错误消息 */
   message: string
   
-  /** 是否必需 */
+  /** 是否必需，为true时空值（undefined、null、空白字符串）也执行该规则，否则空值跳过该规则 */
   required?: boolean
+  
+  /** 未通过时的错误代码，默认为 VALIDATION_ERROR */
+  code?: ErrorCode
 }
 
 /**
@@ -122,13 +244,39 @@ export interface ValidationResult {
   /** 是否通过验证 */
   valid: boolean
   
-  /** 错误消息列表 */
-  errors: string[]
+  /** 未通过的规则产生的错误 */
+  errors: ValidationError[]
   
   /** 验证的字段名 */
   field?: string
 }
 
+/**
+ * 可以在运行时修改的验证限制
+ */
+export interface ValidationLimits {
+  /** 标题最大长度 */
+  MAX_TITLE_LENGTH: number
+  
+  /** 标题最小长度 */
+  MIN_TITLE_LENGTH: number
+  
+  /** 最大待办事项数量 */
+  MAX_TODOS_COUNT: number
+  
+  /** 标签名称最大长度 */
+  MAX_TAG_LENGTH: number
+  
+  /** 子任务最大嵌套层级（顶层任务为0） */
+  MAX_SUBTASK_DEPTH: number
+  
+  /** 重复规则的最大间隔 */
+  MAX_RECURRENCE_INTERVAL: number
+  
+  /** 列表名称最大长度 */
+  MAX_PROJECT_NAME_LENGTH: number
+}
+
 /**
  * UUID生成选项类型
  */
@@ -221,6 +369,9 @@ export interface SearchConfig {
   /** 是否使用正则表达式 */
   useRegex?: boolean
   
+  /** 是否使用模糊匹配（容错并按相关度排序，此时忽略 fields、caseSensitive 和 useRegex） */
+  fuzzy?: boolean
+  
   /** 高亮配置 */
   highlight?: {
     enabled: boolean
@@ -228,6 +379,11 @@ export interface SearchConfig {
   }
 }
 
+/**
+ * 搜索选项类型（搜索配置中除关键词以外的部分）
+ */
+export type SearchOptions = Omit<SearchConfig, 'keyword'>
+
 /**
  * 导出配置类型
  */
@@ -238,10 +394,10 @@ export interface ExportConfig {
   /** 文件名 */
   filename?: string
   
-  /** 是否包含标题行 */
+  /** 是否包含标题行，默认为true */
   includeHeaders?: boolean
   
-  /** 字段映射 */
+  /** 字段映射：待办事项字段名 -> 列名，提供时只导出映射中的字段，并按映射的顺序排列 */
   fieldMapping?: Record<string, string>
   
   /** 过滤条件 */
@@ -255,15 +411,117 @@ export interface ImportConfig {
   /** 导入格式 */
   format: 'json' | 'csv' | 'xlsx'
   
-  /** 是否跳过标题行 */
+  /**
+   * 是否跳过标题行，默认为true
+   * 为true时第一行作为标题，按标题匹配列且不作为数据导入；
+   * 为false时没有标题行，按字段映射（或默认字段）的顺序匹配列
+   */
   skipHeaders?: boolean
   
-  /** 字段映射 */
+  /** 字段映射：待办事项字段名 -> 列名，与 ExportConfig.fieldMapping 方向相同 */
   fieldMapping?: Record<string, string>
   
-  /** 验证规则 */
+  /** 验证规则，对每一行转换后的待办事项执行 */
   validationRules?: ValidationRule[]
   
-  /** 错误处理策略 */
+  /**
+   * 错误处理策略，默认为 'collect'
+   * - skip: 跳过有错误的行，报告每行的第一个错误
+   * - stop: 遇到第一个错误时停止导入，不导入任何数据
+   * - collect: 检查所有行的所有字段并报告全部错误，有错误时导入失败
+   */
   errorStrategy?: 'skip' | 'stop' | 'collect'
+}
+
+/**
+ * 导入时某一行的错误
+ */
+export interface ImportRowError {
+  /** 行号（从1开始，包含标题行） */
+  row: number
+  
+  /** 出错的字段 */
+  field?: string
+  
+  /** 出错的原始值 */
+  value?: string
+  
+  /** 错误消息 */
+  message: string
+}
+
+/**
+ * 导入结果类型
+ */
+export interface ImportResult<T = unknown> {
+  /** 是否成功 */
+  success: boolean
+  
+  /** 导入的数据 */
+  data: T[]
+  
+  /** 每一行的错误报告 */
+  errors: ImportRowError[]
+  
+  /** 数据行总数（不含标题行） */
+  total: number
+  
+  /** 被跳过的行数 */
+  skipped: number
+}
+
+/**
+ * 导入策略
+ * - replace: 用导入的数据替换现有数据
+ * - merge: 按ID合并，ID相同时保留 updatedAt 较新的一份，其余追加
+ * - append: 全部追加，ID冲突时重新生成
+ */
+export type ImportStrategy = 'replace' | 'merge' | 'append'
+
+/**
+ * 导入导出的文件格式
+ */
+export type TransferFormat = 'json' | 'csv' | 'xlsx' | 'todotxt' | 'ical' | 'markdown'
+
+/**
+ * 导入导出文件格式的配置
+ */
+export interface TransferFormatOption {
+  /** 格式 */
+  value: TransferFormat
+  
+  /** 显示名称 */
+  label: string
+  
+  /** 文件扩展名（不含点），第一个用于导出 */
+  extensions: string[]
+  
+  /** 导出文件的 MIME 类型 */
+  mimeType: string
+}
+
+/**
+ * 导入预览，确认导入策略之前不修改任何数据
+ */
+export interface ImportPreview<T = unknown> {
+  /** 文件本身是否有效，无效时不能导入 */
+  success: boolean
+  
+  /** 通过校验、将要导入的数据 */
+  items: T[]
+  
+  /** 与现有数据ID和标题都不重复的数据 */
+  newItems: T[]
+  
+  /** 与现有数据ID相同的数据 */
+  duplicateIds: T[]
+  
+  /** ID不同但与现有数据标题相同的数据 */
+  duplicateTitles: T[]
+  
+  /** 未通过校验的行 */
+  invalid: ImportRowError[]
+  
+  /** 数据行总数 */
+  total: number
 }
\ No newline at end of file
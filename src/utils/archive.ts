@@ -0,0 +1,80 @@
+// 【知识点】工具函数 archive.ts
+// - 归档与完成状态分离，已归档的数据单独保存
+// - 关键字搜索与日期范围筛选
+// - 纯函数，便于单元测试
+/**
+ * 归档工具函数
+ *
+ * 这个文件提供了归档相关的通用逻辑，包括：
+ * 1. 待办事项与归档项之间的转换
+ * 2. 按关键字和归档日期范围筛选归档项
+ */
+
+import type { Todo, ArchivedTodo, ArchiveFilter } from '@/types/todo'
+import { cloneTodo } from './history'
+import { startOfDay } from './dueDate'
+
+/**
+ * 将待办事项转换为归档项
+ *
+ * @param todos - 要归档的待办事项
+ * @param archivedAt - 归档时间
+ * @returns 归档项，原待办事项不会被修改
+ */
+export function toArchivedTodos(todos: Todo[], archivedAt: Date): ArchivedTodo[] {
+  return todos.map(todo => ({ ...cloneTodo(todo), archivedAt: new Date(archivedAt) }))
+}
+
+/**
+ * 将归档项还原为待办事项
+ *
+ * @param item - 归档项
+ * @returns 去掉归档时间后的待办事项
+ */
+export function fromArchivedTodo(item: ArchivedTodo): Todo {
+  const todo: Todo & { archivedAt?: Date } = cloneTodo(item)
+  delete todo.archivedAt
+  return todo
+}
+
+/**
+ * 判断归档项是否符合筛选条件
+ *
+ * @param item - 归档项
+ * @param filter - 筛选条件
+ * @returns 是否符合
+ */
+export function matchesArchiveFilter(item: ArchivedTodo, filter: ArchiveFilter): boolean {
+  const query = filter.query?.trim().toLowerCase()
+  if (query) {
+    const matched = item.title.toLowerCase().includes(query) ||
+      item.tags.some(tag => tag.toLowerCase().includes(query))
+    if (!matched) return false
+  }
+
+  const time = item.archivedAt.getTime()
+  if (filter.from && time < startOfDay(filter.from).getTime()) {
+    return false
+  }
+  if (filter.to) {
+    // 结束日包含当天，比较到次日零点之前
+    const end = startOfDay(filter.to)
+    end.setDate(end.getDate() + 1)
+    if (time >= end.getTime()) return false
+  }
+
+  return true
+}
+
+/**
+ * 按筛选条件过滤归档项
+ *
+ * @param items - 归档项
+ * @param filter - 筛选条件
+ * @returns 符合条件的归档项，按归档时间从新到旧排列
+ */
+export function filterArchivedTodos(items: ArchivedTodo[], filter: ArchiveFilter = {}): ArchivedTodo[] {
+  return items
+    .filter(item => matchesArchiveFilter(item, filter))
+    .sort((a, b) => b.archivedAt.getTime() - a.archivedAt.getTime())
+}
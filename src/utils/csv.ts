@@ -0,0 +1,193 @@
+// 【知识点】工具函数 csv.ts
+// - RFC 4180 CSV 格式的解析与生成
+// - 引号转义、字段内换行
+// - 纯函数，便于单元测试
+/**
+ * CSV 导入导出
+ *
+ * 这个文件提供了待办事项的 CSV 导入导出，包括：
+ * 1. 按 RFC 4180 解析 CSV 文本（支持引号、转义的双引号和字段内换行）
+ * 2. 将表格生成 CSV 文本
+ * 3. 按 ExportConfig / ImportConfig 导出和导入待办事项
+ */
+
+import type { Todo } from '@/types/todo'
+import type { ExportConfig, ImportConfig, ImportResult } from '@/types/utils'
+import { ErrorCode, TodoError } from '@/types/error'
+import { todosToTable, tableToTodos, type TableCell } from './todoTable'
+
+/**
+ * CSV 的换行符（RFC 4180 规定为 CRLF）
+ */
+const CSV_LINE_BREAK = '\r\n'
+
+// ===== 解析 =====
+
+/**
+ * 解析 CSV 文本
+ *
+ * 支持 CRLF、LF 和 CR 换行，会去掉开头的 BOM，末尾的换行不会产生空行
+ *
+ * @param text - CSV 文本
+ * @returns 行，每行为字段数组
+ * @throws {TodoError} 引号没有闭合时抛出错误
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quoteStartLine = 1
+  let line = 1
+
+  /**
+   * 结束当前字段
+   */
+  const endField = () => {
+    row.push(field)
+    field = ''
+  }
+
+  /**
+   * 结束当前行
+   */
+  const endRow = () => {
+    endField()
+    rows.push(row)
+    row = []
+    line++
+  }
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"'
+          i++
+        } else {
+          inQuotes = false
+        }
+      } else {
+        field += char
+      }
+      continue
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true
+      quoteStartLine = line
+    } else if (char === ',') {
+      endField()
+    } else if (char === '\r') {
+      if (input[i + 1] === '\n') i++
+      endRow()
+    } else if (char === '\n') {
+      endRow()
+    } else {
+      field += char
+    }
+  }
+
+  if (inQuotes) {
+    throw new TodoError(
+      `CSV 第${quoteStartLine}行的引号没有闭合`,
+      ErrorCode.VALIDATION_ERROR,
+      { line: quoteStartLine }
+    )
+  }
+
+  // 最后一行没有换行符时仍然是一行
+  if (field !== '' || row.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+// ===== 生成 =====
+
+/**
+ * 将单元格转换为 CSV 字段文本
+ * @param cell - 单元格
+ * @returns 字段文本（未加引号）
+ */
+export function formatCsvCell(cell: TableCell): string {
+  if (cell === null) return ''
+  if (cell instanceof Date) return cell.toISOString()
+  return String(cell)
+}
+
+/**
+ * 按需为字段加上引号
+ *
+ * 包含逗号、双引号、换行或首尾空格的字段用双引号包裹，字段中的双引号写成两个
+ *
+ * @param value - 字段文本
+ * @returns CSV 字段
+ */
+function quoteCsvField(value: string): string {
+  if (/[",\r\n]/.test(value) || value !== value.trim()) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * 将表格生成 CSV 文本
+ * @param rows - 行
+ * @returns CSV 文本，行之间使用 CRLF 分隔
+ */
+export function stringifyCsv(rows: TableCell[][]): string {
+  return rows
+    .map(row => row.map(cell => quoteCsvField(formatCsvCell(cell))).join(','))
+    .join(CSV_LINE_BREAK)
+}
+
+// ===== 待办事项 =====
+
+/**
+ * 将待办事项导出为 CSV
+ *
+ * 日期导出为 ISO 8601 格式，多个标签用分号分隔
+ *
+ * @param todos - 待办事项列表
+ * @param config - 导出配置
+ * @returns CSV 文本
+ */
+export function exportTodosToCsv(
+  todos: Todo[],
+  config: Omit<ExportConfig, 'format'> = {}
+): string {
+  return stringifyCsv(todosToTable(todos, config))
+}
+
+/**
+ * 从 CSV 导入待办事项
+ *
+ * @param text - CSV 文本
+ * @param config - 导入配置
+ * @returns 导入结果，包含逐行的错误报告
+ */
+export async function importTodosFromCsv(
+  text: string,
+  config: Omit<ImportConfig, 'format'> = {}
+): Promise<ImportResult<Todo>> {
+  let rows: string[][]
+  try {
+    rows = parseCsv(text)
+  } catch (error) {
+    const line = error instanceof TodoError ? (error.context?.line as number) : 1
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: line, message: error instanceof Error ? error.message : 'CSV 格式无效' }],
+      total: 0,
+      skipped: 0
+    }
+  }
+
+  return tableToTodos(rows, config)
+}
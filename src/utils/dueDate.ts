@@ -0,0 +1,129 @@
+// 【知识点】工具函数 dueDate.ts
+// - 截止日期相关的纯函数，便于单元测试
+// - 以"自然日"为单位比较日期，忽略具体时刻
+// - TypeScript 类型安全
+/**
+ * 截止日期工具函数
+ *
+ * 这个文件提供了与待办事项开始/截止日期相关的计算，包括：
+ * 1. 自然日的比较与换算
+ * 2. 逾期、今天到期、即将到期的判断
+ * 3. 日期与 <input type="date"> 值之间的转换
+ */
+
+import type { Todo, DueStatus } from '@/types/todo'
+import { DUE_DATE_CONFIG } from '@/types'
+
+/** 一天的毫秒数 */
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 获取某个日期当天的零点
+ *
+ * @param date - 任意日期
+ * @returns 同一天本地时间 00:00:00 的新Date对象
+ */
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * 计算两个日期相差的自然日数
+ *
+ * @param from - 起始日期
+ * @param to - 结束日期
+ * @returns to 比 from 晚的天数，早于 from 时为负数
+ */
+export function diffInDays(from: Date, to: Date): number {
+  const diff = startOfDay(to).getTime() - startOfDay(from).getTime()
+  // 使用四舍五入抵消夏令时带来的小时偏差
+  return Math.round(diff / DAY_IN_MS)
+}
+
+/**
+ * 获取待办事项的截止日期状态
+ *
+ * 已完成的待办事项不参与逾期判断，统一视为 'none'
+ *
+ * @param todo - 待办事项
+ * @param now - 当前时间，默认为调用时刻
+ * @param upcomingDays - "即将到期"覆盖的天数
+ * @returns 截止日期状态
+ */
+export function getDueStatus(
+  todo: Pick<Todo, 'completed' | 'dueDate'>,
+  now: Date = new Date(),
+  upcomingDays: number = DUE_DATE_CONFIG.UPCOMING_DAYS
+): DueStatus {
+  if (todo.completed || !todo.dueDate) {
+    return 'none'
+  }
+
+  const days = diffInDays(now, todo.dueDate)
+
+  if (days < 0) return 'overdue'
+  if (days === 0) return 'today'
+  if (days <= upcomingDays) return 'upcoming'
+  return 'later'
+}
+
+/**
+ * 判断待办事项是否已逾期
+ */
+export function isOverdue(todo: Pick<Todo, 'completed' | 'dueDate'>, now: Date = new Date()): boolean {
+  return getDueStatus(todo, now) === 'overdue'
+}
+
+/**
+ * 判断待办事项是否今天到期
+ */
+export function isDueToday(todo: Pick<Todo, 'completed' | 'dueDate'>, now: Date = new Date()): boolean {
+  return getDueStatus(todo, now) === 'today'
+}
+
+/**
+ * 判断待办事项是否即将到期（不含今天）
+ */
+export function isUpcoming(todo: Pick<Todo, 'completed' | 'dueDate'>, now: Date = new Date()): boolean {
+  return getDueStatus(todo, now) === 'upcoming'
+}
+
+/**
+ * 将日期转换为 <input type="date"> 使用的 YYYY-MM-DD 格式
+ *
+ * @param date - 日期，未设置时返回空字符串
+ * @returns 本地日期字符串
+ */
+export function toDateInputValue(date?: Date | null): string {
+  if (!date || isNaN(date.getTime())) {
+    return ''
+  }
+
+  const year = date.getFullYear()
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${year}-${month}-${day}`
+}
+
+/**
+ * 解析 <input type="date"> 的值
+ *
+ * @param value - YYYY-MM-DD 格式的字符串
+ * @returns 本地时间当天零点的Date对象，空值或格式错误时返回null
+ */
+export function parseDateInputValue(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value.trim())
+  if (!match) {
+    return null
+  }
+
+  const [, year, month, day] = match
+  const date = new Date(Number(year), Number(month) - 1, Number(day))
+
+  // 排除 2024-02-31 这类会被自动进位的非法日期
+  if (date.getMonth() !== Number(month) - 1) {
+    return null
+  }
+
+  return date
+}
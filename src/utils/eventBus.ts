@@ -0,0 +1,114 @@
+// 【知识点】工具函数 eventBus.ts
+// - 发布/订阅模式
+// - 泛型与映射类型：事件名决定载荷类型
+// - 返回取消订阅函数，便于在组件卸载时清理
+/**
+ * 类型化的事件总线
+ *
+ * 这个文件提供了一个通用的事件发射器，包括：
+ * 1. on / once 订阅事件，返回取消订阅的函数
+ * 2. off 取消订阅，不传监听函数时取消该事件的全部订阅
+ * 3. emit 按订阅顺序同步调用监听函数
+ *
+ * 某个监听函数抛出异常时只记录错误，不影响其他监听函数和发出事件的代码
+ */
+
+/**
+ * 事件监听函数
+ */
+export type EventHandler<T> = (payload: T) => void
+
+/**
+ * 事件总线，Events 为事件名称到载荷类型的映射
+ */
+export interface EventBus<Events extends object> {
+  /** 订阅事件，返回取消订阅的函数 */
+  on<K extends keyof Events>(event: K, listener: EventHandler<Events[K]>): () => void
+
+  /** 订阅事件，只触发一次，返回取消订阅的函数 */
+  once<K extends keyof Events>(event: K, listener: EventHandler<Events[K]>): () => void
+
+  /** 取消订阅，不传监听函数时取消该事件的全部订阅 */
+  off<K extends keyof Events>(event: K, listener?: EventHandler<Events[K]>): void
+
+  /** 发出事件 */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void
+
+  /** 监听函数的数量，不传事件名称时返回全部事件的数量 */
+  listenerCount(event?: keyof Events): number
+
+  /** 取消全部订阅 */
+  clear(): void
+}
+
+/**
+ * 创建事件总线
+ *
+ * @returns 事件总线
+ */
+export function createEventBus<Events extends object>(): EventBus<Events> {
+  // 不同事件的参数类型不同，统一保存为 EventHandler<never>（任何监听函数都可以赋值给它），取出时按事件名恢复类型
+  const listeners = new Map<keyof Events, Array<EventHandler<never>>>()
+
+  const getListeners = <K extends keyof Events>(event: K) =>
+    (listeners.get(event) ?? []) as Array<EventHandler<Events[K]>>
+
+  const off = <K extends keyof Events>(event: K, listener?: EventHandler<Events[K]>) => {
+    if (!listener) {
+      listeners.delete(event)
+      return
+    }
+
+    const remaining = getListeners(event).filter(item => item !== listener)
+    if (remaining.length > 0) {
+      listeners.set(event, remaining)
+    } else {
+      listeners.delete(event)
+    }
+  }
+
+  const on = <K extends keyof Events>(event: K, listener: EventHandler<Events[K]>) => {
+    listeners.set(event, [...getListeners(event), listener])
+    return () => off(event, listener)
+  }
+
+  const once = <K extends keyof Events>(event: K, listener: EventHandler<Events[K]>) => {
+    const wrapper: EventHandler<Events[K]> = payload => {
+      off(event, wrapper)
+      listener(payload)
+    }
+    return on(event, wrapper)
+  }
+
+  const emit = <K extends keyof Events>(event: K, payload: Events[K]) => {
+    // 遍历副本，监听函数中订阅或取消订阅不影响本次调用
+    const current = [...getListeners(event)]
+    current.forEach(listener => {
+      try {
+        listener(payload)
+      } catch (error) {
+        console.error(`[EventBus] ${String(event)} 的监听函数出错:`, error)
+      }
+    })
+  }
+
+  const listenerCount = (event?: keyof Events) => {
+    if (event !== undefined) {
+      return listeners.get(event)?.length ?? 0
+    }
+    let count = 0
+    listeners.forEach(items => {
+      count += items.length
+    })
+    return count
+  }
+
+  return {
+    on,
+    once,
+    off,
+    emit,
+    listenerCount,
+    clear: () => listeners.clear()
+  }
+}
@@ -0,0 +1,364 @@
+// 【知识点】工具函数 fuzzy.ts
+// - 编辑距离（含相邻字符交换）实现容错匹配
+// - 增量索引：只为内容有变化的待办事项重新分词
+// - 工厂函数封装内部状态
+/**
+ * 模糊搜索
+ *
+ * 这个文件提供了容错的模糊匹配，包括：
+ * 1. 计算查询词与文本的匹配分数和匹配范围
+ * 2. 为待办事项的标题、备注和标签建立增量索引
+ * 3. 按分数从高到低返回搜索结果，匹配范围可以直接用于高亮
+ *
+ * 每个查询词依次尝试连续子串、拼写容错（例如 "deplyo" 匹配 "deploy"）和按顺序出现的字符，
+ * 所有查询词都匹配时才算匹配；匹配时不区分大小写
+ */
+
+import type { Todo } from '@/types/todo'
+import { SEARCH_CONFIG } from '@/types'
+
+/**
+ * 匹配范围 [开始, 结束)，按字符位置计算
+ */
+export type MatchRange = [start: number, end: number]
+
+/**
+ * 某个字段中的匹配
+ */
+export interface FuzzyFieldMatch {
+  /** 字段名 */
+  field: string
+
+  /** 数组字段（如标签）中的位置，字符串字段为0 */
+  index: number
+
+  /** 匹配范围，按开始位置排列且互不重叠 */
+  ranges: MatchRange[]
+}
+
+/**
+ * 模糊搜索的结果
+ */
+export interface FuzzyResult {
+  /** 待办事项ID */
+  id: string
+
+  /** 匹配分数，0到1之间，越大越相关 */
+  score: number
+
+  /** 各字段中的匹配 */
+  matches: FuzzyFieldMatch[]
+}
+
+/**
+ * 单个查询词在一段文本中的匹配
+ */
+export interface FuzzyTextMatch {
+  /** 匹配分数 */
+  score: number
+
+  /** 匹配范围 */
+  ranges: MatchRange[]
+}
+
+/**
+ * 模糊搜索索引
+ */
+export interface FuzzyIndex {
+  /** 与待办事项同步，返回重新建立索引的条目数量 */
+  sync(todos: Todo[]): number
+
+  /** 搜索，结果按分数从高到低排列，分数相同时保持待办事项的原有顺序 */
+  search(query: string, options?: { limit?: number; minScore?: number }): FuzzyResult[]
+
+  /** 已建立索引的待办事项数量 */
+  readonly size: number
+}
+
+/** 文本中的一个词 */
+export interface IndexedWord {
+  text: string
+  start: number
+}
+
+/** 一段可以搜索的文本 */
+interface IndexedText {
+  field: string
+  index: number
+  weight: number
+  text: string
+  words: IndexedWord[]
+}
+
+/** 一个待办事项的索引条目 */
+interface IndexEntry {
+  id: string
+  signature: string
+  texts: IndexedText[]
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu
+
+/**
+ * 允许的拼写错误数量，查询词越长允许越多
+ *
+ * @param length - 查询词长度
+ * @returns 允许的编辑距离
+ */
+export function getAllowedTypos(length: number): number {
+  if (length <= 2) return 0
+  if (length <= 5) return 1
+  return 2
+}
+
+/**
+ * 计算查询词与一个词的前缀之间的最小编辑距离
+ *
+ * 使用 Optimal String Alignment 距离，相邻字符交换计为一次编辑；
+ * 比较的前缀长度为查询词长度 ±1，长度不足时返回 Infinity
+ *
+ * @param query - 查询词
+ * @param word - 词
+ * @returns 最小距离和对应的前缀长度
+ */
+export function prefixDistance(query: string, word: string): { distance: number; length: number } {
+  const target = word.slice(0, query.length + 1)
+  const rows = query.length + 1
+  const cols = target.length + 1
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0)
+    row[0] = i
+    return row
+  })
+  for (let j = 0; j < cols; j++) {
+    d[0][j] = j
+  }
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = query[i - 1] === target[j - 1] ? 0 : 1
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && query[i - 1] === target[j - 2] && query[i - 2] === target[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1)
+      }
+    }
+  }
+
+  // 距离相同时优先选择与查询词等长的前缀，其次是更长的
+  let best = { distance: Number.POSITIVE_INFINITY, length: 0 }
+  for (const length of [query.length, query.length + 1, query.length - 1]) {
+    if (length >= 1 && length < cols && d[query.length][length] < best.distance) {
+      best = { distance: d[query.length][length], length }
+    }
+  }
+  return best
+}
+
+/**
+ * 把相邻或重叠的范围合并
+ *
+ * @param ranges - 匹配范围
+ * @returns 按开始位置排列、互不重叠的范围
+ */
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a[0] - b[0])
+  const merged: MatchRange[] = []
+
+  sorted.forEach(([start, end]) => {
+    const last = merged[merged.length - 1]
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end)
+    } else {
+      merged.push([start, end])
+    }
+  })
+
+  return merged
+}
+
+/**
+ * 把文本拆分为词
+ *
+ * @param text - 文本（已转为小写）
+ * @returns 词及其开始位置
+ */
+function tokenize(text: string): IndexedWord[] {
+  return Array.from(text.matchAll(WORD_PATTERN), match => ({ text: match[0], start: match.index ?? 0 }))
+}
+
+/**
+ * 在词中按顺序查找查询词的每个字符，第一个字符必须是词首
+ */
+function matchSubsequence(query: string, word: IndexedWord): FuzzyTextMatch | null {
+  if (word.text[0] !== query[0] || query.length > word.text.length) {
+    return null
+  }
+
+  const ranges: MatchRange[] = []
+  let position = 0
+  for (const char of query) {
+    const found = word.text.indexOf(char, position)
+    if (found === -1) return null
+    ranges.push([word.start + found, word.start + found + 1])
+    position = found + 1
+  }
+
+  return { score: 0.5 * (query.length / word.text.length), ranges: mergeRanges(ranges) }
+}
+
+/**
+ * 计算单个查询词与一段文本的匹配
+ *
+ * @param query - 查询词（小写）
+ * @param text - 文本（小写）
+ * @param words - 文本中的词，不传时自动分词
+ * @returns 分数最高的匹配，不匹配时返回null
+ */
+export function matchFuzzyText(query: string, text: string, words: IndexedWord[] = tokenize(text)): FuzzyTextMatch | null {
+  if (query.length === 0) {
+    return null
+  }
+
+  // 连续子串：在词首出现时分数更高
+  const found = text.indexOf(query)
+  if (found !== -1) {
+    const atWordStart = words.some(word => word.start === found)
+    return { score: atWordStart ? 1 : 0.9, ranges: [[found, found + query.length]] }
+  }
+
+  let best: FuzzyTextMatch | null = null
+  const allowed = getAllowedTypos(query.length)
+
+  for (const word of words) {
+    if (allowed > 0 && word.text.length >= query.length - allowed) {
+      const { distance, length } = prefixDistance(query, word.text)
+      if (distance <= allowed) {
+        // 覆盖整个词时分数更高，例如 "deplyo" 与 "deploy" 比与 "deployment" 更接近
+        const coverage = Math.min(length / word.text.length, 1)
+        const score = 0.8 * (1 - distance / (query.length + 1)) * (0.9 + 0.1 * coverage)
+        if (!best || score > best.score) {
+          best = { score, ranges: [[word.start, word.start + length]] }
+        }
+        continue
+      }
+    }
+
+    const subsequence = matchSubsequence(query, word)
+    if (subsequence && (!best || subsequence.score > best.score)) {
+      best = subsequence
+    }
+  }
+
+  return best
+}
+
+/**
+ * 获取待办事项中要建立索引的文本
+ */
+function collectTexts(todo: Todo): IndexedText[] {
+  const record = todo as unknown as Record<string, unknown>
+  const texts: IndexedText[] = []
+
+  Object.entries(SEARCH_CONFIG.FUZZY_FIELDS).forEach(([field, weight]) => {
+    const value = record[field]
+    const values = typeof value === 'string' ? [value] : Array.isArray(value) ? value : []
+    values.forEach((item, index) => {
+      if (typeof item !== 'string' || item.length === 0) return
+      const text = item.toLowerCase()
+      texts.push({ field, index, weight, text, words: [] })
+    })
+  })
+
+  return texts
+}
+
+/**
+ * 创建模糊搜索索引
+ *
+ * 搜索标题、备注（插件字段 notes）和标签，权重见 SEARCH_CONFIG.FUZZY_FIELDS
+ *
+ * @returns 索引
+ */
+export function createFuzzyIndex(): FuzzyIndex {
+  let entries: IndexEntry[] = []
+  let byId = new Map<string, IndexEntry>()
+
+  const sync = (todos: Todo[]): number => {
+    let rebuilt = 0
+    const next = new Map<string, IndexEntry>()
+
+    entries = todos.map(todo => {
+      const texts = collectTexts(todo)
+      const signature = texts.map(item => `${item.field}:${item.text}`).join('\u0000')
+      const existing = byId.get(todo.id)
+      if (existing && existing.signature === signature) {
+        next.set(todo.id, existing)
+        return existing
+      }
+
+      rebuilt++
+      texts.forEach(item => {
+        item.words = tokenize(item.text)
+      })
+      const entry: IndexEntry = { id: todo.id, signature, texts }
+      next.set(todo.id, entry)
+      return entry
+    })
+
+    byId = next
+    return rebuilt
+  }
+
+  const search = (query: string, options: { limit?: number; minScore?: number } = {}): FuzzyResult[] => {
+    const terms = query.toLowerCase().match(WORD_PATTERN) ?? []
+    if (terms.length === 0) {
+      return []
+    }
+
+    const minScore = options.minScore ?? SEARCH_CONFIG.FUZZY_MIN_SCORE
+    const results: FuzzyResult[] = []
+
+    entries.forEach(entry => {
+      let total = 0
+      const ranges = new Map<IndexedText, MatchRange[]>()
+
+      for (const term of terms) {
+        let best: { score: number; text: IndexedText; match: FuzzyTextMatch } | null = null
+        for (const text of entry.texts) {
+          const match = matchFuzzyText(term, text.text, text.words)
+          if (match && (!best || match.score * text.weight > best.score)) {
+            best = { score: match.score * text.weight, text, match }
+          }
+        }
+        if (!best) return
+        total += best.score
+        ranges.set(best.text, [...(ranges.get(best.text) ?? []), ...best.match.ranges])
+      }
+
+      const score = total / terms.length
+      if (score < minScore) return
+
+      results.push({
+        id: entry.id,
+        score,
+        matches: Array.from(ranges, ([text, textRanges]) => ({
+          field: text.field,
+          index: text.index,
+          ranges: mergeRanges(textRanges)
+        }))
+      })
+    })
+
+    // Array.prototype.sort 是稳定排序，分数相同时保持原有顺序
+    results.sort((a, b) => b.score - a.score)
+    return options.limit !== undefined ? results.slice(0, options.limit) : results
+  }
+
+  return {
+    sync,
+    search,
+    get size() {
+      return entries.length
+    }
+  }
+}
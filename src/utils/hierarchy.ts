@@ -0,0 +1,265 @@
+// 【知识点】工具函数 hierarchy.ts
+// - 基于 parentId 的扁平树结构
+// - 递归遍历与环检测
+// - 纯函数，便于单元测试
+/**
+ * 子任务层级工具函数
+ *
+ * 待办事项通过 parentId 引用父任务，列表本身保持扁平存储。
+ * 这个文件提供了层级相关的通用逻辑，包括：
+ * 1. 子任务、后代、祖先的查询
+ * 2. 子任务完成进度的汇总
+ * 3. 树形结构的构建
+ * 4. 修复加载数据中失效的父子关系
+ */
+
+import type { Todo, SubtaskProgress, TodoTreeNode } from '@/types/todo'
+
+/**
+ * 按父任务ID分组
+ *
+ * @param todos - 待办事项列表
+ * @returns 父任务ID到直接子任务列表的映射
+ */
+export function groupByParent(todos: Todo[]): Map<string, Todo[]> {
+  const groups = new Map<string, Todo[]>()
+
+  for (const todo of todos) {
+    if (todo.parentId) {
+      const siblings = groups.get(todo.parentId)
+      if (siblings) {
+        siblings.push(todo)
+      } else {
+        groups.set(todo.parentId, [todo])
+      }
+    }
+  }
+
+  return groups
+}
+
+/**
+ * 获取直接子任务
+ *
+ * @param todos - 待办事项列表
+ * @param id - 父任务ID
+ * @returns 直接子任务列表
+ */
+export function getChildren(todos: Todo[], id: string): Todo[] {
+  return todos.filter(todo => todo.parentId === id)
+}
+
+/**
+ * 获取所有后代任务的ID（不含自身）
+ *
+ * @param todos - 待办事项列表
+ * @param id - 任务ID
+ * @returns 后代任务ID列表，按层级由浅到深排列
+ */
+export function getDescendantIds(todos: Todo[], id: string): string[] {
+  const groups = groupByParent(todos)
+  const result: string[] = []
+  const queue = [id]
+
+  while (queue.length > 0) {
+    const current = queue.shift()!
+    for (const child of groups.get(current) ?? []) {
+      if (child.id !== id && !result.includes(child.id)) {
+        result.push(child.id)
+        queue.push(child.id)
+      }
+    }
+  }
+
+  return result
+}
+
+/**
+ * 获取所有祖先任务的ID
+ *
+ * @param todos - 待办事项列表
+ * @param id - 任务ID
+ * @returns 祖先任务ID列表，从直接父任务开始向上排列
+ */
+export function getAncestorIds(todos: Todo[], id: string): string[] {
+  const byId = new Map(todos.map(todo => [todo.id, todo]))
+  const result: string[] = []
+  let parentId = byId.get(id)?.parentId
+
+  while (parentId && byId.has(parentId) && !result.includes(parentId) && parentId !== id) {
+    result.push(parentId)
+    parentId = byId.get(parentId)?.parentId
+  }
+
+  return result
+}
+
+/**
+ * 获取任务所在的层级深度，顶层任务为0
+ *
+ * @param todos - 待办事项列表
+ * @param id - 任务ID
+ * @returns 层级深度
+ */
+export function getDepth(todos: Todo[], id: string): number {
+  return getAncestorIds(todos, id).length
+}
+
+/**
+ * 获取以某个任务为根的子树高度，没有子任务时为0
+ *
+ * @param todos - 待办事项列表
+ * @param id - 任务ID
+ * @returns 子树高度
+ */
+export function getSubtreeHeight(todos: Todo[], id: string): number {
+  const groups = groupByParent(todos)
+
+  const height = (current: string, visited: Set<string>): number => {
+    let max = 0
+    for (const child of groups.get(current) ?? []) {
+      if (!visited.has(child.id)) {
+        visited.add(child.id)
+        max = Math.max(max, 1 + height(child.id, visited))
+      }
+    }
+    return max
+  }
+
+  return height(id, new Set([id]))
+}
+
+/**
+ * 计算子任务完成进度
+ *
+ * 进度按所有后代任务汇总，孙任务同样计入父任务的进度
+ *
+ * @param todos - 待办事项列表
+ * @param id - 父任务ID
+ * @returns 完成进度，没有子任务时返回null
+ */
+export function getSubtaskProgress(todos: Todo[], id: string): SubtaskProgress | null {
+  const descendantIds = new Set(getDescendantIds(todos, id))
+  if (descendantIds.size === 0) {
+    return null
+  }
+
+  const completed = todos.filter(todo => descendantIds.has(todo.id) && todo.completed).length
+  const total = descendantIds.size
+
+  return {
+    completed,
+    total,
+    rate: Math.round((completed / total) * 100)
+  }
+}
+
+/**
+ * 一次性计算所有父任务的子任务完成进度
+ *
+ * 与逐个调用 getSubtaskProgress 的结果一致，但只遍历列表一次，
+ * 适合在计算属性中为整个列表生成进度
+ *
+ * @param todos - 待办事项列表
+ * @returns 父任务ID到完成进度的映射，没有子任务的任务不包含在内
+ */
+export function getProgressMap(todos: Todo[]): Record<string, SubtaskProgress> {
+  const groups = groupByParent(todos)
+  const result: Record<string, SubtaskProgress> = {}
+
+  const visit = (id: string, visited: Set<string>): { completed: number; total: number } => {
+    let completed = 0
+    let total = 0
+
+    for (const child of groups.get(id) ?? []) {
+      if (visited.has(child.id)) continue
+      visited.add(child.id)
+
+      const sub = visit(child.id, visited)
+      completed += sub.completed + (child.completed ? 1 : 0)
+      total += sub.total + 1
+    }
+
+    if (total > 0) {
+      result[id] = { completed, total, rate: Math.round((completed / total) * 100) }
+    }
+    return { completed, total }
+  }
+
+  for (const todo of todos) {
+    if (!(todo.id in result) && groups.has(todo.id)) {
+      visit(todo.id, new Set([todo.id]))
+    }
+  }
+
+  return result
+}
+
+/**
+ * 构建树形结构
+ *
+ * 父任务不在列表中的任务（例如被过滤掉）会作为顶层节点显示
+ *
+ * @param todos - 待办事项列表，节点顺序与列表顺序一致
+ * @returns 顶层节点列表
+ */
+export function buildTodoTree(todos: Todo[]): TodoTreeNode[] {
+  const ids = new Set(todos.map(todo => todo.id))
+  const groups = groupByParent(todos)
+
+  const toNode = (todo: Todo, visited: Set<string>): TodoTreeNode => ({
+    todo,
+    children: (groups.get(todo.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .map(child => toNode(child, new Set(visited).add(child.id)))
+  })
+
+  return todos
+    .filter(todo => !todo.parentId || !ids.has(todo.parentId))
+    .map(todo => toNode(todo, new Set([todo.id])))
+}
+
+/**
+ * 修复失效的父子关系
+ *
+ * 父任务不存在或形成循环引用时，移除该任务的 parentId
+ *
+ * @param todos - 待办事项列表
+ * @returns 修复后的列表；没有需要修复的任务时返回原数组
+ */
+export function repairHierarchy(todos: Todo[]): Todo[] {
+  const byId = new Map(todos.map(todo => [todo.id, todo]))
+  const broken = new Set<string>()
+
+  for (const todo of todos) {
+    if (!todo.parentId) continue
+
+    if (!byId.has(todo.parentId)) {
+      broken.add(todo.id)
+      continue
+    }
+
+    // 沿父链向上查找，回到自身说明存在循环
+    const seen = new Set([todo.id])
+    let parentId: string | undefined = todo.parentId
+    while (parentId && !broken.has(parentId)) {
+      if (seen.has(parentId)) {
+        broken.add(todo.id)
+        break
+      }
+      seen.add(parentId)
+      parentId = byId.get(parentId)?.parentId
+    }
+  }
+
+  if (broken.size === 0) {
+    return todos
+  }
+
+  return todos.map(todo => {
+    if (!broken.has(todo.id)) return todo
+    const orphan = { ...todo }
+    delete orphan.parentId
+    return orphan
+  })
+}
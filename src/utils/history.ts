@@ -0,0 +1,128 @@
+// 【知识点】工具函数 history.ts
+// - 撤销/重做所需的待办事项快照
+// - 历史记录栈的容量控制
+// - 纯函数，便于单元测试
+/**
+ * 撤销/重做工具函数
+ *
+ * 这个文件提供了历史记录相关的通用逻辑，包括：
+ * 1. 待办事项的深拷贝（快照）
+ * 2. 判断两次快照是否相同
+ * 3. 按容量压入历史记录
+ * 4. 比较两次快照，找出新增、修改和删除的待办事项
+ */
+
+import type { Todo } from '@/types/todo'
+
+/**
+ * 深拷贝任意值
+ *
+ * 支持日期、数组和普通对象；待办事项可能来自响应式代理，所以不使用 structuredClone
+ *
+ * @param value - 要复制的值
+ * @returns 副本
+ */
+function cloneValue<T>(value: T): T {
+  if (value instanceof Date) {
+    return new Date(value.getTime()) as T
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => cloneValue(item)) as T
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const copy: Record<string, unknown> = {}
+    Object.entries(value).forEach(([key, item]) => {
+      copy[key] = cloneValue(item)
+    })
+    return copy as T
+  }
+
+  return value
+}
+
+/**
+ * 深拷贝单个待办事项
+ *
+ * 日期、标签、重复规则以及插件增加的字段都会被复制，修改副本不会影响原对象
+ *
+ * @param todo - 待办事项
+ * @returns 副本
+ */
+export function cloneTodo(todo: Todo): Todo {
+  return cloneValue(todo)
+}
+
+/**
+ * 深拷贝待办事项列表
+ *
+ * @param todos - 待办事项列表
+ * @returns 快照
+ */
+export function cloneTodos(todos: Todo[]): Todo[] {
+  return todos.map(cloneTodo)
+}
+
+/**
+ * 判断两个快照是否相同
+ *
+ * @param a - 第一个快照
+ * @param b - 第二个快照
+ * @returns 是否相同
+ */
+export function isSameSnapshot(a: Todo[], b: Todo[]): boolean {
+  return a.length === b.length && JSON.stringify(a) === JSON.stringify(b)
+}
+
+/**
+ * 两次快照之间的差异
+ */
+export interface TodoSnapshotDiff {
+  /** 新增的待办事项 */
+  added: Todo[]
+  
+  /** 修改的待办事项及修改前的版本 */
+  updated: Array<{ todo: Todo; previous: Todo }>
+  
+  /** 删除的待办事项 */
+  deleted: Todo[]
+}
+
+/**
+ * 按ID比较两次快照
+ *
+ * @param before - 修改前的快照
+ * @param after - 修改后的快照
+ * @returns 新增、修改和删除的待办事项，各自按快照中的顺序排列
+ */
+export function diffTodos(before: Todo[], after: Todo[]): TodoSnapshotDiff {
+  const previousById = new Map(before.map(todo => [todo.id, todo]))
+  const afterIds = new Set(after.map(todo => todo.id))
+  const diff: TodoSnapshotDiff = { added: [], updated: [], deleted: [] }
+
+  after.forEach(todo => {
+    const previous = previousById.get(todo.id)
+    if (!previous) {
+      diff.added.push(todo)
+    } else if (JSON.stringify(previous) !== JSON.stringify(todo)) {
+      diff.updated.push({ todo, previous })
+    }
+  })
+  diff.deleted = before.filter(todo => !afterIds.has(todo.id))
+
+  return diff
+}
+
+/**
+ * 压入历史记录，超出容量时丢弃最早的记录
+ *
+ * @param stack - 历史记录栈，栈顶在数组末尾
+ * @param entry - 新的记录
+ * @param limit - 最多保留的条数
+ * @returns 新的历史记录栈
+ */
+export function pushHistory<T>(stack: T[], entry: T, limit: number): T[] {
+  const next = [...stack, entry]
+  return next.length > limit ? next.slice(next.length - limit) : next
+}
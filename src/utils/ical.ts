@@ -0,0 +1,519 @@
+// 【知识点】工具函数 ical.ts
+// - iCalendar（RFC 5545）的内容行、折行与转义
+// - VCALENDAR / VTODO 组件的嵌套结构
+// - 纯函数，便于单元测试
+/**
+ * iCalendar 待办事项导入导出
+ *
+ * 这个文件提供了待办事项与 .ics 文件中 VTODO 组件之间的转换，包括：
+ * 1. 生成符合 RFC 5545 的日历文件，长行按75个字节折行，文本按规范转义
+ * 2. 解析日历文件，处理折行、转义、参数中的引号以及嵌套组件
+ * 3. VTODO 与 Todo 之间的字段对应
+ *
+ * 与 Todo 的对应关系：
+ * - UID 对应 id，SUMMARY 对应 title
+ * - STATUS/COMPLETED 对应完成状态，完成时间写为 updatedAt
+ * - CREATED/LAST-MODIFIED 对应 createdAt/updatedAt
+ * - PRIORITY 1~9 对应 紧急/高/中/低，0 或缺失为无
+ * - DUE/DTSTART 对应截止日期/开始日期，CATEGORIES 对应标签，RELATED-TO 对应父任务
+ *
+ * 带 TZID 参数的时间按本地时间读取
+ */
+
+import type { Todo, TodoPriority } from '@/types/todo'
+import type { ImportResult, ImportRowError } from '@/types/utils'
+import { DEFAULT_PROJECT } from '@/types'
+import { ErrorCode, TodoError } from '@/types/error'
+import { generateId } from './todoStorage'
+import { normalizeTagList } from './tags'
+import { toDateInputValue } from './dueDate'
+import { validateTitle, toTodoError } from './validation'
+
+/**
+ * .ics 文件的 MIME 类型
+ */
+export const ICAL_MIME_TYPE = 'text/calendar'
+
+/**
+ * 生成的日历文件的 PRODID
+ */
+const PRODUCT_ID = '-//vue-todo-list//Todo Export//ZH'
+
+/**
+ * 内容行的最大字节数（不含换行符）
+ */
+const MAX_LINE_OCTETS = 75
+
+/**
+ * 优先级对应的 PRIORITY 值（1最高，9最低）
+ */
+const PRIORITY_TO_ICAL: Record<TodoPriority, number> = {
+  none: 0,
+  low: 9,
+  medium: 5,
+  high: 3,
+  urgent: 1
+}
+
+/**
+ * iCalendar 属性
+ */
+export interface ICalProperty {
+  /** 属性名，大写 */
+  name: string
+  /** 参数，参数名大写，值去掉引号 */
+  params: Record<string, string>
+  /** 未反转义的原始值 */
+  value: string
+}
+
+/**
+ * iCalendar 组件
+ */
+export interface ICalComponent {
+  /** 组件名，大写，如 VCALENDAR、VTODO */
+  name: string
+  /** 属性 */
+  properties: ICalProperty[]
+  /** 嵌套的子组件 */
+  components: ICalComponent[]
+  /** BEGIN 所在的行号，从1开始 */
+  line: number
+}
+
+/**
+ * iCalendar 导入选项
+ */
+export interface ICalImportOptions {
+  /** 导入的待办事项所属的列表ID，默认为默认列表 */
+  projectId?: string
+}
+
+// ===== 文本与日期 =====
+
+/**
+ * 转义文本值中的反斜杠、分号、逗号和换行
+ * @param text - 文本
+ * @returns 转义后的文本
+ */
+export function escapeICalText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n')
+}
+
+/**
+ * 还原转义的文本值
+ * @param text - 转义后的文本
+ * @returns 文本
+ */
+export function unescapeICalText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char))
+}
+
+/**
+ * 按未转义的分隔符拆分多值属性（如 CATEGORIES）
+ * @param value - 原始值
+ * @param separator - 分隔符
+ * @returns 拆分后仍未反转义的各个值
+ */
+function splitEscaped(value: string, separator: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i]
+    if (char === '\\' && i + 1 < value.length) {
+      current += char + value[i + 1]
+      i++
+    } else if (char === separator) {
+      parts.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  parts.push(current)
+  return parts
+}
+
+/**
+ * 格式化为 UTC 的 DATE-TIME 值，如 20240101T100000Z
+ * @param date - 日期
+ * @returns DATE-TIME 值
+ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/\.\d{3}/, '').replace(/[-:]/g, '')
+}
+
+/**
+ * 格式化为按本地日期的 DATE 值，如 20240101
+ * @param date - 日期
+ * @returns DATE 值
+ */
+export function formatICalDate(date: Date): string {
+  return toDateInputValue(date).replace(/-/g, '')
+}
+
+/**
+ * 解析 DATE 或 DATE-TIME 值
+ *
+ * 以 Z 结尾的为 UTC 时间；DATE 值、浮动时间和带 TZID 的时间按本地时间解析
+ *
+ * @param value - 属性值
+ * @returns 日期，格式不正确时返回null
+ */
+export function parseICalDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim())
+  if (!match) return null
+
+  const [year, month, day, hours, minutes, seconds] = match.slice(1, 7).map(part => Number(part ?? 0))
+  const isUtc = match[7] === 'Z'
+  const date = isUtc
+    ? new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds))
+    : new Date(year, month - 1, day, hours, minutes, seconds)
+
+  // 排除 20240231 这类会被自动进位的日期
+  const actualMonth = isUtc ? date.getUTCMonth() : date.getMonth()
+  const actualDay = isUtc ? date.getUTCDate() : date.getDate()
+  return actualMonth === month - 1 && actualDay === day ? date : null
+}
+
+// ===== 内容行 =====
+
+/**
+ * 计算字符的 UTF-8 字节数
+ * @param char - 单个字符（码点）
+ * @returns 字节数
+ */
+function utf8Length(char: string): number {
+  const code = char.codePointAt(0) ?? 0
+  if (code < 0x80) return 1
+  if (code < 0x800) return 2
+  if (code < 0x10000) return 3
+  return 4
+}
+
+/**
+ * 按75个字节折行，续行以一个空格开头，不会拆开多字节字符
+ * @param line - 内容行
+ * @returns 折行后的文本，行之间使用 CRLF
+ */
+export function foldICalLine(line: string): string {
+  const lines: string[] = []
+  let current = ''
+  let octets = 0
+  for (const char of line) {
+    const length = utf8Length(char)
+    // 续行开头的空格也占一个字节
+    const limit = lines.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1
+    if (octets + length > limit) {
+      lines.push(current)
+      current = ''
+      octets = 0
+    }
+    current += char
+    octets += length
+  }
+  lines.push(current)
+  return lines.join('\r\n ')
+}
+
+/**
+ * 展开折行
+ * @param text - 日历文本
+ * @returns 逻辑行及其起始行号
+ */
+function unfoldICalLines(text: string): Array<{ line: number; text: string }> {
+  const lines: Array<{ line: number; text: string }> = []
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach((physical, index) => {
+    if ((physical.startsWith(' ') || physical.startsWith('\t')) && lines.length > 0) {
+      lines[lines.length - 1].text += physical.slice(1)
+    } else if (physical !== '') {
+      lines.push({ line: index + 1, text: physical })
+    }
+  })
+  return lines
+}
+
+/**
+ * 解析一个内容行：名称、参数和值
+ * @param line - 展开后的内容行
+ * @returns 属性，不是有效内容行时返回null
+ */
+export function parseICalContentLine(line: string): ICalProperty | null {
+  // 引号中的冒号和分号属于参数值
+  const segments: string[] = []
+  let current = ''
+  let inQuotes = false
+  let valueStart = -1
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      inQuotes = !inQuotes
+      current += char
+    } else if (!inQuotes && char === ':') {
+      valueStart = i + 1
+      break
+    } else if (!inQuotes && char === ';') {
+      segments.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  if (valueStart < 0) return null
+  segments.push(current)
+
+  const [name, ...paramList] = segments
+  if (!/^[A-Za-z0-9-]+$/.test(name)) return null
+
+  const params: Record<string, string> = {}
+  paramList.forEach(param => {
+    const separator = param.indexOf('=')
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param.slice(separator + 1).replace(/"/g, '')
+    }
+  })
+
+  return { name: name.toUpperCase(), params, value: line.slice(valueStart) }
+}
+
+/**
+ * 解析日历文本中的组件
+ *
+ * @param text - 日历文本
+ * @returns 顶层组件（通常是一个 VCALENDAR）
+ * @throws {TodoError} BEGIN 与 END 不匹配或内容行无效时抛出错误
+ */
+export function parseICal(text: string): ICalComponent[] {
+  const roots: ICalComponent[] = []
+  const stack: ICalComponent[] = []
+
+  unfoldICalLines(text).forEach(({ line, text: content }) => {
+    const property = parseICalContentLine(content)
+    if (!property) {
+      throw new TodoError(`第${line}行不是有效的内容行`, ErrorCode.VALIDATION_ERROR, { line })
+    }
+
+    if (property.name === 'BEGIN') {
+      const component: ICalComponent = { name: property.value.trim().toUpperCase(), properties: [], components: [], line }
+      if (stack.length > 0) {
+        stack[stack.length - 1].components.push(component)
+      } else {
+        roots.push(component)
+      }
+      stack.push(component)
+    } else if (property.name === 'END') {
+      const component = stack.pop()
+      if (!component || component.name !== property.value.trim().toUpperCase()) {
+        throw new TodoError(`第${line}行的 END 与 BEGIN 不匹配`, ErrorCode.VALIDATION_ERROR, { line })
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property)
+    }
+  })
+
+  if (stack.length > 0) {
+    const component = stack[stack.length - 1]
+    throw new TodoError(`第${component.line}行的 ${component.name} 没有结束`, ErrorCode.VALIDATION_ERROR, { line: component.line })
+  }
+
+  return roots
+}
+
+// ===== 导出 =====
+
+/**
+ * 生成一个待办事项的 VTODO 内容行
+ * @param todo - 待办事项
+ * @param stamp - DTSTAMP 使用的时间
+ * @returns 未折行的内容行
+ */
+function todoToVTodoLines(todo: Todo, stamp: Date): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${todo.id}`,
+    `DTSTAMP:${formatICalDateTime(stamp)}`,
+    `CREATED:${formatICalDateTime(todo.createdAt)}`,
+    `LAST-MODIFIED:${formatICalDateTime(todo.updatedAt)}`,
+    `SUMMARY:${escapeICalText(todo.title)}`,
+    `STATUS:${todo.completed ? 'COMPLETED' : 'NEEDS-ACTION'}`
+  ]
+
+  if (todo.completed) {
+    lines.push(`COMPLETED:${formatICalDateTime(todo.updatedAt)}`, 'PERCENT-COMPLETE:100')
+  }
+  if (todo.priority !== 'none') {
+    lines.push(`PRIORITY:${PRIORITY_TO_ICAL[todo.priority]}`)
+  }
+  if (todo.startDate) {
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(todo.startDate)}`)
+  }
+  if (todo.dueDate) {
+    lines.push(`DUE;VALUE=DATE:${formatICalDate(todo.dueDate)}`)
+  }
+  if (todo.tags.length > 0) {
+    lines.push(`CATEGORIES:${todo.tags.map(escapeICalText).join(',')}`)
+  }
+  if (todo.parentId) {
+    lines.push(`RELATED-TO:${todo.parentId}`)
+  }
+
+  lines.push('END:VTODO')
+  return lines
+}
+
+/**
+ * 将待办事项导出为 iCalendar 文件
+ *
+ * @param todos - 待办事项列表
+ * @returns .ics 文本，每行以 CRLF 结尾
+ */
+export function exportTodosToICal(todos: Todo[]): string {
+  const stamp = new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    ...todos.flatMap(todo => todoToVTodoLines(todo, stamp)),
+    'END:VCALENDAR'
+  ]
+  return lines.map(foldICalLine).join('\r\n') + '\r\n'
+}
+
+// ===== 导入 =====
+
+/**
+ * 将 PRIORITY 值转换为优先级
+ * @param value - PRIORITY 值
+ * @returns 优先级
+ */
+function priorityFromICal(value: string | undefined): TodoPriority {
+  const level = Number(value)
+  if (!Number.isInteger(level) || level <= 0 || level > 9) return 'none'
+  if (level <= 2) return 'urgent'
+  if (level <= 4) return 'high'
+  if (level === 5) return 'medium'
+  return 'low'
+}
+
+/**
+ * 将 VTODO 组件转换为待办事项
+ *
+ * @param component - VTODO 组件
+ * @param options - 导入选项
+ * @returns 待办事项，parentId 为 RELATED-TO 中的原始UID
+ * @throws {TodoError} SUMMARY 缺失或不符合标题规则时抛出错误
+ */
+export function vTodoToTodo(component: ICalComponent, options: ICalImportOptions = {}): Todo {
+  /**
+   * 读取第一个同名属性
+   * @param name - 属性名
+   * @returns 属性
+   */
+  const get = (name: string) => component.properties.find(property => property.name === name)
+  /**
+   * 读取第一个同名属性的日期值
+   * @param name - 属性名
+   * @returns 日期
+   */
+  const getDate = (name: string) => {
+    const property = get(name)
+    return property ? parseICalDate(property.value) : null
+  }
+
+  const title = unescapeICalText(get('SUMMARY')?.value ?? '').trim()
+  const titleError = toTodoError(validateTitle(title))
+  if (titleError) {
+    throw titleError
+  }
+
+  const now = new Date()
+  const stamp = getDate('DTSTAMP')
+  const completedAt = getDate('COMPLETED')
+  const completed = get('STATUS')?.value.trim().toUpperCase() === 'COMPLETED' || completedAt !== null
+
+  const parent = component.properties.find(property =>
+    property.name === 'RELATED-TO' && (property.params.RELTYPE ?? 'PARENT').toUpperCase() === 'PARENT'
+  )
+
+  const todo: Todo = {
+    id: get('UID')?.value.trim() || generateId(),
+    title,
+    completed,
+    priority: priorityFromICal(get('PRIORITY')?.value.trim()),
+    tags: normalizeTagList(
+      component.properties
+        .filter(property => property.name === 'CATEGORIES')
+        .flatMap(property => splitEscaped(property.value, ',').map(unescapeICalText))
+    ),
+    projectId: options.projectId ?? DEFAULT_PROJECT.ID,
+    createdAt: getDate('CREATED') ?? stamp ?? now,
+    updatedAt: getDate('LAST-MODIFIED') ?? completedAt ?? stamp ?? now
+  }
+
+  const dueDate = getDate('DUE')
+  const startDate = getDate('DTSTART')
+  if (dueDate) todo.dueDate = dueDate
+  if (startDate) todo.startDate = startDate
+  if (parent?.value.trim()) todo.parentId = parent.value.trim()
+
+  return todo
+}
+
+/**
+ * 从 iCalendar 文件导入待办事项
+ *
+ * 只导入 VCALENDAR 中的 VTODO，VEVENT 等其他组件被忽略；无法转换的 VTODO 被跳过并记录在错误报告中。
+ * RELATED-TO 指向的父任务不在同一文件中时不设置父任务
+ *
+ * @param text - .ics 文本
+ * @param options - 导入选项
+ * @returns 导入结果，行号为 BEGIN:VTODO 所在的行
+ */
+export function importTodosFromICal(text: string, options: ICalImportOptions = {}): ImportResult<Todo> {
+  let roots: ICalComponent[]
+  try {
+    roots = parseICal(text)
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      errors: [{
+        row: error instanceof TodoError ? (error.context?.line as number) : 1,
+        message: error instanceof Error ? error.message : 'iCalendar 格式无效'
+      }],
+      total: 0,
+      skipped: 0
+    }
+  }
+
+  const calendars = roots.filter(root => root.name === 'VCALENDAR')
+  if (calendars.length === 0) {
+    return { success: false, data: [], errors: [{ row: 1, message: '缺少 VCALENDAR 组件' }], total: 0, skipped: 0 }
+  }
+
+  const components = calendars.flatMap(calendar => calendar.components.filter(component => component.name === 'VTODO'))
+
+  const data: Todo[] = []
+  const errors: ImportRowError[] = []
+  components.forEach(component => {
+    try {
+      data.push(vTodoToTodo(component, options))
+    } catch (error) {
+      errors.push({ row: component.line, message: error instanceof Error ? error.message : '无法解析该待办事项' })
+    }
+  })
+
+  const ids = new Set(data.map(todo => todo.id))
+  data.forEach(todo => {
+    if (todo.parentId && (!ids.has(todo.parentId) || todo.parentId === todo.id)) {
+      delete todo.parentId
+    }
+  })
+
+  return { success: true, data, errors, total: components.length, skipped: errors.length }
+}
@@ -0,0 +1,191 @@
+// 【知识点】工具函数 importPreview.ts
+// - 先预览、后提交的两阶段导入
+// - 按ID和标题识别重复数据
+// - 纯函数，便于单元测试
+/**
+ * 导入预览与合并策略
+ *
+ * 这个文件提供了导入数据之前的预览以及确认后的合并，包括：
+ * 1. 解析 JSON 备份，逐条检查格式并执行 ImportConfig.validationRules
+ * 2. 统计新增、ID重复、标题重复和无效的数据
+ * 3. 按 replace / merge / append 策略生成导入后的列表
+ *
+ * 按ID合并的规则与多标签页同步相同：ID相同时保留 updatedAt 较新的一份
+ */
+
+import type { Todo } from '@/types/todo'
+import type { ImportConfig, ImportResult, ImportRowError, ImportPreview, ImportStrategy } from '@/types/utils'
+import { generateId, reviveTodo, reviveDate } from './todoStorage'
+import { isPlainObject } from './migrations'
+import { mergeRecords } from './tabSync'
+import { validateTitle, validateAsync } from './validation'
+
+// ===== 解析 =====
+
+/**
+ * 检查一条原始数据的格式
+ * @param raw - JSON 中的一条数据
+ * @param row - 行号
+ * @returns 格式错误，没有错误时返回空数组
+ */
+function checkRawTodo(raw: unknown, row: number): ImportRowError[] {
+  if (!isPlainObject(raw)) {
+    return [{ row, message: 'Todo项数据格式不正确' }]
+  }
+
+  const errors: ImportRowError[] = []
+  if (typeof raw.id !== 'string' || !raw.id) {
+    errors.push({ row, field: 'id', value: String(raw.id ?? ''), message: '缺少ID' })
+  }
+  const titleResult = validateTitle(raw.title)
+  if (!titleResult.valid) {
+    errors.push({ row, field: 'title', value: String(raw.title ?? ''), message: titleResult.errors[0].message })
+  }
+  if (typeof raw.completed !== 'boolean') {
+    errors.push({ row, field: 'completed', value: String(raw.completed ?? ''), message: '完成状态必须是布尔值' })
+  }
+  for (const field of ['createdAt', 'updatedAt'] as const) {
+    if (Number.isNaN(reviveDate(raw[field]).getTime())) {
+      errors.push({ row, field, value: String(raw[field] ?? ''), message: '日期格式无效' })
+    }
+  }
+  return errors
+}
+
+/**
+ * 解析 JSON 备份中的待办事项
+ *
+ * 所有无效的数据都会被报告，行号为数据在 todos 数组中的位置（从1开始）；
+ * 只有文件本身无效时 success 为 false
+ *
+ * @param jsonData - exportData 导出的 JSON 文本
+ * @param config - 导入配置，使用其中的 validationRules
+ * @returns 导入结果，data 只包含有效的待办事项
+ */
+export async function parseTodosJson(
+  jsonData: string,
+  config: Omit<ImportConfig, 'format'> = {}
+): Promise<ImportResult<Todo>> {
+  let rawTodos: unknown[]
+  try {
+    const parsed = JSON.parse(jsonData)
+    if (!parsed || !Array.isArray(parsed.todos)) {
+      throw new Error('无效的Todo数据格式')
+    }
+    rawTodos = parsed.todos
+  } catch (error) {
+    const message = error instanceof SyntaxError ? 'JSON 格式无效' : error instanceof Error ? error.message : '无效的Todo数据格式'
+    return { success: false, data: [], errors: [{ row: 1, message }], total: 0, skipped: 0 }
+  }
+
+  const data: Todo[] = []
+  const errors: ImportRowError[] = []
+
+  for (let index = 0; index < rawTodos.length; index++) {
+    const row = index + 1
+    const rowErrors = checkRawTodo(rawTodos[index], row)
+
+    if (rowErrors.length === 0) {
+      const todo = reviveTodo(rawTodos[index])
+      const result = await validateAsync(todo, config.validationRules ?? [])
+      rowErrors.push(...result.errors.map(error => ({ row, field: error.field, message: error.message })))
+      if (rowErrors.length === 0) {
+        data.push(todo)
+      }
+    }
+
+    errors.push(...rowErrors)
+  }
+
+  return {
+    success: true,
+    data,
+    errors,
+    total: rawTodos.length,
+    skipped: rawTodos.length - data.length
+  }
+}
+
+// ===== 预览 =====
+
+/**
+ * 标题比较时使用的键
+ * @param title - 标题
+ * @returns 去掉首尾空白并转为小写的标题
+ */
+function titleKey(title: string): string {
+  return title.trim().toLowerCase()
+}
+
+/**
+ * 根据导入结果生成预览
+ *
+ * @param existing - 现有的待办事项
+ * @param result - 任意格式的导入结果
+ * @returns 导入预览
+ */
+export function createImportPreview(existing: Todo[], result: ImportResult<Todo>): ImportPreview<Todo> {
+  const existingIds = new Set(existing.map(todo => todo.id))
+  const existingTitles = new Set(existing.map(todo => titleKey(todo.title)))
+
+  const duplicateIds = result.data.filter(todo => existingIds.has(todo.id))
+  const duplicateTitles = result.data.filter(todo => !existingIds.has(todo.id) && existingTitles.has(titleKey(todo.title)))
+  const newItems = result.data.filter(todo => !existingIds.has(todo.id) && !existingTitles.has(titleKey(todo.title)))
+
+  return {
+    success: result.success,
+    items: result.data,
+    newItems,
+    duplicateIds,
+    duplicateTitles,
+    invalid: result.errors,
+    total: result.total
+  }
+}
+
+// ===== 提交 =====
+
+/**
+ * 为与现有数据ID冲突的待办事项重新生成ID，并同步更新子任务的父任务ID
+ *
+ * @param existing - 现有的待办事项
+ * @param incoming - 导入的待办事项
+ * @returns 处理后的导入数据
+ */
+export function resolveIdConflicts(existing: Todo[], incoming: Todo[]): Todo[] {
+  const usedIds = new Set(existing.map(todo => todo.id))
+  const renamed = new Map<string, string>()
+  incoming.forEach(todo => {
+    const id = usedIds.has(todo.id) ? generateId() : todo.id
+    usedIds.add(id)
+    renamed.set(todo.id, id)
+  })
+
+  return incoming.map(todo => {
+    const resolved: Todo = { ...todo, id: renamed.get(todo.id) as string }
+    if (todo.parentId) {
+      resolved.parentId = renamed.get(todo.parentId) ?? todo.parentId
+    }
+    return resolved
+  })
+}
+
+/**
+ * 按导入策略生成导入后的列表
+ *
+ * @param existing - 现有的待办事项
+ * @param incoming - 导入的待办事项
+ * @param strategy - 导入策略
+ * @returns 导入后的待办事项列表，不修改传入的数组
+ */
+export function applyImportStrategy(existing: Todo[], incoming: Todo[], strategy: ImportStrategy): Todo[] {
+  switch (strategy) {
+    case 'replace':
+      return [...incoming]
+    case 'merge':
+      // 空的同步基准表示双方的记录都是新增的，只在ID相同时比较 updatedAt
+      return mergeRecords(new Map(), existing, incoming).merged
+    case 'append':
+      return [...existing, ...resolveIdConflicts(existing, incoming)]
+  }
+}
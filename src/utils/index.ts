@@ -4,3 +4,30 @@
 
 export * from './storage'
 export * from './todoStorage'
+export * from './dueDate'
+export * from './sort'
+export * from './tags'
+export * from './hierarchy'
+export * from './recurrence'
+export * from './projects'
+export * from './history'
+export * from './storageAdapters'
+export * from './migrations'
+export * from './tabSync'
+export * from './todoTable'
+export * from './csv'
+export * from './zip'
+export * from './xlsx'
+export * from './markdown'
+export * from './todoTxt'
+export * from './ical'
+export * from './importPreview'
+export * from './validation'
+export * from './eventBus'
+export * from './plugins'
+export * from './trash'
+export * from './archive'
+export * from './ordering'
+export * from './search'
+export * from './fuzzy'
+export * from './query'
\ No newline at end of file
@@ -0,0 +1,298 @@
+// 【知识点】工具函数 markdown.ts
+// - GitHub 风格 Markdown 任务列表（- [ ] / - [x]）
+// - 用缩进表示层级，用栈还原树结构
+// - 纯函数，便于单元测试
+/**
+ * Markdown 任务列表导入导出
+ *
+ * 这个文件提供了待办事项与 Markdown 任务列表之间的转换，包括：
+ * 1. 导出为任务列表，每个列表一个标题，子任务按层级缩进
+ * 2. 解析粘贴的任务列表，还原标题、完成状态和子任务
+ * 3. 从 Markdown 文件导入，生成可以交给 store 的 importTodos 的待办事项
+ *
+ * 解析结果可以直接交给 store 的 addMultipleTodos 添加
+ */
+
+import type { Todo, Project, BatchTodoInput, TodoTreeNode } from '@/types/todo'
+import type { ImportResult, ImportRowError } from '@/types/utils'
+import { DEFAULT_PROJECT } from '@/types'
+import { buildTodoTree } from './hierarchy'
+import { generateId } from './todoStorage'
+import { validateTitle } from './validation'
+
+/**
+ * 每一级子任务的缩进
+ */
+const MARKDOWN_INDENT = '  '
+
+/**
+ * 任务列表项：缩进、列表标记、复选框和标题
+ */
+const TASK_PATTERN = /^([ \t]*)(?:[-*+]|\d+[.)])[ \t]+\[([ xX])\](?:[ \t]+(.*))?$/
+
+/**
+ * ATX 标题
+ */
+const HEADING_PATTERN = /^[ ]{0,3}#{1,6}[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/
+
+/**
+ * Markdown 导出选项
+ */
+export interface MarkdownExportOptions {
+  /** 列表，提供时按列表分组并为每个列表生成标题 */
+  projects?: Project[]
+  /** 列表标题的级别，默认为2 */
+  headingLevel?: number
+}
+
+/**
+ * Markdown 导入选项
+ */
+export interface MarkdownImportOptions {
+  /** 列表，标题与列表名称相同时导入到该列表 */
+  projects?: Project[]
+  /** 标题不匹配任何列表时使用的列表ID */
+  defaultProjectId?: string
+}
+
+/**
+ * 解析出的一组任务
+ */
+export interface MarkdownTaskSection {
+  /** 所在标题下的文本，标题之前的任务为null */
+  heading: string | null
+  /** 任务，子任务位于 children 中 */
+  items: BatchTodoInput[]
+}
+
+// ===== 导出 =====
+
+/**
+ * 将标题转换为单行文本
+ * @param title - 标题
+ * @returns 单行标题
+ */
+function inlineTitle(title: string): string {
+  return title.replace(/\s*[\r\n]+\s*/g, ' ').trim()
+}
+
+/**
+ * 生成任务树的 Markdown 行
+ * @param nodes - 任务树节点
+ * @param level - 缩进层级
+ * @returns 行
+ */
+function treeLines(nodes: TodoTreeNode[], level = 0): string[] {
+  return nodes.flatMap(node => [
+    `${MARKDOWN_INDENT.repeat(level)}- [${node.todo.completed ? 'x' : ' '}] ${inlineTitle(node.todo.title)}`,
+    ...treeLines(node.children, level + 1)
+  ])
+}
+
+/**
+ * 将待办事项导出为 Markdown 任务列表
+ *
+ * 父任务不在导出范围内的子任务作为顶层任务导出
+ *
+ * @param todos - 待办事项列表
+ * @param options - 导出选项
+ * @returns Markdown 文本
+ */
+export function exportTodosToMarkdown(todos: Todo[], options: MarkdownExportOptions = {}): string {
+  const { projects } = options
+  if (!projects) {
+    return treeLines(buildTodoTree(todos)).join('\n')
+  }
+
+  const heading = '#'.repeat(Math.min(Math.max(options.headingLevel ?? 2, 1), 6))
+  const knownIds = new Set(projects.map(project => project.id))
+  const sections = projects
+    .map(project => ({ name: project.name, todos: todos.filter(todo => todo.projectId === project.id) }))
+
+  // 不属于任何已知列表的待办事项放在最后，不加标题
+  const orphans = todos.filter(todo => !knownIds.has(todo.projectId))
+
+  return [
+    ...sections
+      .filter(section => section.todos.length > 0)
+      .map(section => [`${heading} ${inlineTitle(section.name)}`, '', ...treeLines(buildTodoTree(section.todos))].join('\n')),
+    ...(orphans.length > 0 ? [treeLines(buildTodoTree(orphans)).join('\n')] : [])
+  ].join('\n\n')
+}
+
+// ===== 导入 =====
+
+/**
+ * 计算缩进宽度，制表符按4列计算
+ * @param indent - 缩进文本
+ * @returns 缩进宽度
+ */
+function indentWidth(indent: string): number {
+  return indent.split('').reduce((width, char) => char === '\t' ? width + 4 - (width % 4) : width + 1, 0)
+}
+
+/**
+ * 解析出的任务及其所在行
+ */
+interface ParsedTask {
+  title: string
+  completed: boolean
+  /** 行号，从1开始 */
+  line: number
+  children: ParsedTask[]
+}
+
+/**
+ * 按标题分组解析任务列表项，保留每个任务所在的行
+ * @param text - Markdown 文本
+ * @returns 按标题分组的任务，没有任务的组不会返回
+ */
+function parseTaskSections(text: string): Array<{ heading: string | null; items: ParsedTask[] }> {
+  const sections: Array<{ heading: string | null; items: ParsedTask[] }> = []
+  let current: { heading: string | null; items: ParsedTask[] } = { heading: null, items: [] }
+  let stack: Array<{ indent: number; task: ParsedTask }> = []
+  let inFence = false
+
+  text.split(/\r\n|\r|\n/).forEach((line, index) => {
+    // 代码块中的内容不是任务
+    if (/^[ ]{0,3}(```|~~~)/.test(line)) {
+      inFence = !inFence
+      return
+    }
+    if (inFence) return
+
+    const heading = HEADING_PATTERN.exec(line)
+    if (heading) {
+      sections.push(current)
+      current = { heading: heading[1].trim(), items: [] }
+      stack = []
+      return
+    }
+
+    const match = TASK_PATTERN.exec(line)
+    if (!match) return
+
+    const title = (match[3] ?? '').trim()
+    if (!title) return
+
+    const indent = indentWidth(match[1])
+    const task: ParsedTask = { title, completed: match[2] !== ' ', line: index + 1, children: [] }
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop()
+    }
+
+    const parent = stack[stack.length - 1]
+    if (parent) {
+      parent.task.children.push(task)
+    } else {
+      current.items.push(task)
+    }
+    stack.push({ indent, task })
+  })
+
+  sections.push(current)
+  return sections.filter(section => section.items.length > 0)
+}
+
+/**
+ * 将解析出的任务转换为批量添加的输入
+ * @param task - 任务
+ * @returns 批量添加的输入
+ */
+function toBatchInput(task: ParsedTask): BatchTodoInput {
+  const item: BatchTodoInput = { title: task.title, completed: task.completed }
+  if (task.children.length > 0) {
+    item.children = task.children.map(toBatchInput)
+  }
+  return item
+}
+
+/**
+ * 解析 Markdown 任务列表
+ *
+ * 只识别带复选框的列表项，其他内容被忽略；缩进比上一个任务深的任务是它的子任务。
+ * 标题会开始新的一组，可以用于匹配列表
+ *
+ * @param text - Markdown 文本
+ * @returns 按标题分组的任务，没有任务的组不会返回
+ */
+export function parseMarkdownTasks(text: string): MarkdownTaskSection[] {
+  return parseTaskSections(text).map(section => ({
+    heading: section.heading,
+    items: section.items.map(toBatchInput)
+  }))
+}
+
+/**
+ * 从 Markdown 任务列表导入待办事项
+ *
+ * 标题与列表名称相同（不区分大小写）时导入到该列表，否则导入到默认列表。
+ * 标题不符合规则的任务连同它的子任务一起被跳过，并记录在错误报告中
+ *
+ * @param text - Markdown 文本
+ * @param options - 导入选项
+ * @returns 导入结果，行号从1开始
+ */
+export function importTodosFromMarkdown(text: string, options: MarkdownImportOptions = {}): ImportResult<Todo> {
+  const sections = parseTaskSections(text)
+  if (sections.length === 0) {
+    return { success: false, data: [], errors: [{ row: 1, message: '没有找到 Markdown 任务列表项' }], total: 0, skipped: 0 }
+  }
+
+  const now = new Date()
+  const data: Todo[] = []
+  const errors: ImportRowError[] = []
+  let total = 0
+
+  /**
+   * 转换任务及其子任务
+   * @param task - 任务
+   * @param projectId - 所属列表ID
+   * @param parentId - 父任务ID
+   */
+  const convert = (task: ParsedTask, projectId: string, parentId?: string) => {
+    total++
+    const titleResult = validateTitle(task.title)
+    if (!titleResult.valid) {
+      errors.push({ row: task.line, field: 'title', value: task.title, message: titleResult.errors[0].message })
+      total += countTasks(task.children)
+      return
+    }
+
+    const todo: Todo = {
+      id: generateId(),
+      title: task.title,
+      completed: task.completed,
+      priority: 'none',
+      tags: [],
+      projectId,
+      createdAt: now,
+      updatedAt: now
+    }
+    if (parentId) todo.parentId = parentId
+
+    data.push(todo)
+    task.children.forEach(child => convert(child, projectId, todo.id))
+  }
+
+  sections.forEach(section => {
+    const name = section.heading?.toLowerCase()
+    const project = name
+      ? options.projects?.find(item => item.name.toLowerCase() === name)
+      : undefined
+    const projectId = project?.id ?? options.defaultProjectId ?? DEFAULT_PROJECT.ID
+    section.items.forEach(task => convert(task, projectId))
+  })
+
+  return { success: true, data, errors, total, skipped: total - data.length }
+}
+
+/**
+ * 统计任务及其所有子任务的数量
+ * @param tasks - 任务
+ * @returns 数量
+ */
+function countTasks(tasks: ParsedTask[]): number {
+  return tasks.reduce((count, task) => count + 1 + countTasks(task.children), 0)
+}
@@ -0,0 +1,280 @@
+// 【知识点】工具函数 migrations.ts
+// - 持久化数据的版本管理
+// - 按版本顺序执行的迁移流水线
+// - 纯函数，便于单元测试
+/**
+ * 数据结构迁移
+ *
+ * 这个文件提供了持久化数据的版本管理，包括：
+ * 1. 为写入的数据添加版本号
+ * 2. 按版本顺序登记迁移函数
+ * 3. 读取时把旧版本数据逐级升级到当前版本
+ * 4. 迁移失败时提供恢复选项
+ */
+
+import type { VersionedData, SchemaMigration, RecoveryOption } from '@/types/utils'
+import { STORAGE_CONFIG, STORAGE_KEYS, DEFAULT_PROJECT } from '@/types'
+import { ErrorCode, TodoError } from '@/types/error'
+import { isValidPriority } from './sort'
+
+/**
+ * 迁移结果
+ */
+export interface MigrationResult<T = unknown> {
+  /** 升级后的数据 */
+  data: T
+  /** 原始数据的版本 */
+  fromVersion: number
+  /** 升级后的版本 */
+  toVersion: number
+  /** 是否执行了迁移 */
+  migrated: boolean
+}
+
+/**
+ * 判断一个值是否为普通对象
+ * @param value - 待检查的值
+ * @returns 是否为普通对象
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// ===== 迁移登记 =====
+
+/**
+ * 版本1：旧版本直接保存的数据
+ *
+ * 检查数据结构，并补全待办事项中后来才加入的字段
+ */
+const migrateToV1: SchemaMigration = {
+  version: 1,
+  description: '为旧版本数据补全优先级、标签和列表字段',
+  migrate: (key, data) => {
+    switch (key) {
+      case STORAGE_KEYS.TODOS:
+        if (!Array.isArray(data)) {
+          throw new Error('待办事项数据不是数组')
+        }
+        return data.map((todo: unknown) => {
+          if (!isPlainObject(todo) || !todo.id || typeof todo.title !== 'string') {
+            throw new Error('待办事项缺少ID或标题')
+          }
+          return {
+            ...todo,
+            priority: isValidPriority(todo.priority) ? todo.priority : 'none',
+            tags: Array.isArray(todo.tags) ? todo.tags : [],
+            projectId: typeof todo.projectId === 'string' && todo.projectId ? todo.projectId : DEFAULT_PROJECT.ID
+          }
+        })
+      case STORAGE_KEYS.FILTER:
+        if (typeof data !== 'string') {
+          throw new Error('过滤器数据不是字符串')
+        }
+        return data
+      case STORAGE_KEYS.TAGS:
+        if (!Array.isArray(data)) {
+          throw new Error('标签数据不是数组')
+        }
+        return data
+      case STORAGE_KEYS.SETTINGS:
+      case STORAGE_KEYS.PROJECTS:
+        if (!isPlainObject(data)) {
+          throw new Error('数据不是对象')
+        }
+        return data
+      default:
+        return data
+    }
+  }
+}
+
+/**
+ * 已登记的迁移，按版本号升序排列
+ */
+const schemaMigrations: SchemaMigration[] = [migrateToV1]
+
+/**
+ * 登记一个新的迁移
+ *
+ * 版本号必须是正整数且不能重复，登记后当前版本会升级到最大的版本号
+ *
+ * @param migration - 迁移
+ */
+export function registerMigration(migration: SchemaMigration): void {
+  if (!Number.isInteger(migration.version) || migration.version < 1) {
+    throw new TodoError(
+      '迁移版本号必须是正整数',
+      ErrorCode.VALIDATION_ERROR,
+      { version: migration.version }
+    )
+  }
+
+  if (schemaMigrations.some(existing => existing.version === migration.version)) {
+    throw new TodoError(
+      `版本${migration.version}的迁移已存在`,
+      ErrorCode.VALIDATION_ERROR,
+      { version: migration.version }
+    )
+  }
+
+  schemaMigrations.push(migration)
+  schemaMigrations.sort((a, b) => a.version - b.version)
+}
+
+/**
+ * 取消登记一个迁移
+ *
+ * 内置迁移（版本号不超过 STORAGE_CONFIG.SCHEMA_VERSION）不能取消
+ *
+ * @param version - 迁移的版本号
+ * @returns 是否取消成功
+ */
+export function unregisterMigration(version: number): boolean {
+  const index = schemaMigrations.findIndex(migration => migration.version === version)
+  if (index === -1 || version <= STORAGE_CONFIG.SCHEMA_VERSION) {
+    return false
+  }
+
+  schemaMigrations.splice(index, 1)
+  return true
+}
+
+/**
+ * 获取已登记的迁移（按版本号升序）
+ * @returns 迁移列表的副本
+ */
+export function getSchemaMigrations(): SchemaMigration[] {
+  return [...schemaMigrations]
+}
+
+/**
+ * 获取当前的数据结构版本
+ * @returns 内置版本和已登记迁移中最大的版本号
+ */
+export function getCurrentSchemaVersion(): number {
+  return schemaMigrations.reduce<number>(
+    (max, migration) => Math.max(max, migration.version),
+    STORAGE_CONFIG.SCHEMA_VERSION
+  )
+}
+
+// ===== 版本包装 =====
+
+/**
+ * 判断数据是否已经带有版本号
+ * @param raw - 从存储读取的原始数据
+ * @returns 是否为带版本号的数据
+ */
+export function isVersionedData(raw: unknown): raw is VersionedData {
+  return isPlainObject(raw) &&
+    Number.isInteger(raw.schemaVersion) &&
+    'data' in raw
+}
+
+/**
+ * 读取数据的版本号，旧版本直接保存的数据视为版本0
+ * @param raw - 从存储读取的原始数据
+ * @returns 版本号
+ */
+export function readSchemaVersion(raw: unknown): number {
+  return isVersionedData(raw) ? raw.schemaVersion : 0
+}
+
+/**
+ * 为数据添加当前版本号
+ * @param data - 要保存的数据
+ * @returns 带版本号的数据
+ */
+export function wrapVersioned<T>(data: T): VersionedData<T> {
+  return {
+    schemaVersion: getCurrentSchemaVersion(),
+    data
+  }
+}
+
+/**
+ * 获取迁移前数据备份的键名
+ * @param key - 存储键名
+ * @param version - 原始数据的版本
+ * @returns 备份键名
+ */
+export function getBackupKey(key: string, version: number): string {
+  return `${key}${STORAGE_CONFIG.BACKUP_SUFFIX}${version}`
+}
+
+// ===== 迁移执行 =====
+
+/**
+ * 将数据升级到当前版本
+ *
+ * 依次执行比原始版本新的每一个迁移。迁移缺失、迁移失败或数据来自更新的版本时，
+ * 抛出 STORAGE_DATA_CORRUPTED 错误，存储中的原始数据不会被修改
+ *
+ * @param key - 存储键名
+ * @param raw - 从存储读取的原始数据
+ * @returns 迁移结果
+ */
+export function migratePayload<T = unknown>(key: string, raw: unknown): MigrationResult<T> {
+  const fromVersion = readSchemaVersion(raw)
+  const toVersion = getCurrentSchemaVersion()
+  let data = isVersionedData(raw) ? raw.data : raw
+
+  if (fromVersion > toVersion) {
+    throw new TodoError(
+      `数据版本${fromVersion}高于当前支持的版本${toVersion}，请升级应用后再打开`,
+      ErrorCode.STORAGE_DATA_CORRUPTED,
+      { key, fromVersion, toVersion }
+    )
+  }
+
+  for (let version = fromVersion + 1; version <= toVersion; version++) {
+    const migration = schemaMigrations.find(item => item.version === version)
+    if (!migration) {
+      throw new TodoError(
+        `缺少升级到版本${version}的迁移`,
+        ErrorCode.STORAGE_DATA_CORRUPTED,
+        { key, fromVersion, failedVersion: version }
+      )
+    }
+
+    try {
+      data = migration.migrate(key, data)
+    } catch (error) {
+      throw new TodoError(
+        `数据迁移到版本${version}失败（${migration.description}）`,
+        ErrorCode.STORAGE_DATA_CORRUPTED,
+        { key, fromVersion, failedVersion: version, originalError: error }
+      )
+    }
+  }
+
+  return {
+    data: data as T,
+    fromVersion,
+    toVersion,
+    migrated: fromVersion < toVersion
+  }
+}
+
+/**
+ * 获取数据无法读取时的恢复选项
+ * @param backupKey - 迁移前数据备份的键名（如果有）
+ * @returns 恢复选项
+ */
+export function getRecoveryOptions(backupKey?: string): RecoveryOption[] {
+  return [
+    {
+      action: 'retry',
+      label: '重新加载',
+      description: '保留存储中的数据，稍后重新加载'
+    },
+    {
+      action: 'reset',
+      label: '清除数据',
+      description: backupKey
+        ? `删除无法读取的数据，原始数据仍保留在备份 ${backupKey} 中`
+        : '删除无法读取的数据并使用空白数据'
+    }
+  ]
+}
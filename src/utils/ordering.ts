@@ -0,0 +1,99 @@
+// 【知识点】工具函数 ordering.ts
+// - 手动排序：用持久化的排序键代替数组位置
+// - 过滤视图中的移动映射回完整列表
+// - 纯函数，便于单元测试
+/**
+ * 手动排序工具函数
+ *
+ * 这个文件提供了拖拽排序相关的通用逻辑，包括：
+ * 1. 按排序键排列待办事项，没有排序键的按添加顺序排在最后
+ * 2. 查找视图中与某一项同级显示的待办事项
+ * 3. 把在过滤视图中的移动换算为完整列表中的位置
+ */
+
+import type { Todo } from '@/types/todo'
+import { moveItem } from './projects'
+
+/**
+ * 按手动排序键排列待办事项
+ *
+ * 没有排序键的待办事项（例如还没有调整过顺序的列表中新添加的）排在最后，
+ * 排序键相同时保持原有顺序
+ *
+ * @param todos - 待办事项列表
+ * @returns 排序后的新数组
+ */
+export function sortByManualOrder(todos: Todo[]): Todo[] {
+  return todos
+    .map((todo, index) => ({ todo, index }))
+    .sort((a, b) => {
+      const orderA = a.todo.order ?? Number.POSITIVE_INFINITY
+      const orderB = b.todo.order ?? Number.POSITIVE_INFINITY
+      if (orderA !== orderB) {
+        return orderA < orderB ? -1 : 1
+      }
+      return a.index - b.index
+    })
+    .map(item => item.todo)
+}
+
+/**
+ * 获取视图中与某一项同级显示的待办事项
+ *
+ * 与 buildTodoTree 的规则一致：父任务不在视图中的子任务作为顶层项显示
+ *
+ * @param view - 当前视图中的待办事项
+ * @param id - 待办事项ID
+ * @returns 同级的待办事项（包含自身），按视图中的顺序排列；不在视图中时返回空数组
+ */
+export function getViewSiblings(view: Todo[], id: string): Todo[] {
+  const target = view.find(todo => todo.id === id)
+  if (!target) {
+    return []
+  }
+
+  const ids = new Set(view.map(todo => todo.id))
+  const displayParent = (todo: Todo) => (todo.parentId && ids.has(todo.parentId) ? todo.parentId : undefined)
+  const parentId = displayParent(target)
+
+  return view.filter(todo => displayParent(todo) === parentId)
+}
+
+/**
+ * 在视图中移动待办事项，并换算为完整列表中的顺序
+ *
+ * 以移动后相邻的同级项为锚点：向前移动时放在后一项之前，向后移动时放在前一项之后，
+ * 因此被过滤掉的待办事项之间的相对顺序保持不变
+ *
+ * @param full - 完整列表，按手动顺序排列
+ * @param view - 当前视图，是完整列表的子集且顺序一致
+ * @param id - 要移动的待办事项ID
+ * @param toIndex - 在同级项中的目标位置，超出范围时会被限制在边界内
+ * @returns 移动后的完整列表；不在视图中或位置未发生变化时返回原数组
+ */
+export function moveInView(full: Todo[], view: Todo[], id: string, toIndex: number): Todo[] {
+  const siblings = getViewSiblings(view, id)
+  const fromIndex = siblings.findIndex(todo => todo.id === id)
+  const todo = full.find(item => item.id === id)
+  if (fromIndex === -1 || !todo) {
+    return full
+  }
+
+  const moved = moveItem(siblings, fromIndex, toIndex)
+  if (moved === siblings) {
+    return full
+  }
+
+  const targetIndex = moved.findIndex(item => item.id === id)
+  const result = full.filter(item => item.id !== id)
+
+  if (targetIndex < fromIndex) {
+    const anchorId = moved[targetIndex + 1].id
+    result.splice(result.findIndex(item => item.id === anchorId), 0, todo)
+  } else {
+    const anchorId = moved[targetIndex - 1].id
+    result.splice(result.findIndex(item => item.id === anchorId) + 1, 0, todo)
+  }
+
+  return result
+}
@@ -0,0 +1,286 @@
+// 【知识点】工具函数 plugins.ts
+// - 插件注册表：模块级单例，在 main.ts 中配置
+// - Vue 插件（app.use）与生命周期钩子
+// - shallowRef 让扩展点组件随注册表更新
+/**
+ * 插件系统
+ *
+ * 这个文件提供了插件的注册和调用，包括：
+ * 1. 注册、注销插件，检查名称和字段是否冲突
+ * 2. 按注册顺序调用 beforeAdd、afterToggle、beforeDelete、onLoad 钩子
+ * 3. 为插件字段填充默认值并执行校验规则
+ * 4. 查询放入某个扩展点的组件
+ * 5. 创建在 createApp 时安装的 Vue 插件
+ *
+ * 钩子抛出异常时只记录错误，不影响其他插件和 Store 的操作
+ */
+
+import { shallowRef, type Component, type Plugin } from 'vue'
+import type { Todo, Project, CreateTodoInput, TrashedTodo, ArchivedTodo } from '@/types/todo'
+import type { TodoPlugin, TodoPluginHooks, PluginFieldDefinition, PluginSlotName } from '@/types/plugin'
+import { ErrorCode, TodoError } from '@/types/error'
+import { validate } from './validation'
+
+/**
+ * 放入扩展点的组件
+ */
+export interface PluginSlotEntry {
+  /** 唯一键，由插件名称和扩展点组成 */
+  key: string
+
+  /** 提供组件的插件名称 */
+  plugin: string
+
+  /** 组件 */
+  component: Component
+}
+
+/** 待办事项以及回收站、归档记录的内置字段 */
+const BUILTIN_TODO_FIELDS = [
+  'id',
+  'title',
+  'completed',
+  'priority',
+  'tags',
+  'projectId',
+  'createdAt',
+  'updatedAt',
+  'dueDate',
+  'startDate',
+  'parentId',
+  'recurrence',
+  'order',
+  'extensions',
+  'deletedAt',
+  'archivedAt'
+] as const satisfies ReadonlyArray<keyof TrashedTodo | keyof ArchivedTodo>
+
+/** 插件不能使用的字段名：内置字段，以及 beforeAdd 输入中保存插件字段的 fields */
+const RESERVED_FIELDS: ReadonlySet<string> = new Set<string>([...BUILTIN_TODO_FIELDS, 'fields'])
+
+/** 已注册的插件，按注册顺序排列 */
+const registry = shallowRef<TodoPlugin[]>([])
+
+// ===== 注册 =====
+
+/**
+ * 注册插件
+ *
+ * @param plugin - 插件
+ * @throws {TodoError} 名称为空或重复、字段名与内置字段或其他插件的字段相同时抛出错误
+ */
+export function registerPlugin(plugin: TodoPlugin): void {
+  const name = plugin.name?.trim()
+  if (!name) {
+    throw new TodoError('插件名称不能为空', ErrorCode.PLUGIN_ERROR)
+  }
+  if (registry.value.some(item => item.name === name)) {
+    throw new TodoError(`插件 ${name} 已经注册`, ErrorCode.PLUGIN_ERROR, { plugin: name })
+  }
+
+  const existingFields = getPluginFields()
+  for (const field of Object.keys(plugin.fields ?? {})) {
+    if (RESERVED_FIELDS.has(field)) {
+      throw new TodoError(`插件 ${name} 的字段 ${field} 与内置字段重名`, ErrorCode.PLUGIN_ERROR, { plugin: name, field })
+    }
+    if (field in existingFields) {
+      throw new TodoError(`插件 ${name} 的字段 ${field} 已被其他插件定义`, ErrorCode.PLUGIN_ERROR, { plugin: name, field })
+    }
+  }
+
+  registry.value = [...registry.value, plugin]
+}
+
+/**
+ * 注销插件
+ *
+ * 已经保存在待办事项上的插件字段不会被删除
+ *
+ * @param name - 插件名称
+ * @returns 是否找到并注销了插件
+ */
+export function unregisterPlugin(name: string): boolean {
+  const remaining = registry.value.filter(plugin => plugin.name !== name)
+  if (remaining.length === registry.value.length) return false
+
+  registry.value = remaining
+  return true
+}
+
+/**
+ * 获取已注册的插件
+ *
+ * @returns 插件列表，按注册顺序排列
+ */
+export function getPlugins(): TodoPlugin[] {
+  return registry.value
+}
+
+/**
+ * 注销全部插件
+ */
+export function clearPlugins(): void {
+  registry.value = []
+}
+
+/**
+ * 创建在 createApp 时安装的 Vue 插件
+ *
+ * 需要在 app.use(pinia) 之后安装，插件的 install 中才能使用 Store
+ *
+ * @param plugins - 要注册的插件
+ * @returns Vue 插件
+ */
+export function createTodoPlugins(plugins: TodoPlugin[]): Plugin {
+  return {
+    install(app) {
+      plugins.forEach(plugin => {
+        registerPlugin(plugin)
+        plugin.install?.(app)
+      })
+    }
+  }
+}
+
+// ===== 钩子 =====
+
+/**
+ * 调用插件的钩子，钩子抛出异常时记录错误并返回undefined
+ * @param plugin - 插件
+ * @param hook - 钩子名称
+ * @param args - 钩子参数
+ * @returns 钩子的返回值
+ */
+function callHook<K extends keyof TodoPluginHooks>(
+  plugin: TodoPlugin,
+  hook: K,
+  ...args: Parameters<NonNullable<TodoPluginHooks[K]>>
+): ReturnType<NonNullable<TodoPluginHooks[K]>> | undefined {
+  const fn = plugin.hooks?.[hook] as ((...hookArgs: unknown[]) => ReturnType<NonNullable<TodoPluginHooks[K]>>) | undefined
+  if (!fn) return undefined
+
+  try {
+    return fn(...args)
+  } catch (error) {
+    console.error(`[Plugin:${plugin.name}] ${hook} 出错:`, error)
+    return undefined
+  }
+}
+
+/**
+ * 依次调用 beforeAdd 钩子
+ *
+ * @param input - 添加待办事项的输入
+ * @returns 经过各插件修改后的输入；某个插件取消添加时 cancelledBy 为该插件的名称
+ */
+export function runBeforeAdd(input: CreateTodoInput): { input: CreateTodoInput; cancelledBy: string | null } {
+  let current = input
+  for (const plugin of registry.value) {
+    const result = callHook(plugin, 'beforeAdd', { ...current })
+    if (result === false) {
+      return { input: current, cancelledBy: plugin.name }
+    }
+    if (result) {
+      current = result
+    }
+  }
+  return { input: current, cancelledBy: null }
+}
+
+/**
+ * 依次调用 afterToggle 钩子
+ *
+ * @param todo - 切换后的待办事项
+ */
+export function runAfterToggle(todo: Todo): void {
+  registry.value.forEach(plugin => callHook(plugin, 'afterToggle', todo))
+}
+
+/**
+ * 依次调用 beforeDelete 钩子
+ *
+ * @param todo - 要删除的待办事项
+ * @returns 取消删除的插件名称，没有插件取消时返回null
+ */
+export function runBeforeDelete(todo: Todo): string | null {
+  for (const plugin of registry.value) {
+    if (callHook(plugin, 'beforeDelete', todo) === false) {
+      return plugin.name
+    }
+  }
+  return null
+}
+
+/**
+ * 依次调用 onLoad 钩子
+ *
+ * @param data - 加载的数据
+ */
+export function runOnLoad(data: { todos: Todo[]; projects: Project[] }): void {
+  registry.value.forEach(plugin => callHook(plugin, 'onLoad', data))
+}
+
+// ===== 字段 =====
+
+/**
+ * 获取全部插件定义的字段
+ *
+ * @returns 字段名 -> 定义
+ */
+export function getPluginFields(): Record<string, PluginFieldDefinition> {
+  return Object.assign({}, ...registry.value.map(plugin => plugin.fields ?? {}))
+}
+
+/**
+ * 校验插件字段的取值
+ *
+ * @param values - 字段名 -> 取值，取值为undefined表示清除该字段
+ * @param withDefaults - 是否为未提供的字段填充默认值（新建待办事项时使用）
+ * @returns 错误信息和要写入待办事项的字段，校验通过时 error 为null
+ */
+export function resolvePluginFields(
+  values: Record<string, unknown> = {},
+  withDefaults = false
+): { error: string | null; fields: Record<string, unknown> } {
+  const definitions = getPluginFields()
+  const fields: Record<string, unknown> = {}
+
+  for (const key of Object.keys(values)) {
+    if (!(key in definitions)) {
+      return { error: `未知的字段：${key}`, fields: {} }
+    }
+  }
+
+  for (const [key, definition] of Object.entries(definitions)) {
+    let value = values[key]
+    if (!(key in values)) {
+      if (!withDefaults || definition.default === undefined) continue
+      value = typeof definition.default === 'function' ? (definition.default as () => unknown)() : definition.default
+    }
+
+    if (value !== undefined) {
+      const result = validate(value, definition.rules ?? [], { field: key, abortEarly: true })
+      if (!result.valid) {
+        return { error: result.errors[0].message, fields: {} }
+      }
+    }
+    fields[key] = value
+  }
+
+  return { error: null, fields }
+}
+
+// ===== 扩展点 =====
+
+/**
+ * 获取放入某个扩展点的组件
+ *
+ * @param slot - 扩展点名称
+ * @returns 组件列表，按插件的注册顺序排列
+ */
+export function getPluginComponents(slot: PluginSlotName): PluginSlotEntry[] {
+  return registry.value.flatMap(plugin => {
+    const component = plugin.components?.[slot]
+    return component ? [{ key: `${plugin.name}:${slot}`, plugin: plugin.name, component }] : []
+  })
+}
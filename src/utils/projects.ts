@@ -0,0 +1,158 @@
+// 【知识点】工具函数 projects.ts
+// - 多列表（项目）的创建、校验与排序
+// - 单列表旧数据向默认列表的迁移
+// - 纯函数，便于单元测试
+/**
+ * 列表工具函数
+ *
+ * 这个文件提供了多列表相关的通用逻辑，包括：
+ * 1. 列表名称的规范化和校验
+ * 2. 默认列表的创建
+ * 3. 旧版本单列表数据的迁移
+ * 4. 数组元素的移动（用于列表排序）
+ */
+
+import type { Project, ProjectsData, Todo } from '@/types/todo'
+import { DEFAULT_PROJECT, VALIDATION_RULES } from '@/types'
+
+/**
+ * 迁移结果
+ */
+export interface ProjectMigrationResult {
+  /** 迁移后的列表数据 */
+  data: ProjectsData
+  /** 迁移后的待办事项，无需修改时与传入的数组相同 */
+  todos: Todo[]
+  /** 是否发生了迁移 */
+  migrated: boolean
+}
+
+/**
+ * 创建默认列表
+ *
+ * @returns 默认列表
+ */
+export function createDefaultProject(): Project {
+  const now = new Date()
+  return {
+    id: DEFAULT_PROJECT.ID,
+    name: DEFAULT_PROJECT.NAME,
+    archived: false,
+    createdAt: now,
+    updatedAt: now
+  }
+}
+
+/**
+ * 校验列表名称
+ *
+ * @param name - 去除首尾空白后的列表名称
+ * @param projects - 已有列表，用于检查重名
+ * @param excludeId - 检查重名时忽略的列表ID（重命名自身时使用）
+ * @returns 错误信息，校验通过时返回null
+ */
+export function validateProjectName(
+  name: string,
+  projects: Project[] = [],
+  excludeId?: string
+): string | null {
+  if (name.length === 0) {
+    return '列表名称不能为空'
+  }
+
+  if (name.length > VALIDATION_RULES.MAX_PROJECT_NAME_LENGTH) {
+    return `列表名称不能超过${VALIDATION_RULES.MAX_PROJECT_NAME_LENGTH}个字符`
+  }
+
+  const lower = name.toLowerCase()
+  const duplicated = projects.some(
+    project => project.id !== excludeId && project.name.toLowerCase() === lower
+  )
+  if (duplicated) {
+    return `列表 "${name}" 已存在`
+  }
+
+  return null
+}
+
+/**
+ * 迁移列表数据
+ *
+ * 1. 没有列表数据（旧版本单列表）时创建默认列表
+ * 2. 所属列表不存在的待办事项归入默认列表
+ * 3. 当前列表无效时选中第一个未归档的列表
+ *
+ * @param stored - 从存储中读取的列表数据，可能为null
+ * @param todos - 待办事项列表
+ * @returns 迁移结果
+ */
+export function migrateProjects(
+  stored: ProjectsData | null | undefined,
+  todos: Todo[]
+): ProjectMigrationResult {
+  let migrated = false
+  let projects = stored?.projects ?? []
+
+  if (projects.length === 0) {
+    projects = [createDefaultProject()]
+    migrated = true
+  }
+
+  const knownIds = new Set(projects.map(project => project.id))
+  const hasOrphans = todos.some(todo => !knownIds.has(todo.projectId))
+
+  if (hasOrphans && !knownIds.has(DEFAULT_PROJECT.ID)) {
+    projects = [createDefaultProject(), ...projects]
+    knownIds.add(DEFAULT_PROJECT.ID)
+  }
+
+  const migratedTodos = hasOrphans
+    ? todos.map(todo =>
+        knownIds.has(todo.projectId) ? todo : { ...todo, projectId: DEFAULT_PROJECT.ID }
+      )
+    : todos
+
+  if (hasOrphans) {
+    migrated = true
+  }
+
+  let currentProjectId = stored?.currentProjectId ?? ''
+  const current = projects.find(project => project.id === currentProjectId)
+  if (!current || current.archived) {
+    const fallback = projects.find(project => !project.archived) ?? projects[0]
+    currentProjectId = fallback.id
+    if (stored) {
+      migrated = true
+    }
+  }
+
+  return {
+    data: { projects, currentProjectId },
+    todos: migratedTodos,
+    migrated
+  }
+}
+
+/**
+ * 移动数组元素到新位置
+ *
+ * @param items - 原数组
+ * @param fromIndex - 原位置
+ * @param toIndex - 目标位置，超出范围时会被限制在数组边界内
+ * @returns 新数组，位置无效或未发生变化时返回原数组
+ */
+export function moveItem<T>(items: T[], fromIndex: number, toIndex: number): T[] {
+  if (fromIndex < 0 || fromIndex >= items.length) {
+    return items
+  }
+
+  const target = Math.max(0, Math.min(items.length - 1, toIndex))
+  if (target === fromIndex) {
+    return items
+  }
+
+  const result = [...items]
+  const [moved] = result.splice(fromIndex, 1)
+  result.splice(target, 0, moved)
+  return result
+}
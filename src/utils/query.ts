@@ -0,0 +1,586 @@
+// 【知识点】工具函数 query.ts
+// - 词法分析 + 递归下降语法分析，把查询文本解析为语法树
+// - 联合类型描述语法树节点，switch 穷举求值
+// - 错误信息带字符位置，便于在输入框中定位
+/**
+ * 智能过滤查询语言
+ *
+ * 这个文件实现了一个针对待办事项字段的小型查询语言，包括：
+ * 1. 把查询文本解析为语法树，格式错误时返回带位置的错误信息
+ * 2. 判断待办事项是否满足查询条件
+ * 3. 把语法树转换回查询文本
+ *
+ * 语法示例：is:active tag:backend due:<7d priority:>=high "release"
+ * - 空格分隔的条件需要同时满足，OR 表示满足其一，AND 可以省略
+ * - 条件前加 - 或 NOT 表示取反，括号用于分组
+ * - 没有字段名的词或带引号的短语匹配标题和标签
+ */
+
+import type { Todo, TodoPriority } from '@/types/todo'
+import { PRIORITY_OPTIONS } from '@/types'
+import { diffInDays, getDueStatus, parseDateInputValue, toDateInputValue } from './dueDate'
+import { getPriorityWeight } from './sort'
+import { normalizeTagName } from './tags'
+import { getAllowedTypos, prefixDistance } from './fuzzy'
+
+/**
+ * 比较运算符，省略时为 '='
+ */
+export type QueryComparator = '=' | '>' | '>=' | '<' | '<='
+
+/**
+ * is: 支持的状态
+ */
+export type QueryState = 'active' | 'completed' | 'overdue' | 'today' | 'upcoming' | 'recurring' | 'subtask'
+
+/**
+ * has: 支持的属性
+ */
+export type QueryProperty = 'due' | 'start' | 'tags' | 'recurrence'
+
+/**
+ * 可以比较的日期字段
+ */
+export type QueryDateField = 'dueDate' | 'startDate' | 'createdAt' | 'updatedAt'
+
+/**
+ * 查询中的日期：相对今天的天数，或具体日期
+ */
+export type QueryDate =
+  | { type: 'relative'; days: number }
+  | { type: 'absolute'; date: Date }
+
+/**
+ * 查询语法树节点
+ */
+export type QueryNode =
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'text'; value: string }
+  | { type: 'title'; value: string }
+  | { type: 'tag'; value: string }
+  | { type: 'is'; value: QueryState }
+  | { type: 'has'; value: QueryProperty }
+  | { type: 'priority'; op: QueryComparator; value: TodoPriority }
+  | { type: 'date'; field: QueryDateField; op: QueryComparator; value: QueryDate }
+
+/**
+ * 查询的格式错误
+ */
+export interface QueryError {
+  /** 错误信息，包含出错的字符位置 */
+  message: string
+
+  /** 出错部分的开始位置 */
+  start: number
+
+  /** 出错部分的结束位置（不含） */
+  end: number
+}
+
+/**
+ * 解析结果
+ */
+export interface QueryParseResult {
+  /** 语法树，查询为空或格式错误时为null */
+  query: QueryNode | null
+
+  /** 格式错误，解析成功时为null */
+  error: QueryError | null
+}
+
+/** 词法单元 */
+interface Token {
+  type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'term'
+  /** 原始文本 */
+  raw: string
+  /** 去掉引号后的内容，只对 term 有意义 */
+  text: string
+  /** 内容中第一个引号部分的开始位置，没有引号时为-1 */
+  quoteAt: number
+  start: number
+  end: number
+}
+
+/**
+ * 解析过程中的错误，只在本文件内部使用
+ */
+class QuerySyntaxError extends Error {
+  constructor(message: string, public start: number, public end: number) {
+    super(message)
+    this.name = 'QuerySyntaxError'
+  }
+}
+
+const STATE_VALUES: Record<string, QueryState> = {
+  active: 'active',
+  completed: 'completed',
+  done: 'completed',
+  overdue: 'overdue',
+  today: 'today',
+  upcoming: 'upcoming',
+  recurring: 'recurring',
+  subtask: 'subtask'
+}
+
+const PROPERTY_VALUES: QueryProperty[] = ['due', 'start', 'tags', 'recurrence']
+
+const DATE_FIELDS: Record<string, QueryDateField> = {
+  due: 'dueDate',
+  start: 'startDate',
+  created: 'createdAt',
+  updated: 'updatedAt'
+}
+
+const DATE_KEYWORDS: Record<string, number> = {
+  today: 0,
+  tomorrow: 1,
+  yesterday: -1
+}
+
+/**
+ * 查询支持的字段名
+ */
+export const QUERY_FIELDS = ['is', 'has', 'tag', 'title', 'priority', 'due', 'start', 'created', 'updated'] as const
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=)/
+
+const RELATIVE_DATE_PATTERN = /^([+-]?\d+)([dw])$/
+
+/**
+ * 查找闭合的引号，跳过 \" 转义
+ */
+function findClosingQuote(input: string, from: number): number {
+  for (let i = from; i < input.length; i++) {
+    if (input[i] === '\\' && input[i + 1] === '"') {
+      i++
+    } else if (input[i] === '"') {
+      return i
+    }
+  }
+  return -1
+}
+
+/**
+ * 把查询文本拆分为词法单元
+ */
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  const push = (type: Token['type'], start: number, end: number, text = '', quoteAt = -1) => {
+    tokens.push({ type, raw: input.slice(start, end), text, quoteAt, start, end })
+  }
+  let i = 0
+
+  while (i < input.length) {
+    const char = input[i]
+
+    if (/\s/.test(char)) {
+      i++
+    } else if (char === '(' || char === ')') {
+      push(char === '(' ? 'lparen' : 'rparen', i, i + 1)
+      i++
+    } else if (char === '-' && i + 1 < input.length && !/[\s)]/.test(input[i + 1])) {
+      push('not', i, i + 1)
+      i++
+    } else {
+      const start = i
+      let text = ''
+      let quoteAt = -1
+
+      while (i < input.length && !/[\s()]/.test(input[i])) {
+        if (input[i] === '"') {
+          const close = findClosingQuote(input, i + 1)
+          if (close === -1) {
+            throw new QuerySyntaxError('引号没有闭合', i, input.length)
+          }
+          if (quoteAt === -1) quoteAt = text.length
+          text += input.slice(i + 1, close).replace(/\\"/g, '"')
+          i = close + 1
+        } else {
+          text += input[i]
+          i++
+        }
+      }
+
+      const raw = input.slice(start, i)
+      if (raw === 'AND' || raw === 'OR' || raw === 'NOT') {
+        push(raw === 'AND' ? 'and' : raw === 'OR' ? 'or' : 'not', start, i)
+      } else {
+        push('term', start, i, text, quoteAt)
+      }
+    }
+  }
+
+  return tokens
+}
+
+/**
+ * 找到与输入最接近的字段名，用于错误提示
+ */
+function suggestField(key: string): string | null {
+  const allowed = Math.max(1, getAllowedTypos(key.length))
+  let best: { name: string; distance: number } | null = null
+
+  for (const name of QUERY_FIELDS) {
+    const { distance, length } = prefixDistance(key, name)
+    if (length === name.length && distance <= allowed && (!best || distance < best.distance)) {
+      best = { name, distance }
+    }
+  }
+
+  return best?.name ?? null
+}
+
+/**
+ * 解析日期值
+ */
+function parseDateValue(value: string): QueryDate | null {
+  const keyword = DATE_KEYWORDS[value.toLowerCase()]
+  if (keyword !== undefined) {
+    return { type: 'relative', days: keyword }
+  }
+
+  const relative = RELATIVE_DATE_PATTERN.exec(value.toLowerCase())
+  if (relative) {
+    const amount = Number(relative[1])
+    return { type: 'relative', days: relative[2] === 'w' ? amount * 7 : amount }
+  }
+
+  const date = parseDateInputValue(value)
+  return date ? { type: 'absolute', date } : null
+}
+
+/**
+ * 解析优先级，支持英文值和中文名称
+ */
+function parsePriorityValue(value: string): TodoPriority | null {
+  const option = PRIORITY_OPTIONS.find(item => item.value === value.toLowerCase() || item.label === value)
+  return option ? option.value : null
+}
+
+/**
+ * 把一个条件解析为语法树节点
+ */
+function parseTerm(token: Token): QueryNode {
+  const fail = (message: string): never => {
+    throw new QuerySyntaxError(message, token.start, token.end)
+  }
+  const field = /^([a-z]+):/i.exec(token.text)
+
+  // 没有字段名，或者字段名位于引号中时按文本匹配
+  if (!field || (token.quoteAt !== -1 && token.quoteAt < field[0].length)) {
+    if (token.text.length === 0) {
+      fail('引号中缺少内容')
+    }
+    return { type: 'text', value: token.text }
+  }
+
+  const key = field[1].toLowerCase()
+  const rest = token.text.slice(field[0].length)
+  const comparator = token.quoteAt === -1 || token.quoteAt > field[0].length ? COMPARATOR_PATTERN.exec(rest) : null
+  const op = (comparator?.[1] ?? '=') as QueryComparator
+  const value = comparator ? rest.slice(comparator[1].length) : rest
+
+  if (!(QUERY_FIELDS as readonly string[]).includes(key)) {
+    const suggestion = suggestField(key)
+    fail(suggestion
+      ? `未知的字段 "${key}"，你是不是想输入 "${suggestion}"？`
+      : `未知的字段 "${key}"，可用的字段：${QUERY_FIELDS.join('、')}；如果要搜索这段文本，请加上引号`)
+  }
+  if (value.length === 0) {
+    fail(`"${key}:" 后面缺少值`)
+  }
+  if (comparator && key !== 'priority' && !(key in DATE_FIELDS)) {
+    fail(`"${key}:" 不支持比较运算符 "${op}"`)
+  }
+
+  switch (key) {
+    case 'is': {
+      const state = STATE_VALUES[value.toLowerCase()]
+      if (!state) {
+        fail(`无效的状态 "${value}"，可用的值：${Object.keys(STATE_VALUES).join('、')}`)
+      }
+      return { type: 'is', value: state }
+    }
+    case 'has': {
+      const property = PROPERTY_VALUES.find(item => item === value.toLowerCase())
+      if (!property) {
+        fail(`无效的属性 "${value}"，可用的值：${PROPERTY_VALUES.join('、')}`)
+      }
+      return { type: 'has', value: property as QueryProperty }
+    }
+    case 'tag': {
+      const name = normalizeTagName(value)
+      if (name.length === 0) {
+        fail('"tag:" 后面缺少标签名称')
+      }
+      return { type: 'tag', value: name }
+    }
+    case 'title':
+      return { type: 'title', value }
+    case 'priority': {
+      const priority = parsePriorityValue(value)
+      if (!priority) {
+        fail(`无效的优先级 "${value}"，可用的值：${PRIORITY_OPTIONS.map(option => option.value).join('、')}`)
+      }
+      return { type: 'priority', op, value: priority as TodoPriority }
+    }
+    default: {
+      const date = parseDateValue(value)
+      if (!date) {
+        fail(`无效的日期 "${value}"，可以使用 today、tomorrow、yesterday、7d、-2w 或 2024-05-01 这样的格式`)
+      }
+      return { type: 'date', field: DATE_FIELDS[key], op, value: date as QueryDate }
+    }
+  }
+}
+
+/**
+ * 解析查询文本
+ *
+ * 优先级从低到高：OR、AND（可省略）、取反（- 或 NOT）；关键字 AND、OR、NOT 必须大写，其他写法按文本处理
+ *
+ * @param input - 查询文本
+ * @returns 语法树和错误信息；查询为空时两者都为null
+ */
+export function parseQuery(input: string): QueryParseResult {
+  let tokens: Token[]
+  let pos = 0
+  let depth = 0
+
+  const fail = (message: string, token: Token): never => {
+    throw new QuerySyntaxError(message, token.start, token.end)
+  }
+  const peek = (): Token | undefined => tokens[pos]
+  const endsOperand = (token: Token | undefined) => {
+    return !token || token.type === 'or' || token.type === 'and' || token.type === 'rparen'
+  }
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()]
+    while (peek()?.type === 'or') {
+      const token = tokens[pos++]
+      if (endsOperand(peek())) {
+        fail('"OR" 后面缺少条件', token)
+      }
+      children.push(parseAnd())
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children }
+  }
+
+  const parseAnd = (): QueryNode => {
+    const children: QueryNode[] = []
+    let token = peek()
+
+    while (token && token.type !== 'or' && token.type !== 'rparen') {
+      if (token.type === 'and') {
+        if (children.length === 0) fail('"AND" 前面缺少条件', token)
+        pos++
+        if (endsOperand(peek())) fail('"AND" 后面缺少条件', token)
+      } else {
+        children.push(parseUnary())
+      }
+      token = peek()
+    }
+
+    if (children.length === 0) {
+      if (token?.type === 'or') fail('"OR" 前面缺少条件', token)
+      if (token?.type === 'rparen') fail(depth > 0 ? '括号中缺少条件' : '多余的 ")"', token)
+    }
+    return children.length === 1 ? children[0] : { type: 'and', children }
+  }
+
+  const parseUnary = (): QueryNode => {
+    const token = tokens[pos++]
+
+    if (token.type === 'not') {
+      if (endsOperand(peek())) {
+        fail(`"${token.raw}" 后面缺少条件`, token)
+      }
+      return { type: 'not', child: parseUnary() }
+    }
+
+    if (token.type === 'lparen') {
+      depth++
+      const node = parseOr()
+      if (peek()?.type !== 'rparen') {
+        fail('缺少与 "(" 对应的 ")"', token)
+      }
+      pos++
+      depth--
+      return node
+    }
+
+    return parseTerm(token)
+  }
+
+  try {
+    tokens = tokenize(input)
+    if (tokens.length === 0) {
+      return { query: null, error: null }
+    }
+
+    const query = parseOr()
+    const extra = peek()
+    if (extra) {
+      fail('多余的 ")"', extra)
+    }
+    return { query, error: null }
+  } catch (err) {
+    if (err instanceof QuerySyntaxError) {
+      return {
+        query: null,
+        error: { message: `第 ${err.start + 1} 个字符：${err.message}`, start: err.start, end: err.end }
+      }
+    }
+    throw err
+  }
+}
+
+/**
+ * 比较差值与0的关系
+ */
+function compare(diff: number, op: QueryComparator): boolean {
+  switch (op) {
+    case '>': return diff > 0
+    case '>=': return diff >= 0
+    case '<': return diff < 0
+    case '<=': return diff <= 0
+    default: return diff === 0
+  }
+}
+
+/**
+ * 判断待办事项是否处于某个状态
+ */
+function matchesState(todo: Todo, state: QueryState, now: Date): boolean {
+  switch (state) {
+    case 'active': return !todo.completed
+    case 'completed': return todo.completed
+    case 'recurring': return !!todo.recurrence
+    case 'subtask': return !!todo.parentId
+    default: return getDueStatus(todo, now) === state
+  }
+}
+
+/**
+ * 判断待办事项是否设置了某个属性
+ */
+function hasProperty(todo: Todo, property: QueryProperty): boolean {
+  switch (property) {
+    case 'due': return !!todo.dueDate
+    case 'start': return !!todo.startDate
+    case 'tags': return todo.tags.length > 0
+    default: return !!todo.recurrence
+  }
+}
+
+/**
+ * 判断待办事项是否满足查询条件
+ *
+ * 日期按自然日比较，相对日期以 now 所在的日期为基准；没有对应日期的待办事项不满足日期条件
+ *
+ * @param todo - 待办事项
+ * @param query - 语法树
+ * @param now - 当前时间，默认为调用时刻
+ * @returns 是否满足
+ */
+export function matchesQuery(todo: Todo, query: QueryNode, now: Date = new Date()): boolean {
+  switch (query.type) {
+    case 'and':
+      return query.children.every(child => matchesQuery(todo, child, now))
+    case 'or':
+      return query.children.some(child => matchesQuery(todo, child, now))
+    case 'not':
+      return !matchesQuery(todo, query.child, now)
+    case 'text': {
+      const keyword = query.value.toLowerCase()
+      return todo.title.toLowerCase().includes(keyword) ||
+        todo.tags.some(tag => tag.toLowerCase().includes(keyword))
+    }
+    case 'title':
+      return todo.title.toLowerCase().includes(query.value.toLowerCase())
+    case 'tag':
+      return todo.tags.some(tag => tag.toLowerCase() === query.value.toLowerCase())
+    case 'is':
+      return matchesState(todo, query.value, now)
+    case 'has':
+      return hasProperty(todo, query.value)
+    case 'priority':
+      return compare(getPriorityWeight(todo.priority) - getPriorityWeight(query.value), query.op)
+    case 'date': {
+      const date = todo[query.field]
+      if (!date) {
+        return false
+      }
+      const target = query.value.type === 'absolute'
+        ? query.value.date
+        : new Date(now.getFullYear(), now.getMonth(), now.getDate() + query.value.days)
+      return compare(diffInDays(target, date), query.op)
+    }
+  }
+}
+
+/**
+ * 按查询条件过滤待办事项
+ *
+ * @param todos - 待办事项列表
+ * @param query - 语法树，为null时不过滤
+ * @param now - 当前时间，默认为调用时刻
+ * @returns 满足条件的待办事项（保持原有顺序）
+ */
+export function filterByQuery(todos: Todo[], query: QueryNode | null, now: Date = new Date()): Todo[] {
+  return query ? todos.filter(todo => matchesQuery(todo, query, now)) : todos
+}
+
+/**
+ * 需要时给值加上引号
+ */
+function quoteValue(value: string): string {
+  return /[\s()":]|^-/.test(value) || ['AND', 'OR', 'NOT'].includes(value)
+    ? `"${value.replace(/"/g, '\\"')}"`
+    : value
+}
+
+/**
+ * 把语法树转换为查询文本
+ *
+ * 转换结果重新解析后得到相同的语法树
+ *
+ * @param query - 语法树
+ * @returns 查询文本
+ */
+export function stringifyQuery(query: QueryNode): string {
+  const op = (comparator: QueryComparator) => (comparator === '=' ? '' : comparator)
+
+  switch (query.type) {
+    case 'and':
+      return query.children
+        .map(child => (child.type === 'or' ? `(${stringifyQuery(child)})` : stringifyQuery(child)))
+        .join(' ')
+    case 'or':
+      return query.children.map(stringifyQuery).join(' OR ')
+    case 'not': {
+      const child = stringifyQuery(query.child)
+      return query.child.type === 'and' || query.child.type === 'or' ? `-(${child})` : `-${child}`
+    }
+    case 'text':
+      return quoteValue(query.value)
+    case 'title':
+    case 'tag':
+      return `${query.type}:${quoteValue(query.value)}`
+    case 'is':
+    case 'has':
+      return `${query.type}:${query.value}`
+    case 'priority':
+      return `priority:${op(query.op)}${query.value}`
+    case 'date': {
+      const key = Object.keys(DATE_FIELDS).find(name => DATE_FIELDS[name] === query.field)
+      const value = query.value.type === 'absolute'
+        ? toDateInputValue(query.value.date)
+        : query.value.days === 0 ? 'today' : `${query.value.days}d`
+      return `${key}:${op(query.op)}${value}`
+    }
+  }
+}
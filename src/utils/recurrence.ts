@@ -0,0 +1,243 @@
+// 【知识点】工具函数 recurrence.ts
+// - 重复规则（RRULE 简化版）的计算引擎
+// - 纯函数，不依赖当前时间，便于单元测试
+// - 以"自然日"为单位计算日期
+/**
+ * 重复规则工具函数
+ *
+ * 这个文件提供了重复待办事项的计算逻辑，包括：
+ * 1. 重复规则的校验
+ * 2. 根据规则计算下一次的截止日期
+ * 3. 生成下一次待办事项的开始/截止日期
+ * 4. 重复规则的文字描述
+ */
+
+import type { Todo, RecurrenceRule, RecurrenceFrequency } from '@/types/todo'
+import { VALIDATION_RULES } from '@/types'
+import { startOfDay, diffInDays } from './dueDate'
+
+/** 所有合法的重复频率 */
+const RECURRENCE_FREQUENCIES: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'afterCompletion']
+
+/** 星期的中文名称，下标与 Date.getDay() 一致 */
+const WEEKDAY_LABELS = ['日', '一', '二', '三', '四', '五', '六']
+
+/**
+ * 在日期上增加若干天
+ *
+ * @param date - 基准日期
+ * @param days - 增加的天数
+ * @returns 新日期（当天零点）
+ */
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+/**
+ * 获取某年某月的指定日期，超出当月天数时取最后一天
+ *
+ * @param year - 年
+ * @param month - 月（0-11，可以超出范围，会自动进位）
+ * @param day - 日（1-31）
+ * @returns 日期（当天零点）
+ */
+function clampedMonthDate(year: number, month: number, day: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate()
+  return new Date(year, month, Math.min(day, lastDay))
+}
+
+/**
+ * 判断一个值是否为合法的重复频率
+ *
+ * @param value - 待检查的值
+ * @returns 是否为合法的重复频率
+ */
+export function isRecurrenceFrequency(value: unknown): value is RecurrenceFrequency {
+  return RECURRENCE_FREQUENCIES.includes(value as RecurrenceFrequency)
+}
+
+/**
+ * 校验重复规则
+ *
+ * @param rule - 重复规则
+ * @returns 错误信息，校验通过时返回null
+ */
+export function validateRecurrenceRule(rule: RecurrenceRule): string | null {
+  if (!isRecurrenceFrequency(rule.frequency)) {
+    return `无效的重复频率: ${String(rule.frequency)}`
+  }
+
+  const interval = rule.interval ?? 1
+  if (!Number.isInteger(interval) || interval < 1 || interval > VALIDATION_RULES.MAX_RECURRENCE_INTERVAL) {
+    return `重复间隔必须是1到${VALIDATION_RULES.MAX_RECURRENCE_INTERVAL}之间的整数`
+  }
+
+  if (rule.weekdays !== undefined) {
+    if (rule.weekdays.length === 0 || rule.weekdays.some(day => !Number.isInteger(day) || day < 0 || day > 6)) {
+      return '每周重复的星期必须是0到6之间的整数'
+    }
+  }
+
+  if (rule.monthDay !== undefined) {
+    if (!Number.isInteger(rule.monthDay) || rule.monthDay < 1 || rule.monthDay > 31) {
+      return '每月重复的日期必须是1到31之间的整数'
+    }
+  }
+
+  if (rule.until !== undefined && isNaN(rule.until.getTime())) {
+    return '重复截止日期格式不正确'
+  }
+
+  return null
+}
+
+/**
+ * 计算下一次的日期
+ *
+ * 'afterCompletion' 以完成时间为基准，其余频率以 anchor（通常为当前截止日期）为基准，
+ * 返回的日期总是晚于基准日期
+ *
+ * @param rule - 重复规则
+ * @param anchor - 基准日期
+ * @param completedAt - 完成时间
+ * @returns 下一次的日期（当天零点），超过 until 时返回null
+ */
+export function getNextOccurrence(rule: RecurrenceRule, anchor: Date, completedAt: Date = anchor): Date | null {
+  const interval = rule.interval ?? 1
+  const base = startOfDay(anchor)
+  let next: Date
+
+  switch (rule.frequency) {
+    case 'daily':
+      next = addDays(base, interval)
+      break
+
+    case 'weekly': {
+      const weekdays = rule.weekdays && rule.weekdays.length > 0 ? rule.weekdays : [base.getDay()]
+      // 以基准日期所在周的周日为第0周，只在间隔整数倍的周内取日期
+      const baseWeekStart = addDays(base, -base.getDay())
+      let found: Date | null = null
+      for (let offset = 1; offset <= 7 * (interval + 1) && !found; offset++) {
+        const candidate = addDays(base, offset)
+        const weekIndex = Math.floor(diffInDays(baseWeekStart, candidate) / 7)
+        if (weekIndex % interval === 0 && weekdays.includes(candidate.getDay())) {
+          found = candidate
+        }
+      }
+      if (!found) {
+        return null
+      }
+      next = found
+      break
+    }
+
+    case 'monthly': {
+      const day = rule.monthDay ?? base.getDate()
+      const sameMonth = clampedMonthDate(base.getFullYear(), base.getMonth(), day)
+      next = sameMonth.getTime() > base.getTime()
+        ? sameMonth
+        : clampedMonthDate(base.getFullYear(), base.getMonth() + interval, day)
+      break
+    }
+
+    case 'afterCompletion':
+    default:
+      next = addDays(startOfDay(completedAt), interval)
+      break
+  }
+
+  if (rule.until && next.getTime() > startOfDay(rule.until).getTime()) {
+    return null
+  }
+
+  return next
+}
+
+/**
+ * 固定每月重复的日期
+ *
+ * 没有指定 monthDay 的每月重复以截止日期当天为准；如果每次都从上一次的截止日期推算，
+ * 1月31日 → 2月28日之后就会变成每月28日，所以在创建规则时就把日期固定下来
+ *
+ * @param rule - 重复规则
+ * @param dueDate - 截止日期
+ * @returns 固定了日期的规则，不需要固定时返回原规则的副本
+ */
+export function pinRecurrenceRule(rule: RecurrenceRule, dueDate?: Date): RecurrenceRule {
+  if (rule.frequency === 'monthly' && rule.monthDay === undefined && dueDate) {
+    return { ...rule, monthDay: dueDate.getDate() }
+  }
+  return { ...rule }
+}
+
+/**
+ * 计算重复待办事项下一次的开始/截止日期
+ *
+ * 没有截止日期时以完成时间为基准；开始日期会与截止日期保持相同的间隔。
+ * 逾期完成时会跳过已经错过的日期，返回完成当天之后的第一次
+ *
+ * @param todo - 刚完成的重复待办事项
+ * @param completedAt - 完成时间
+ * @returns 下一次的日期，不需要再重复时返回null
+ */
+export function getNextOccurrenceDates(
+  todo: Pick<Todo, 'recurrence' | 'dueDate' | 'startDate'>,
+  completedAt: Date
+): { dueDate: Date; startDate?: Date } | null {
+  if (!todo.recurrence) {
+    return null
+  }
+
+  const rule = pinRecurrenceRule(todo.recurrence, todo.dueDate)
+  const completedDay = startOfDay(completedAt)
+  let dueDate = getNextOccurrence(rule, todo.dueDate ?? completedAt, completedAt)
+  while (dueDate && dueDate.getTime() <= completedDay.getTime()) {
+    dueDate = getNextOccurrence(rule, dueDate, completedAt)
+  }
+  if (!dueDate) {
+    return null
+  }
+
+  if (todo.startDate && todo.dueDate) {
+    const lead = diffInDays(todo.startDate, todo.dueDate)
+    return { dueDate, startDate: addDays(dueDate, -lead) }
+  }
+
+  return { dueDate }
+}
+
+/**
+ * 生成重复规则的文字描述
+ *
+ * @param rule - 重复规则
+ * @returns 例如 "每天"、"每2周的周一、周三"、"每月15日"、"完成后3天"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const interval = rule.interval ?? 1
+
+  switch (rule.frequency) {
+    case 'daily':
+      return interval === 1 ? '每天' : `每${interval}天`
+
+    case 'weekly': {
+      const prefix = interval === 1 ? '每周' : `每${interval}周的`
+      if (!rule.weekdays || rule.weekdays.length === 0) {
+        return interval === 1 ? '每周' : `每${interval}周`
+      }
+      const days = [...rule.weekdays]
+        .sort((a, b) => a - b)
+        .map(day => `${interval === 1 ? '' : '周'}${WEEKDAY_LABELS[day]}`)
+        .join('、')
+      return `${prefix}${days}`
+    }
+
+    case 'monthly': {
+      const prefix = interval === 1 ? '每月' : `每${interval}个月的`
+      return rule.monthDay ? `${prefix}${rule.monthDay}日` : prefix.replace(/的$/, '')
+    }
+
+    case 'afterCompletion':
+    default:
+      return `完成后${interval}天`
+  }
+}
@@ -0,0 +1,198 @@
+// 【知识点】工具函数 search.ts
+// - 正则表达式：转义关键字、区分大小写、捕获无效的表达式
+// - 一次编译，多次匹配，数据量大时也能保持速度
+// - 高亮时拆分为文本片段，由模板渲染，避免 v-html 注入
+/**
+ * 全文搜索工具函数
+ *
+ * 这个文件实现了 SearchConfig 描述的搜索，包括：
+ * 1. 把搜索配置编译为正则表达式
+ * 2. 在指定字段中查找匹配的待办事项
+ * 3. 把文本拆分为普通片段和匹配片段，用于高亮显示
+ */
+
+import type { Todo } from '@/types/todo'
+import type { SearchConfig } from '@/types/utils'
+
+/**
+ * 编译后的搜索条件
+ */
+export interface SearchPattern {
+  /** 正则表达式，关键字为空或无效时为null */
+  pattern: RegExp | null
+
+  /** 正则表达式无效时的错误信息 */
+  error: string | null
+}
+
+/**
+ * 高亮显示的配置
+ */
+export interface SearchHighlight {
+  /** 要高亮的内容 */
+  pattern: RegExp
+
+  /** 额外添加到高亮元素上的类名 */
+  className?: string
+}
+
+/**
+ * 高亮显示的文本片段
+ */
+export interface HighlightSegment {
+  /** 片段内容 */
+  text: string
+
+  /** 是否为匹配的内容 */
+  match: boolean
+}
+
+/**
+ * 转义正则表达式中的特殊字符
+ *
+ * @param text - 原始文本
+ * @returns 可以按字面匹配的正则表达式源码
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * 把搜索配置编译为正则表达式
+ *
+ * @param config - 搜索配置
+ * @returns 正则表达式（不带 g 标志）；关键字为空时 pattern 为null，表达式无效时返回错误信息
+ */
+export function createSearchPattern(config: Pick<SearchConfig, 'keyword' | 'caseSensitive' | 'useRegex'>): SearchPattern {
+  const keyword = config.useRegex ? config.keyword : config.keyword.trim()
+  if (keyword.length === 0) {
+    return { pattern: null, error: null }
+  }
+
+  const source = config.useRegex ? keyword : escapeRegExp(keyword)
+  const flags = config.caseSensitive ? '' : 'i'
+
+  try {
+    return { pattern: new RegExp(source, flags), error: null }
+  } catch (err) {
+    const reason = err instanceof Error ? err.message : String(err)
+    return { pattern: null, error: `无效的正则表达式: ${reason}` }
+  }
+}
+
+/**
+ * 获取待办事项某个字段中可以搜索的文本
+ *
+ * 支持字符串和字符串数组类型的字段（如 title、tags 和插件字段）
+ *
+ * @param todo - 待办事项
+ * @param field - 字段名
+ * @returns 文本列表
+ */
+export function getSearchableTexts(todo: Todo, field: string): string[] {
+  const value = (todo as unknown as Record<string, unknown>)[field]
+
+  if (typeof value === 'string') {
+    return [value]
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string')
+  }
+  return []
+}
+
+/**
+ * 判断待办事项是否与搜索条件匹配
+ *
+ * @param todo - 待办事项
+ * @param pattern - 编译后的正则表达式
+ * @param fields - 搜索的字段
+ * @returns 任一字段匹配时返回true
+ */
+export function matchesSearch(todo: Todo, pattern: RegExp, fields: readonly string[]): boolean {
+  return fields.some(field => getSearchableTexts(todo, field).some(text => {
+    pattern.lastIndex = 0
+    return pattern.test(text)
+  }))
+}
+
+/**
+ * 按搜索配置过滤待办事项
+ *
+ * @param todos - 待办事项列表
+ * @param config - 搜索配置
+ * @returns 匹配的待办事项（保持原有顺序）和错误信息；关键字为空或无效时返回原数组
+ */
+export function searchTodos(todos: Todo[], config: SearchConfig): { todos: Todo[]; error: string | null } {
+  const { pattern, error } = createSearchPattern(config)
+  if (!pattern) {
+    return { todos, error }
+  }
+
+  return { todos: todos.filter(todo => matchesSearch(todo, pattern, config.fields)), error: null }
+}
+
+/**
+ * 把文本拆分为普通片段和匹配片段
+ *
+ * 长度为0的匹配（例如正则表达式 a*）会被跳过；结果按顺序拼接后与原文本相同
+ *
+ * @param text - 原始文本
+ * @param pattern - 要高亮的内容
+ * @returns 文本片段，没有匹配时只有一个普通片段
+ */
+export function splitHighlight(text: string, pattern: RegExp): HighlightSegment[] {
+  const matcher = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`)
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+  let match: RegExpExecArray | null
+
+  while ((match = matcher.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      matcher.lastIndex++
+      continue
+    }
+    if (match.index > cursor) {
+      segments.push({ text: text.slice(cursor, match.index), match: false })
+    }
+    segments.push({ text: match[0], match: true })
+    cursor = match.index + match[0].length
+  }
+
+  if (cursor < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(cursor), match: false })
+  }
+
+  return segments
+}
+
+/**
+ * 按匹配范围把文本拆分为普通片段和匹配片段
+ *
+ * 用于模糊搜索的高亮；超出文本的部分会被忽略
+ *
+ * @param text - 原始文本
+ * @param ranges - 匹配范围 [开始, 结束)，按开始位置排列且互不重叠
+ * @returns 文本片段，没有匹配时只有一个普通片段
+ */
+export function splitRanges(text: string, ranges: ReadonlyArray<readonly [number, number]>): HighlightSegment[] {
+  const segments: HighlightSegment[] = []
+  let cursor = 0
+
+  ranges.forEach(([start, end]) => {
+    const from = Math.max(start, cursor)
+    const to = Math.min(end, text.length)
+    if (to <= from) return
+    if (from > cursor) {
+      segments.push({ text: text.slice(cursor, from), match: false })
+    }
+    segments.push({ text: text.slice(from, to), match: true })
+    cursor = to
+  })
+
+  if (cursor < text.length || segments.length === 0) {
+    segments.push({ text: text.slice(cursor), match: false })
+  }
+
+  return segments
+}
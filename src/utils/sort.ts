@@ -0,0 +1,110 @@
+// 【知识点】工具函数 sort.ts
+// - 基于 SortConfig<T> 的通用排序
+// - 纯函数，不修改原数组
+// - TypeScript 类型安全
+/**
+ * 待办事项排序工具函数
+ *
+ * 这个文件提供了待办事项的排序能力，包括：
+ * 1. 优先级的权重比较
+ * 2. 日期、字符串、布尔等字段的比较
+ * 3. 根据 SortConfig 对列表进行稳定排序
+ */
+
+import type { Todo, TodoPriority } from '@/types/todo'
+import type { SortConfig } from '@/types/utils'
+import { PRIORITY_OPTIONS } from '@/types'
+
+/**
+ * 判断一个值是否为合法的优先级
+ *
+ * @param value - 待检查的值
+ * @returns 是否为合法的优先级
+ */
+export function isValidPriority(value: unknown): value is TodoPriority {
+  return PRIORITY_OPTIONS.some(option => option.value === value)
+}
+
+/**
+ * 获取优先级的排序权重
+ *
+ * @param priority - 优先级
+ * @returns 权重，数值越大优先级越高；未知值按 'none' 处理
+ */
+export function getPriorityWeight(priority: TodoPriority | undefined): number {
+  return PRIORITY_OPTIONS.find(option => option.value === priority)?.weight ?? 0
+}
+
+/**
+ * 比较两个字段值（升序）
+ *
+ * @param a - 第一个值
+ * @param b - 第二个值
+ * @returns 负数表示a在前，正数表示b在前
+ */
+function compareValues(a: unknown, b: unknown): number {
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() - b.getTime()
+  }
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b, 'zh-CN')
+  }
+
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b)
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b
+  }
+
+  return 0
+}
+
+/**
+ * 按排序配置比较两个待办事项
+ *
+ * 字段值为空（如未设置截止日期）的待办事项无论升序降序都排在最后；
+ * 自定义比较函数按升序语义编写，降序时结果会被取反
+ *
+ * @param a - 第一个待办事项
+ * @param b - 第二个待办事项
+ * @param config - 排序配置
+ * @returns 比较结果
+ */
+export function compareTodos(a: Todo, b: Todo, config: SortConfig<Todo>): number {
+  const direction = config.direction === 'desc' ? -1 : 1
+
+  if (config.compareFn) {
+    return config.compareFn(a, b) * direction
+  }
+
+  const valueA = a[config.field]
+  const valueB = b[config.field]
+
+  const emptyA = valueA === undefined || valueA === null
+  const emptyB = valueB === undefined || valueB === null
+  if (emptyA || emptyB) {
+    return emptyA === emptyB ? 0 : emptyA ? 1 : -1
+  }
+
+  if (config.field === 'priority') {
+    return (getPriorityWeight(a.priority) - getPriorityWeight(b.priority)) * direction
+  }
+
+  return compareValues(valueA, valueB) * direction
+}
+
+/**
+ * 按排序配置对待办事项排序
+ *
+ * 排序是稳定的：比较结果相同的待办事项保持原有的相对顺序
+ *
+ * @param todos - 待办事项列表
+ * @param config - 排序配置
+ * @returns 排序后的新数组
+ */
+export function sortTodos(todos: Todo[], config: SortConfig<Todo>): Todo[] {
+  return [...todos].sort((a, b) => compareTodos(a, b, config))
+}
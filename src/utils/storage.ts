@@ -1,10 +1,12 @@
 // 【知识点】工具函数 storage.ts
 // - 封装 localStorage 操作，提升代码复用性
+// - 通过存储适配器切换存储后端
 // - TypeScript 类型安全
 // - 工程化最佳实践
 
 import { ErrorCode, TodoError } from '@/types/error'
-import type { StorageConfig, StorageResult } from '@/types/utils'
+import type { StorageAdapter, StorageConfig, StorageResult } from '@/types/utils'
+import { createLocalStorageAdapter } from './storageAdapters'
 
 /**
  * 检查localStorage是否可用
@@ -398,4 +400,153 @@ export function batchStorageOperations(
         }
     }
   })
-}
\ No newline at end of file
+}
+
+// ===== 存储适配器 =====
+
+/**
+ * 当前使用的存储适配器，默认为localStorage
+ */
+let activeAdapter: StorageAdapter = createLocalStorageAdapter()
+
+/**
+ * 设置应用使用的存储适配器
+ * 
+ * 应在加载数据之前调用，之后 todoStorage.ts 中的读写都会使用这个适配器
+ * 
+ * @param adapter - 存储适配器
+ */
+export function setStorageAdapter(adapter: StorageAdapter): void {
+  activeAdapter = adapter
+}
+
+/**
+ * 获取当前使用的存储适配器
+ * 
+ * @returns 存储适配器
+ */
+export function getStorageAdapter(): StorageAdapter {
+  return activeAdapter
+}
+
+/**
+ * 获取错误信息
+ * 
+ * @param error - 捕获到的错误
+ * @param fallback - 未知错误时的提示
+ * @returns 错误信息
+ */
+function getErrorMessage(error: unknown, fallback: string): string {
+  return error instanceof TodoError ? error.message : fallback
+}
+
+/**
+ * 获取错误代码
+ * 
+ * @param error - 捕获到的错误
+ * @returns 错误代码，非TodoError时为STORAGE_ERROR
+ */
+function getErrorCode(error: unknown): ErrorCode {
+  return error instanceof TodoError ? error.code : ErrorCode.STORAGE_ERROR
+}
+
+/**
+ * 通过存储适配器读取数据
+ * 
+ * @param key - 存储键名
+ * @param defaultValue - 默认值（当键不存在时返回）
+ * @returns 存储操作结果
+ */
+export async function readStorageItem<T = unknown>(
+  key: string,
+  defaultValue?: T
+): Promise<StorageResult<T>> {
+  const timestamp = new Date()
+  
+  try {
+    const data = await activeAdapter.get<T>(key)
+    
+    return {
+      success: true,
+      data: data === undefined ? defaultValue as T : data,
+      key,
+      operation: 'get',
+      timestamp
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: getErrorMessage(error, '获取存储数据时发生未知错误'),
+      code: getErrorCode(error),
+      key,
+      operation: 'get',
+      timestamp
+    }
+  }
+}
+
+/**
+ * 通过存储适配器保存数据
+ * 
+ * @param key - 存储键名
+ * @param value - 要保存的数据
+ * @returns 存储操作结果
+ */
+export async function writeStorageItem<T = unknown>(
+  key: string,
+  value: T
+): Promise<StorageResult<T>> {
+  const timestamp = new Date()
+  
+  try {
+    await activeAdapter.set(key, value)
+    
+    return {
+      success: true,
+      data: value,
+      key,
+      operation: 'set',
+      timestamp
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: getErrorMessage(error, '保存存储数据时发生未知错误'),
+      code: getErrorCode(error),
+      key,
+      operation: 'set',
+      timestamp
+    }
+  }
+}
+
+/**
+ * 通过存储适配器删除数据
+ * 
+ * @param key - 要删除的存储键名
+ * @returns 存储操作结果
+ */
+export async function deleteStorageItem(key: string): Promise<StorageResult<null>> {
+  const timestamp = new Date()
+  
+  try {
+    await activeAdapter.remove(key)
+    
+    return {
+      success: true,
+      data: null,
+      key,
+      operation: 'remove',
+      timestamp
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: getErrorMessage(error, '删除存储数据时发生未知错误'),
+      code: getErrorCode(error),
+      key,
+      operation: 'remove',
+      timestamp
+    }
+  }
+}
@@ -0,0 +1,434 @@
+// 【知识点】工具函数 storageAdapters.ts
+// - 适配器模式：统一不同存储后端的接口
+// - Promise 封装 IndexedDB 的事件式API
+// - 工厂函数创建适配器实例
+/**
+ * 存储适配器
+ *
+ * 这个文件提供了 StorageAdapter 接口的三种实现：
+ * 1. localStorage：同步API的异步包装，容量约5MB
+ * 2. IndexedDB：容量大，适合大量待办事项和历史记录
+ * 3. 内存：不持久化，用于测试或存储不可用时的降级
+ *
+ * 三种实现都以JSON字符串保存数据，保证读取结果一致，
+ * 也避免了IndexedDB结构化克隆无法处理Vue响应式代理的问题
+ */
+
+import type { StorageAdapter, StorageEstimate } from '@/types/utils'
+import { STORAGE_CONFIG } from '@/types'
+import { ErrorCode, TodoError } from '@/types/error'
+
+/**
+ * localStorage 适配器配置
+ */
+export interface LocalStorageAdapterOptions {
+  /** 适配器管理的键名前缀，keys() 和 clear() 只处理带此前缀的键 */
+  prefix?: string
+}
+
+/**
+ * IndexedDB 适配器配置
+ */
+export interface IndexedDBAdapterOptions {
+  /** 数据库名称 */
+  dbName?: string
+  /** 对象仓库名称 */
+  storeName?: string
+}
+
+/**
+ * 序列化数据
+ * @param key - 存储键名
+ * @param value - 要保存的数据
+ * @returns JSON字符串
+ */
+function serialize(key: string, value: unknown): string {
+  try {
+    return JSON.stringify(value)
+  } catch (error) {
+    throw new TodoError(
+      '数据序列化失败',
+      ErrorCode.STORAGE_ERROR,
+      { key, originalError: error }
+    )
+  }
+}
+
+/**
+ * 反序列化数据
+ * @param key - 存储键名
+ * @param raw - JSON字符串
+ * @returns 解析后的数据
+ */
+function deserialize<T>(key: string, raw: string): T {
+  try {
+    return JSON.parse(raw) as T
+  } catch (error) {
+    throw new TodoError(
+      '数据反序列化失败，可能数据已损坏',
+      ErrorCode.STORAGE_DATA_CORRUPTED,
+      { key, originalError: error }
+    )
+  }
+}
+
+/**
+ * 将存储配额错误转换为 TodoError
+ * @param key - 存储键名
+ * @param error - 原始错误
+ * @returns 转换后的错误
+ */
+function toWriteError(key: string, error: unknown): TodoError {
+  if (error instanceof TodoError) {
+    return error
+  }
+
+  if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+    return new TodoError(
+      '存储空间不足，无法保存数据',
+      ErrorCode.STORAGE_QUOTA_EXCEEDED,
+      { key }
+    )
+  }
+
+  return new TodoError(
+    '保存存储数据时发生未知错误',
+    ErrorCode.STORAGE_ERROR,
+    { key, originalError: error }
+  )
+}
+
+// ===== localStorage =====
+
+/**
+ * 创建 localStorage 适配器
+ *
+ * @param options - 适配器配置
+ * @returns 存储适配器
+ */
+export function createLocalStorageAdapter(options: LocalStorageAdapterOptions = {}): StorageAdapter {
+  const prefix = options.prefix ?? STORAGE_CONFIG.KEY_PREFIX
+
+  /**
+   * 获取带前缀的所有键名
+   */
+  const ownKeys = (): string[] => {
+    const result: string[] = []
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key !== null && key.startsWith(prefix)) {
+        result.push(key)
+      }
+    }
+    return result
+  }
+
+  return {
+    type: 'localStorage',
+
+    async isAvailable() {
+      try {
+        const testKey = '__storage_test__'
+        localStorage.setItem(testKey, 'test')
+        const value = localStorage.getItem(testKey)
+        localStorage.removeItem(testKey)
+        return value === 'test'
+      } catch (error) {
+        return false
+      }
+    },
+
+    async get<T>(key: string) {
+      const raw = localStorage.getItem(key)
+      return raw === null ? undefined : deserialize<T>(key, raw)
+    },
+
+    async set<T>(key: string, value: T) {
+      try {
+        localStorage.setItem(key, serialize(key, value))
+      } catch (error) {
+        throw toWriteError(key, error)
+      }
+    },
+
+    async remove(key: string) {
+      localStorage.removeItem(key)
+    },
+
+    async keys() {
+      return ownKeys()
+    },
+
+    async clear() {
+      ownKeys().forEach(key => localStorage.removeItem(key))
+    },
+
+    async estimate(): Promise<StorageEstimate> {
+      let used = 0
+      ownKeys().forEach(key => {
+        used += key.length + (localStorage.getItem(key)?.length ?? 0)
+      })
+      return { used, total: STORAGE_CONFIG.LOCAL_STORAGE_QUOTA }
+    }
+  }
+}
+
+// ===== 内存 =====
+
+/**
+ * 创建内存适配器
+ *
+ * 数据只保存在当前页面的内存中，刷新后丢失
+ *
+ * @param initial - 初始数据
+ * @returns 存储适配器
+ */
+export function createMemoryAdapter(initial: Record<string, unknown> = {}): StorageAdapter {
+  const data = new Map<string, string>()
+  Object.entries(initial).forEach(([key, value]) => data.set(key, serialize(key, value)))
+
+  return {
+    type: 'memory',
+
+    async isAvailable() {
+      return true
+    },
+
+    async get<T>(key: string) {
+      const raw = data.get(key)
+      return raw === undefined ? undefined : deserialize<T>(key, raw)
+    },
+
+    async set<T>(key: string, value: T) {
+      data.set(key, serialize(key, value))
+    },
+
+    async remove(key: string) {
+      data.delete(key)
+    },
+
+    async keys() {
+      return [...data.keys()]
+    },
+
+    async clear() {
+      data.clear()
+    },
+
+    async estimate(): Promise<StorageEstimate> {
+      let used = 0
+      data.forEach((raw, key) => {
+        used += key.length + raw.length
+      })
+      return { used, total: null }
+    }
+  }
+}
+
+// ===== IndexedDB =====
+
+/**
+ * 将 IDBRequest 包装为 Promise
+ * @param request - IndexedDB 请求
+ * @returns 请求结果
+ */
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/**
+ * 等待 IndexedDB 事务提交
+ *
+ * 请求成功并不代表数据已经写入，事务仍可能因为配额不足等原因中止
+ *
+ * @param transaction - IndexedDB 事务
+ */
+function promisifyTransaction(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB事务已中止'))
+  })
+}
+
+/**
+ * 创建 IndexedDB 适配器
+ *
+ * 数据库在第一次读写时才打开，每个键对应对象仓库中的一条记录
+ *
+ * @param options - 适配器配置
+ * @returns 存储适配器
+ */
+export function createIndexedDBAdapter(options: IndexedDBAdapterOptions = {}): StorageAdapter {
+  const dbName = options.dbName ?? STORAGE_CONFIG.INDEXED_DB_NAME
+  const storeName = options.storeName ?? STORAGE_CONFIG.INDEXED_DB_STORE
+  let dbPromise: Promise<IDBDatabase> | null = null
+
+  /**
+   * 打开数据库，首次打开时创建对象仓库
+   */
+  const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new TodoError('IndexedDB不可用', ErrorCode.STORAGE_NOT_AVAILABLE, { dbName }))
+          return
+        }
+
+        const request = indexedDB.open(dbName, 1)
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(storeName)) {
+            request.result.createObjectStore(storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(new TodoError(
+          '打开IndexedDB失败',
+          ErrorCode.STORAGE_NOT_AVAILABLE,
+          { dbName, originalError: request.error }
+        ))
+      })
+
+      // 打开失败时允许下次重试
+      dbPromise.catch(() => {
+        dbPromise = null
+      })
+    }
+
+    return dbPromise
+  }
+
+  /**
+   * 在对象仓库上执行一次请求
+   *
+   * 读写事务在提交后才返回，事务出错或中止时抛出错误
+   *
+   * @param mode - 事务模式
+   * @param run - 发起请求的函数
+   * @returns 请求结果
+   */
+  const withStore = async <T>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const db = await openDatabase()
+    const transaction = db.transaction(storeName, mode)
+    const request = promisifyRequest(run(transaction.objectStore(storeName)))
+    if (mode === 'readonly') {
+      return request
+    }
+
+    const [result] = await Promise.all([request, promisifyTransaction(transaction)])
+    return result
+  }
+
+  return {
+    type: 'indexedDB',
+
+    async isAvailable() {
+      try {
+        await openDatabase()
+        return true
+      } catch (error) {
+        return false
+      }
+    },
+
+    async get<T>(key: string) {
+      const raw = await withStore<unknown>('readonly', store => store.get(key))
+      return typeof raw === 'string' ? deserialize<T>(key, raw) : undefined
+    },
+
+    async set<T>(key: string, value: T) {
+      const raw = serialize(key, value)
+      try {
+        await withStore('readwrite', store => store.put(raw, key))
+      } catch (error) {
+        throw toWriteError(key, error)
+      }
+    },
+
+    async remove(key: string) {
+      await withStore('readwrite', store => store.delete(key))
+    },
+
+    async keys() {
+      const keys = await withStore('readonly', store => store.getAllKeys())
+      return keys.map(key => String(key))
+    },
+
+    async clear() {
+      await withStore('readwrite', store => store.clear())
+    },
+
+    async estimate(): Promise<StorageEstimate> {
+      if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+        const { usage, quota } = await navigator.storage.estimate()
+        return { used: usage ?? 0, total: quota ?? null }
+      }
+
+      const values = await withStore<unknown[]>('readonly', store => store.getAll())
+      const used = values.reduce<number>(
+        (sum, raw) => sum + (typeof raw === 'string' ? raw.length : 0),
+        0
+      )
+      return { used, total: null }
+    }
+  }
+}
+
+// ===== 适配器选择 =====
+
+/**
+ * 选择可用的存储适配器
+ *
+ * 优先使用IndexedDB；第一次切换到IndexedDB时会把localStorage中的旧数据复制过去。
+ * IndexedDB不可用时退回localStorage，两者都不可用时使用内存存储
+ *
+ * @returns 可用的存储适配器
+ */
+export async function selectStorageAdapter(): Promise<StorageAdapter> {
+  const local = createLocalStorageAdapter()
+  const indexed = createIndexedDBAdapter()
+
+  if (await indexed.isAvailable()) {
+    if (await local.isAvailable()) {
+      await copyStorageData(local, indexed)
+    }
+    return indexed
+  }
+
+  if (await local.isAvailable()) {
+    return local
+  }
+
+  return createMemoryAdapter()
+}
+
+/**
+ * 将数据从一个适配器复制到另一个适配器
+ *
+ * 目标已有数据时不做任何修改，避免覆盖
+ *
+ * @param source - 源适配器
+ * @param target - 目标适配器
+ * @returns 复制的键数量
+ */
+export async function copyStorageData(source: StorageAdapter, target: StorageAdapter): Promise<number> {
+  if ((await target.keys()).length > 0) {
+    return 0
+  }
+
+  const keys = await source.keys()
+  for (const key of keys) {
+    const value = await source.get(key)
+    if (value !== undefined) {
+      await target.set(key, value)
+    }
+  }
+
+  return keys.length
+}
@@ -0,0 +1,344 @@
+// 【知识点】工具函数 tabSync.ts
+// - BroadcastChannel 与 storage 事件实现多标签页通信
+// - 以记录为单位、按 updatedAt 合并并发修改
+// - 纯函数与副作用分离，便于单元测试
+/**
+ * 多标签页同步
+ *
+ * 这个文件提供了多个标签页之间同步数据的工具，包括：
+ * 1. 按记录合并本地与其他标签页的数据（三方合并）
+ * 2. 通过 BroadcastChannel 发送和接收变更
+ * 3. 不支持 BroadcastChannel 时退回监听 localStorage 的 storage 事件
+ *
+ * 合并规则：
+ * - 两边都有的记录保留 updatedAt 较新的一份，时间相同时按内容取确定的一份，保证各标签页结果一致
+ * - 只有一边有的记录：上次同步时存在，说明被另一边删除，除非之后又被修改过；否则是新增的记录
+ */
+
+import type { Todo, Project, TrashedTodo, ArchivedTodo } from '@/types/todo'
+import { STORAGE_CONFIG, STORAGE_KEYS } from '@/types'
+import { reviveTodo, reviveTrashedTodo, reviveArchivedTodo, reviveDate } from './todoStorage'
+import { migratePayload, isPlainObject } from './migrations'
+
+/**
+ * 可以合并的记录
+ */
+export interface SyncRecord {
+  /** 唯一标识 */
+  id: string
+  /** 最后更新时间 */
+  updatedAt: Date
+}
+
+/**
+ * 上次同步时的记录版本：记录ID -> updatedAt 时间戳
+ */
+export type SyncBase = Map<string, number>
+
+/**
+ * 合并结果
+ */
+export interface MergeResult<T> {
+  /** 合并后的记录 */
+  merged: T[]
+  /** 合并结果是否与本地不同 */
+  changed: boolean
+}
+
+/**
+ * 同步方式
+ */
+export type TabSyncTransport = 'broadcastChannel' | 'storageEvent' | 'none'
+
+/**
+ * 标签页之间传递的消息
+ */
+export interface TabSyncMessage {
+  /** 数据类型 */
+  type: 'todos' | 'projects' | 'trash' | 'archive'
+  /** 发送消息的标签页ID */
+  source: string
+  /** JSON序列化后的记录 */
+  payload: string
+}
+
+/**
+ * 收到其他标签页数据时的回调
+ */
+export interface TabSyncHandlers {
+  /** 收到待办事项 */
+  onTodos: (todos: Todo[]) => void
+  /** 收到列表 */
+  onProjects: (projects: Project[]) => void
+  /** 收到回收站中的待办事项 */
+  onTrash?: (items: TrashedTodo[]) => void
+  /** 收到已归档的待办事项 */
+  onArchive?: (items: ArchivedTodo[]) => void
+}
+
+/**
+ * 多标签页同步实例
+ */
+export interface TabSync {
+  /** 当前使用的同步方式 */
+  readonly transport: TabSyncTransport
+  /** 通知其他标签页待办事项已变化 */
+  broadcastTodos: (todos: Todo[]) => void
+  /** 通知其他标签页列表已变化 */
+  broadcastProjects: (projects: Project[]) => void
+  /** 通知其他标签页回收站已变化 */
+  broadcastTrash: (items: TrashedTodo[]) => void
+  /** 通知其他标签页归档已变化 */
+  broadcastArchive: (items: ArchivedTodo[]) => void
+  /** 停止同步 */
+  close: () => void
+}
+
+// ===== 合并 =====
+
+/**
+ * 根据记录创建同步基准
+ * @param records - 双方都已知道的记录
+ * @returns 同步基准
+ */
+export function createSyncBase(records: SyncRecord[]): SyncBase {
+  return new Map(records.map(record => [record.id, new Date(record.updatedAt).getTime()]))
+}
+
+/**
+ * 在两份相同ID的记录中选出保留的一份
+ * @param local - 本地记录
+ * @param remote - 其他标签页的记录
+ * @returns 保留的记录
+ */
+function pickNewer<T extends SyncRecord>(local: T, remote: T): T {
+  const localTime = new Date(local.updatedAt).getTime()
+  const remoteTime = new Date(remote.updatedAt).getTime()
+
+  if (localTime !== remoteTime) {
+    return localTime > remoteTime ? local : remote
+  }
+
+  // 时间相同但内容不同时，按序列化结果取确定的一份
+  const localJson = JSON.stringify(local)
+  const remoteJson = JSON.stringify(remote)
+  return localJson >= remoteJson ? local : remote
+}
+
+/**
+ * 判断只存在于一边的记录是否应该保留
+ * @param record - 记录
+ * @param base - 同步基准
+ * @returns 是否保留
+ */
+function keepUnmatched(record: SyncRecord, base: SyncBase): boolean {
+  const baseTime = base.get(record.id)
+  if (baseTime === undefined) {
+    // 上次同步时不存在，是新增的记录
+    return true
+  }
+
+  // 上次同步时存在，说明另一边已删除；删除后本边又修改过的记录仍然保留
+  return new Date(record.updatedAt).getTime() > baseTime
+}
+
+/**
+ * 合并本地与其他标签页的记录
+ *
+ * 结果保持本地的顺序，其他标签页新增的记录按其顺序追加到末尾
+ *
+ * @param base - 上次同步时的记录版本
+ * @param local - 本地记录
+ * @param remote - 其他标签页的记录
+ * @returns 合并结果
+ */
+export function mergeRecords<T extends SyncRecord>(
+  base: SyncBase,
+  local: T[],
+  remote: T[]
+): MergeResult<T> {
+  const remoteById = new Map(remote.map(record => [record.id, record]))
+  const localIds = new Set(local.map(record => record.id))
+  const merged: T[] = []
+
+  local.forEach(record => {
+    const remoteRecord = remoteById.get(record.id)
+    if (remoteRecord) {
+      merged.push(pickNewer(record, remoteRecord))
+    } else if (keepUnmatched(record, base)) {
+      merged.push(record)
+    }
+  })
+
+  remote.forEach(record => {
+    if (!localIds.has(record.id) && keepUnmatched(record, base)) {
+      merged.push(record)
+    }
+  })
+
+  const changed = merged.length !== local.length ||
+    merged.some((record, index) => record !== local[index])
+
+  return { merged, changed }
+}
+
+// ===== 消息解析 =====
+
+/**
+ * 还原列表中的日期字段
+ * @param raw - 反序列化后的列表
+ * @returns 列表
+ */
+function reviveProject(raw: unknown): Project {
+  const record = isPlainObject(raw) ? raw : {}
+  return {
+    ...record,
+    id: String(record.id),
+    name: typeof record.name === 'string' ? record.name : '',
+    archived: Boolean(record.archived),
+    createdAt: reviveDate(record.createdAt),
+    updatedAt: reviveDate(record.updatedAt)
+  }
+}
+
+/**
+ * 解析其他标签页写入 localStorage 的数据
+ * @param key - 存储键名
+ * @param value - storage 事件中的新值
+ * @returns 解析后的数据，无法解析时返回null
+ */
+function parseStoredValue(key: string, value: string): unknown {
+  try {
+    return migratePayload(key, JSON.parse(value)).data
+  } catch (error) {
+    return null
+  }
+}
+
+/**
+ * 生成标签页ID
+ * @returns 随机ID
+ */
+function createTabId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
+}
+
+// ===== 同步实例 =====
+
+/**
+ * 创建多标签页同步
+ *
+ * 优先使用 BroadcastChannel；不支持时监听 storage 事件，
+ * 此时只有使用 localStorage 存储后端才能收到其他标签页的变化
+ *
+ * @param handlers - 收到其他标签页数据时的回调
+ * @param channelName - 频道名称
+ * @returns 同步实例
+ */
+export function createTabSync(
+  handlers: TabSyncHandlers,
+  channelName: string = STORAGE_CONFIG.SYNC_CHANNEL
+): TabSync {
+  const tabId = createTabId()
+
+  /**
+   * 处理收到的消息
+   * @param message - 消息
+   */
+  const handleMessage = (message: TabSyncMessage) => {
+    if (!message || message.source === tabId) return
+
+    try {
+      const records = JSON.parse(message.payload)
+      if (!Array.isArray(records)) return
+
+      if (message.type === 'todos') {
+        handlers.onTodos(records.map(reviveTodo))
+      } else if (message.type === 'projects') {
+        handlers.onProjects(records.map(reviveProject))
+      } else if (message.type === 'trash') {
+        handlers.onTrash?.(records.map(reviveTrashedTodo))
+      } else if (message.type === 'archive') {
+        handlers.onArchive?.(records.map(reviveArchivedTodo))
+      }
+    } catch (error) {
+      console.warn('⚠️ 无法解析其他标签页的同步消息', error)
+    }
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(channelName)
+    channel.onmessage = (event: MessageEvent<TabSyncMessage>) => handleMessage(event.data)
+
+    /**
+     * 发送消息
+     * @param type - 数据类型
+     * @param records - 记录
+     */
+    const post = (type: TabSyncMessage['type'], records: SyncRecord[]) => {
+      channel.postMessage({ type, source: tabId, payload: JSON.stringify(records) })
+    }
+
+    return {
+      transport: 'broadcastChannel',
+      broadcastTodos: todos => post('todos', todos),
+      broadcastProjects: projects => post('projects', projects),
+      broadcastTrash: items => post('trash', items),
+      broadcastArchive: items => post('archive', items),
+      close: () => channel.close()
+    }
+  }
+
+  if (typeof window !== 'undefined') {
+    /**
+     * 处理其他标签页写入 localStorage 的事件
+     * @param event - storage 事件
+     */
+    const handleStorage = (event: StorageEvent) => {
+      if (event.newValue === null) return
+
+      if (event.key === STORAGE_KEYS.TODOS) {
+        const todos = parseStoredValue(event.key, event.newValue)
+        if (Array.isArray(todos)) {
+          handlers.onTodos(todos.map(reviveTodo))
+        }
+      } else if (event.key === STORAGE_KEYS.PROJECTS) {
+        const data = parseStoredValue(event.key, event.newValue) as { projects?: unknown } | null
+        if (data && Array.isArray(data.projects)) {
+          handlers.onProjects(data.projects.map(reviveProject))
+        }
+      } else if (event.key === STORAGE_KEYS.TRASH) {
+        const data = parseStoredValue(event.key, event.newValue) as { items?: unknown } | null
+        if (data && Array.isArray(data.items)) {
+          handlers.onTrash?.(data.items.map(reviveTrashedTodo))
+        }
+      } else if (event.key === STORAGE_KEYS.ARCHIVE) {
+        const items = parseStoredValue(event.key, event.newValue)
+        if (Array.isArray(items)) {
+          handlers.onArchive?.(items.map(reviveArchivedTodo))
+        }
+      }
+    }
+
+    window.addEventListener('storage', handleStorage)
+
+    // 写入 localStorage 时浏览器会自动通知其他标签页，不需要主动发送
+    return {
+      transport: 'storageEvent',
+      broadcastTodos: () => {},
+      broadcastProjects: () => {},
+      broadcastTrash: () => {},
+      broadcastArchive: () => {},
+      close: () => window.removeEventListener('storage', handleStorage)
+    }
+  }
+
+  return {
+    transport: 'none',
+    broadcastTodos: () => {},
+    broadcastProjects: () => {},
+    broadcastTrash: () => {},
+    broadcastArchive: () => {},
+    close: () => {}
+  }
+}
@@ -0,0 +1,171 @@
+// 【知识点】工具函数 tags.ts
+// - 标签名称的规范化与校验
+// - 从标题中提取 #标签
+// - 纯函数，便于单元测试
+/**
+ * 标签工具函数
+ *
+ * 这个文件提供了标签相关的通用逻辑，包括：
+ * 1. 标签名称的规范化和校验
+ * 2. 标签列表的去重、替换
+ * 3. 从待办事项标题中解析 #标签 写法
+ * 4. 新标签的默认颜色分配
+ */
+
+import type { Tag, TagMatchMode } from '@/types/todo'
+import { TAG_COLORS, VALIDATION_RULES } from '@/types'
+
+/**
+ * 标题中 #标签 的匹配规则
+ *
+ * 标签必须以非数字开头，避免把 "#123" 这类编号误认为标签
+ */
+const HASH_TAG_PATTERN = /(^|\s)#([^\s#\d][^\s#]*)/g
+
+/**
+ * 规范化标签名称
+ *
+ * 去除首尾空白和开头的 # 号
+ *
+ * @param name - 原始标签名称
+ * @returns 规范化后的名称
+ */
+export function normalizeTagName(name: string): string {
+  return name.trim().replace(/^#+/, '').trim()
+}
+
+/**
+ * 校验标签名称
+ *
+ * @param name - 规范化后的标签名称
+ * @returns 错误信息，校验通过时返回null
+ */
+export function validateTagName(name: string): string | null {
+  if (name.length === 0) {
+    return '标签名称不能为空'
+  }
+
+  if (name.length > VALIDATION_RULES.MAX_TAG_LENGTH) {
+    return `标签名称不能超过${VALIDATION_RULES.MAX_TAG_LENGTH}个字符`
+  }
+
+  if (/[\s#,]/.test(name)) {
+    return '标签名称不能包含空格、# 或逗号'
+  }
+
+  return null
+}
+
+/**
+ * 规范化并去重标签列表
+ *
+ * 非法的标签名称会被丢弃，保留首次出现的顺序
+ *
+ * @param names - 原始标签名称列表
+ * @returns 规范化后的标签列表
+ */
+export function normalizeTagList(names: string[]): string[] {
+  const result: string[] = []
+
+  for (const raw of names) {
+    const name = normalizeTagName(raw)
+    if (!validateTagName(name) && !result.includes(name)) {
+      result.push(name)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 将标签列表中的若干标签替换为目标标签
+ *
+ * 用于标签重命名和合并；传入null作为目标时表示删除这些标签
+ *
+ * @param tags - 原标签列表
+ * @param sources - 要替换的标签名称
+ * @param target - 目标标签名称，null表示删除
+ * @returns 新的标签列表；没有发生变化时返回原数组
+ */
+export function replaceTags(tags: string[], sources: string[], target: string | null): string[] {
+  if (!tags.some(tag => sources.includes(tag))) {
+    return tags
+  }
+
+  const result: string[] = []
+  for (const tag of tags) {
+    const next = sources.includes(tag) ? target : tag
+    if (next !== null && !result.includes(next)) {
+      result.push(next)
+    }
+  }
+
+  return result
+}
+
+/**
+ * 从标题中提取 #标签
+ *
+ * @param title - 待办事项标题，例如 "修复登录问题 #bug #frontend"
+ * @returns 去掉标签后的标题和提取出的标签列表
+ */
+export function extractHashTags(title: string): { title: string; tags: string[] } {
+  const tags: string[] = []
+
+  const stripped = title.replace(HASH_TAG_PATTERN, (match, leading: string, name: string) => {
+    const normalized = normalizeTagName(name)
+    if (validateTagName(normalized)) {
+      return match
+    }
+
+    if (!tags.includes(normalized)) {
+      tags.push(normalized)
+    }
+    return leading
+  })
+
+  return {
+    title: stripped.replace(/\s{2,}/g, ' ').trim(),
+    tags
+  }
+}
+
+/**
+ * 为新标签挑选颜色
+ *
+ * 按已有标签数量轮流使用默认调色板
+ *
+ * @param existing - 已有的标签
+ * @returns CSS颜色值
+ */
+export function pickTagColor(existing: Tag[]): string {
+  return TAG_COLORS[existing.length % TAG_COLORS.length]
+}
+
+/**
+ * 判断待办事项的标签是否满足标签过滤条件
+ *
+ * @param todoTags - 待办事项的标签
+ * @param selected - 选中的过滤标签，为空时视为不过滤
+ * @param mode - 'any' 表示包含任一标签即可，'all' 表示必须包含全部标签
+ * @returns 是否匹配
+ */
+export function matchesTagFilter(todoTags: string[], selected: string[], mode: TagMatchMode = 'any'): boolean {
+  if (selected.length === 0) {
+    return true
+  }
+
+  return mode === 'all'
+    ? selected.every(tag => todoTags.includes(tag))
+    : selected.some(tag => todoTags.includes(tag))
+}
+
+/**
+ * 判断是否为合法的标签颜色（十六进制颜色值）
+ *
+ * @param color - 颜色值
+ * @returns 是否合法
+ */
+export function isValidTagColor(color: string): boolean {
+  return /^#(?:[0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/.test(color)
+}
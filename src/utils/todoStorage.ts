@@ -5,24 +5,35 @@
 /**
  * Todo应用专用的存储工具函数
  * 
- * 这个文件提供了专门针对Todo应用的存储操作，包括：
+ * 这个文件提供了专门针对Todo应用的存储操作，读写都通过当前配置的存储适配器完成，包括：
  * 1. Todo列表的保存和加载
  * 2. 过滤器状态的持久化
- * 3. 应用设置的存储
- * 4. 数据迁移和版本管理
+ * 3. 标签库、列表、回收站、归档与应用设置的存储
+ * 4. 数据迁移和版本管理（写入时带版本号，读取时逐级升级并备份旧数据）
  * 5. ID生成工具
  */
 
-import type { Todo, FilterType } from '@/types/todo'
-import type { StorageResult } from '@/types/utils'
-import { STORAGE_KEYS } from '@/types'
+import type { Todo, FilterType, Tag, ProjectsData, TrashedTodo, TrashData, ArchivedTodo, RecurrenceRule } from '@/types/todo'
+import type { StorageAdapterType, StorageResult } from '@/types/utils'
+import { STORAGE_KEYS, FILTER_OPTIONS, DUE_FILTER_OPTIONS, DEFAULT_PROJECT, TRASH_CONFIG } from '@/types'
 import { ErrorCode, TodoError } from '@/types/error'
 import {
-  getStorageItem,
-  setStorageItem,
-  removeStorageItem,
-  isStorageAvailable
+  readStorageItem,
+  writeStorageItem,
+  deleteStorageItem,
+  getStorageAdapter
 } from './storage'
+import { isValidPriority } from './sort'
+import { isRecurrenceFrequency } from './recurrence'
+import {
+  isPlainObject,
+  readSchemaVersion,
+  getCurrentSchemaVersion,
+  migratePayload,
+  wrapVersioned,
+  getBackupKey,
+  getRecoveryOptions
+} from './migrations'
 
 /**
  * 生成唯一ID
@@ -37,6 +48,151 @@ export function generateId(): string {
   return `${timestamp}-${randomPart}`
 }
 
+/**
+ * 所有合法的过滤器值
+ */
+const VALID_FILTERS: FilterType[] = [...FILTER_OPTIONS, ...DUE_FILTER_OPTIONS].map(
+  option => option.value
+)
+
+/**
+ * 判断一个值是否为合法的过滤器类型
+ * 
+ * @param value - 待检查的值
+ * @returns 是否为合法的过滤器
+ */
+export function isValidFilter(value: unknown): value is FilterType {
+  return VALID_FILTERS.includes(value as FilterType)
+}
+
+/**
+ * 将反序列化后的日期还原为Date对象
+ * 
+ * @param value - JSON中的日期字符串或时间戳
+ * @returns 日期，无法识别时返回无效日期
+ */
+export function reviveDate(value: unknown): Date {
+  return typeof value === 'string' || typeof value === 'number' || value instanceof Date
+    ? new Date(value)
+    : new Date(Number.NaN)
+}
+
+/**
+ * 将反序列化后的原始数据还原为重复规则
+ * 
+ * @param raw - 原始数据
+ * @returns 重复规则，频率无效时返回undefined
+ */
+function reviveRecurrence(raw: unknown): RecurrenceRule | undefined {
+  if (!isPlainObject(raw) || !isRecurrenceFrequency(raw.frequency)) {
+    return undefined
+  }
+  
+  const rule: RecurrenceRule = { frequency: raw.frequency }
+  
+  if (typeof raw.interval === 'number') {
+    rule.interval = raw.interval
+  }
+  
+  if (Array.isArray(raw.weekdays)) {
+    rule.weekdays = raw.weekdays.filter((day): day is number => typeof day === 'number')
+  }
+  
+  if (typeof raw.monthDay === 'number') {
+    rule.monthDay = raw.monthDay
+  }
+  
+  if (raw.until) {
+    rule.until = reviveDate(raw.until)
+  }
+  
+  return rule
+}
+
+/**
+ * 将反序列化后的原始数据还原为Todo对象
+ * 
+ * JSON中的日期以字符串形式存储，这里统一转换回Date对象；
+ * 可选的日期字段只有在存在时才会被转换。
+ * 旧版本数据中缺失的优先级会补充为 'none'，缺失的标签补充为空数组，
+ * 缺失的列表ID补充为默认列表；插件增加的其他字段原样保留
+ * 
+ * @param raw - 从存储或导入文件中读取的原始数据
+ * @returns 还原后的Todo对象
+ */
+export function reviveTodo(raw: unknown): Todo {
+  const record = isPlainObject(raw) ? raw : {}
+  const {
+    dueDate,
+    startDate,
+    parentId,
+    order,
+    recurrence,
+    ...rest
+  } = record
+  
+  const todo: Todo = {
+    ...rest,
+    id: String(record.id),
+    title: typeof record.title === 'string' ? record.title : '',
+    completed: record.completed === true,
+    priority: isValidPriority(record.priority) ? record.priority : 'none',
+    tags: Array.isArray(record.tags) ? record.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    projectId: typeof record.projectId === 'string' && record.projectId ? record.projectId : DEFAULT_PROJECT.ID,
+    createdAt: reviveDate(record.createdAt),
+    updatedAt: reviveDate(record.updatedAt)
+  }
+  
+  if (dueDate) {
+    todo.dueDate = reviveDate(dueDate)
+  }
+  
+  if (startDate) {
+    todo.startDate = reviveDate(startDate)
+  }
+  
+  if (typeof parentId === 'string' && parentId.length > 0) {
+    todo.parentId = parentId
+  }
+  
+  if (typeof order === 'number' && Number.isFinite(order)) {
+    todo.order = order
+  }
+  
+  const rule = reviveRecurrence(recurrence)
+  if (rule) {
+    todo.recurrence = rule
+  }
+  
+  return todo
+}
+
+/**
+ * 将反序列化后的原始数据还原为回收站中的待办事项
+ * 
+ * @param raw - 从存储或同步消息中读取的原始数据
+ * @returns 还原后的回收站项
+ */
+export function reviveTrashedTodo(raw: unknown): TrashedTodo {
+  return {
+    ...reviveTodo(raw),
+    deletedAt: reviveDate(isPlainObject(raw) ? raw.deletedAt : undefined)
+  }
+}
+
+/**
+ * 将反序列化后的原始数据还原为已归档的待办事项
+ * 
+ * @param raw - 从存储或同步消息中读取的原始数据
+ * @returns 还原后的归档项
+ */
+export function reviveArchivedTodo(raw: unknown): ArchivedTodo {
+  return {
+    ...reviveTodo(raw),
+    archivedAt: reviveDate(isPlainObject(raw) ? raw.archivedAt : undefined)
+  }
+}
+
 /**
  * 应用设置接口
  */
@@ -72,13 +228,138 @@ const DEFAULT_SETTINGS: AppSettings = {
   lastAccessTime: new Date().toISOString()
 }
 
+// ===== 版本化读写 =====
+
+/**
+ * 以当前版本号保存数据
+ * 
+ * @param key - 存储键名
+ * @param data - 要保存的数据
+ * @returns 存储操作结果，data为未包装的原始数据
+ */
+async function writeVersioned<T>(key: string, data: T): Promise<StorageResult<T>> {
+  const result = await writeStorageItem(key, wrapVersioned(data))
+  return {
+    ...result,
+    data: result.success ? data : undefined
+  }
+}
+
+/**
+ * 读取数据并升级到当前版本
+ * 
+ * 旧版本数据会先备份到 getBackupKey() 对应的键，迁移成功后以新版本写回；
+ * 数据损坏或迁移失败时返回 STORAGE_DATA_CORRUPTED 和恢复选项，存储中的数据保持不变
+ * 
+ * @param key - 存储键名
+ * @param defaultValue - 默认值（当键不存在时返回）
+ * @returns 存储操作结果
+ */
+async function readVersioned<T>(key: string, defaultValue: T): Promise<StorageResult<T>> {
+  const result = await readStorageItem<unknown>(key)
+  
+  if (!result.success) {
+    return {
+      ...result,
+      data: undefined,
+      recoveryOptions: result.code === ErrorCode.STORAGE_DATA_CORRUPTED
+        ? getRecoveryOptions()
+        : undefined
+    }
+  }
+  
+  if (result.data === undefined) {
+    return { ...result, data: defaultValue }
+  }
+  
+  let backupKey: string | undefined
+  
+  try {
+    // 迁移前备份原始数据
+    const fromVersion = readSchemaVersion(result.data)
+    if (fromVersion < getCurrentSchemaVersion()) {
+      backupKey = getBackupKey(key, fromVersion)
+      const backupResult = await writeStorageItem(backupKey, result.data)
+      if (!backupResult.success) {
+        throw new TodoError(
+          `备份旧版本数据失败: ${backupResult.error}`,
+          ErrorCode.STORAGE_ERROR,
+          { key, backupKey }
+        )
+      }
+    }
+    
+    const migration = migratePayload<T>(key, result.data)
+    
+    if (migration.migrated) {
+      await writeVersioned(key, migration.data)
+      console.log(`🔄 ${key} 已从版本 ${migration.fromVersion} 迁移到版本 ${migration.toVersion}`)
+    }
+    
+    return { ...result, data: migration.data }
+  } catch (error) {
+    const todoError = error instanceof TodoError
+      ? error
+      : new TodoError('数据迁移时发生未知错误', ErrorCode.STORAGE_DATA_CORRUPTED, { key })
+    
+    console.error('❌ 数据迁移失败:', todoError.message)
+    
+    return {
+      success: false,
+      error: todoError.message,
+      code: todoError.code,
+      recoveryOptions: todoError.code === ErrorCode.STORAGE_DATA_CORRUPTED
+        ? getRecoveryOptions(backupKey)
+        : undefined,
+      key,
+      operation: 'get',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 获取数据损坏时附加到结果中的错误代码和恢复选项
+ * 
+ * @param error - 捕获到的错误
+ * @returns 错误代码和恢复选项，不是数据损坏时为空对象
+ */
+function getCorruptionDetails(error: unknown): Pick<StorageResult, 'code' | 'recoveryOptions'> {
+  if (error instanceof TodoError && error.code === ErrorCode.STORAGE_DATA_CORRUPTED) {
+    return {
+      code: error.code,
+      recoveryOptions: getRecoveryOptions()
+    }
+  }
+  
+  return {}
+}
+
+/**
+ * 删除无法读取的数据
+ * 
+ * 用于 'reset' 恢复方式；迁移前的备份不会被删除
+ * 
+ * @param key - 存储键名
+ * @returns 存储操作结果
+ */
+export async function resetStoredData(key: string): Promise<StorageResult<null>> {
+  const result = await deleteStorageItem(key)
+  
+  if (result.success) {
+    console.log(`🗑️ 已清除无法读取的数据: ${key}`)
+  }
+  
+  return result
+}
+
 /**
  * 保存Todo列表到本地存储
  * 
  * @param todos - 要保存的Todo列表
  * @returns 存储操作结果
  */
-export function saveTodos(todos: Todo[]): StorageResult<Todo[]> {
+export async function saveTodos(todos: Todo[]): Promise<StorageResult<Todo[]>> {
   try {
     // 验证数据
     if (!Array.isArray(todos)) {
@@ -100,8 +381,8 @@ export function saveTodos(todos: Todo[]): StorageResult<Todo[]> {
       }
     }
     
-    // 保存到localStorage
-    const result = setStorageItem(STORAGE_KEYS.TODOS, todos)
+    // 通过存储适配器保存
+    const result = await writeVersioned(STORAGE_KEYS.TODOS, todos)
     
     if (result.success) {
       console.log(`✅ 成功保存 ${todos.length} 个待办事项`)
@@ -130,9 +411,9 @@ export function saveTodos(todos: Todo[]): StorageResult<Todo[]> {
  * 
  * @returns 存储操作结果，包含Todo列表
  */
-export function loadTodos(): StorageResult<Todo[]> {
+export async function loadTodos(): Promise<StorageResult<Todo[]>> {
   try {
-    const result = getStorageItem<Todo[]>(STORAGE_KEYS.TODOS, [])
+    const result = await readVersioned<Todo[]>(STORAGE_KEYS.TODOS, [])
     
     if (result.success && result.data) {
       // 验证加载的数据
@@ -145,11 +426,7 @@ export function loadTodos(): StorageResult<Todo[]> {
       }
       
       // 转换日期字符串为Date对象
-      const todos = result.data.map(todo => ({
-        ...todo,
-        createdAt: new Date(todo.createdAt),
-        updatedAt: new Date(todo.updatedAt)
-      }))
+      const todos = result.data.map(reviveTodo)
       
       console.log(`✅ 成功加载 ${todos.length} 个待办事项`)
       
@@ -170,6 +447,7 @@ export function loadTodos(): StorageResult<Todo[]> {
     return {
       success: false,
       error: errorMessage,
+      ...getCorruptionDetails(error),
       key: STORAGE_KEYS.TODOS,
       operation: 'get',
       timestamp: new Date()
@@ -183,19 +461,18 @@ export function loadTodos(): StorageResult<Todo[]> {
  * @param filter - 当前的过滤器状态
  * @returns 存储操作结果
  */
-export function saveFilter(filter: FilterType): StorageResult<FilterType> {
+export async function saveFilter(filter: FilterType): Promise<StorageResult<FilterType>> {
   try {
     // 验证过滤器值
-    const validFilters: FilterType[] = ['all', 'active', 'completed']
-    if (!validFilters.includes(filter)) {
+    if (!isValidFilter(filter)) {
       throw new TodoError(
         '无效的过滤器类型',
         ErrorCode.VALIDATION_ERROR,
-        { filter, validFilters }
+        { filter, validFilters: VALID_FILTERS }
       )
     }
     
-    const result = setStorageItem(STORAGE_KEYS.FILTER, filter)
+    const result = await writeVersioned(STORAGE_KEYS.FILTER, filter)
     
     if (result.success) {
       console.log(`✅ 成功保存过滤器状态: ${filter}`)
@@ -224,14 +501,13 @@ export function saveFilter(filter: FilterType): StorageResult<FilterType> {
  * 
  * @returns 存储操作结果，包含过滤器状态
  */
-export function loadFilter(): StorageResult<FilterType> {
+export async function loadFilter(): Promise<StorageResult<FilterType>> {
   try {
-    const result = getStorageItem<FilterType>(STORAGE_KEYS.FILTER, 'all')
+    const result = await readVersioned<FilterType>(STORAGE_KEYS.FILTER, 'all')
     
     if (result.success && result.data) {
       // 验证过滤器值
-      const validFilters: FilterType[] = ['all', 'active', 'completed']
-      if (!validFilters.includes(result.data)) {
+      if (!isValidFilter(result.data)) {
         console.warn('⚠️ 存储的过滤器状态无效，使用默认值')
         return {
           ...result,
@@ -260,16 +536,438 @@ export function loadFilter(): StorageResult<FilterType> {
   }
 }
 
+/**
+ * 保存标签库到本地存储
+ * 
+ * @param tags - 要保存的标签列表
+ * @returns 存储操作结果
+ */
+export async function saveTags(tags: Tag[]): Promise<StorageResult<Tag[]>> {
+  try {
+    // 验证数据
+    if (!Array.isArray(tags)) {
+      throw new TodoError(
+        '标签列表必须是数组类型',
+        ErrorCode.VALIDATION_ERROR,
+        { tags }
+      )
+    }
+    
+    for (const tag of tags) {
+      if (!tag.name || typeof tag.name !== 'string' || typeof tag.color !== 'string') {
+        throw new TodoError(
+          '标签数据格式不正确',
+          ErrorCode.VALIDATION_ERROR,
+          { tag }
+        )
+      }
+    }
+    
+    const result = await writeVersioned(STORAGE_KEYS.TAGS, tags)
+    
+    if (result.success) {
+      console.log(`✅ 成功保存 ${tags.length} 个标签`)
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '保存标签时发生未知错误'
+    
+    console.error('❌ 保存标签失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      key: STORAGE_KEYS.TAGS,
+      operation: 'set',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 从本地存储加载标签库
+ * 
+ * @returns 存储操作结果，包含标签列表
+ */
+export async function loadTags(): Promise<StorageResult<Tag[]>> {
+  try {
+    const result = await readVersioned<Tag[]>(STORAGE_KEYS.TAGS, [])
+    
+    if (result.success && result.data) {
+      if (!Array.isArray(result.data)) {
+        throw new TodoError(
+          '存储的标签数据格式不正确',
+          ErrorCode.STORAGE_DATA_CORRUPTED,
+          { data: result.data }
+        )
+      }
+      
+      // 转换日期字符串为Date对象
+      const tags = result.data.map(tag => ({
+        ...tag,
+        createdAt: new Date(tag.createdAt)
+      }))
+      
+      console.log(`✅ 成功加载 ${tags.length} 个标签`)
+      
+      return {
+        ...result,
+        data: tags
+      }
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '加载标签时发生未知错误'
+    
+    console.error('❌ 加载标签失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      ...getCorruptionDetails(error),
+      key: STORAGE_KEYS.TAGS,
+      operation: 'get',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 保存列表数据到本地存储
+ * 
+ * @param data - 列表及当前选中的列表ID
+ * @returns 存储操作结果
+ */
+export async function saveProjects(data: ProjectsData): Promise<StorageResult<ProjectsData>> {
+  try {
+    // 验证数据
+    if (!Array.isArray(data.projects)) {
+      throw new TodoError(
+        '列表数据必须是数组类型',
+        ErrorCode.VALIDATION_ERROR,
+        { data }
+      )
+    }
+    
+    for (const project of data.projects) {
+      if (!project.id || typeof project.name !== 'string') {
+        throw new TodoError(
+          '列表数据格式不正确',
+          ErrorCode.VALIDATION_ERROR,
+          { project }
+        )
+      }
+    }
+    
+    const result = await writeVersioned(STORAGE_KEYS.PROJECTS, data)
+    
+    if (result.success) {
+      console.log(`✅ 成功保存 ${data.projects.length} 个列表`)
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '保存列表时发生未知错误'
+    
+    console.error('❌ 保存列表失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      key: STORAGE_KEYS.PROJECTS,
+      operation: 'set',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 从本地存储加载列表数据
+ * 
+ * 旧版本没有列表数据，此时返回的data为null，由调用方迁移到默认列表
+ * 
+ * @returns 存储操作结果，包含列表数据
+ */
+export async function loadProjects(): Promise<StorageResult<ProjectsData | null>> {
+  try {
+    const result = await readVersioned<ProjectsData | null>(STORAGE_KEYS.PROJECTS, null)
+    
+    if (result.success && result.data) {
+      if (!Array.isArray(result.data.projects)) {
+        throw new TodoError(
+          '存储的列表数据格式不正确',
+          ErrorCode.STORAGE_DATA_CORRUPTED,
+          { data: result.data }
+        )
+      }
+      
+      // 转换日期字符串为Date对象
+      const projects = result.data.projects.map(project => ({
+        ...project,
+        archived: Boolean(project.archived),
+        createdAt: new Date(project.createdAt),
+        updatedAt: new Date(project.updatedAt)
+      }))
+      
+      console.log(`✅ 成功加载 ${projects.length} 个列表`)
+      
+      return {
+        ...result,
+        data: {
+          projects,
+          currentProjectId: result.data.currentProjectId
+        }
+      }
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '加载列表时发生未知错误'
+    
+    console.error('❌ 加载列表失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      ...getCorruptionDetails(error),
+      key: STORAGE_KEYS.PROJECTS,
+      operation: 'get',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 保存回收站到本地存储
+ * 
+ * @param data - 回收站中的待办事项及保留天数
+ * @returns 存储操作结果
+ */
+export async function saveTrash(data: TrashData): Promise<StorageResult<TrashData>> {
+  try {
+    // 验证数据
+    if (!Array.isArray(data.items)) {
+      throw new TodoError(
+        '回收站数据必须是数组类型',
+        ErrorCode.VALIDATION_ERROR,
+        { data }
+      )
+    }
+    
+    for (const item of data.items) {
+      if (!item.id || typeof item.title !== 'string' || !(item.deletedAt instanceof Date)) {
+        throw new TodoError(
+          '回收站数据格式不正确',
+          ErrorCode.VALIDATION_ERROR,
+          { item }
+        )
+      }
+    }
+    
+    const result = await writeVersioned(STORAGE_KEYS.TRASH, data)
+    
+    if (result.success) {
+      console.log(`✅ 成功保存 ${data.items.length} 个回收站项`)
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '保存回收站时发生未知错误'
+    
+    console.error('❌ 保存回收站失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      key: STORAGE_KEYS.TRASH,
+      operation: 'set',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 从本地存储加载回收站
+ * 
+ * 还没有回收站数据时返回的data为null；缺少保留天数时使用默认值
+ * 
+ * @returns 存储操作结果，包含回收站数据
+ */
+export async function loadTrash(): Promise<StorageResult<TrashData | null>> {
+  try {
+    const result = await readVersioned<TrashData | null>(STORAGE_KEYS.TRASH, null)
+    
+    if (result.success && result.data) {
+      if (!Array.isArray(result.data.items)) {
+        throw new TodoError(
+          '存储的回收站数据格式不正确',
+          ErrorCode.STORAGE_DATA_CORRUPTED,
+          { data: result.data }
+        )
+      }
+      
+      // 转换日期字符串为Date对象
+      const items = result.data.items.map(reviveTrashedTodo)
+      const retentionDays = Number.isInteger(result.data.retentionDays)
+        ? result.data.retentionDays
+        : TRASH_CONFIG.DEFAULT_RETENTION_DAYS
+      
+      console.log(`✅ 成功加载 ${items.length} 个回收站项`)
+      
+      return {
+        ...result,
+        data: { items, retentionDays }
+      }
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '加载回收站时发生未知错误'
+    
+    console.error('❌ 加载回收站失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      ...getCorruptionDetails(error),
+      key: STORAGE_KEYS.TRASH,
+      operation: 'get',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 保存已归档的待办事项到本地存储
+ * 
+ * 归档与待办事项列表分开保存，读写待办事项时不需要处理归档数据
+ * 
+ * @param items - 已归档的待办事项
+ * @returns 存储操作结果
+ */
+export async function saveArchive(items: ArchivedTodo[]): Promise<StorageResult<ArchivedTodo[]>> {
+  try {
+    // 验证数据
+    if (!Array.isArray(items)) {
+      throw new TodoError(
+        '归档数据必须是数组类型',
+        ErrorCode.VALIDATION_ERROR,
+        { items }
+      )
+    }
+    
+    for (const item of items) {
+      if (!item.id || typeof item.title !== 'string' || !(item.archivedAt instanceof Date)) {
+        throw new TodoError(
+          '归档数据格式不正确',
+          ErrorCode.VALIDATION_ERROR,
+          { item }
+        )
+      }
+    }
+    
+    const result = await writeVersioned(STORAGE_KEYS.ARCHIVE, items)
+    
+    if (result.success) {
+      console.log(`✅ 成功保存 ${items.length} 个归档项`)
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '保存归档时发生未知错误'
+    
+    console.error('❌ 保存归档失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      key: STORAGE_KEYS.ARCHIVE,
+      operation: 'set',
+      timestamp: new Date()
+    }
+  }
+}
+
+/**
+ * 从本地存储加载已归档的待办事项
+ * 
+ * @returns 存储操作结果，包含归档项
+ */
+export async function loadArchive(): Promise<StorageResult<ArchivedTodo[]>> {
+  try {
+    const result = await readVersioned<ArchivedTodo[]>(STORAGE_KEYS.ARCHIVE, [])
+    
+    if (result.success && result.data) {
+      if (!Array.isArray(result.data)) {
+        throw new TodoError(
+          '存储的归档数据格式不正确',
+          ErrorCode.STORAGE_DATA_CORRUPTED,
+          { data: result.data }
+        )
+      }
+      
+      // 转换日期字符串为Date对象
+      const items = result.data.map(reviveArchivedTodo)
+      
+      console.log(`✅ 成功加载 ${items.length} 个归档项`)
+      
+      return {
+        ...result,
+        data: items
+      }
+    }
+    
+    return result
+  } catch (error) {
+    const errorMessage = error instanceof TodoError 
+      ? error.message 
+      : '加载归档时发生未知错误'
+    
+    console.error('❌ 加载归档失败:', errorMessage)
+    
+    return {
+      success: false,
+      error: errorMessage,
+      ...getCorruptionDetails(error),
+      key: STORAGE_KEYS.ARCHIVE,
+      operation: 'get',
+      timestamp: new Date()
+    }
+  }
+}
+
 /**
  * 保存应用设置到本地存储
  * 
  * @param settings - 应用设置
  * @returns 存储操作结果
  */
-export function saveSettings(settings: Partial<AppSettings>): StorageResult<AppSettings> {
+export async function saveSettings(settings: Partial<AppSettings>): Promise<StorageResult<AppSettings>> {
   try {
     // 加载现有设置
-    const currentResult = getStorageItem<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS)
+    const currentResult = await readVersioned<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS)
+    
+    // 已有设置无法读取时不覆盖，避免丢失数据
+    if (!currentResult.success && currentResult.code === ErrorCode.STORAGE_DATA_CORRUPTED) {
+      return currentResult
+    }
+    
     const currentSettings = currentResult.success ? currentResult.data! : DEFAULT_SETTINGS
     
     // 合并设置
@@ -279,7 +977,7 @@ export function saveSettings(settings: Partial<AppSettings>): StorageResult<AppS
       lastAccessTime: new Date().toISOString()
     }
     
-    const result = setStorageItem(STORAGE_KEYS.SETTINGS, newSettings)
+    const result = await writeVersioned(STORAGE_KEYS.SETTINGS, newSettings)
     
     if (result.success) {
       console.log('✅ 成功保存应用设置')
@@ -308,9 +1006,9 @@ export function saveSettings(settings: Partial<AppSettings>): StorageResult<AppS
  * 
  * @returns 存储操作结果，包含应用设置
  */
-export function loadSettings(): StorageResult<AppSettings> {
+export async function loadSettings(): Promise<StorageResult<AppSettings>> {
   try {
-    const result = getStorageItem<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS)
+    const result = await readVersioned<AppSettings>(STORAGE_KEYS.SETTINGS, DEFAULT_SETTINGS)
     
     if (result.success) {
       console.log('✅ 成功加载应用设置')
@@ -341,30 +1039,30 @@ export function loadSettings(): StorageResult<AppSettings> {
  * 
  * @returns 完整的应用状态
  */
-export function loadAppState(): {
+export async function loadAppState(): Promise<{
   todos: Todo[]
   filter: FilterType
   settings: AppSettings
   errors: string[]
-} {
+}> {
   const errors: string[] = []
   
   // 加载Todo列表
-  const todosResult = loadTodos()
+  const todosResult = await loadTodos()
   const todos = todosResult.success ? todosResult.data! : []
   if (!todosResult.success) {
     errors.push(`加载Todo列表失败: ${todosResult.error}`)
   }
   
   // 加载过滤器状态
-  const filterResult = loadFilter()
+  const filterResult = await loadFilter()
   const filter = filterResult.success ? filterResult.data! : 'all'
   if (!filterResult.success) {
     errors.push(`加载过滤器状态失败: ${filterResult.error}`)
   }
   
   // 加载应用设置
-  const settingsResult = loadSettings()
+  const settingsResult = await loadSettings()
   const settings = settingsResult.success ? settingsResult.data! : DEFAULT_SETTINGS
   if (!settingsResult.success) {
     errors.push(`加载应用设置失败: ${settingsResult.error}`)
@@ -392,31 +1090,31 @@ export function loadAppState(): {
  * @param state - 应用状态
  * @returns 保存操作的结果
  */
-export function saveAppState(state: {
+export async function saveAppState(state: {
   todos: Todo[]
   filter: FilterType
   settings?: Partial<AppSettings>
-}): {
+}): Promise<{
   success: boolean
   errors: string[]
-} {
+}> {
   const errors: string[] = []
   
   // 保存Todo列表
-  const todosResult = saveTodos(state.todos)
+  const todosResult = await saveTodos(state.todos)
   if (!todosResult.success) {
     errors.push(`保存Todo列表失败: ${todosResult.error}`)
   }
   
   // 保存过滤器状态
-  const filterResult = saveFilter(state.filter)
+  const filterResult = await saveFilter(state.filter)
   if (!filterResult.success) {
     errors.push(`保存过滤器状态失败: ${filterResult.error}`)
   }
   
   // 保存应用设置
   if (state.settings) {
-    const settingsResult = saveSettings(state.settings)
+    const settingsResult = await saveSettings(state.settings)
     if (!settingsResult.success) {
       errors.push(`保存应用设置失败: ${settingsResult.error}`)
     }
@@ -442,30 +1140,54 @@ export function saveAppState(state: {
  * 
  * @returns 清除操作的结果
  */
-export function clearAppData(): {
+export async function clearAppData(): Promise<{
   success: boolean
   errors: string[]
-} {
+}> {
   const errors: string[] = []
   
   // 删除Todo列表
-  const todosResult = removeStorageItem(STORAGE_KEYS.TODOS)
+  const todosResult = await deleteStorageItem(STORAGE_KEYS.TODOS)
   if (!todosResult.success) {
     errors.push(`删除Todo列表失败: ${todosResult.error}`)
   }
   
   // 删除过滤器状态
-  const filterResult = removeStorageItem(STORAGE_KEYS.FILTER)
+  const filterResult = await deleteStorageItem(STORAGE_KEYS.FILTER)
   if (!filterResult.success) {
     errors.push(`删除过滤器状态失败: ${filterResult.error}`)
   }
   
   // 删除应用设置
-  const settingsResult = removeStorageItem(STORAGE_KEYS.SETTINGS)
+  const settingsResult = await deleteStorageItem(STORAGE_KEYS.SETTINGS)
   if (!settingsResult.success) {
     errors.push(`删除应用设置失败: ${settingsResult.error}`)
   }
   
+  // 删除标签库
+  const tagsResult = await deleteStorageItem(STORAGE_KEYS.TAGS)
+  if (!tagsResult.success) {
+    errors.push(`删除标签库失败: ${tagsResult.error}`)
+  }
+  
+  // 删除列表数据
+  const projectsResult = await deleteStorageItem(STORAGE_KEYS.PROJECTS)
+  if (!projectsResult.success) {
+    errors.push(`删除列表数据失败: ${projectsResult.error}`)
+  }
+  
+  // 删除回收站
+  const trashResult = await deleteStorageItem(STORAGE_KEYS.TRASH)
+  if (!trashResult.success) {
+    errors.push(`删除回收站失败: ${trashResult.error}`)
+  }
+  
+  // 删除归档
+  const archiveResult = await deleteStorageItem(STORAGE_KEYS.ARCHIVE)
+  if (!archiveResult.success) {
+    errors.push(`删除归档失败: ${archiveResult.error}`)
+  }
+  
   const success = errors.length === 0
   
   console.log('🗑️ 应用数据清除完成:', {
@@ -482,38 +1204,66 @@ export function clearAppData(): {
 /**
  * 检查存储健康状态
  * 
- * 检查localStorage的可用性和数据完整性
+ * 检查当前存储适配器的可用性、数据完整性和空间使用情况。
+ * 无法获取总容量时（如IndexedDB所在环境不支持配额查询），total为null，percentage为0；
+ * 回收站和归档单独检查和计数，其中的待办事项不计入 counts.todos
  * 
  * @returns 健康检查结果
  */
-export function checkStorageHealth(): {
+export async function checkStorageHealth(): Promise<{
+  backend: StorageAdapterType
   available: boolean
   dataIntegrity: boolean
+  counts: {
+    todos: number
+    trashed: number
+    archived: number
+  }
   usage: {
     used: number
-    total: number
+    total: number | null
     percentage: number
   }
   issues: string[]
-} {
+}> {
   const issues: string[] = []
+  const adapter = getStorageAdapter()
   
-  // 检查localStorage可用性
-  const available = isStorageAvailable()
+  // 检查存储可用性
+  const available = await adapter.isAvailable()
   if (!available) {
-    issues.push('localStorage不可用')
+    issues.push(`${adapter.type}不可用`)
   }
   
   // 检查数据完整性
   let dataIntegrity = true
+  const counts = { todos: 0, trashed: 0, archived: 0 }
   if (available) {
-    const todosResult = loadTodos()
-    const filterResult = loadFilter()
-    const settingsResult = loadSettings()
+    const todosResult = await loadTodos()
+    const filterResult = await loadFilter()
+    const settingsResult = await loadSettings()
+    const trashResult = await loadTrash()
+    const archiveResult = await loadArchive()
     
     if (!todosResult.success) {
       dataIntegrity = false
       issues.push('Todo数据损坏')
+    } else {
+      counts.todos = todosResult.data?.length ?? 0
+    }
+    
+    if (!trashResult.success) {
+      dataIntegrity = false
+      issues.push('回收站数据损坏')
+    } else {
+      counts.trashed = trashResult.data?.items.length ?? 0
+    }
+    
+    if (!archiveResult.success) {
+      dataIntegrity = false
+      issues.push('归档数据损坏')
+    } else {
+      counts.archived = archiveResult.data?.length ?? 0
     }
     
     if (!filterResult.success) {
@@ -528,7 +1278,7 @@ export function checkStorageHealth(): {
   }
   
   // 获取存储使用情况
-  const usage = {
+  const usage: { used: number; total: number | null; percentage: number } = {
     used: 0,
     total: 0,
     percentage: 0
@@ -536,27 +1286,21 @@ export function checkStorageHealth(): {
   
   if (available) {
     try {
-      let used = 0
-      for (const key of Object.values(STORAGE_KEYS)) {
-        const item = localStorage.getItem(key)
-        if (item) {
-          used += item.length + key.length
-        }
-      }
-      
-      const total = 5 * 1024 * 1024 // 5MB
+      const { used, total } = await adapter.estimate()
       usage.used = used
       usage.total = total
-      usage.percentage = Math.round((used / total) * 10000) / 100
+      usage.percentage = total ? Math.round((used / total) * 10000) / 100 : 0
     } catch (error) {
       issues.push('无法获取存储使用情况')
     }
   }
   
   return {
+    backend: adapter.type,
     available,
     dataIntegrity,
+    counts,
     usage,
     issues
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,388 @@
+// 【知识点】工具函数 todoTable.ts
+// - 待办事项与表格（行/列）之间的转换
+// - 字段映射、类型转换与逐行错误报告
+// - 供 CSV、XLSX 等表格格式共用
+/**
+ * 待办事项表格转换
+ *
+ * 这个文件提供了表格类导入导出格式共用的逻辑，包括：
+ * 1. 根据字段映射确定导出的列
+ * 2. 将待办事项转换为单元格
+ * 3. 将单元格解析为待办事项，并按错误处理策略生成逐行的错误报告
+ */
+
+import type { Todo } from '@/types/todo'
+import type { ExportConfig, ImportConfig, ImportResult, ImportRowError } from '@/types/utils'
+import { DEFAULT_PROJECT } from '@/types'
+import { ErrorCode, TodoError } from '@/types/error'
+import { generateId } from './todoStorage'
+import { isValidPriority } from './sort'
+import { normalizeTagList } from './tags'
+import { validateTitle, validateAsync, toTodoError } from './validation'
+
+/**
+ * 可以导入导出的待办事项字段，也是默认的列顺序
+ */
+export const TODO_TABLE_FIELDS = [
+  'id',
+  'title',
+  'completed',
+  'priority',
+  'tags',
+  'projectId',
+  'parentId',
+  'dueDate',
+  'startDate',
+  'createdAt',
+  'updatedAt'
+] as const
+
+/**
+ * 表格字段
+ */
+export type TodoTableField = typeof TODO_TABLE_FIELDS[number]
+
+/**
+ * 从一行中解析出的字段值
+ */
+type TodoTableValues = Partial<Pick<Todo, TodoTableField>>
+
+/**
+ * 日期类型的字段
+ */
+export const TODO_DATE_FIELDS: TodoTableField[] = ['dueDate', 'startDate', 'createdAt', 'updatedAt']
+
+/**
+ * 多个标签之间的分隔符
+ */
+export const TAG_SEPARATOR = ';'
+
+/**
+ * 单元格的值：CSV 中都是字符串，XLSX 中可以是日期、数字或布尔值
+ */
+export type TableCell = string | number | boolean | Date | null
+
+/**
+ * 表格的一列
+ */
+export interface TableColumn {
+  /** 对应的待办事项字段 */
+  field: TodoTableField
+  /** 列名 */
+  header: string
+}
+
+/**
+ * 表示"已完成"的文本
+ */
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'x', '是', '已完成']
+
+/**
+ * 表示"未完成"的文本
+ */
+const FALSE_VALUES = ['false', '0', 'no', 'n', '', '否', '未完成']
+
+/**
+ * 判断是否为表格字段
+ * @param field - 字段名
+ * @returns 是否为表格字段
+ */
+function isTableField(field: string): field is TodoTableField {
+  return (TODO_TABLE_FIELDS as readonly string[]).includes(field)
+}
+
+/**
+ * 根据字段映射确定表格的列
+ *
+ * @param fieldMapping - 字段映射：待办事项字段名 -> 列名
+ * @returns 列，没有映射时为所有字段并以字段名作为列名
+ */
+export function resolveColumns(fieldMapping?: Record<string, string>): TableColumn[] {
+  if (!fieldMapping || Object.keys(fieldMapping).length === 0) {
+    return TODO_TABLE_FIELDS.map(field => ({ field, header: field }))
+  }
+
+  return Object.entries(fieldMapping).map(([field, header]) => {
+    if (!isTableField(field)) {
+      throw new TodoError(
+        `未知的字段: ${field}`,
+        ErrorCode.VALIDATION_ERROR,
+        { field, validFields: TODO_TABLE_FIELDS }
+      )
+    }
+    return { field, header }
+  })
+}
+
+// ===== 导出 =====
+
+/**
+ * 读取待办事项某个字段的单元格值
+ * @param todo - 待办事项
+ * @param field - 字段
+ * @returns 单元格的值
+ */
+function toCell(todo: Todo, field: TodoTableField): TableCell {
+  switch (field) {
+    case 'completed':
+      return todo.completed
+    case 'tags':
+      return todo.tags.join(TAG_SEPARATOR)
+    case 'dueDate':
+    case 'startDate':
+    case 'createdAt':
+    case 'updatedAt':
+      return todo[field] ? new Date(todo[field] as Date) : null
+    default:
+      return todo[field] ?? ''
+  }
+}
+
+/**
+ * 将待办事项转换为表格
+ *
+ * @param todos - 待办事项列表
+ * @param config - 导出配置
+ * @returns 表格的行，包含标题行时第一行为列名
+ */
+export function todosToTable(
+  todos: Todo[],
+  config: Omit<ExportConfig, 'format'> = {}
+): TableCell[][] {
+  const columns = resolveColumns(config.fieldMapping)
+  const items = config.filter ? todos.filter(config.filter) : todos
+  const rows: TableCell[][] = items.map(todo => columns.map(column => toCell(todo, column.field)))
+
+  if (config.includeHeaders !== false) {
+    rows.unshift(columns.map(column => column.header))
+  }
+
+  return rows
+}
+
+// ===== 导入 =====
+
+/**
+ * 将单元格转换为字符串
+ * @param cell - 单元格
+ * @returns 字符串
+ */
+function cellText(cell: TableCell | undefined): string {
+  if (cell === null || cell === undefined) return ''
+  if (cell instanceof Date) return cell.toISOString()
+  return String(cell)
+}
+
+/**
+ * 解析日期单元格
+ * @param cell - 单元格
+ * @returns 日期，空单元格返回undefined
+ */
+function parseDateCell(cell: TableCell | undefined): Date | undefined {
+  if (cell instanceof Date) {
+    if (isNaN(cell.getTime())) throw new Error('日期格式无效')
+    return new Date(cell)
+  }
+
+  const text = cellText(cell).trim()
+  if (!text) return undefined
+
+  const date = new Date(text)
+  if (isNaN(date.getTime())) {
+    throw new Error('日期格式无效')
+  }
+  return date
+}
+
+/**
+ * 解析一个字段
+ * @param field - 字段
+ * @param cell - 单元格
+ * @returns 只包含该字段的值
+ */
+function parseField(field: TodoTableField, cell: TableCell | undefined): TodoTableValues {
+  switch (field) {
+    case 'title': {
+      const title = cellText(cell).trim()
+      const titleError = toTodoError(validateTitle(title))
+      if (titleError) {
+        throw titleError
+      }
+      return { title }
+    }
+    case 'completed': {
+      if (typeof cell === 'boolean') return { completed: cell }
+      const text = cellText(cell).trim().toLowerCase()
+      if (TRUE_VALUES.includes(text)) return { completed: true }
+      if (FALSE_VALUES.includes(text)) return { completed: false }
+      throw new Error('完成状态必须是 true 或 false')
+    }
+    case 'priority': {
+      const text = cellText(cell).trim().toLowerCase()
+      if (!text) return { priority: 'none' }
+      if (!isValidPriority(text)) {
+        throw new Error('优先级无效')
+      }
+      return { priority: text }
+    }
+    case 'tags':
+      return { tags: normalizeTagList(cellText(cell).split(TAG_SEPARATOR)) }
+    case 'dueDate':
+    case 'startDate':
+    case 'createdAt':
+    case 'updatedAt':
+      return { [field]: parseDateCell(cell) }
+    default: {
+      const text = cellText(cell).trim()
+      return { [field]: text || undefined }
+    }
+  }
+}
+
+/**
+ * 根据字段值创建待办事项，缺失的字段使用默认值
+ * @param values - 解析后的字段值
+ * @returns 待办事项
+ */
+function buildTodo(values: TodoTableValues): Todo {
+  const now = new Date()
+  const todo: Todo = {
+    id: values.id ?? generateId(),
+    title: values.title ?? '',
+    completed: values.completed ?? false,
+    priority: values.priority ?? 'none',
+    tags: values.tags ?? [],
+    projectId: values.projectId ?? DEFAULT_PROJECT.ID,
+    createdAt: values.createdAt ?? now,
+    updatedAt: values.updatedAt ?? values.createdAt ?? now
+  }
+
+  if (values.parentId) todo.parentId = values.parentId
+  if (values.dueDate) todo.dueDate = values.dueDate
+  if (values.startDate) todo.startDate = values.startDate
+
+  return todo
+}
+
+/**
+ * 判断一行是否为空行
+ * @param row - 行
+ * @returns 是否所有单元格都为空
+ */
+function isEmptyRow(row: TableCell[]): boolean {
+  return row.every(cell => cellText(cell).trim() === '')
+}
+
+/**
+ * 根据标题行匹配列
+ * @param header - 标题行
+ * @param fieldMapping - 字段映射
+ * @returns 每一列对应的字段，无法识别的列为null
+ */
+function matchHeader(header: TableCell[], fieldMapping?: Record<string, string>): Array<TodoTableField | null> {
+  const byHeader = new Map<string, TodoTableField>()
+  resolveColumns(fieldMapping).forEach(column => {
+    byHeader.set(column.header.trim().toLowerCase(), column.field)
+  })
+
+  return header.map(cell => byHeader.get(cellText(cell).trim().toLowerCase()) ?? null)
+}
+
+/**
+ * 将表格解析为待办事项
+ *
+ * @param rows - 表格的行
+ * @param config - 导入配置
+ * @returns 导入结果
+ */
+export async function tableToTodos(
+  rows: TableCell[][],
+  config: Omit<ImportConfig, 'format'> = {}
+): Promise<ImportResult<Todo>> {
+  const strategy = config.errorStrategy ?? 'collect'
+  const skipHeaders = config.skipHeaders !== false
+  const data: Todo[] = []
+  const errors: ImportRowError[] = []
+  let skipped = 0
+
+  let fields: Array<TodoTableField | null>
+  try {
+    fields = skipHeaders
+      ? matchHeader(rows[0] ?? [], config.fieldMapping)
+      : resolveColumns(config.fieldMapping).map(column => column.field)
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '字段映射无效'
+    return { success: false, data: [], errors: [{ row: 1, message }], total: 0, skipped: 0 }
+  }
+
+  if (!fields.includes('title')) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 1, field: 'title', message: '缺少标题列' }],
+      total: 0,
+      skipped: 0
+    }
+  }
+
+  const start = skipHeaders ? 1 : 0
+  const dataRows = rows
+    .map((row, index) => ({ row, number: index + 1 }))
+    .slice(start)
+    .filter(item => !isEmptyRow(item.row))
+
+  for (const { row, number } of dataRows) {
+    const rowErrors: ImportRowError[] = []
+    const values: TodoTableValues = {}
+
+    for (let index = 0; index < fields.length; index++) {
+      const field = fields[index]
+      if (!field) continue
+
+      try {
+        Object.assign(values, parseField(field, row[index]))
+      } catch (error) {
+        rowErrors.push({
+          row: number,
+          field,
+          value: cellText(row[index]),
+          message: error instanceof Error ? error.message : '字段格式无效'
+        })
+        if (strategy !== 'collect') break
+      }
+    }
+
+    let todo: Todo | null = null
+    if (rowErrors.length === 0) {
+      todo = buildTodo(values)
+
+      const result = await validateAsync(todo, config.validationRules ?? [], { abortEarly: strategy !== 'collect' })
+      rowErrors.push(...result.errors.map(error => ({ row: number, field: error.field, message: error.message })))
+    }
+
+    if (rowErrors.length > 0) {
+      if (strategy === 'stop') {
+        return {
+          success: false,
+          data: [],
+          errors: [rowErrors[0]],
+          total: dataRows.length,
+          skipped: dataRows.length
+        }
+      }
+
+      errors.push(...(strategy === 'skip' ? [rowErrors[0]] : rowErrors))
+      skipped++
+    } else if (todo) {
+      data.push(todo)
+    }
+  }
+
+  return {
+    success: strategy === 'skip' || errors.length === 0,
+    data,
+    errors,
+    total: dataRows.length,
+    skipped
+  }
+}
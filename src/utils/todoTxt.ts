@@ -0,0 +1,361 @@
+// 【知识点】工具函数 todoTxt.ts
+// - todo.txt 纯文本格式（https://github.com/todotxt/todo.txt）
+// - 按位置解析的前缀 + 按记号解析的正文
+// - 纯函数，便于单元测试
+/**
+ * todo.txt 导入导出
+ *
+ * 这个文件提供了 todo.txt 格式的解析、生成以及与 Todo 之间的转换，包括：
+ * 1. 完成标记 x、优先级 (A)、完成日期和创建日期
+ * 2. +项目、@情境 和 key:value 扩展
+ * 3. 未识别的扩展保存在 Todo.extensions 中，导出时原样写回
+ *
+ * 与 Todo 的对应关系：
+ * - (A)/(B)/(C)/(D) 对应 紧急/高/中/低，(E)~(Z) 导入为低并保留原字母；
+ *   已完成任务的优先级按惯例写为 pri:A
+ * - 创建日期对应 createdAt，已完成任务的完成日期对应 updatedAt
+ * - due:YYYY-MM-DD 对应截止日期，t:YYYY-MM-DD 对应开始日期
+ * - 第一个能匹配到列表名称的 +项目 决定所属列表，其余 +项目 作为以 + 开头的标签
+ * - @情境 作为标签
+ */
+
+import type { Todo, TodoPriority, Project } from '@/types/todo'
+import type { ImportResult, ImportRowError } from '@/types/utils'
+import { DEFAULT_PROJECT } from '@/types'
+import { generateId } from './todoStorage'
+import { normalizeTagList } from './tags'
+import { toDateInputValue, parseDateInputValue } from './dueDate'
+import { validateTitle, toTodoError } from './validation'
+
+/**
+ * 解析后的一行 todo.txt 任务
+ */
+export interface TodoTxtTask {
+  /** 是否已完成 */
+  completed: boolean
+  /** 优先级字母 A~Z */
+  priority: string | null
+  /** 完成日期 YYYY-MM-DD */
+  completionDate: string | null
+  /** 创建日期 YYYY-MM-DD */
+  creationDate: string | null
+  /** 去掉项目、情境和扩展后的描述 */
+  description: string
+  /** +项目（不含 +） */
+  projects: string[]
+  /** @情境（不含 @） */
+  contexts: string[]
+  /** key:value 扩展 */
+  extensions: Record<string, string>
+}
+
+/**
+ * todo.txt 与 Todo 转换的选项
+ */
+export interface TodoTxtOptions {
+  /** 用于匹配 +项目 的列表 */
+  projects?: Project[]
+  /** 没有匹配到列表时使用的列表ID，默认为默认列表 */
+  defaultProjectId?: string
+}
+
+/**
+ * 优先级与字母的对应关系
+ */
+const PRIORITY_TO_LETTER: Record<TodoPriority, string | null> = {
+  none: null,
+  low: 'D',
+  medium: 'C',
+  high: 'B',
+  urgent: 'A'
+}
+
+/**
+ * 字母与优先级的对应关系，(E)~(Z) 视为低
+ */
+const LETTER_TO_PRIORITY: Record<string, TodoPriority> = {
+  A: 'urgent',
+  B: 'high',
+  C: 'medium',
+  D: 'low'
+}
+
+/** 保存已完成任务优先级的扩展键名 */
+const PRIORITY_KEY = 'pri'
+/** 截止日期的扩展键名 */
+const DUE_KEY = 'due'
+/** 开始日期的扩展键名 */
+const THRESHOLD_KEY = 't'
+
+/** 日期前缀 */
+const DATE_PREFIX = /^(\d{4}-\d{2}-\d{2})(?: +|$)/
+/** key:value 扩展，排除 http://… 这类链接 */
+const EXTENSION_PATTERN = /^([^\s:]+):(?!\/\/)([^\s:]+)$/
+
+// ===== 解析与生成 =====
+
+/**
+ * 解析一行 todo.txt
+ *
+ * @param line - 一行文本
+ * @returns 解析后的任务，空行返回null
+ */
+export function parseTodoTxtLine(line: string): TodoTxtTask | null {
+  if (line.trim() === '') return null
+
+  const task: TodoTxtTask = {
+    completed: false,
+    priority: null,
+    completionDate: null,
+    creationDate: null,
+    description: '',
+    projects: [],
+    contexts: [],
+    extensions: {}
+  }
+  let rest = line.replace(/\s+$/, '')
+
+  if (rest.startsWith('x ')) {
+    task.completed = true
+    rest = rest.slice(2).trimStart()
+  } else {
+    const priority = /^\(([A-Z])\)(?: +|$)/.exec(rest)
+    if (priority) {
+      task.priority = priority[1]
+      rest = rest.slice(priority[0].length)
+    }
+  }
+
+  // 已完成任务先是完成日期再是创建日期；未完成任务只有创建日期
+  const firstDate = DATE_PREFIX.exec(rest)
+  if (firstDate) {
+    rest = rest.slice(firstDate[0].length)
+    if (task.completed) {
+      task.completionDate = firstDate[1]
+      const secondDate = DATE_PREFIX.exec(rest)
+      if (secondDate) {
+        task.creationDate = secondDate[1]
+        rest = rest.slice(secondDate[0].length)
+      }
+    } else {
+      task.creationDate = firstDate[1]
+    }
+  }
+
+  const words: string[] = []
+  rest.split(/\s+/).filter(Boolean).forEach(token => {
+    const extension = EXTENSION_PATTERN.exec(token)
+    if (token.length > 1 && token.startsWith('+')) {
+      task.projects.push(token.slice(1))
+    } else if (token.length > 1 && token.startsWith('@')) {
+      task.contexts.push(token.slice(1))
+    } else if (extension) {
+      task.extensions[extension[1]] = extension[2]
+    } else {
+      words.push(token)
+    }
+  })
+  task.description = words.join(' ')
+
+  // 已完成任务的优先级按惯例保存在 pri 扩展中
+  if (task.completed && /^[A-Z]$/.test(task.extensions[PRIORITY_KEY] ?? '')) {
+    task.priority = task.extensions[PRIORITY_KEY]
+    delete task.extensions[PRIORITY_KEY]
+  }
+
+  return task
+}
+
+/**
+ * 生成一行 todo.txt
+ *
+ * 项目、情境和扩展依次写在描述之后
+ *
+ * @param task - 任务
+ * @returns 一行文本
+ */
+export function stringifyTodoTxtLine(task: TodoTxtTask): string {
+  const parts: string[] = []
+
+  if (task.completed) {
+    parts.push('x')
+    if (task.completionDate) parts.push(task.completionDate)
+  } else if (task.priority) {
+    parts.push(`(${task.priority})`)
+  }
+
+  if (task.creationDate && (task.completionDate || !task.completed)) {
+    parts.push(task.creationDate)
+  }
+
+  if (task.description) parts.push(task.description)
+  task.projects.forEach(project => parts.push(`+${project}`))
+  task.contexts.forEach(context => parts.push(`@${context}`))
+  Object.entries(task.extensions).forEach(([key, value]) => parts.push(`${key}:${value}`))
+
+  if (task.completed && task.priority) {
+    parts.push(`${PRIORITY_KEY}:${task.priority}`)
+  }
+
+  return parts.join(' ')
+}
+
+// ===== 与 Todo 转换 =====
+
+/**
+ * 将列表名称转换为 +项目 使用的记号（空白替换为下划线）
+ * @param name - 列表名称
+ * @returns 记号
+ */
+function toToken(name: string): string {
+  return name.trim().replace(/\s+/g, '_')
+}
+
+/**
+ * 将 Todo 转换为 todo.txt 任务
+ *
+ * @param todo - 待办事项
+ * @param options - 转换选项
+ * @returns 任务
+ */
+export function todoToTodoTxtTask(todo: Todo, options: TodoTxtOptions = {}): TodoTxtTask {
+  const extensions = { ...todo.extensions }
+  let priority = PRIORITY_TO_LETTER[todo.priority] ?? null
+  if (todo.priority === 'low' && /^[E-Z]$/.test(extensions[PRIORITY_KEY] ?? '')) {
+    priority = extensions[PRIORITY_KEY]
+    delete extensions[PRIORITY_KEY]
+  }
+
+  const project = options.projects?.find(item => item.id === todo.projectId)
+  const projects = project && project.id !== DEFAULT_PROJECT.ID ? [toToken(project.name)] : []
+  const contexts: string[] = []
+  todo.tags.forEach(tag => {
+    if (tag.startsWith('+')) {
+      if (!projects.includes(tag.slice(1))) projects.push(tag.slice(1))
+    } else {
+      contexts.push(tag)
+    }
+  })
+
+  const dates: Record<string, string> = {}
+  if (todo.dueDate) dates[DUE_KEY] = toDateInputValue(todo.dueDate)
+  if (todo.startDate) dates[THRESHOLD_KEY] = toDateInputValue(todo.startDate)
+
+  return {
+    completed: todo.completed,
+    priority,
+    completionDate: todo.completed ? toDateInputValue(todo.updatedAt) : null,
+    creationDate: toDateInputValue(todo.createdAt),
+    description: todo.title.replace(/\s+/g, ' ').trim(),
+    projects,
+    contexts,
+    extensions: { ...extensions, ...dates }
+  }
+}
+
+/**
+ * 将 todo.txt 任务转换为 Todo
+ *
+ * @param task - 任务
+ * @param options - 转换选项
+ * @returns 待办事项
+ * @throws {TodoError} 描述不符合标题规则时抛出错误
+ */
+export function todoTxtTaskToTodo(task: TodoTxtTask, options: TodoTxtOptions = {}): Todo {
+  const titleError = toTodoError(validateTitle(task.description))
+  if (titleError) {
+    throw titleError
+  }
+
+  const now = new Date()
+  const extensions = { ...task.extensions }
+
+  /**
+   * 读取日期扩展，格式不正确时保留为未识别的扩展
+   * @param key - 扩展键名
+   * @returns 日期
+   */
+  const takeDate = (key: string): Date | null => {
+    const date = extensions[key] ? parseDateInputValue(extensions[key]) : null
+    if (date) delete extensions[key]
+    return date
+  }
+  const dueDate = takeDate(DUE_KEY)
+  const startDate = takeDate(THRESHOLD_KEY)
+
+  let priority: TodoPriority = 'none'
+  if (task.priority) {
+    priority = LETTER_TO_PRIORITY[task.priority] ?? 'low'
+    if (!LETTER_TO_PRIORITY[task.priority]) {
+      extensions[PRIORITY_KEY] = task.priority
+    }
+  }
+
+  const projectTokens = task.projects.map(name => name.toLowerCase())
+  const project = options.projects?.find(item => projectTokens.includes(toToken(item.name).toLowerCase()))
+  const otherProjects = task.projects.filter(name => !project || name.toLowerCase() !== toToken(project.name).toLowerCase())
+
+  const createdAt = (task.creationDate && parseDateInputValue(task.creationDate)) || now
+  const completedAt = task.completed && task.completionDate ? parseDateInputValue(task.completionDate) : null
+
+  const todo: Todo = {
+    id: generateId(),
+    title: task.description,
+    completed: task.completed,
+    priority,
+    tags: normalizeTagList([...task.contexts, ...otherProjects.map(name => `+${name}`)]),
+    projectId: project?.id ?? options.defaultProjectId ?? DEFAULT_PROJECT.ID,
+    createdAt,
+    updatedAt: completedAt ?? now
+  }
+
+  if (dueDate) todo.dueDate = dueDate
+  if (startDate) todo.startDate = startDate
+  if (Object.keys(extensions).length > 0) todo.extensions = extensions
+
+  return todo
+}
+
+/**
+ * 将待办事项导出为 todo.txt
+ *
+ * @param todos - 待办事项列表
+ * @param options - 转换选项，提供 projects 时所属列表写为 +项目
+ * @returns todo.txt 文本，每行一个任务
+ */
+export function exportTodosToTodoTxt(todos: Todo[], options: TodoTxtOptions = {}): string {
+  return todos.map(todo => stringifyTodoTxtLine(todoToTodoTxtTask(todo, options))).join('\n')
+}
+
+/**
+ * 从 todo.txt 导入待办事项
+ *
+ * 空行被忽略；无法转换的行被跳过并记录在错误报告中
+ *
+ * @param text - todo.txt 文本
+ * @param options - 转换选项，提供 projects 时 +项目 会匹配到同名列表
+ * @returns 导入结果，行号从1开始
+ */
+export function importTodosFromTodoTxt(text: string, options: TodoTxtOptions = {}): ImportResult<Todo> {
+  const data: Todo[] = []
+  const errors: ImportRowError[] = []
+  let total = 0
+
+  text.split(/\r\n|\r|\n/).forEach((line, index) => {
+    const task = parseTodoTxtLine(line)
+    if (!task) return
+
+    total++
+    try {
+      data.push(todoTxtTaskToTodo(task, options))
+    } catch (error) {
+      errors.push({
+        row: index + 1,
+        value: line,
+        message: error instanceof Error ? error.message : '无法解析该行'
+      })
+    }
+  })
+
+  return { success: true, data, errors, total, skipped: errors.length }
+}
@@ -0,0 +1,105 @@
+// 【知识点】工具函数 trash.ts
+// - 软删除：删除的数据先移入回收站
+// - 按保留天数计算过期时间
+// - 纯函数，便于单元测试
+/**
+ * 回收站工具函数
+ *
+ * 这个文件提供了回收站相关的通用逻辑，包括：
+ * 1. 待办事项与回收站项之间的转换
+ * 2. 查找回收站中某一项及其子任务
+ * 3. 计算自动彻底删除的时间，找出已过期的项
+ */
+
+import type { Todo, TrashedTodo } from '@/types/todo'
+import { cloneTodo } from './history'
+import { getDescendantIds } from './hierarchy'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 将待办事项转换为回收站项
+ *
+ * @param todos - 要移入回收站的待办事项
+ * @param deletedAt - 删除时间
+ * @returns 回收站项，原待办事项不会被修改
+ */
+export function toTrashedTodos(todos: Todo[], deletedAt: Date): TrashedTodo[] {
+  return todos.map(todo => ({ ...cloneTodo(todo), deletedAt: new Date(deletedAt) }))
+}
+
+/**
+ * 将回收站项还原为待办事项
+ *
+ * @param item - 回收站项
+ * @returns 去掉删除时间后的待办事项
+ */
+export function fromTrashedTodo(item: TrashedTodo): Todo {
+  const todo: Todo & { deletedAt?: Date } = cloneTodo(item)
+  delete todo.deletedAt
+  return todo
+}
+
+/**
+ * 获取回收站中某一项及其子任务的ID
+ *
+ * 子任务与父任务一同删除，因此在回收站中也保持父子关系
+ *
+ * @param trash - 回收站项
+ * @param id - 回收站项ID
+ * @returns ID列表，自身在前，后代按层级由浅到深排列
+ */
+export function getTrashSubtreeIds(trash: TrashedTodo[], id: string): string[] {
+  return [id, ...getDescendantIds(trash, id)]
+}
+
+/**
+ * 计算回收站项被自动彻底删除的时间
+ *
+ * @param item - 回收站项
+ * @param retentionDays - 保留天数
+ * @returns 彻底删除的时间
+ */
+export function getPurgeDate(item: TrashedTodo, retentionDays: number): Date {
+  return new Date(item.deletedAt.getTime() + retentionDays * DAY_IN_MS)
+}
+
+/**
+ * 计算距离自动彻底删除还剩的天数
+ *
+ * @param item - 回收站项
+ * @param retentionDays - 保留天数
+ * @param now - 当前时间
+ * @returns 剩余天数（向上取整），已过期时为0
+ */
+export function getDaysUntilPurge(item: TrashedTodo, retentionDays: number, now: Date = new Date()): number {
+  const remaining = getPurgeDate(item, retentionDays).getTime() - now.getTime()
+  return Math.max(0, Math.ceil(remaining / DAY_IN_MS))
+}
+
+/**
+ * 按保留天数拆分回收站
+ *
+ * @param trash - 回收站项
+ * @param retentionDays - 保留天数
+ * @param now - 当前时间
+ * @returns 继续保留的项和已过期的项，各自保持原有顺序
+ */
+export function splitExpiredTrash(
+  trash: TrashedTodo[],
+  retentionDays: number,
+  now: Date = new Date()
+): { kept: TrashedTodo[]; expired: TrashedTodo[] } {
+  const kept: TrashedTodo[] = []
+  const expired: TrashedTodo[] = []
+
+  trash.forEach(item => {
+    if (getPurgeDate(item, retentionDays).getTime() <= now.getTime()) {
+      expired.push(item)
+    } else {
+      kept.push(item)
+    }
+  })
+
+  return { kept, expired }
+}
@@ -0,0 +1,210 @@
+// 【知识点】工具函数 validation.ts
+// - 声明式校验：规则是数据，执行器只有一个
+// - 同步与异步验证函数的统一处理
+// - 运行时可配置的验证限制
+/**
+ * 验证引擎
+ *
+ * 这个文件提供了基于 ValidationRule 的通用校验，包括：
+ * 1. 按顺序执行一组规则，生成带有 ErrorCode 的 ValidationResult
+ * 2. 待办事项标题的内置规则，store、组合式函数、组件和导入功能共用
+ * 3. 在运行时修改 VALIDATION_RULES 中的限制
+ *
+ * 内置规则在调用时读取 VALIDATION_RULES，修改限制后立即对所有校验生效
+ */
+
+import type { ValidationRule, ValidationResult, ValidationLimits } from '@/types/utils'
+import { ErrorCode, TodoError, type ValidationError } from '@/types/error'
+import { DEFAULT_VALIDATION_RULES, VALIDATION_RULES } from '@/types'
+
+/**
+ * 执行规则的选项
+ */
+export interface ValidateOptions {
+  /** 结果和错误中的字段名，不提供时错误的字段名为规则名称 */
+  field?: string
+  /** 遇到第一个未通过的规则时停止，默认为false */
+  abortEarly?: boolean
+}
+
+// ===== 执行规则 =====
+
+/**
+ * 判断是否为空值
+ * @param value - 值
+ * @returns 是否为 undefined、null 或空白字符串
+ */
+function isEmptyValue(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+/**
+ * 生成未通过规则的错误
+ * @param rule - 规则
+ * @param value - 值
+ * @param field - 字段名
+ * @returns 验证错误
+ */
+function toValidationError(rule: ValidationRule, value: unknown, field?: string): ValidationError {
+  return {
+    field: field ?? rule.name,
+    message: rule.message,
+    code: rule.code ?? ErrorCode.VALIDATION_ERROR,
+    value
+  }
+}
+
+/**
+ * 生成验证结果
+ * @param errors - 错误
+ * @param field - 字段名
+ * @returns 验证结果
+ */
+function toResult(errors: ValidationError[], field?: string): ValidationResult {
+  const result: ValidationResult = { valid: errors.length === 0, errors }
+  if (field !== undefined) result.field = field
+  return result
+}
+
+/**
+ * 同步执行一组规则
+ *
+ * @param value - 要校验的值
+ * @param rules - 规则，按顺序执行
+ * @param options - 执行选项
+ * @returns 验证结果
+ * @throws {TodoError} 规则的验证函数是异步的时抛出错误，请使用 validateAsync
+ */
+export function validate(value: unknown, rules: ValidationRule[], options: ValidateOptions = {}): ValidationResult {
+  const errors: ValidationError[] = []
+
+  for (const rule of rules) {
+    if (!rule.required && isEmptyValue(value)) continue
+
+    const passed = rule.validator(value)
+    if (typeof passed !== 'boolean') {
+      throw new TodoError(`规则 ${rule.name} 是异步的，请使用 validateAsync`, ErrorCode.VALIDATION_ERROR, { rule: rule.name })
+    }
+
+    if (!passed) {
+      errors.push(toValidationError(rule, value, options.field))
+      if (options.abortEarly) break
+    }
+  }
+
+  return toResult(errors, options.field)
+}
+
+/**
+ * 执行一组规则，支持异步的验证函数
+ *
+ * @param value - 要校验的值
+ * @param rules - 规则，按顺序执行
+ * @param options - 执行选项
+ * @returns 验证结果
+ */
+export async function validateAsync(
+  value: unknown,
+  rules: ValidationRule[],
+  options: ValidateOptions = {}
+): Promise<ValidationResult> {
+  const errors: ValidationError[] = []
+
+  for (const rule of rules) {
+    if (!rule.required && isEmptyValue(value)) continue
+
+    if (!(await rule.validator(value))) {
+      errors.push(toValidationError(rule, value, options.field))
+      if (options.abortEarly) break
+    }
+  }
+
+  return toResult(errors, options.field)
+}
+
+/**
+ * 将未通过的验证结果转换为 TodoError
+ *
+ * @param result - 验证结果
+ * @returns 第一个错误对应的 TodoError，验证通过时返回null
+ */
+export function toTodoError(result: ValidationResult): TodoError | null {
+  const [error] = result.errors
+  if (!error) return null
+  return new TodoError(error.message, error.code, { field: error.field, value: error.value })
+}
+
+// ===== 内置规则 =====
+
+/**
+ * 创建待办事项标题的规则
+ *
+ * @param maxLength - 最大长度，默认为 VALIDATION_RULES.MAX_TITLE_LENGTH
+ * @returns 非空和长度两条规则，长度按去掉首尾空白后计算
+ */
+export function createTitleRules(maxLength: number = VALIDATION_RULES.MAX_TITLE_LENGTH): ValidationRule[] {
+  const minLength = VALIDATION_RULES.MIN_TITLE_LENGTH
+  return [
+    {
+      name: 'required',
+      required: true,
+      code: ErrorCode.EMPTY_TITLE,
+      message: '待办事项标题不能为空',
+      validator: (value: unknown) => typeof value === 'string' && value.trim().length >= Math.max(minLength, 1)
+    },
+    {
+      name: 'maxLength',
+      code: ErrorCode.TITLE_TOO_LONG,
+      message: `待办事项标题不能超过${maxLength}个字符`,
+      validator: (value: unknown) => typeof value === 'string' && value.trim().length <= maxLength
+    }
+  ]
+}
+
+/**
+ * 校验待办事项标题
+ *
+ * @param title - 标题
+ * @returns 验证结果，字段名为 title，遇到第一个错误时停止
+ */
+export function validateTitle(title: unknown): ValidationResult {
+  return validate(title, createTitleRules(), { field: 'title', abortEarly: true })
+}
+
+// ===== 运行时配置 =====
+
+/**
+ * 修改验证限制
+ *
+ * @param overrides - 要修改的限制，必须是正整数（MIN_TITLE_LENGTH 可以为0）
+ * @returns 修改后的全部限制
+ * @throws {TodoError} 限制名称未知或取值无效时抛出错误，此时不修改任何限制
+ */
+export function configureValidation(overrides: Partial<ValidationLimits>): ValidationLimits {
+  const entries = Object.entries(overrides) as Array<[keyof ValidationLimits, number | undefined]>
+
+  for (const [key, value] of entries) {
+    if (!(key in DEFAULT_VALIDATION_RULES)) {
+      throw new TodoError(`未知的验证限制：${key}`, ErrorCode.VALIDATION_ERROR, { key })
+    }
+    const min = key === 'MIN_TITLE_LENGTH' ? 0 : 1
+    if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+      throw new TodoError(`验证限制 ${key} 必须是不小于${min}的整数`, ErrorCode.VALIDATION_ERROR, { key, value })
+    }
+  }
+
+  const next = { ...VALIDATION_RULES, ...Object.fromEntries(entries.filter(([, value]) => value !== undefined)) }
+  if (next.MIN_TITLE_LENGTH > next.MAX_TITLE_LENGTH) {
+    throw new TodoError('标题最小长度不能大于最大长度', ErrorCode.VALIDATION_ERROR, { ...overrides })
+  }
+
+  Object.assign(VALIDATION_RULES, next)
+  return { ...VALIDATION_RULES }
+}
+
+/**
+ * 将验证限制恢复为默认值
+ */
+export function resetValidation(): void {
+  Object.assign(VALIDATION_RULES, DEFAULT_VALIDATION_RULES)
+}
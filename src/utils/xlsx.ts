@@ -0,0 +1,523 @@
+// 【知识点】工具函数 xlsx.ts
+// - Office Open XML 电子表格（XLSX）的文件结构
+// - Excel 日期序列号与单元格样式
+// - DOMParser 解析 XML
+/**
+ * XLSX 导入导出
+ *
+ * 这个文件提供了不依赖第三方库的待办事项 XLSX 导入导出，包括：
+ * 1. 生成包含待办事项工作表和统计工作表的工作簿
+ * 2. 日期写为带日期格式的单元格，完成状态写为布尔单元格
+ * 3. 读取工作簿的第一个工作表并按 ImportConfig 导入
+ *
+ * 日期按本地时间写入和读取，与 Excel 中看到的时间一致
+ */
+
+import type { Todo, TodoStats } from '@/types/todo'
+import type { ExportConfig, ImportConfig, ImportResult } from '@/types/utils'
+import { ErrorCode, TodoError } from '@/types/error'
+import { todosToTable, tableToTodos, type TableCell } from './todoTable'
+import { createZip, readZip, encodeUtf8, decodeUtf8 } from './zip'
+
+/**
+ * 待办事项工作表的名称
+ */
+export const XLSX_TODO_SHEET = '待办事项'
+
+/**
+ * 统计工作表的名称
+ */
+export const XLSX_SUMMARY_SHEET = '统计'
+
+/**
+ * XLSX 文件的 MIME 类型
+ */
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+/** 工作表 XML 的命名空间 */
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+/** 关系的命名空间 */
+const REL_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+/** 一天的毫秒数 */
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Excel 日期序列号的起点（1899-12-30） */
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30)
+
+/**
+ * 单元格样式编号，与 styles.xml 中 cellXfs 的顺序一致
+ */
+const STYLE = {
+  DEFAULT: 0,
+  DATE: 1,
+  HEADER: 2
+} as const
+
+/**
+ * 内置的日期时间格式编号
+ */
+const BUILTIN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+
+// ===== 日期转换 =====
+
+/**
+ * 将日期转换为 Excel 日期序列号
+ * @param date - 日期
+ * @returns 序列号（整数部分为天，小数部分为时间）
+ */
+export function dateToSerial(date: Date): number {
+  const local = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  )
+  return (local - EXCEL_EPOCH) / DAY_MS
+}
+
+/**
+ * 将 Excel 日期序列号转换为日期
+ * @param serial - 序列号
+ * @returns 日期
+ */
+export function serialToDate(serial: number): Date {
+  const utc = new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS))
+  return new Date(
+    utc.getUTCFullYear(),
+    utc.getUTCMonth(),
+    utc.getUTCDate(),
+    utc.getUTCHours(),
+    utc.getUTCMinutes(),
+    utc.getUTCSeconds(),
+    utc.getUTCMilliseconds()
+  )
+}
+
+// ===== 生成 =====
+
+/**
+ * 转义 XML 文本，并去掉 XML 中不允许的控制字符
+ * @param text - 文本
+ * @returns 转义后的文本
+ */
+function escapeXml(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/**
+ * 将列序号转换为列名
+ * @param index - 列序号（从0开始）
+ * @returns 列名，如 A、B、AA
+ */
+function columnName(index: number): string {
+  let name = ''
+  let n = index + 1
+  while (n > 0) {
+    const remainder = (n - 1) % 26
+    name = String.fromCharCode(65 + remainder) + name
+    n = Math.floor((n - 1) / 26)
+  }
+  return name
+}
+
+/**
+ * 生成一个单元格的 XML
+ * @param cell - 单元格
+ * @param ref - 单元格引用，如 A1
+ * @param style - 样式编号
+ * @returns 单元格 XML，空单元格返回空字符串
+ */
+function cellXml(cell: TableCell, ref: string, style: number): string {
+  const styleAttr = style ? ` s="${style}"` : ''
+
+  if (cell === null || cell === '') return ''
+  if (cell instanceof Date) {
+    return `<c r="${ref}" s="${STYLE.DATE}"><v>${dateToSerial(cell)}</v></c>`
+  }
+  if (typeof cell === 'boolean') {
+    return `<c r="${ref}"${styleAttr} t="b"><v>${cell ? 1 : 0}</v></c>`
+  }
+  if (typeof cell === 'number') {
+    return `<c r="${ref}"${styleAttr}><v>${cell}</v></c>`
+  }
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`
+}
+
+/**
+ * 生成工作表的 XML
+ * @param rows - 行
+ * @param hasHeader - 第一行是否为标题行
+ * @returns 工作表 XML
+ */
+function worksheetXml(rows: TableCell[][], hasHeader: boolean): string {
+  const columnCount = rows.reduce((max, row) => Math.max(max, row.length), 0)
+
+  // 按内容估算列宽，日期列至少能完整显示日期时间
+  const widths = Array.from({ length: columnCount }, (_, column) => {
+    const longest = rows.reduce((max, row) => {
+      const cell = row[column]
+      const length = cell instanceof Date ? 18 : String(cell ?? '').split('\n')[0].length
+      return Math.max(max, length)
+    }, 0)
+    return Math.min(Math.max(longest + 2, 10), 60)
+  })
+  const cols = columnCount > 0
+    ? `<cols>${widths.map((width, i) => `<col min="${i + 1}" max="${i + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : ''
+
+  const sheetRows = rows.map((row, rowIndex) => {
+    const style = hasHeader && rowIndex === 0 ? STYLE.HEADER : STYLE.DEFAULT
+    const cells = row.map((cell, column) => cellXml(cell, `${columnName(column)}${rowIndex + 1}`, style)).join('')
+    return `<row r="${rowIndex + 1}">${cells}</row>`
+  }).join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<worksheet xmlns="${MAIN_NS}">${cols}<sheetData>${sheetRows}</sheetData></worksheet>`
+}
+
+/**
+ * 根据待办事项计算统计数据
+ * @param todos - 待办事项列表
+ * @returns 统计数据
+ */
+function calculateStats(todos: Todo[]): TodoStats {
+  const total = todos.length
+  const completed = todos.filter(todo => todo.completed).length
+  const topLevel = todos.filter(todo => !todo.parentId).length
+
+  return {
+    total,
+    completed,
+    active: total - completed,
+    completionRate: total > 0 ? Math.round((completed / total) * 100) : 0,
+    topLevel,
+    subtasks: total - topLevel,
+    trashed: 0
+  }
+}
+
+/**
+ * 生成统计工作表的行
+ * @param stats - 统计数据
+ * @returns 行
+ */
+function summaryRows(stats: TodoStats): TableCell[][] {
+  return [
+    ['指标', '数值'],
+    ['总数', stats.total],
+    ['已完成', stats.completed],
+    ['未完成', stats.active],
+    ['完成率（%）', stats.completionRate],
+    ['顶层任务', stats.topLevel],
+    ['子任务', stats.subtasks],
+    ['导出时间', new Date()]
+  ]
+}
+
+/**
+ * 工作簿中固定不变的文件
+ */
+const STATIC_PARTS: Record<string, string> = {
+  '[Content_Types].xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet2.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    '</Types>',
+  '_rels/.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/_rels/workbook.xml.rels':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"/>' +
+    '<Relationship Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    '</Relationships>',
+  'xl/styles.xml':
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<styleSheet xmlns="${MAIN_NS}">` +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3">' +
+    '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '</cellXfs>' +
+    '</styleSheet>'
+}
+
+/**
+ * 将待办事项导出为 XLSX 工作簿
+ *
+ * 工作簿包含两个工作表：待办事项（列与 CSV 导出相同）和统计
+ *
+ * @param todos - 待办事项列表
+ * @param config - 导出配置
+ * @param stats - 统计数据，不提供时根据导出的待办事项计算
+ * @returns XLSX 文件内容
+ */
+export function exportTodosToXlsx(
+  todos: Todo[],
+  config: Omit<ExportConfig, 'format'> = {},
+  stats?: TodoStats
+): Uint8Array {
+  const rows = todosToTable(todos, config)
+  const exported = config.filter ? todos.filter(config.filter) : todos
+  const hasHeader = config.includeHeaders !== false
+
+  const workbook = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    `<workbook xmlns="${MAIN_NS}" xmlns:r="${REL_NS}"><sheets>` +
+    `<sheet name="${escapeXml(XLSX_TODO_SHEET)}" sheetId="1" r:id="rId1"/>` +
+    `<sheet name="${escapeXml(XLSX_SUMMARY_SHEET)}" sheetId="2" r:id="rId2"/>` +
+    '</sheets></workbook>'
+
+  const parts: Record<string, string> = {
+    ...STATIC_PARTS,
+    'xl/workbook.xml': workbook,
+    'xl/worksheets/sheet1.xml': worksheetXml(rows, hasHeader),
+    'xl/worksheets/sheet2.xml': worksheetXml(summaryRows(stats ?? calculateStats(exported)), true)
+  }
+
+  return createZip(Object.entries(parts).map(([name, xml]) => ({ name, data: encodeUtf8(xml) })))
+}
+
+// ===== 读取 =====
+
+/**
+ * 解析 XML 文本
+ * @param xml - XML 文本
+ * @returns XML 文档
+ */
+function parseXml(xml: string): Document {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new TodoError('XLSX 中的 XML 格式无效', ErrorCode.VALIDATION_ERROR)
+  }
+  return doc
+}
+
+/**
+ * 按本地名称查找元素（忽略命名空间前缀）
+ * @param parent - 父节点
+ * @param name - 本地名称
+ * @returns 元素列表
+ */
+function elements(parent: Document | Element, name: string): Element[] {
+  return Array.from(parent.getElementsByTagNameNS('*', name))
+}
+
+/**
+ * 读取工作簿中的文本文件
+ * @param files - ZIP 中的文件
+ * @param path - 文件路径
+ * @returns 文件内容，不存在时返回null
+ */
+function readText(files: Map<string, Uint8Array>, path: string): string | null {
+  const data = files.get(path)
+  return data ? decodeUtf8(data) : null
+}
+
+/**
+ * 查找第一个工作表的路径
+ * @param files - ZIP 中的文件
+ * @returns 工作表路径
+ */
+function firstSheetPath(files: Map<string, Uint8Array>): string {
+  const fallback = 'xl/worksheets/sheet1.xml'
+  const workbook = readText(files, 'xl/workbook.xml')
+  const rels = readText(files, 'xl/_rels/workbook.xml.rels')
+  if (!workbook || !rels) return fallback
+
+  const sheet = elements(parseXml(workbook), 'sheet')[0]
+  const relId = sheet?.getAttributeNS(REL_NS, 'id') ?? sheet?.getAttribute('r:id')
+  const rel = elements(parseXml(rels), 'Relationship').find(item => item.getAttribute('Id') === relId)
+  const target = rel?.getAttribute('Target')
+  if (!target) return fallback
+
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+}
+
+/**
+ * 读取共享字符串表
+ * @param files - ZIP 中的文件
+ * @returns 共享字符串
+ */
+function readSharedStrings(files: Map<string, Uint8Array>): string[] {
+  const xml = readText(files, 'xl/sharedStrings.xml')
+  if (!xml) return []
+
+  // 富文本由多个 <r><t> 组成，拼接所有文本；忽略注音 <rPh>
+  return elements(parseXml(xml), 'si').map(item =>
+    elements(item, 't')
+      .filter(text => text.parentElement?.localName !== 'rPh')
+      .map(text => text.textContent ?? '')
+      .join('')
+  )
+}
+
+/**
+ * 判断数字格式是否为日期格式
+ * @param formatCode - 格式代码
+ * @returns 是否为日期格式
+ */
+function isDateFormat(formatCode: string): boolean {
+  const code = formatCode.replace(/"[^"]*"/g, '').replace(/\[[^\]]*\]/g, '')
+  return /[ymdhs]/i.test(code)
+}
+
+/**
+ * 读取使用日期格式的样式编号
+ * @param files - ZIP 中的文件
+ * @returns 样式编号集合
+ */
+function readDateStyles(files: Map<string, Uint8Array>): Set<number> {
+  const xml = readText(files, 'xl/styles.xml')
+  const dateStyles = new Set<number>()
+  if (!xml) return dateStyles
+
+  const doc = parseXml(xml)
+  const customDateFormats = new Set(
+    elements(doc, 'numFmt')
+      .filter(format => isDateFormat(format.getAttribute('formatCode') ?? ''))
+      .map(format => Number(format.getAttribute('numFmtId')))
+  )
+
+  const cellXfs = elements(doc, 'cellXfs')[0]
+  if (!cellXfs) return dateStyles
+
+  Array.from(cellXfs.children)
+    .filter(xf => xf.localName === 'xf')
+    .forEach((xf, index) => {
+      const formatId = Number(xf.getAttribute('numFmtId') ?? 0)
+      if (BUILTIN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+        dateStyles.add(index)
+      }
+    })
+
+  return dateStyles
+}
+
+/**
+ * 将列名转换为列序号
+ * @param ref - 单元格引用，如 B3
+ * @returns 列序号（从0开始），无法解析时返回-1
+ */
+function columnIndex(ref: string): number {
+  const letters = /^[A-Z]+/i.exec(ref)?.[0]
+  if (!letters) return -1
+  return letters.toUpperCase().split('').reduce((index, char) => index * 26 + char.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * 读取单元格的值
+ * @param cell - 单元格元素
+ * @param sharedStrings - 共享字符串
+ * @param dateStyles - 日期样式编号
+ * @returns 单元格的值
+ */
+function readCell(cell: Element, sharedStrings: string[], dateStyles: Set<number>): TableCell {
+  const type = cell.getAttribute('t') ?? 'n'
+  const value = elements(cell, 'v')[0]?.textContent ?? ''
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? ''
+    case 'inlineStr':
+      return elements(cell, 't').map(text => text.textContent ?? '').join('')
+    case 'b':
+      return value === '1'
+    case 'd':
+      return value ? new Date(value) : null
+    case 'str':
+    case 'e':
+      return value
+    default: {
+      if (value === '') return null
+      const number = Number(value)
+      return dateStyles.has(Number(cell.getAttribute('s') ?? 0)) ? serialToDate(number) : number
+    }
+  }
+}
+
+/**
+ * 读取 XLSX 工作簿第一个工作表的所有行
+ *
+ * 返回的行号与工作表一致，中间的空行为空数组
+ *
+ * @param input - XLSX 文件内容
+ * @returns 行
+ * @throws {TodoError} 文件不是有效的 XLSX 时抛出错误
+ */
+export function readXlsxRows(input: Uint8Array | ArrayBuffer): TableCell[][] {
+  const files = readZip(input)
+  const sheetXml = readText(files, firstSheetPath(files))
+  if (!sheetXml) {
+    throw new TodoError('XLSX 中没有工作表', ErrorCode.VALIDATION_ERROR)
+  }
+
+  const sharedStrings = readSharedStrings(files)
+  const dateStyles = readDateStyles(files)
+  const rows: TableCell[][] = []
+
+  elements(parseXml(sheetXml), 'row').forEach(rowElement => {
+    const rowIndex = Number(rowElement.getAttribute('r') ?? rows.length + 1) - 1
+    const row: TableCell[] = []
+
+    elements(rowElement, 'c').forEach(cell => {
+      const ref = cell.getAttribute('r')
+      const column = ref ? columnIndex(ref) : row.length
+      row[column < 0 ? row.length : column] = readCell(cell, sharedStrings, dateStyles)
+    })
+
+    rows[rowIndex] = Array.from(row, cell => cell ?? null)
+  })
+
+  return Array.from(rows, row => row ?? [])
+}
+
+/**
+ * 从 XLSX 导入待办事项
+ *
+ * 读取工作簿的第一个工作表，行号与工作表中的行号一致
+ *
+ * @param input - XLSX 文件内容
+ * @param config - 导入配置
+ * @returns 导入结果，包含逐行的错误报告
+ */
+export async function importTodosFromXlsx(
+  input: Uint8Array | ArrayBuffer,
+  config: Omit<ImportConfig, 'format'> = {}
+): Promise<ImportResult<Todo>> {
+  let rows: TableCell[][]
+  try {
+    rows = readXlsxRows(input)
+  } catch (error) {
+    return {
+      success: false,
+      data: [],
+      errors: [{ row: 1, message: error instanceof Error ? error.message : 'XLSX 格式无效' }],
+      total: 0,
+      skipped: 0
+    }
+  }
+
+  return tableToTodos(rows, config)
+}
@@ -0,0 +1,488 @@
+// 【知识点】工具函数 zip.ts
+// - ZIP 文件结构：本地文件头、中央目录、目录结束记录
+// - CRC32 校验与 DEFLATE 解压（RFC 1951）
+// - 二进制数据处理：Uint8Array 与小端字节序
+/**
+ * ZIP 读写
+ *
+ * 这个文件提供了不依赖第三方库的最小 ZIP 实现，供 XLSX 导入导出使用，包括：
+ * 1. 生成不压缩（STORE）的 ZIP 文件
+ * 2. 读取 ZIP 文件中的条目，支持不压缩和 DEFLATE 压缩
+ * 3. UTF-8 编码与解码
+ *
+ * 不支持 ZIP64、加密和分卷
+ */
+
+import { ErrorCode, TodoError } from '@/types/error'
+
+/**
+ * ZIP 中的一个文件
+ */
+export interface ZipEntry {
+  /** 文件路径 */
+  name: string
+  /** 文件内容 */
+  data: Uint8Array
+}
+
+/** 本地文件头签名 */
+const LOCAL_FILE_HEADER = 0x04034b50
+/** 中央目录文件头签名 */
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+/** 中央目录结束记录签名 */
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+/** 文件名使用 UTF-8 编码的标志位 */
+const UTF8_FLAG = 0x0800
+/** DOS 格式的日期：1980-01-01，保证相同内容生成相同的文件 */
+const DOS_DATE = (1 << 5) | 1
+
+// ===== UTF-8 =====
+
+/**
+ * 将字符串编码为 UTF-8
+ *
+ * 不依赖 TextEncoder，测试环境（jsdom）中也能使用
+ *
+ * @param text - 字符串
+ * @returns UTF-8 字节
+ */
+export function encodeUtf8(text: string): Uint8Array {
+  const bytes: number[] = []
+
+  for (const char of text) {
+    const code = char.codePointAt(0) as number
+    if (code < 0x80) {
+      bytes.push(code)
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f))
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f))
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      )
+    }
+  }
+
+  return Uint8Array.from(bytes)
+}
+
+/**
+ * 将 UTF-8 字节解码为字符串
+ * @param bytes - UTF-8 字节
+ * @returns 字符串
+ */
+export function decodeUtf8(bytes: Uint8Array): string {
+  let text = ''
+  let i = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0
+
+  while (i < bytes.length) {
+    const byte = bytes[i]
+    let code: number
+    if (byte < 0x80) {
+      code = byte
+      i += 1
+    } else if (byte >= 0xf0) {
+      code = ((byte & 0x07) << 18) | ((bytes[i + 1] & 0x3f) << 12) | ((bytes[i + 2] & 0x3f) << 6) | (bytes[i + 3] & 0x3f)
+      i += 4
+    } else if (byte >= 0xe0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f)
+      i += 3
+    } else {
+      code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f)
+      i += 2
+    }
+    text += String.fromCodePoint(code)
+  }
+
+  return text
+}
+
+// ===== CRC32 =====
+
+/**
+ * CRC32 查找表
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/**
+ * 计算 CRC32 校验值
+ * @param data - 数据
+ * @returns 校验值
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ===== 生成 =====
+
+/**
+ * 生成 ZIP 文件
+ *
+ * 条目不压缩直接存储，Excel、WPS 等都能正常打开
+ *
+ * @param entries - 文件列表
+ * @returns ZIP 文件内容
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array {
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  entries.forEach(entry => {
+    const name = encodeUtf8(entry.name)
+    const crc = crc32(entry.data)
+    const size = entry.data.length
+
+    const local = new Uint8Array(30 + name.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, LOCAL_FILE_HEADER, true)
+    localView.setUint16(4, 20, true)
+    localView.setUint16(6, UTF8_FLAG, true)
+    localView.setUint16(8, 0, true)
+    localView.setUint16(10, 0, true)
+    localView.setUint16(12, DOS_DATE, true)
+    localView.setUint32(14, crc, true)
+    localView.setUint32(18, size, true)
+    localView.setUint32(22, size, true)
+    localView.setUint16(26, name.length, true)
+    localView.setUint16(28, 0, true)
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    centralView.setUint16(4, 20, true)
+    centralView.setUint16(6, 20, true)
+    centralView.setUint16(8, UTF8_FLAG, true)
+    centralView.setUint16(10, 0, true)
+    centralView.setUint16(12, 0, true)
+    centralView.setUint16(14, DOS_DATE, true)
+    centralView.setUint32(16, crc, true)
+    centralView.setUint32(20, size, true)
+    centralView.setUint32(24, size, true)
+    centralView.setUint16(28, name.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(name, 46)
+
+    localParts.push(local, entry.data)
+    centralParts.push(central)
+    offset += local.length + size
+  })
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  endView.setUint16(8, entries.length, true)
+  endView.setUint16(10, entries.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const parts = [...localParts, ...centralParts, end]
+  const result = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  parts.forEach(part => {
+    result.set(part, position)
+    position += part.length
+  })
+
+  return result
+}
+
+// ===== 读取 =====
+
+/**
+ * 创建 ZIP 格式错误
+ * @param message - 错误消息
+ * @returns 错误对象
+ */
+function zipError(message: string): TodoError {
+  return new TodoError(message, ErrorCode.VALIDATION_ERROR)
+}
+
+/**
+ * 读取 ZIP 文件中的所有条目
+ *
+ * @param input - ZIP 文件内容
+ * @returns 文件路径 -> 文件内容
+ * @throws {TodoError} 文件不是有效的 ZIP 或使用了不支持的压缩方式时抛出错误
+ */
+export function readZip(input: Uint8Array | ArrayBuffer): Map<string, Uint8Array> {
+  const data = input instanceof Uint8Array ? input : new Uint8Array(input)
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  // 从末尾向前查找目录结束记录（其后可能有最长 65535 字节的注释）
+  let endOffset = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw zipError('文件不是有效的 ZIP 格式')
+  }
+
+  const count = view.getUint16(endOffset + 10, true)
+  let pointer = view.getUint32(endOffset + 16, true)
+  const files = new Map<string, Uint8Array>()
+
+  for (let i = 0; i < count; i++) {
+    if (pointer + 46 > data.length || view.getUint32(pointer, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw zipError('ZIP 中央目录已损坏')
+    }
+
+    const method = view.getUint16(pointer + 10, true)
+    const compressedSize = view.getUint32(pointer + 20, true)
+    const nameLength = view.getUint16(pointer + 28, true)
+    const extraLength = view.getUint16(pointer + 30, true)
+    const commentLength = view.getUint16(pointer + 32, true)
+    const localOffset = view.getUint32(pointer + 42, true)
+    const name = decodeUtf8(data.subarray(pointer + 46, pointer + 46 + nameLength))
+
+    if (view.getUint32(localOffset, true) !== LOCAL_FILE_HEADER) {
+      throw zipError(`ZIP 条目 ${name} 已损坏`)
+    }
+    const start = localOffset + 30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true)
+    const raw = data.subarray(start, start + compressedSize)
+
+    if (method === 0) {
+      files.set(name, raw)
+    } else if (method === 8) {
+      files.set(name, inflateRaw(raw))
+    } else {
+      throw zipError(`不支持的 ZIP 压缩方式: ${method}`)
+    }
+
+    pointer += 46 + nameLength + extraLength + commentLength
+  }
+
+  return files
+}
+
+// ===== DEFLATE 解压 =====
+
+/**
+ * 霍夫曼解码表
+ */
+interface Huffman {
+  /** 每种码长的符号数量 */
+  counts: Uint16Array
+  /** 按码长和码值排序的符号 */
+  symbols: Uint16Array
+}
+
+/** 长度码的基础值 */
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258]
+/** 长度码的额外位数 */
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0]
+/** 距离码的基础值 */
+const DISTANCE_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577]
+/** 距离码的额外位数 */
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13]
+/** 码长码的读取顺序 */
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15]
+
+/**
+ * 根据每个符号的码长构建霍夫曼解码表
+ * @param lengths - 码长
+ * @returns 解码表
+ */
+function buildHuffman(lengths: ArrayLike<number>): Huffman {
+  const counts = new Uint16Array(16)
+  const symbols = new Uint16Array(lengths.length)
+  const offsets = new Uint16Array(16)
+
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++
+  counts[0] = 0
+  for (let len = 1; len < 15; len++) offsets[len + 1] = offsets[len] + counts[len]
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i] !== 0) symbols[offsets[lengths[i]]++] = i
+  }
+
+  return { counts, symbols }
+}
+
+/**
+ * 固定霍夫曼编码的字面量/长度表与距离表
+ */
+const FIXED_TABLES = (() => {
+  const lengths = new Uint8Array(288)
+  lengths.fill(8, 0, 144)
+  lengths.fill(9, 144, 256)
+  lengths.fill(7, 256, 280)
+  lengths.fill(8, 280, 288)
+  return {
+    literal: buildHuffman(lengths),
+    distance: buildHuffman(new Uint8Array(30).fill(5))
+  }
+})()
+
+/**
+ * 解压 DEFLATE 格式（不含 zlib 头）的数据
+ *
+ * @param data - 压缩数据
+ * @returns 解压后的数据
+ * @throws {TodoError} 数据损坏时抛出错误
+ */
+export function inflateRaw(data: Uint8Array): Uint8Array {
+  const output: number[] = []
+  let bitPosition = 0
+
+  /**
+   * 读取指定位数（低位在前）
+   * @param count - 位数
+   * @returns 读取的值
+   */
+  const bits = (count: number): number => {
+    let value = 0
+    for (let i = 0; i < count; i++) {
+      const byte = data[bitPosition >> 3]
+      if (byte === undefined) throw zipError('压缩数据不完整')
+      value |= ((byte >> (bitPosition & 7)) & 1) << i
+      bitPosition++
+    }
+    return value
+  }
+
+  /**
+   * 读取一个霍夫曼编码的符号
+   * @param huffman - 解码表
+   * @returns 符号
+   */
+  const decode = (huffman: Huffman): number => {
+    let code = 0
+    let first = 0
+    let index = 0
+    for (let len = 1; len < 16; len++) {
+      code |= bits(1)
+      const count = huffman.counts[len]
+      if (code - count < first) {
+        return huffman.symbols[index + (code - first)]
+      }
+      index += count
+      first = (first + count) << 1
+      code <<= 1
+    }
+    throw zipError('压缩数据已损坏')
+  }
+
+  /**
+   * 解码一个使用霍夫曼编码的块
+   * @param literal - 字面量/长度解码表
+   * @param distance - 距离解码表
+   */
+  const inflateBlock = (literal: Huffman, distance: Huffman) => {
+    for (;;) {
+      const symbol = decode(literal)
+      if (symbol < 256) {
+        output.push(symbol)
+      } else if (symbol === 256) {
+        return
+      } else {
+        const lengthIndex = symbol - 257
+        if (lengthIndex >= LENGTH_BASE.length) throw zipError('压缩数据已损坏')
+        const length = LENGTH_BASE[lengthIndex] + bits(LENGTH_EXTRA[lengthIndex])
+        const distanceIndex = decode(distance)
+        const back = DISTANCE_BASE[distanceIndex] + bits(DISTANCE_EXTRA[distanceIndex])
+        if (back > output.length) throw zipError('压缩数据已损坏')
+        for (let i = 0; i < length; i++) {
+          output.push(output[output.length - back])
+        }
+      }
+    }
+  }
+
+  /**
+   * 读取动态霍夫曼编码的解码表
+   * @returns 字面量/长度解码表与距离解码表
+   */
+  const readDynamicTables = () => {
+    const literalCount = bits(5) + 257
+    const distanceCount = bits(5) + 1
+    const codeLengthCount = bits(4) + 4
+
+    const codeLengthLengths = new Uint8Array(19)
+    for (let i = 0; i < codeLengthCount; i++) {
+      codeLengthLengths[CODE_LENGTH_ORDER[i]] = bits(3)
+    }
+    const codeLengthHuffman = buildHuffman(codeLengthLengths)
+
+    const lengths = new Uint8Array(literalCount + distanceCount)
+    let index = 0
+    while (index < lengths.length) {
+      const symbol = decode(codeLengthHuffman)
+      if (symbol < 16) {
+        lengths[index++] = symbol
+        continue
+      }
+
+      let repeat: number
+      let value = 0
+      if (symbol === 16) {
+        if (index === 0) throw zipError('压缩数据已损坏')
+        value = lengths[index - 1]
+        repeat = 3 + bits(2)
+      } else if (symbol === 17) {
+        repeat = 3 + bits(3)
+      } else {
+        repeat = 11 + bits(7)
+      }
+      if (index + repeat > lengths.length) throw zipError('压缩数据已损坏')
+      lengths.fill(value, index, index + repeat)
+      index += repeat
+    }
+
+    return {
+      literal: buildHuffman(lengths.subarray(0, literalCount)),
+      distance: buildHuffman(lengths.subarray(literalCount))
+    }
+  }
+
+  let last = 0
+  while (!last) {
+    last = bits(1)
+    const type = bits(2)
+
+    if (type === 0) {
+      // 不压缩的块：跳到字节边界后读取长度
+      bitPosition = (bitPosition + 7) & ~7
+      const start = bitPosition >> 3
+      if (start + 4 > data.length) throw zipError('压缩数据不完整')
+      const length = data[start] | (data[start + 1] << 8)
+      const end = start + 4 + length
+      if (end > data.length) throw zipError('压缩数据不完整')
+      for (let i = start + 4; i < end; i++) output.push(data[i])
+      bitPosition = end << 3
+    } else if (type === 1) {
+      inflateBlock(FIXED_TABLES.literal, FIXED_TABLES.distance)
+    } else if (type === 2) {
+      const tables = readDynamicTables()
+      inflateBlock(tables.literal, tables.distance)
+    } else {
+      throw zipError('压缩数据已损坏')
+    }
+  }
+
+  return Uint8Array.from(output)
+}
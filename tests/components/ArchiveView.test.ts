@@ -0,0 +1,99 @@
+/**
+ * ArchiveView组件测试
+ *
+ * 测试ArchiveView组件的主要功能：
+ * 1. 展开/收起与归档项的显示
+ * 2. 搜索和日期范围筛选
+ * 3. 取消归档事件
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import ArchiveView from '@/components/ArchiveView.vue'
+import type { ArchivedTodo } from '@/types/todo'
+
+const createArchivedTodo = (id: string, overrides: Partial<ArchivedTodo> = {}): ArchivedTodo => ({
+  id,
+  title: `任务${id}`,
+  completed: true,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  archivedAt: new Date(2024, 1, 1, 12),
+  ...overrides
+})
+
+const mountExpanded = async (items: ArchivedTodo[]) => {
+  const wrapper = mount(ArchiveView, { props: { items } })
+  await wrapper.find('.archive-view__toggle').trigger('click')
+  return wrapper
+}
+
+describe('ArchiveView组件', () => {
+  it('默认收起，只显示数量', () => {
+    const wrapper = mount(ArchiveView, { props: { items: [createArchivedTodo('1')] } })
+
+    expect(wrapper.find('.archive-view__count').text()).toBe('1')
+    expect(wrapper.find('.archive-view__toggle').attributes('aria-expanded')).toBe('false')
+    expect(wrapper.find('.archive-view__panel').exists()).toBe(false)
+  })
+
+  it('展开后只列出顶层项，并显示子任务数量', async () => {
+    const wrapper = await mountExpanded([
+      createArchivedTodo('1'),
+      createArchivedTodo('2', { parentId: '1' })
+    ])
+
+    const items = wrapper.findAll('.archive-view__item')
+    expect(items).toHaveLength(1)
+    expect(items[0].find('.archive-view__title').text()).toBe('任务1')
+    expect(items[0].find('.archive-view__meta').text()).toContain('含 1 个子任务')
+  })
+
+  it('归档为空时显示提示', async () => {
+    const wrapper = await mountExpanded([])
+
+    expect(wrapper.find('.archive-view__placeholder').text()).toBe('还没有归档的待办事项')
+  })
+
+  it('按关键字搜索，没有结果时显示提示', async () => {
+    const wrapper = await mountExpanded([
+      createArchivedTodo('1', { title: '写报告' }),
+      createArchivedTodo('2', { title: '开会', tags: ['会议'] })
+    ])
+
+    await wrapper.find('.archive-view__search').setValue('会议')
+    expect(wrapper.findAll('.archive-view__title').map(item => item.text())).toEqual(['开会'])
+
+    await wrapper.find('.archive-view__search').setValue('不存在')
+    expect(wrapper.find('.archive-view__placeholder').text()).toBe('没有符合条件的归档')
+
+    await wrapper.find('.archive-view__reset').trigger('click')
+    expect(wrapper.findAll('.archive-view__item')).toHaveLength(2)
+  })
+
+  it('按归档日期范围筛选', async () => {
+    const wrapper = await mountExpanded([
+      createArchivedTodo('1', { archivedAt: new Date(2024, 0, 15) }),
+      createArchivedTodo('2', { archivedAt: new Date(2024, 1, 15) })
+    ])
+
+    const [from, to] = wrapper.findAll('.archive-view__date-input')
+    await from.setValue('2024-02-01')
+    expect(wrapper.findAll('.archive-view__title').map(item => item.text())).toEqual(['任务2'])
+
+    await from.setValue('')
+    await to.setValue('2024-01-15')
+    expect(wrapper.findAll('.archive-view__title').map(item => item.text())).toEqual(['任务1'])
+  })
+
+  it('点击取消归档时触发unarchive事件', async () => {
+    const wrapper = await mountExpanded([createArchivedTodo('1')])
+
+    await wrapper.find('.archive-view__action').trigger('click')
+
+    expect(wrapper.emitted('unarchive')).toEqual([['1']])
+  })
+})
@@ -0,0 +1,46 @@
+/**
+ * ImportExportPanel组件测试
+ *
+ * 测试ImportExportPanel组件的主要功能：
+ * 1. 按选择的格式触发导出事件
+ * 2. 选择文件后触发导入事件
+ * 3. 禁用状态
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import ImportExportPanel from '@/components/ImportExportPanel.vue'
+
+describe('ImportExportPanel组件', () => {
+  it('按选择的格式触发export事件', async () => {
+    const wrapper = mount(ImportExportPanel)
+    const exportButton = wrapper.findAll('.import-export-panel__action')[0]
+
+    await exportButton.trigger('click')
+    await wrapper.find('.import-export-panel__select').setValue('csv')
+    await exportButton.trigger('click')
+
+    expect(wrapper.emitted('export')).toEqual([['json'], ['csv']])
+  })
+
+  it('选择文件后触发import事件并清空文件输入框', async () => {
+    const wrapper = mount(ImportExportPanel)
+    const input = wrapper.find('.import-export-panel__file')
+    const file = new File(['{}'], 'backup.json')
+    Object.defineProperty(input.element, 'files', { value: [file] })
+
+    await input.trigger('change')
+
+    expect(wrapper.emitted('import')).toEqual([[file]])
+    expect((input.element as HTMLInputElement).value).toBe('')
+    expect(input.attributes('accept')).toBe('.json,.csv,.xlsx,.txt,.ics,.ical,.md,.markdown')
+  })
+
+  it('禁用时不能导入导出', () => {
+    const wrapper = mount(ImportExportPanel, { props: { disabled: true } })
+
+    wrapper.findAll('.import-export-panel__action').forEach(button => {
+      expect(button.attributes('disabled')).toBeDefined()
+    })
+  })
+})
@@ -0,0 +1,78 @@
+/**
+ * ImportPreviewDialog组件测试
+ *
+ * 测试ImportPreviewDialog组件的主要功能：
+ * 1. 显示新增、重复和无效数据的统计
+ * 2. 按选择的导入方式触发确认事件
+ * 3. 文件无效时不能确认
+ * 4. 取消导入
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import ImportPreviewDialog from '@/components/ImportPreviewDialog.vue'
+import type { Todo } from '@/types/todo'
+import type { ImportPreview } from '@/types/utils'
+
+const createMockTodo = (id: string): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+const createPreview = (overrides: Partial<ImportPreview<Todo>> = {}): ImportPreview<Todo> => ({
+  success: true,
+  items: [createMockTodo('1'), createMockTodo('2'), createMockTodo('3')],
+  newItems: [createMockTodo('1')],
+  duplicateIds: [createMockTodo('2')],
+  duplicateTitles: [createMockTodo('3')],
+  invalid: [{ row: 4, field: 'title', message: '标题不能为空' }],
+  total: 4,
+  ...overrides
+})
+
+describe('ImportPreviewDialog组件', () => {
+  it('显示统计和无效的行', () => {
+    const wrapper = mount(ImportPreviewDialog, { props: { preview: createPreview(), fileName: 'backup.json' } })
+
+    expect(wrapper.find('.import-preview-dialog__title').text()).toBe('导入 backup.json')
+    expect(wrapper.findAll('.import-preview-dialog__stat dd').map(item => item.text())).toEqual(['1', '1', '1', '1'])
+    expect(wrapper.find('.import-preview-dialog__invalid').text()).toBe('第 4 行（title）：标题不能为空')
+  })
+
+  it('按选择的导入方式触发confirm事件', async () => {
+    const wrapper = mount(ImportPreviewDialog, { props: { preview: createPreview(), fileName: 'backup.json' } })
+
+    await wrapper.find('input[value="merge"]').setValue()
+    await wrapper.find('.import-preview-dialog__button--primary').trigger('click')
+
+    expect(wrapper.emitted('confirm')).toEqual([['merge']])
+  })
+
+  it('文件无效时显示错误且不能确认', () => {
+    const wrapper = mount(ImportPreviewDialog, {
+      props: {
+        preview: createPreview({ success: false, items: [], invalid: [{ row: 1, message: 'JSON 格式无效' }] }),
+        fileName: 'broken.json'
+      }
+    })
+
+    expect(wrapper.find('.import-preview-dialog__error').text()).toBe('文件无效：JSON 格式无效')
+    expect(wrapper.find('.import-preview-dialog__button--primary').attributes('disabled')).toBeDefined()
+  })
+
+  it('点击取消、背景或按Esc时触发cancel事件', async () => {
+    const wrapper = mount(ImportPreviewDialog, { props: { preview: createPreview(), fileName: 'backup.json' } })
+
+    await wrapper.find('.import-preview-dialog__button').trigger('click')
+    await wrapper.find('.import-preview-dialog__backdrop').trigger('click')
+    await wrapper.find('.import-preview-dialog').trigger('keydown', { key: 'Escape' })
+
+    expect(wrapper.emitted('cancel')).toHaveLength(3)
+  })
+})
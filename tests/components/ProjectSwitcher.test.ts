@@ -0,0 +1,144 @@
+/**
+ * ProjectSwitcher组件测试
+ *
+ * 测试ProjectSwitcher组件的主要功能：
+ * 1. 列表选项和未完成数量的显示
+ * 2. 切换、新建、重命名列表
+ * 3. 调整顺序、归档和删除列表
+ * 4. 已归档列表的显示与恢复
+ */
+
+import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import ProjectSwitcher from '@/components/ProjectSwitcher.vue'
+import type { Project } from '@/types/todo'
+
+// 模拟confirm函数
+const mockConfirm = jest.fn() as jest.MockedFunction<typeof confirm>
+Object.defineProperty(global, 'confirm', {
+  value: mockConfirm,
+  writable: true
+})
+
+const createProject = (id: string, name: string, archived = false): Project => ({
+  id,
+  name,
+  archived,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+describe('ProjectSwitcher组件', () => {
+  const defaultProps = {
+    projects: [
+      createProject('default', '我的待办'),
+      createProject('work', '工作'),
+      createProject('old', '旧项目', true)
+    ],
+    currentProjectId: 'default',
+    counts: { default: 3, work: 1, old: 0 }
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('基础渲染', () => {
+    it('应该只显示未归档的列表及其未完成数量', () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+
+      const tabs = wrapper.findAll('.project-switcher__tab')
+      expect(tabs).toHaveLength(2)
+      expect(tabs[0].text()).toContain('我的待办')
+      expect(tabs[0].find('.project-switcher__count').text()).toBe('3')
+      expect(tabs[0].classes()).toContain('project-switcher__tab--active')
+      expect(tabs[0].attributes('aria-selected')).toBe('true')
+    })
+
+    it('应该在归档区域显示已归档的列表', () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+
+      const items = wrapper.findAll('.project-switcher__archived-item')
+      expect(items).toHaveLength(1)
+      expect(items[0].text()).toContain('旧项目')
+    })
+  })
+
+  describe('列表操作', () => {
+    it('点击其他列表时触发select事件', async () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+
+      await wrapper.findAll('.project-switcher__tab')[1].trigger('click')
+      await wrapper.findAll('.project-switcher__tab')[0].trigger('click')
+
+      expect(wrapper.emitted('select')).toEqual([['work']])
+    })
+
+    it('提交新列表名称时触发create事件并清空输入', async () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+      const input = wrapper.find('.project-switcher__create input')
+
+      await input.setValue('  学习  ')
+      await wrapper.find('.project-switcher__create').trigger('submit')
+
+      expect(wrapper.emitted('create')).toEqual([['学习']])
+      expect((input.element as HTMLInputElement).value).toBe('')
+    })
+
+    it('重命名当前列表时触发rename事件', async () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+
+      await wrapper.findAll('.project-switcher__action')[0].trigger('click')
+      const input = wrapper.find('.project-switcher__rename-input')
+      await input.setValue('收件箱')
+      await input.trigger('keydown.enter')
+
+      expect(wrapper.emitted('rename')).toEqual([['default', '收件箱']])
+      expect(wrapper.find('.project-switcher__rename-input').exists()).toBe(false)
+    })
+
+    it('左右移动当前列表时触发move事件', async () => {
+      const wrapper = mount(ProjectSwitcher, {
+        props: { ...defaultProps, currentProjectId: 'work' }
+      })
+
+      await wrapper.find('[aria-label="将列表左移"]').trigger('click')
+
+      expect(wrapper.emitted('move')).toEqual([['work', 0]])
+    })
+
+    it('只剩一个未归档的列表时禁用归档和删除', () => {
+      const wrapper = mount(ProjectSwitcher, {
+        props: { ...defaultProps, projects: [createProject('default', '我的待办')] }
+      })
+
+      const buttons = wrapper.findAll('.project-switcher__actions button')
+      const archive = buttons.find(button => button.text() === '归档')
+      const remove = buttons.find(button => button.text() === '删除')
+      expect(archive?.attributes('disabled')).toBeDefined()
+      expect(remove?.attributes('disabled')).toBeDefined()
+    })
+
+    it('确认后才触发delete事件', async () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+      const remove = wrapper.find('.project-switcher__actions .project-switcher__action--danger')
+
+      mockConfirm.mockReturnValue(false)
+      await remove.trigger('click')
+      expect(wrapper.emitted('delete')).toBeUndefined()
+
+      mockConfirm.mockReturnValue(true)
+      await remove.trigger('click')
+      expect(mockConfirm).toHaveBeenCalledWith('确定要删除列表"我的待办"及其中 3 个未完成的待办事项吗？')
+      expect(wrapper.emitted('delete')).toEqual([['default']])
+    })
+
+    it('点击恢复时触发archive事件', async () => {
+      const wrapper = mount(ProjectSwitcher, { props: defaultProps })
+
+      await wrapper.find('.project-switcher__archived-item button').trigger('click')
+
+      expect(wrapper.emitted('archive')).toEqual([['old', false]])
+    })
+  })
+})
@@ -171,7 +171,7 @@ describe('TodoInput', () => {
       await input.trigger('keydown.enter')
       
       expect(wrapper.emitted('submit')).toBeTruthy()
-      expect(wrapper.emitted('submit')?.[0]).toEqual(['测试待办事项'])
+      expect(wrapper.emitted('submit')?.[0]).toEqual(['测试待办事项', { priority: 'none', tags: [] }])
     })
 
     it('应该在输入为空时不响应回车键', async () => {
@@ -204,7 +204,7 @@ describe('TodoInput', () => {
       await submitButton.trigger('click')
       
       expect(wrapper.emitted('submit')).toBeTruthy()
-      expect(wrapper.emitted('submit')?.[0]).toEqual(['测试待办事项'])
+      expect(wrapper.emitted('submit')?.[0]).toEqual(['测试待办事项', { priority: 'none', tags: [] }])
     })
 
     it('应该在提交后清空输入框', async () => {
@@ -227,7 +227,52 @@ describe('TodoInput', () => {
       await input.setValue('  测试待办事项  ')
       await submitButton.trigger('click')
       
-      expect(wrapper.emitted('submit')?.[0]).toEqual(['测试待办事项'])
+      expect(wrapper.emitted('submit')?.[0]).toEqual(['测试待办事项', { priority: 'none', tags: [] }])
+    })
+  })
+
+  describe('优先级选择', () => {
+    it('应该随提交事件一起发出选择的优先级', async () => {
+      const wrapper = createWrapper()
+      const input = wrapper.find('.todo-input__field')
+      
+      await wrapper.find('.todo-input__priority').setValue('high')
+      await input.setValue('紧急修复')
+      await wrapper.find('.todo-input__submit').trigger('click')
+      
+      expect(wrapper.emitted('submit')?.[0]).toEqual(['紧急修复', { priority: 'high', tags: [] }])
+    })
+
+    it('应该在提交后重置优先级', async () => {
+      const wrapper = createWrapper()
+      const select = wrapper.find('.todo-input__priority')
+      
+      await select.setValue('urgent')
+      await wrapper.find('.todo-input__field').setValue('任务')
+      await wrapper.find('.todo-input__submit').trigger('click')
+      await nextTick()
+      
+      expect((select.element as HTMLSelectElement).value).toBe('none')
+    })
+  })
+
+  describe('标签解析', () => {
+    it('应该从标题中提取 #标签', async () => {
+      const wrapper = createWrapper()
+
+      await wrapper.find('.todo-input__field').setValue('修复登录问题 #bug #前端')
+      await wrapper.find('.todo-input__submit').trigger('click')
+
+      expect(wrapper.emitted('submit')?.[0]).toEqual(['修复登录问题', { priority: 'none', tags: ['bug', '前端'] }])
+    })
+
+    it('应该在标题只有标签时保留原文', async () => {
+      const wrapper = createWrapper()
+
+      await wrapper.find('.todo-input__field').setValue('#读书')
+      await wrapper.find('.todo-input__submit').trigger('click')
+
+      expect(wrapper.emitted('submit')?.[0]).toEqual(['#读书', { priority: 'none', tags: ['读书'] }])
     })
   })
 
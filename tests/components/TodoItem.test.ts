@@ -8,12 +8,17 @@
  * 4. 删除功能
  * 5. 键盘交互
  * 6. 无障碍访问
+ * 7. 子任务的渲染与折叠
+ * 8. 插件扩展点
+ * 9. 搜索结果高亮
  */
 
-import { describe, it, expect, jest, beforeEach } from '@jest/globals'
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
 import { mount, VueWrapper } from '@vue/test-utils'
 import TodoItem from '@/components/TodoItem.vue'
 import type { Todo } from '@/types/todo'
+import { defineComponent, h } from 'vue'
+import { registerPlugin, clearPlugins } from '@/utils/plugins'
 
 // 模拟confirm函数
 const mockConfirm = jest.fn() as jest.MockedFunction<typeof confirm>
@@ -28,6 +33,9 @@ describe('TodoItem组件', () => {
     id: 'test-todo-1',
     title: '测试待办事项',
     completed: false,
+    priority: 'none',
+    tags: [],
+    projectId: 'default',
     createdAt: new Date('2024-01-01T10:00:00Z'),
     updatedAt: new Date('2024-01-01T10:30:00Z')
   }
@@ -36,6 +44,9 @@ describe('TodoItem组件', () => {
     id: 'test-todo-2',
     title: '已完成的待办事项',
     completed: true,
+    priority: 'none',
+    tags: [],
+    projectId: 'default',
     createdAt: new Date('2024-01-01T09:00:00Z'),
     updatedAt: new Date('2024-01-01T09:30:00Z')
   }
@@ -298,24 +309,113 @@ describe('TodoItem组件', () => {
     })
   })
 
-  describe('删除功能', () => {
-    it('应该在点击删除按钮时显示确认对话框', async () => {
-      mockConfirm.mockReturnValue(true)
-      
+  describe('子任务', () => {
+    const childTodo: Todo = {
+      ...mockCompletedTodo,
+      id: 'child-1',
+      title: '子任务',
+      parentId: mockTodo.id
+    }
+    const subtaskProps = {
+      todo: mockTodo,
+      subtasks: [{ todo: childTodo, children: [] }],
+      progressMap: { [mockTodo.id]: { completed: 1, total: 2, rate: 50 } }
+    }
+
+    it('应该显示子任务完成进度和子任务列表', () => {
+      wrapper = mount(TodoItem, { props: subtaskProps })
+
+      expect(wrapper.find('.todo-item__subtask-fraction').text()).toBe('1/2')
+      expect(wrapper.find('.todo-item__progress-bar').attributes('style')).toContain('width: 50%')
+      expect(wrapper.findAll('.todo-item__title').map(el => el.text())).toEqual(['测试待办事项', '子任务'])
+      expect(wrapper.findAll('.todo-item--subtask')).toHaveLength(1)
+    })
+
+    it('应该可以折叠子任务列表', async () => {
+      wrapper = mount(TodoItem, { props: subtaskProps })
+      const toggle = wrapper.find('.todo-item__subtask-toggle')
+
+      expect(toggle.attributes('aria-expanded')).toBe('true')
+      await toggle.trigger('click')
+
+      expect(toggle.attributes('aria-expanded')).toBe('false')
+      expect(wrapper.find('.todo-item__subtask-list').isVisible()).toBe(false)
+    })
+
+    it('应该转发子任务触发的事件', async () => {
+      wrapper = mount(TodoItem, { props: subtaskProps })
+
+      await wrapper.findAll('.todo-item__checkbox')[1].trigger('change')
+
+      expect(wrapper.emitted('toggle')?.[0]).toEqual(['child-1'])
+    })
+
+    it('应该在输入后触发添加子任务事件', async () => {
+      wrapper = mount(TodoItem, { props: { todo: mockTodo } })
+      const input = wrapper.find('.todo-item__subtask-input')
+
+      await input.setValue('  新的子任务  ')
+      await input.trigger('keyup.enter')
+
+      expect(wrapper.emitted('add-subtask')?.[0]).toEqual([mockTodo.id, '新的子任务'])
+      expect((input.element as HTMLInputElement).value).toBe('')
+    })
+
+    it('达到最大层级时不显示添加子任务输入框', () => {
+      wrapper = mount(TodoItem, { props: { todo: mockTodo, depth: 3 } })
+
+      expect(wrapper.find('.todo-item__subtask-input').exists()).toBe(false)
+    })
+  })
+
+  describe('重复规则', () => {
+    it('选择常用规则时触发update-details事件', async () => {
+      wrapper = mount(TodoItem, { props: { todo: mockTodo } })
+
+      await wrapper.find('.todo-item__recurrence').setValue('weekdays')
+
+      expect(wrapper.emitted('update-details')?.[0]).toEqual([
+        mockTodo.id,
+        { recurrence: { frequency: 'weekly', weekdays: [1, 2, 3, 4, 5] } }
+      ])
+    })
+
+    it('自定义规则显示其描述', () => {
       wrapper = mount(TodoItem, {
-        props: { todo: mockTodo }
+        props: { todo: { ...mockTodo, recurrence: { frequency: 'daily', interval: 3 } } }
       })
+      const select = wrapper.find('.todo-item__recurrence')
 
-      const deleteButton = wrapper.find('.todo-item__delete')
-      await deleteButton.trigger('click')
+      expect((select.element as HTMLSelectElement).value).toBe('custom')
+      expect(select.text()).toContain('每3天')
+    })
+  })
+
+  describe('所属列表', () => {
+    const projects = [
+      { id: 'default', name: '我的待办', archived: false, createdAt: new Date(), updatedAt: new Date() },
+      { id: 'work', name: '工作', archived: false, createdAt: new Date(), updatedAt: new Date() }
+    ]
+
+    it('有多个列表时可以移动到其他列表', async () => {
+      wrapper = mount(TodoItem, { props: { todo: mockTodo, projects } })
 
-      // 检查是否调用了confirm函数
-      expect(mockConfirm).toHaveBeenCalledWith(`确定要删除待办事项"${mockTodo.title}"吗？`)
+      await wrapper.find('.todo-item__project').setValue('work')
+
+      expect(wrapper.emitted('update-details')?.[0]).toEqual([mockTodo.id, { projectId: 'work' }])
     })
 
-    it('应该在确认删除时触发delete事件', async () => {
-      mockConfirm.mockReturnValue(true)
-      
+    it('只有一个列表或作为子任务显示时不显示列表选择', () => {
+      wrapper = mount(TodoItem, { props: { todo: mockTodo, projects: projects.slice(0, 1) } })
+      expect(wrapper.find('.todo-item__project').exists()).toBe(false)
+
+      wrapper = mount(TodoItem, { props: { todo: mockTodo, projects, depth: 1 } })
+      expect(wrapper.find('.todo-item__project').exists()).toBe(false)
+    })
+  })
+
+  describe('删除功能', () => {
+    it('应该在点击删除按钮时直接触发delete事件', async () => {
       wrapper = mount(TodoItem, {
         props: { todo: mockTodo }
       })
@@ -328,18 +428,14 @@ describe('TodoItem组件', () => {
       expect(wrapper.emitted('delete')?.[0]).toEqual([mockTodo.id])
     })
 
-    it('应该在取消删除时不触发delete事件', async () => {
-      mockConfirm.mockReturnValue(false)
-      
+    it('删除时不再弹出确认对话框，由撤销提示代替', async () => {
       wrapper = mount(TodoItem, {
         props: { todo: mockTodo }
       })
 
-      const deleteButton = wrapper.find('.todo-item__delete')
-      await deleteButton.trigger('click')
+      await wrapper.find('.todo-item__delete').trigger('click')
 
-      // 检查是否没有触发delete事件
-      expect(wrapper.emitted('delete')).toBeFalsy()
+      expect(mockConfirm).not.toHaveBeenCalled()
     })
   })
 
@@ -578,19 +674,17 @@ describe('TodoItem组件', () => {
       expect(wrapper.emitted('update')).toBeTruthy()
     })
 
-    it('应该在删除确认对话框被意外关闭时正确处理', async () => {
-      // 模拟confirm返回undefined（用户关闭对话框）
-      mockConfirm.mockReturnValue(undefined as any)
-      
+    it('应该在快速连续点击删除时每次都触发delete事件', async () => {
       wrapper = mount(TodoItem, {
         props: { todo: mockTodo }
       })
 
       const deleteButton = wrapper.find('.todo-item__delete')
       await deleteButton.trigger('click')
+      await deleteButton.trigger('click')
 
-      // 不应该触发delete事件
-      expect(wrapper.emitted('delete')).toBeFalsy()
+      // 重复删除由store忽略，组件不做拦截
+      expect(wrapper.emitted('delete')).toHaveLength(2)
     })
   })
 
@@ -652,4 +746,83 @@ describe('TodoItem组件', () => {
       expect(todoItem.exists()).toBe(true)
     })
   })
+
+  describe('插件扩展点', () => {
+    afterEach(() => {
+      clearPlugins()
+    })
+
+    it('渲染插件放入的组件并传入待办事项', () => {
+      const Badge = defineComponent({
+        props: { todo: { type: Object, required: true } },
+        setup: props => () => h('span', { class: 'estimate-badge' }, `估时 ${(props.todo as Todo).title}`)
+      })
+      registerPlugin({ name: 'estimate', components: { 'todo-item:meta': Badge } })
+
+      wrapper = mount(TodoItem, {
+        props: { todo: mockTodo }
+      })
+
+      expect(wrapper.find('.estimate-badge').text()).toBe('估时 测试待办事项')
+    })
+  })
+
+  describe('搜索结果高亮', () => {
+    it('高亮标题和标签中的匹配内容', () => {
+      wrapper = mount(TodoItem, {
+        props: {
+          todo: { ...mockTodo, title: 'Write report, review REPORT', tags: ['reports'] },
+          highlight: { pattern: /report/i, className: 'custom-mark' }
+        }
+      })
+
+      const marks = wrapper.findAll('.todo-item__title .todo-item__highlight')
+      expect(marks.map(mark => mark.text())).toEqual(['report', 'REPORT'])
+      expect(marks[0].classes()).toContain('custom-mark')
+      expect(wrapper.find('.todo-item__title').text()).toBe('Write report, review REPORT')
+      expect(wrapper.find('.todo-item__tag .todo-item__highlight').text()).toBe('report')
+    })
+
+    it('标题中的HTML按文本显示，不会被解析', () => {
+      wrapper = mount(TodoItem, {
+        props: {
+          todo: { ...mockTodo, title: '<img src=x onerror=alert(1)> 任务' },
+          highlight: { pattern: /img/ }
+        }
+      })
+
+      expect(wrapper.find('.todo-item__title img').exists()).toBe(false)
+      expect(wrapper.find('.todo-item__title').text()).toBe('<img src=x onerror=alert(1)> 任务')
+      expect(wrapper.find('.todo-item__highlight').text()).toBe('img')
+    })
+
+    it('没有高亮配置时不渲染高亮元素', () => {
+      wrapper = mount(TodoItem, {
+        props: { todo: mockTodo }
+      })
+
+      expect(wrapper.find('.todo-item__highlight').exists()).toBe(false)
+      expect(wrapper.find('.todo-item__title').text()).toBe('测试待办事项')
+    })
+
+    it('按模糊搜索的匹配范围高亮', () => {
+      wrapper = mount(TodoItem, {
+        props: {
+          todo: { ...mockTodo, title: 'Deploy staging', tags: ['ops', 'deploy'] },
+          highlight: { pattern: /staging/ },
+          matchMap: {
+            [mockTodo.id]: [
+              { field: 'title', index: 0, ranges: [[0, 6]] },
+              { field: 'tags', index: 1, ranges: [[0, 3]] }
+            ]
+          }
+        }
+      })
+
+      expect(wrapper.findAll('.todo-item__title .todo-item__highlight').map(mark => mark.text())).toEqual(['Deploy'])
+      const tags = wrapper.findAll('.todo-item__tag')
+      expect(tags[0].find('.todo-item__highlight').exists()).toBe(false)
+      expect(tags[1].find('.todo-item__highlight').text()).toBe('dep')
+    })
+  })
 })
\ No newline at end of file
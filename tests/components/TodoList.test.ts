@@ -10,10 +10,12 @@
  * 6. 统计信息显示
  * 7. 响应式行为
  * 8. 无障碍访问
+ * 9. 拖拽排序
+ * 10. 搜索
  */
 
 import { describe, it, expect, jest, beforeEach } from '@jest/globals'
-import { mount, VueWrapper } from '@vue/test-utils'
+import { mount, flushPromises, VueWrapper } from '@vue/test-utils'
 import TodoList from '@/components/TodoList.vue'
 import TodoItem from '@/components/TodoItem.vue'
 import type { Todo, FilterType } from '@/types/todo'
@@ -32,6 +34,9 @@ describe('TodoList组件', () => {
       id: 'todo-1',
       title: '第一个待办事项',
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date('2024-01-01T10:00:00Z'),
       updatedAt: new Date('2024-01-01T10:00:00Z')
     },
@@ -39,6 +44,9 @@ describe('TodoList组件', () => {
       id: 'todo-2',
       title: '第二个待办事项',
       completed: true,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date('2024-01-01T11:00:00Z'),
       updatedAt: new Date('2024-01-01T11:30:00Z')
     },
@@ -46,6 +54,9 @@ describe('TodoList组件', () => {
       id: 'todo-3',
       title: '第三个待办事项',
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date('2024-01-01T12:00:00Z'),
       updatedAt: new Date('2024-01-01T12:00:00Z')
     }
@@ -383,9 +394,7 @@ describe('TodoList组件', () => {
       expect(clearCompletedBtn.exists()).toBe(false)
     })
 
-    it('应该在确认后触发clear-completed事件', async () => {
-      mockConfirm.mockReturnValue(true)
-      
+    it('应该在点击后直接触发clear-completed事件，不再弹出确认对话框', async () => {
       wrapper = mount(TodoList, {
         props: defaultProps
       })
@@ -393,25 +402,154 @@ describe('TodoList组件', () => {
       const clearCompletedBtn = wrapper.find('.todo-list__action-btn--danger')
       await clearCompletedBtn.trigger('click')
 
-      expect(mockConfirm).toHaveBeenCalledWith('确定要删除所有已完成的待办事项吗？')
+      expect(mockConfirm).not.toHaveBeenCalled()
       expect(wrapper.emitted('clear-completed')).toBeTruthy()
     })
 
-    it('应该在取消确认时不触发clear-completed事件', async () => {
-      mockConfirm.mockReturnValue(false)
-      
+    it('应该在点击归档按钮后触发archive-completed事件', async () => {
       wrapper = mount(TodoList, {
         props: defaultProps
       })
 
-      const clearCompletedBtn = wrapper.find('.todo-list__action-btn--danger')
-      await clearCompletedBtn.trigger('click')
+      await wrapper.find('.todo-list__action-btn--archive').trigger('click')
 
-      expect(mockConfirm).toHaveBeenCalled()
+      expect(wrapper.emitted('archive-completed')).toBeTruthy()
       expect(wrapper.emitted('clear-completed')).toBeFalsy()
     })
   })
 
+  describe('搜索', () => {
+    it('搜索没有结果时显示提示', () => {
+      wrapper = mount(TodoList, {
+        props: { ...defaultProps, todos: [], searching: true }
+      })
+
+      expect(wrapper.find('.todo-list__empty-title').text()).toBe('没有找到匹配的待办事项')
+    })
+
+    it('把高亮配置传给待办事项', () => {
+      const highlight = { pattern: /第一/ }
+      wrapper = mount(TodoList, {
+        props: { ...defaultProps, highlight }
+      })
+
+      expect(wrapper.findComponent(TodoItem).props('highlight')).toEqual(highlight)
+      expect(wrapper.find('.todo-item__highlight').text()).toBe('第一')
+    })
+  })
+
+  describe('拖拽排序', () => {
+    // 模拟上层应用移动：按目标位置调整 todos 后更新 props
+    const mountReorderable = () => {
+      const mounted = mount(TodoList, {
+        props: {
+          ...defaultProps,
+          reorderable: true,
+          'onMove-todo': (id: string, toIndex: number) => {
+            const todos = [...mounted.props('todos') as Todo[]]
+            const [todo] = todos.splice(todos.findIndex(item => item.id === id), 1)
+            todos.splice(toIndex, 0, todo)
+            mounted.setProps({ todos })
+          }
+        },
+        attachTo: document.body
+      })
+      return mounted
+    }
+
+    it('默认不显示拖动手柄', () => {
+      wrapper = mount(TodoList, { props: defaultProps })
+
+      expect(wrapper.find('.todo-list__drag-handle').exists()).toBe(false)
+      expect(wrapper.find('[role="status"]').exists()).toBe(false)
+    })
+
+    it('应该在拖放后触发move-todo事件', async () => {
+      wrapper = mountReorderable()
+      const wrappers = wrapper.findAll('.todo-list__item-wrapper')
+
+      await wrappers[0].find('.todo-list__drag-handle').trigger('dragstart')
+      await wrappers[2].trigger('dragover')
+      expect(wrappers[2].classes()).toContain('todo-list__item-wrapper--drop-target')
+
+      await wrappers[2].trigger('drop')
+      await flushPromises()
+
+      expect(wrapper.emitted('move-todo')).toEqual([['todo-1', 2]])
+      expect(wrapper.find('[role="status"]').text()).toBe('已将“第一个待办事项”移动到第 3 项，共 3 项')
+      expect(wrapper.find('.todo-list__item-wrapper--drop-target').exists()).toBe(false)
+      wrapper.unmount()
+    })
+
+    it('没有开始拖动时忽略放下，放回原位时不触发事件', async () => {
+      wrapper = mountReorderable()
+      const wrappers = wrapper.findAll('.todo-list__item-wrapper')
+
+      await wrappers[1].trigger('drop')
+      await wrappers[1].find('.todo-list__drag-handle').trigger('dragstart')
+      await wrappers[1].trigger('drop')
+
+      expect(wrapper.emitted('move-todo')).toBeFalsy()
+      wrapper.unmount()
+    })
+
+    it('应该支持触摸拖动', async () => {
+      wrapper = mountReorderable()
+      const wrappers = wrapper.findAll('.todo-list__item-wrapper')
+      const original = document.elementFromPoint
+      document.elementFromPoint = jest.fn(() => wrappers[0].element) as any
+
+      try {
+        const handle = wrappers[2].find('.todo-list__drag-handle')
+        await handle.trigger('touchstart')
+        await handle.trigger('touchmove', { touches: [{ clientX: 10, clientY: 10 }] })
+        await handle.trigger('touchend')
+      } finally {
+        document.elementFromPoint = original
+      }
+
+      expect(wrapper.emitted('move-todo')).toEqual([['todo-3', 0]])
+      wrapper.unmount()
+    })
+
+    it('应该支持Alt+方向键移动并保持焦点', async () => {
+      wrapper = mountReorderable()
+      const handles = wrapper.findAll('.todo-list__drag-handle')
+
+      await handles[1].trigger('keydown', { key: 'ArrowUp', altKey: true })
+      await flushPromises()
+      await handles[1].trigger('keydown', { key: 'ArrowUp' })
+      await handles[1].trigger('keydown', { key: 'ArrowUp', altKey: true })
+      await handles[1].trigger('keydown', { key: 'ArrowDown', altKey: true })
+      await flushPromises()
+
+      expect(wrapper.emitted('move-todo')).toEqual([['todo-2', 0], ['todo-2', 1]])
+      expect(document.activeElement).toBe(handles[1].element)
+      expect(handles[1].attributes('aria-describedby')).toBe('todo-list-reorder-hint')
+      wrapper.unmount()
+    })
+
+    it('上层拒绝移动或已在边界时不播报移动成功', async () => {
+      wrapper = mount(TodoList, {
+        props: { ...defaultProps, reorderable: true },
+        attachTo: document.body
+      })
+      const handles = wrapper.findAll('.todo-list__drag-handle')
+      const status = () => wrapper.find('[role="status"]').text()
+
+      await handles[0].trigger('keydown', { key: 'ArrowUp', altKey: true })
+      await flushPromises()
+      expect(wrapper.emitted('move-todo')).toBeFalsy()
+      expect(status()).toBe('')
+
+      await handles[2].trigger('keydown', { key: 'ArrowUp', altKey: true })
+      await flushPromises()
+      expect(wrapper.emitted('move-todo')).toEqual([['todo-3', 1]])
+      expect(status()).toBe('未能移动“第三个待办事项”')
+      wrapper.unmount()
+    })
+  })
+
   describe('显示控制', () => {
     it('应该在showHeader为false时隐藏头部', () => {
       wrapper = mount(TodoList, {
@@ -506,6 +644,9 @@ describe('TodoList组件', () => {
         id: 'todo-4',
         title: '新的待办事项',
         completed: false,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
         createdAt: new Date(),
         updatedAt: new Date()
       }]
@@ -563,10 +704,13 @@ describe('TodoList组件', () => {
     })
 
     it('应该正确处理大量待办事项', () => {
-      const largeTodoList = Array.from({ length: 100 }, (_, i) => ({
+      const largeTodoList: Todo[] = Array.from({ length: 100 }, (_, i) => ({
         id: `todo-${i}`,
         title: `待办事项 ${i + 1}`,
         completed: i % 2 === 0,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
         createdAt: new Date(),
         updatedAt: new Date()
       }))
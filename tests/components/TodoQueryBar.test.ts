@@ -0,0 +1,55 @@
+/**
+ * TodoQueryBar组件测试
+ *
+ * 测试TodoQueryBar组件的主要功能：
+ * 1. 按 Enter 或点击按钮应用查询
+ * 2. 清除查询
+ * 3. 错误信息与出错的部分
+ */
+
+import { describe, it, expect } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import TodoQueryBar from '@/components/TodoQueryBar.vue'
+
+describe('TodoQueryBar组件', () => {
+  it('按Enter或点击应用按钮时触发apply事件', async () => {
+    const wrapper = mount(TodoQueryBar, { props: { query: '' } })
+    const input = wrapper.find('.todo-query-bar__input')
+
+    await input.setValue(' is:active tag:工作 ')
+    await input.trigger('keydown', { key: 'Enter' })
+    await wrapper.find('.todo-query-bar__apply').trigger('click')
+
+    expect(wrapper.emitted('apply')).toEqual([['is:active tag:工作'], ['is:active tag:工作']])
+  })
+
+  it('按Esc或点击清除按钮时清除查询', async () => {
+    const wrapper = mount(TodoQueryBar, { props: { query: 'is:active' } })
+    const input = wrapper.find('.todo-query-bar__input')
+
+    expect((input.element as HTMLInputElement).value).toBe('is:active')
+    expect(wrapper.find('.todo-query-bar__apply').attributes('disabled')).toBeDefined()
+
+    await input.trigger('keydown', { key: 'Escape' })
+    expect((input.element as HTMLInputElement).value).toBe('')
+
+    await wrapper.setProps({ query: 'tag:a' })
+    await wrapper.find('.todo-query-bar__clear').trigger('click')
+
+    expect(wrapper.emitted('apply')).toEqual([[''], ['']])
+  })
+
+  it('显示错误信息和出错的部分，没有错误时显示语法说明', async () => {
+    const wrapper = mount(TodoQueryBar, { props: { query: '' } })
+    expect(wrapper.find('.todo-query-bar__help').exists()).toBe(true)
+
+    await wrapper.find('.todo-query-bar__input').setValue('is:pending')
+    await wrapper.setProps({ error: { message: '第 1 个字符：无效的状态 "pending"', start: 0, end: 10 } })
+
+    const alert = wrapper.find('[role="alert"]')
+    expect(alert.text()).toContain('无效的状态 "pending"')
+    expect(wrapper.find('.todo-query-bar__excerpt').text()).toBe('is:pending')
+    expect(wrapper.find('.todo-query-bar__input').attributes('aria-invalid')).toBe('true')
+    expect(wrapper.find('.todo-query-bar__help').exists()).toBe(false)
+  })
+})
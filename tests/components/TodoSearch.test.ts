@@ -0,0 +1,90 @@
+/**
+ * TodoSearch组件测试
+ *
+ * 测试TodoSearch组件的主要功能：
+ * 1. 输入防抖与清除
+ * 2. 区分大小写和正则表达式开关
+ * 3. 错误信息与结果数量
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import TodoSearch from '@/components/TodoSearch.vue'
+
+describe('TodoSearch组件', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('停止输入后才触发search事件', async () => {
+    const wrapper = mount(TodoSearch, { props: { query: '' } })
+    const input = wrapper.find('.todo-search__input')
+
+    await input.setValue('报')
+    await input.setValue('报告')
+    expect(wrapper.emitted('search')).toBeFalsy()
+
+    jest.advanceTimersByTime(200)
+    expect(wrapper.emitted('search')).toEqual([['报告']])
+  })
+
+  it('按Esc或点击清除按钮时立即清除', async () => {
+    const wrapper = mount(TodoSearch, { props: { query: '报告' } })
+
+    expect((wrapper.find('.todo-search__input').element as HTMLInputElement).value).toBe('报告')
+    await wrapper.find('.todo-search__input').setValue('报告2')
+    await wrapper.find('.todo-search__input').trigger('keydown', { key: 'Escape' })
+    jest.advanceTimersByTime(200)
+
+    expect(wrapper.emitted('search')).toEqual([['']])
+    expect(wrapper.find('.todo-search__clear').exists()).toBe(false)
+  })
+
+  it('关键字在外部被清除时同步到输入框', async () => {
+    const wrapper = mount(TodoSearch, { props: { query: '报告' } })
+
+    await wrapper.setProps({ query: '' })
+
+    expect((wrapper.find('.todo-search__input').element as HTMLInputElement).value).toBe('')
+  })
+
+  it('切换区分大小写和正则表达式', async () => {
+    const wrapper = mount(TodoSearch, { props: { query: '', caseSensitive: true } })
+    const [caseButton, regexButton] = wrapper.findAll('.todo-search__option')
+
+    expect(caseButton.attributes('aria-pressed')).toBe('true')
+    expect(regexButton.attributes('aria-pressed')).toBe('false')
+
+    await caseButton.trigger('click')
+    await regexButton.trigger('click')
+
+    expect(wrapper.emitted('update-options')).toEqual([[{ caseSensitive: false }], [{ useRegex: true }]])
+  })
+
+  it('切换模糊匹配，此时区分大小写和正则表达式不可用', async () => {
+    const wrapper = mount(TodoSearch, { props: { query: '', fuzzy: true } })
+    const [caseButton, regexButton, fuzzyButton] = wrapper.findAll('.todo-search__option')
+
+    expect(fuzzyButton.attributes('aria-pressed')).toBe('true')
+    expect(caseButton.attributes('disabled')).toBeDefined()
+    expect(regexButton.attributes('disabled')).toBeDefined()
+
+    await fuzzyButton.trigger('click')
+    expect(wrapper.emitted('update-options')).toEqual([[{ fuzzy: false }]])
+  })
+
+  it('显示错误信息，没有错误时显示结果数量', async () => {
+    const wrapper = mount(TodoSearch, { props: { query: '(', useRegex: true, error: '无效的正则表达式', resultCount: 3 } })
+
+    expect(wrapper.find('[role="alert"]').text()).toBe('无效的正则表达式')
+    expect(wrapper.find('.todo-search__input').attributes('aria-invalid')).toBe('true')
+    expect(wrapper.find('.todo-search__summary').exists()).toBe(false)
+
+    await wrapper.setProps({ query: '报告', error: null })
+    expect(wrapper.find('.todo-search__summary').text()).toBe('找到 3 项')
+  })
+})
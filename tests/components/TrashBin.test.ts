@@ -0,0 +1,103 @@
+/**
+ * TrashBin组件测试
+ *
+ * 测试TrashBin组件的主要功能：
+ * 1. 展开/收起与回收站项的显示
+ * 2. 恢复、彻底删除和清空事件
+ * 3. 保留天数的修改
+ */
+
+import { describe, it, expect, jest, afterEach } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import TrashBin from '@/components/TrashBin.vue'
+import type { TrashedTodo } from '@/types/todo'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const createTrashedTodo = (id: string, overrides: Partial<TrashedTodo> = {}): TrashedTodo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  deletedAt: new Date(Date.now() - 2 * DAY),
+  ...overrides
+})
+
+const mountExpanded = async (items: TrashedTodo[], retentionDays = 30) => {
+  const wrapper = mount(TrashBin, { props: { items, retentionDays } })
+  await wrapper.find('.trash-bin__toggle').trigger('click')
+  return wrapper
+}
+
+describe('TrashBin组件', () => {
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('默认收起，只显示数量', () => {
+    const wrapper = mount(TrashBin, { props: { items: [createTrashedTodo('1')], retentionDays: 30 } })
+
+    expect(wrapper.find('.trash-bin__count').text()).toBe('1')
+    expect(wrapper.find('.trash-bin__toggle').attributes('aria-expanded')).toBe('false')
+    expect(wrapper.find('.trash-bin__panel').exists()).toBe(false)
+  })
+
+  it('展开后只列出顶层项，并显示子任务数量和剩余天数', async () => {
+    const wrapper = await mountExpanded([
+      createTrashedTodo('1'),
+      createTrashedTodo('2', { parentId: '1' })
+    ])
+
+    const items = wrapper.findAll('.trash-bin__item')
+    expect(items).toHaveLength(1)
+    expect(items[0].find('.trash-bin__title').text()).toBe('任务1')
+    expect(items[0].find('.trash-bin__meta').text()).toContain('含 1 个子任务')
+    expect(items[0].find('.trash-bin__meta').text()).toContain('28 天后彻底删除')
+  })
+
+  it('回收站为空时显示提示', async () => {
+    const wrapper = await mountExpanded([])
+
+    expect(wrapper.find('.trash-bin__placeholder').text()).toBe('回收站是空的')
+    expect(wrapper.find('.trash-bin__empty').exists()).toBe(false)
+  })
+
+  it('点击恢复时触发restore事件', async () => {
+    const wrapper = await mountExpanded([createTrashedTodo('1')])
+
+    await wrapper.findAll('.trash-bin__action')[0].trigger('click')
+
+    expect(wrapper.emitted('restore')).toEqual([['1']])
+  })
+
+  it('确认后才触发purge和empty事件', async () => {
+    const confirmSpy = jest.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValue(true)
+    const wrapper = await mountExpanded([createTrashedTodo('1')])
+
+    await wrapper.find('.trash-bin__action--danger').trigger('click')
+    expect(wrapper.emitted('purge')).toBeUndefined()
+
+    await wrapper.find('.trash-bin__action--danger').trigger('click')
+    await wrapper.find('.trash-bin__empty').trigger('click')
+
+    expect(confirmSpy).toHaveBeenCalledTimes(3)
+    expect(wrapper.emitted('purge')).toEqual([['1']])
+    expect(wrapper.emitted('empty')).toHaveLength(1)
+  })
+
+  it('修改保留天数时触发update-retention事件，无效输入恢复原值', async () => {
+    const wrapper = await mountExpanded([], 30)
+    const input = wrapper.find('.trash-bin__retention-input')
+
+    await input.setValue('7')
+    expect(wrapper.emitted('update-retention')).toEqual([[7]])
+
+    await input.setValue('0')
+    expect(wrapper.emitted('update-retention')).toHaveLength(1)
+    expect((input.element as HTMLInputElement).value).toBe('30')
+  })
+})
@@ -0,0 +1,67 @@
+/**
+ * UndoToast组件测试
+ *
+ * 测试UndoToast组件的主要功能：
+ * 1. 提示内容和按钮的显示
+ * 2. 撤销和关闭事件
+ * 3. 超时自动关闭
+ */
+
+import { describe, it, expect, jest, beforeEach, afterEach } from '@jest/globals'
+import { mount } from '@vue/test-utils'
+import UndoToast from '@/components/UndoToast.vue'
+
+describe('UndoToast组件', () => {
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  it('应该显示提示内容和撤销按钮', () => {
+    const wrapper = mount(UndoToast, { props: { message: '已删除"买菜"' } })
+
+    expect(wrapper.find('.undo-toast__message').text()).toBe('已删除"买菜"')
+    expect(wrapper.find('.undo-toast__action').text()).toBe('撤销')
+    expect(wrapper.attributes('role')).toBe('status')
+  })
+
+  it('点击撤销按钮时触发undo事件，且不再自动关闭', async () => {
+    const wrapper = mount(UndoToast, { props: { message: '已删除', duration: 1000 } })
+
+    await wrapper.find('.undo-toast__action').trigger('click')
+    jest.advanceTimersByTime(1000)
+
+    expect(wrapper.emitted('undo')).toHaveLength(1)
+    expect(wrapper.emitted('close')).toBeUndefined()
+  })
+
+  it('点击关闭按钮时触发close事件', async () => {
+    const wrapper = mount(UndoToast, { props: { message: '已删除' } })
+
+    await wrapper.find('.undo-toast__close').trigger('click')
+
+    expect(wrapper.emitted('close')).toHaveLength(1)
+  })
+
+  it('超时后自动触发close事件', () => {
+    const wrapper = mount(UndoToast, { props: { message: '已删除', duration: 3000 } })
+
+    jest.advanceTimersByTime(2999)
+    expect(wrapper.emitted('close')).toBeUndefined()
+
+    jest.advanceTimersByTime(1)
+    expect(wrapper.emitted('close')).toHaveLength(1)
+  })
+
+  it('卸载时清除定时器', () => {
+    const wrapper = mount(UndoToast, { props: { message: '已删除', duration: 3000 } })
+
+    wrapper.unmount()
+    jest.advanceTimersByTime(3000)
+
+    expect(wrapper.emitted('close')).toBeUndefined()
+  })
+})
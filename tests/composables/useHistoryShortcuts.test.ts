@@ -0,0 +1,79 @@
+/**
+ * useHistoryShortcuts 组合式函数测试
+ * 
+ * 测试撤销/重做快捷键的识别与注册：
+ * 1. 快捷键组合的识别
+ * 2. 可编辑元素中不拦截
+ * 3. 组件挂载和卸载时注册与清理监听器
+ */
+
+import { defineComponent, h } from 'vue'
+import { mount } from '@vue/test-utils'
+import { useHistoryShortcuts, getHistoryShortcut } from '@/composables/useHistoryShortcuts'
+
+const createKeyEvent = (key: string, init: KeyboardEventInit = {}) =>
+  new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true, ...init })
+
+describe('useHistoryShortcuts', () => {
+  const onUndo = jest.fn()
+  const onRedo = jest.fn()
+
+  const TestComponent = defineComponent({
+    setup() {
+      useHistoryShortcuts({ onUndo, onRedo })
+      return () => h('div', [h('input', { class: 'field' })])
+    }
+  })
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('getHistoryShortcut', () => {
+    it('应该识别撤销和重做组合键', () => {
+      expect(getHistoryShortcut(createKeyEvent('z', { ctrlKey: true }))).toBe('undo')
+      expect(getHistoryShortcut(createKeyEvent('z', { metaKey: true }))).toBe('undo')
+      expect(getHistoryShortcut(createKeyEvent('Z', { ctrlKey: true, shiftKey: true }))).toBe('redo')
+      expect(getHistoryShortcut(createKeyEvent('y', { ctrlKey: true }))).toBe('redo')
+    })
+
+    it('其他按键返回null', () => {
+      expect(getHistoryShortcut(createKeyEvent('z'))).toBeNull()
+      expect(getHistoryShortcut(createKeyEvent('z', { ctrlKey: true, altKey: true }))).toBeNull()
+      expect(getHistoryShortcut(createKeyEvent('a', { ctrlKey: true }))).toBeNull()
+    })
+  })
+
+  it('挂载后响应全局快捷键并阻止默认行为', () => {
+    const wrapper = mount(TestComponent)
+
+    const undoEvent = createKeyEvent('z', { ctrlKey: true })
+    window.dispatchEvent(undoEvent)
+    window.dispatchEvent(createKeyEvent('z', { ctrlKey: true, shiftKey: true }))
+
+    expect(onUndo).toHaveBeenCalledTimes(1)
+    expect(onRedo).toHaveBeenCalledTimes(1)
+    expect(undoEvent.defaultPrevented).toBe(true)
+
+    wrapper.unmount()
+  })
+
+  it('焦点在输入框中时保留浏览器默认的撤销', () => {
+    const wrapper = mount(TestComponent, { attachTo: document.body })
+
+    wrapper.find('.field').element.dispatchEvent(createKeyEvent('z', { ctrlKey: true }))
+
+    expect(onUndo).not.toHaveBeenCalled()
+
+    wrapper.unmount()
+  })
+
+  it('卸载后移除监听器', () => {
+    const wrapper = mount(TestComponent)
+    wrapper.unmount()
+
+    window.dispatchEvent(createKeyEvent('z', { ctrlKey: true }))
+
+    expect(onUndo).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,187 @@
+/**
+ * useImportExport 组合式函数测试
+ * 
+ * 测试界面上的导入导出：
+ * 1. 读取文件并与 Store 中的数据对比生成预览
+ * 2. 确认后通过 Store 导入，可以撤销
+ * 3. 不支持的文件格式
+ * 4. 导出并下载文件
+ */
+
+import { createPinia, setActivePinia } from 'pinia'
+import { useTodoStore } from '@/stores/todoStore'
+import { useImportExport, getTransferFormat } from '@/composables/useImportExport'
+import type { Todo } from '@/types/todo'
+
+const createTestTodo = (id: string, title: string): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+const createJsonFile = (todos: Todo[], name = 'backup.json') => new File([JSON.stringify({ todos })], name)
+
+describe('useImportExport', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('按扩展名识别格式', () => {
+    expect(getTransferFormat('Backup.JSON')?.value).toBe('json')
+    expect(getTransferFormat('todos.csv')?.value).toBe('csv')
+    expect(getTransferFormat('todos.xlsx')?.value).toBe('xlsx')
+    expect(getTransferFormat('todo.txt')?.value).toBe('todotxt')
+    expect(getTransferFormat('calendar.ics')?.value).toBe('ical')
+    expect(getTransferFormat('tasks.md')?.value).toBe('markdown')
+    expect(getTransferFormat('notes')).toBeUndefined()
+  })
+
+  it('预览与 Store 中的数据对比，确认后通过 Store 导入', async () => {
+    const store = useTodoStore()
+    const existing = store.addTodo('现有任务')
+    const transfer = useImportExport()
+
+    const preview = await transfer.previewFile(createJsonFile([
+      createTestTodo(existing.id, '现有任务'),
+      createTestTodo('new', '新任务')
+    ]))
+
+    expect(preview!.duplicateIds).toHaveLength(1)
+    expect(preview!.newItems.map(todo => todo.id)).toEqual(['new'])
+    expect(transfer.fileName.value).toBe('backup.json')
+    expect(store.todos).toHaveLength(1)
+
+    expect(transfer.commitImport('merge')).toBe(true)
+    expect(store.todos.map(todo => todo.title)).toEqual(['现有任务', '新任务'])
+    expect(transfer.preview.value).toBeNull()
+
+    store.undo()
+    expect(store.todos).toHaveLength(1)
+  })
+
+  it('导入CSV表格', async () => {
+    const store = useTodoStore()
+    const transfer = useImportExport()
+
+    const preview = await transfer.previewFile(new File(['title,tags\n写报告,工作'], 'todos.csv'))
+
+    expect(preview!.newItems).toHaveLength(1)
+    expect(transfer.commitImport('append')).toBe(true)
+    expect(store.todos[0]).toMatchObject({ title: '写报告', tags: ['工作'] })
+    expect(store.tags.map(tag => tag.name)).toEqual(['工作'])
+  })
+
+  it('导入todo.txt', async () => {
+    const store = useTodoStore()
+    const transfer = useImportExport()
+
+    await transfer.previewFile(new File(['(A) 修复线上问题 +工作 @电脑\nx 2024-01-02 已完成的任务'], 'todo.txt'))
+
+    expect(transfer.commitImport('append')).toBe(true)
+    expect(store.todos.map(todo => [todo.title, todo.priority, todo.completed])).toEqual([
+      ['修复线上问题', 'urgent', false],
+      ['已完成的任务', 'none', true]
+    ])
+  })
+
+  it('导入iCalendar', async () => {
+    const store = useTodoStore()
+    const transfer = useImportExport()
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VTODO',
+      'UID:meeting-1',
+      'SUMMARY:准备周会',
+      'DUE;VALUE=DATE:20240115',
+      'END:VTODO',
+      'END:VCALENDAR'
+    ].join('\r\n')
+
+    await transfer.previewFile(new File([ics], 'calendar.ics'))
+
+    expect(transfer.commitImport('append')).toBe(true)
+    expect(store.todos[0]).toMatchObject({ title: '准备周会', dueDate: new Date(2024, 0, 15) })
+  })
+
+  it('导入Markdown任务列表', async () => {
+    const store = useTodoStore()
+    const work = store.createProject('工作')
+    const transfer = useImportExport()
+    const markdown = ['## 工作', '- [ ] 写报告', '  - [x] 收集数据', '## 其他', '- [ ] 买牛奶'].join('\n')
+
+    const preview = await transfer.previewFile(new File([markdown], 'tasks.md'))
+
+    expect(preview!.newItems).toHaveLength(3)
+    expect(transfer.commitImport('append')).toBe(true)
+    const [report, data, milk] = store.todos
+    expect(report).toMatchObject({ title: '写报告', projectId: work.id })
+    expect(data).toMatchObject({ title: '收集数据', completed: true, parentId: report.id, projectId: work.id })
+    expect(milk).toMatchObject({ title: '买牛奶', projectId: store.currentProjectId })
+  })
+
+  it('导出并重新导入Excel工作簿', async () => {
+    const store = useTodoStore()
+    store.addTodo('表格任务', { priority: 'high' })
+    const blobs: Blob[] = []
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      blobs.push(blob)
+      return 'blob:todos'
+    })
+    URL.revokeObjectURL = jest.fn()
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+    const transfer = useImportExport()
+
+    transfer.exportTodos('xlsx')
+    const preview = await transfer.previewFile(new File([blobs[0]], 'todos.xlsx'))
+
+    expect(preview!.duplicateIds).toHaveLength(1)
+    expect(transfer.commitImport('append')).toBe(true)
+    expect(store.todos.map(todo => [todo.title, todo.priority])).toEqual([['表格任务', 'high'], ['表格任务', 'high']])
+    click.mockRestore()
+  })
+
+  it('文件无效时不能导入', async () => {
+    const store = useTodoStore()
+    const transfer = useImportExport()
+
+    const preview = await transfer.previewFile(new File(['{'], 'broken.json'))
+
+    expect(preview!.success).toBe(false)
+    expect(transfer.commitImport('append')).toBe(false)
+    expect(store.todos).toHaveLength(0)
+  })
+
+  it('不支持的文件格式设置错误信息', async () => {
+    const store = useTodoStore()
+    const transfer = useImportExport()
+
+    expect(await transfer.previewFile(new File(['x'], 'notes.doc'))).toBeNull()
+    expect(store.error).toBe('不支持的文件格式：notes.doc')
+    expect(transfer.preview.value).toBeNull()
+  })
+
+  it('导出为文件并下载', async () => {
+    const store = useTodoStore()
+    store.addTodo('任务')
+    const blobs: Blob[] = []
+    URL.createObjectURL = jest.fn((blob: Blob) => {
+      blobs.push(blob)
+      return 'blob:todos'
+    })
+    URL.revokeObjectURL = jest.fn()
+    const click = jest.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {})
+
+    useImportExport().exportTodos('json')
+
+    expect(click).toHaveBeenCalledTimes(1)
+    expect(blobs[0].type).toBe('application/json')
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith('blob:todos')
+    click.mockRestore()
+  })
+})
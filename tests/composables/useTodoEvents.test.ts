@@ -0,0 +1,52 @@
+/**
+ * useTodoEvents 组合式函数测试
+ * 
+ * 测试在组件中订阅 Store 的事件：
+ * 1. 组件挂载期间收到事件
+ * 2. 组件卸载时自动取消订阅
+ */
+
+import { defineComponent, h } from 'vue'
+import { mount } from '@vue/test-utils'
+import { createPinia, setActivePinia } from 'pinia'
+import { useTodoStore } from '@/stores/todoStore'
+import { useTodoEvent } from '@/composables/useTodoEvents'
+
+describe('useTodoEvent', () => {
+  beforeEach(() => {
+    setActivePinia(createPinia())
+  })
+
+  it('组件卸载时自动取消订阅', () => {
+    const listener = jest.fn()
+    const TestComponent = defineComponent({
+      setup() {
+        useTodoEvent('todo:added', listener)
+        return () => h('div')
+      }
+    })
+    const store = useTodoStore()
+    const wrapper = mount(TestComponent)
+
+    store.addTodo('任务')
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ todo: expect.objectContaining({ title: '任务' }) }))
+
+    wrapper.unmount()
+    store.addTodo('另一个任务')
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(store.events.listenerCount()).toBe(0)
+  })
+
+  it('在组件之外调用时返回取消订阅的函数', () => {
+    const listener = jest.fn()
+    const store = useTodoStore()
+    const stop = useTodoEvent('filter:changed', listener)
+
+    store.setFilter('completed')
+    stop()
+    store.setFilter('all')
+
+    expect(listener).toHaveBeenCalledTimes(1)
+  })
+})
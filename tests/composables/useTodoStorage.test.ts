@@ -9,8 +9,12 @@
  */
 
 import { nextTick } from 'vue'
+import { createPinia, setActivePinia } from 'pinia'
 import { useTodoStorage } from '@/composables/useTodoStorage'
+import { useTodoStore } from '@/stores/todoStore'
+import { registerPlugin, clearPlugins } from '@/utils/plugins'
 import type { Todo } from '@/types/todo'
+import { STORAGE_CONFIG } from '@/types'
 
 // 等待函数，用于测试异步操作
 const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
@@ -20,6 +24,9 @@ const createTestTodo = (id: string, title: string, completed = false): Todo => (
   id,
   title,
   completed,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
   createdAt: new Date('2024-01-01T10:00:00Z'),
   updatedAt: new Date('2024-01-01T10:00:00Z')
 })
@@ -29,6 +36,7 @@ describe('useTodoStorage 组合式函数测试', () => {
     // 清空localStorage
     localStorage.clear()
     jest.clearAllMocks()
+    setActivePinia(createPinia())
   })
 
   describe('基础功能', () => {
@@ -336,6 +344,172 @@ describe('useTodoStorage 组合式函数测试', () => {
       expect(success).toBe(false)
     })
 
+    test('importData 按ID合并时保留较新的数据且不覆盖设置', () => {
+      const storage = useTodoStorage()
+      const newer = new Date('2024-02-01T00:00:00Z')
+
+      storage.todos.value.value = [createTestTodo('1', 'Local Todo'), createTestTodo('2', 'Local Only')]
+      const success = storage.importData(JSON.stringify({
+        todos: [{ ...createTestTodo('1', 'Imported Todo'), updatedAt: newer }, createTestTodo('3', 'Imported Only')],
+        settings: { theme: 'dark' }
+      }), 'merge')
+
+      expect(success).toBe(true)
+      expect(storage.todos.value.value.map(todo => todo.title)).toEqual(['Imported Todo', 'Local Only', 'Imported Only'])
+      expect(storage.settings.get('theme')).toBe('auto')
+    })
+
+    test('previewImport 与 Store 中的数据对比并且不修改数据', async () => {
+      const storage = useTodoStorage()
+      const store = useTodoStore()
+
+      store.todos = [createTestTodo('1', 'Existing'), createTestTodo('2', 'Same Title')]
+      const preview = await storage.previewImport(JSON.stringify({
+        todos: [
+          createTestTodo('1', 'Existing'),
+          createTestTodo('3', ' same title '),
+          createTestTodo('4', 'Brand New'),
+          createTestTodo('5', 'x'),
+          { id: '6', title: 'Broken' }
+        ]
+      }), {
+        validationRules: [{ name: 'titleLength', validator: (todo: Todo) => todo.title.length > 1, message: '标题太短' }]
+      })
+
+      expect(preview.success).toBe(true)
+      expect(preview.total).toBe(5)
+      expect(preview.newItems.map(todo => todo.id)).toEqual(['4'])
+      expect(preview.duplicateIds.map(todo => todo.id)).toEqual(['1'])
+      expect(preview.duplicateTitles.map(todo => todo.id)).toEqual(['3'])
+      expect(preview.invalid).toEqual([
+        { row: 4, field: 'titleLength', message: '标题太短' },
+        { row: 5, field: 'completed', value: '', message: '完成状态必须是布尔值' },
+        { row: 5, field: 'createdAt', value: '', message: '日期格式无效' },
+        { row: 5, field: 'updatedAt', value: '', message: '日期格式无效' }
+      ])
+      expect(store.todos).toHaveLength(2)
+    })
+
+    test('commitImport 按选择的策略通过 Store 导入，可以撤销', async () => {
+      const storage = useTodoStorage()
+      const store = useTodoStore()
+      const json = JSON.stringify({ todos: [createTestTodo('1', 'Imported'), createTestTodo('2', 'Imported 2')] })
+
+      store.todos = [createTestTodo('1', 'Local')]
+      expect(storage.commitImport(await storage.previewImport(json), 'append')).toBe(true)
+      expect(store.todos.map(todo => todo.title)).toEqual(['Local', 'Imported', 'Imported 2'])
+      expect(new Set(store.todos.map(todo => todo.id)).size).toBe(3)
+
+      expect(storage.commitImport(await storage.previewImport(json), 'replace')).toBe(true)
+      expect(store.todos.map(todo => todo.title)).toEqual(['Imported', 'Imported 2'])
+
+      store.undo()
+      expect(store.todos.map(todo => todo.title)).toEqual(['Local', 'Imported', 'Imported 2'])
+
+      expect(storage.commitImport(await storage.previewImport('invalid json {'), 'replace')).toBe(false)
+      expect(store.todos).toHaveLength(3)
+    })
+
+    test('exportData 按配置导出CSV', () => {
+      const storage = useTodoStorage()
+
+      storage.todos.value.value = [createTestTodo('1', 'CSV Todo', true)]
+
+      const csv = storage.exportData({ format: 'csv', fieldMapping: { title: 'Title', completed: 'Done' } })
+
+      expect(csv).toBe('Title,Done\r\nCSV Todo,true')
+    })
+
+    test('importCsv 通过 Store 追加导入的Todo并重新生成冲突的ID', async () => {
+      const storage = useTodoStorage()
+      const store = useTodoStore()
+
+      store.todos = [createTestTodo('1', 'Existing')]
+
+      const result = await storage.importCsv('id,title,parentId\n1,Parent,\n2,Child,1')
+
+      expect(result.success).toBe(true)
+      expect(store.todos).toHaveLength(3)
+      const [, parent, child] = store.todos
+      expect(parent.id).not.toBe('1')
+      expect(child.parentId).toBe(parent.id)
+      expect(result.data.map(todo => todo.id)).toEqual([parent.id, child.id])
+      expect(store.undoLabel).toBe('导入待办事项')
+    })
+
+    test('importCsv 有错误时不修改现有数据', async () => {
+      const storage = useTodoStorage()
+      const store = useTodoStore()
+
+      store.todos = [createTestTodo('1', 'Existing')]
+
+      const result = await storage.importCsv('title,completed\nBad,maybe')
+
+      expect(result.success).toBe(false)
+      expect(result.errors[0]).toMatchObject({ row: 2, field: 'completed' })
+      expect(store.todos).toHaveLength(1)
+    })
+
+    test('importCsv 被 Store 拒绝时返回失败', async () => {
+      const storage = useTodoStorage()
+      const store = useTodoStore()
+
+      registerPlugin({ name: 'broken', hooks: { beforeAdd: input => ({ ...input, fields: { other: 1 } }) } })
+
+      const result = await storage.importCsv('title\nTodo')
+      clearPlugins()
+
+      expect(result).toMatchObject({ success: false, data: [], skipped: 1 })
+      expect(store.error).toBe('未知的字段：other')
+      expect(store.todos).toHaveLength(0)
+    })
+
+    test('exportXlsx 与 importXlsx 往返导入', async () => {
+      const storage = useTodoStorage()
+
+      storage.todos.value.value = [createTestTodo('1', 'Sheet Todo', true)]
+      const xlsx = storage.exportXlsx()
+
+      const result = await storage.importXlsx(xlsx)
+
+      expect(result.success).toBe(true)
+      expect(useTodoStore().todos).toEqual([expect.objectContaining({ title: 'Sheet Todo', completed: true })])
+      expect(() => storage.exportData({ format: 'xlsx' })).toThrow('exportXlsx')
+    })
+
+    test('exportTodoTxt 与 importTodoTxt 往返导入', () => {
+      const storage = useTodoStorage()
+
+      storage.todos.value.value = [createTestTodo('1', 'Plain Todo', true)]
+      const text = storage.exportTodoTxt()
+
+      const result = storage.importTodoTxt(`${text}\n\n(A) Urgent Todo @home`)
+
+      expect(result.success).toBe(true)
+      expect(result.total).toBe(2)
+      const store = useTodoStore()
+      expect(store.todos).toHaveLength(2)
+      expect(store.todos[0]).toMatchObject({ title: 'Plain Todo', completed: true })
+      expect(store.todos[1]).toMatchObject({ title: 'Urgent Todo', priority: 'urgent', tags: ['home'] })
+      expect(store.tags.map(tag => tag.name)).toEqual(['home'])
+    })
+
+    test('exportICal 与 importICal 往返导入', () => {
+      const storage = useTodoStorage()
+
+      const store = useTodoStore()
+      storage.todos.value.value = [createTestTodo('1', 'Calendar Todo', true)]
+      store.todos = [createTestTodo('1', 'Calendar Todo', true)]
+      const ics = storage.exportICal()
+
+      const result = storage.importICal(ics)
+
+      expect(result.success).toBe(true)
+      expect(store.todos).toHaveLength(2)
+      expect(store.todos[1].id).not.toBe('1')
+      expect(store.todos[1]).toMatchObject({ title: 'Calendar Todo', completed: true })
+    })
+
     test('clearAllData 清除所有数据', () => {
       const storage = useTodoStorage()
       
@@ -392,8 +566,9 @@ describe('useTodoStorage 组合式函数测试', () => {
       expect(storedTodos).not.toBeNull()
       
       const parsedTodos = JSON.parse(storedTodos!)
-      expect(parsedTodos).toHaveLength(1)
-      expect(parsedTodos[0].title).toBe('Auto Save Todo')
+      expect(parsedTodos.schemaVersion).toBe(STORAGE_CONFIG.SCHEMA_VERSION)
+      expect(parsedTodos.data).toHaveLength(1)
+      expect(parsedTodos.data[0].title).toBe('Auto Save Todo')
     })
 
     test('从localStorage恢复数据', async () => {
@@ -420,14 +595,50 @@ describe('useTodoStorage 组合式函数测试', () => {
     })
   })
 
+  describe('数据版本', () => {
+    test('读取带版本号的数据并用于导出和统计', async () => {
+      localStorage.setItem('vue-todo-list:todos', JSON.stringify({
+        schemaVersion: STORAGE_CONFIG.SCHEMA_VERSION,
+        data: [createTestTodo('1', 'Versioned Todo', true), createTestTodo('2', 'Another Todo')]
+      }))
+
+      const storage = useTodoStorage()
+      await wait(10)
+
+      expect(storage.totalCount.value).toBe(2)
+      expect(storage.todos.value.value[0].createdAt).toBeInstanceOf(Date)
+      expect(storage.exportData({ format: 'csv', fieldMapping: { title: 'Title' } })).toBe('Title\r\nVersioned Todo\r\nAnother Todo')
+
+      const preview = await storage.previewImport(JSON.stringify({ todos: [createTestTodo('3', 'New Todo')] }))
+      expect(preview.newItems).toHaveLength(1)
+    })
+
+    test('加载完成前的修改不会被覆盖', async () => {
+      localStorage.setItem('vue-todo-list:todos', JSON.stringify([createTestTodo('1', 'Stored Todo')]))
+
+      const storage = useTodoStorage()
+      storage.addTodo('Local Todo')
+      await wait(10)
+
+      expect(storage.todos.value.value.map(todo => todo.title)).toEqual(['Local Todo'])
+    })
+  })
+
   describe('边界情况和错误处理', () => {
-    test('处理空字符串标题', () => {
+    test('拒绝空字符串标题', () => {
+      const storage = useTodoStorage()
+      
+      expect(() => storage.addTodo('   ')).toThrow('待办事项标题不能为空')
+      expect(storage.totalCount.value).toBe(0)
+    })
+
+    test('updateTodo 拒绝过长的标题', () => {
       const storage = useTodoStorage()
       
-      const todo = storage.addTodo('   ')
+      const todo = storage.addTodo('Valid')
       
-      expect(todo.title).toBe('')
-      expect(storage.totalCount.value).toBe(1)
+      expect(storage.updateTodo(todo.id, { title: 'a'.repeat(201) })).toBe(false)
+      expect(storage.todos.value.value[0].title).toBe('Valid')
     })
 
     test('处理重复ID的情况', () => {
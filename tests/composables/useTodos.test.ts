@@ -42,6 +42,9 @@ describe('useTodos组合式函数', () => {
       id: 'todo-1',
       title: '第一个待办事项',
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date('2024-01-01T10:00:00Z'),
       updatedAt: new Date('2024-01-01T10:00:00Z')
     },
@@ -49,6 +52,9 @@ describe('useTodos组合式函数', () => {
       id: 'todo-2',
       title: '第二个待办事项',
       completed: true,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date('2024-01-01T11:00:00Z'),
       updatedAt: new Date('2024-01-01T11:30:00Z')
     },
@@ -56,6 +62,9 @@ describe('useTodos组合式函数', () => {
       id: 'todo-3',
       title: '第三个待办事项',
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date('2024-01-01T12:00:00Z'),
       updatedAt: new Date('2024-01-01T12:00:00Z')
     }
@@ -139,7 +148,10 @@ describe('useTodos组合式函数', () => {
         total: 3,
         completed: 1,
         active: 2,
-        completionRate: 33
+        completionRate: 33,
+        topLevel: 3,
+        subtasks: 0,
+        trashed: 0
       })
     })
 
@@ -162,6 +174,9 @@ describe('useTodos组合式函数', () => {
         id: 'todo-4',
         title: '新的待办事项',
         completed: false,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -278,6 +293,83 @@ describe('useTodos组合式函数', () => {
       expect(store.addMultipleTodos).toHaveBeenCalledWith(['标题1', '标题2'])
       expect(result).toEqual(newTodos)
     })
+
+    it('应该能够导出Markdown任务列表', () => {
+      const todoApi = useTodos({ autoInit: false })
+      store.todos = [mockTodos[0], { ...mockTodos[1], parentId: 'todo-1' }]
+
+      expect(todoApi.exportMarkdown()).toBe('## 我的待办\n\n- [ ] 第一个待办事项\n  - [x] 第二个待办事项')
+    })
+
+    it('应该能够导入Markdown任务列表并匹配列表标题', async () => {
+      const todoApi = useTodos({ autoInit: false })
+      const work = store.createProject('工作')
+
+      const result = await todoApi.importMarkdown([
+        '- [x] 当前列表',
+        '## 工作',
+        '- [ ] 写报告',
+        '  - [x] 收集数据',
+        '## 不存在的列表',
+        '- [ ] 回到当前列表'
+      ].join('\n'))
+
+      expect(result.map(todo => [todo.title, todo.completed, todo.projectId])).toEqual([
+        ['当前列表', true, 'default'],
+        ['写报告', false, work.id],
+        ['收集数据', true, work.id],
+        ['回到当前列表', false, 'default']
+      ])
+      expect(result[2].parentId).toBe(result[1].id)
+    })
+
+    it('没有任务列表项时导入失败', async () => {
+      const onError = jest.fn()
+      const todoApi = useTodos({ autoInit: false, onError })
+
+      const result = await todoApi.importMarkdown('普通文本')
+
+      expect(result).toEqual([])
+      expect(onError).toHaveBeenCalled()
+    })
+  })
+
+  describe('撤销与重做', () => {
+    it('应该能够撤销和重做操作', async () => {
+      const todoApi = useTodos({ autoInit: false })
+
+      await todoApi.deleteTodo('todo-1')
+      expect(todoApi.canUndo.value).toBe(true)
+
+      expect(todoApi.undo()).toBe(true)
+      expect(store.todos).toHaveLength(3)
+      expect(todoApi.canRedo.value).toBe(true)
+
+      expect(todoApi.redo()).toBe(true)
+      expect(store.todos).toHaveLength(2)
+    })
+
+    it('撤销成功时触发onChange回调', async () => {
+      const onChange = jest.fn()
+      const todoApi = useTodos({ autoInit: false, onChange })
+      // 使用副本，避免切换状态时修改共享的测试数据
+      store.todos = mockTodos.map(todo => ({ ...todo }))
+
+      await todoApi.toggleTodo('todo-1')
+      onChange.mockClear()
+      todoApi.undo()
+
+      expect(onChange).toHaveBeenCalledWith(store.todos)
+    })
+
+    it('应该能够配置历史记录条数', () => {
+      useTodos({ autoInit: false, historyLimit: 10 })
+      expect(store.historyLimit).toBe(10)
+
+      const todoApi = useTodos({ autoInit: false })
+      expect(todoApi.setHistoryLimit(20)).toBe(true)
+      expect(store.historyLimit).toBe(20)
+    })
   })
 
   describe('工具方法', () => {
@@ -383,6 +475,15 @@ describe('useTodos组合式函数', () => {
       expect(mockWatch).toHaveBeenCalled()
     })
 
+    it('应该在shortcuts为true时注册撤销/重做快捷键', () => {
+      useTodos({ autoInit: false })
+      const defaultCalls = mockOnMounted.mock.calls.length
+
+      useTodos({ autoInit: false, shortcuts: true })
+
+      expect(mockOnMounted.mock.calls.length - defaultCalls).toBe(defaultCalls + 1)
+    })
+
     it('应该在组件卸载时清理监听器', () => {
       const onChange = jest.fn()
       
@@ -401,6 +502,9 @@ describe('useTodos组合式函数', () => {
         id: 'new-todo',
         title: '待办事项1',
         completed: false,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
         createdAt: new Date(),
         updatedAt: new Date()
       }
@@ -499,7 +603,10 @@ describe('useTodos组合式函数', () => {
         total: 0,
         completed: 0,
         active: 0,
-        completionRate: 0
+        completionRate: 0,
+        topLevel: 0,
+        subtasks: 0,
+        trashed: 0
       })
       expect(todoApi.hasTodos.value).toBe(false)
       expect(todoApi.isEmpty.value).toBe(true)
@@ -8,12 +8,25 @@
  * 4. 错误处理
  * 5. 批量操作
  * 6. 本地存储集成
+ * 7. 多标签页同步
+ * 8. 事件总线
+ * 9. 插件钩子与插件字段
+ * 10. 回收站
+ * 11. 归档
+ * 12. 手动排序
+ * 13. 全文搜索
  */
 
 import { createPinia, setActivePinia } from 'pinia'
 import { useTodoStore } from '@/stores/todoStore'
-import type { Todo, FilterType } from '@/types/todo'
+import type { Todo, FilterType, TrashedTodo } from '@/types/todo'
 import * as todoStorage from '@/utils/todoStorage'
+import { getStorageAdapter, setStorageAdapter } from '@/utils/storage'
+import { createMemoryAdapter } from '@/utils/storageAdapters'
+import { configureValidation, resetValidation } from '@/utils/validation'
+import { ErrorCode } from '@/types/error'
+import { registerPlugin, clearPlugins } from '@/utils/plugins'
+import * as fuzzy from '@/utils/fuzzy'
 
 // Mock todoStorage functions
 let mockIdCounter = 0
@@ -22,7 +35,16 @@ jest.mock('@/utils/todoStorage', () => ({
   saveTodos: jest.fn(),
   loadTodos: jest.fn(),
   saveFilter: jest.fn(),
-  loadFilter: jest.fn()
+  loadFilter: jest.fn(),
+  saveTags: jest.fn(),
+  loadTags: jest.fn(),
+  saveProjects: jest.fn(),
+  loadProjects: jest.fn(),
+  saveTrash: jest.fn(),
+  loadTrash: jest.fn(),
+  saveArchive: jest.fn(),
+  loadArchive: jest.fn(),
+  resetStoredData: jest.fn()
 }))
 
 describe('useTodoStore', () => {
@@ -37,10 +59,18 @@ describe('useTodoStore', () => {
     mockIdCounter = 0
     
     // 设置默认的mock返回值
-    ;(todoStorage.saveTodos as jest.Mock).mockReturnValue({ success: true })
-    ;(todoStorage.saveFilter as jest.Mock).mockReturnValue({ success: true })
-    ;(todoStorage.loadTodos as jest.Mock).mockReturnValue({ success: true, data: [] })
-    ;(todoStorage.loadFilter as jest.Mock).mockReturnValue({ success: true, data: 'all' })
+    ;(todoStorage.saveTodos as jest.Mock).mockResolvedValue({ success: true })
+    ;(todoStorage.saveFilter as jest.Mock).mockResolvedValue({ success: true })
+    ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({ success: true, data: [] })
+    ;(todoStorage.loadFilter as jest.Mock).mockResolvedValue({ success: true, data: 'all' })
+    ;(todoStorage.saveTags as jest.Mock).mockResolvedValue({ success: true })
+    ;(todoStorage.loadTags as jest.Mock).mockResolvedValue({ success: true, data: [] })
+    ;(todoStorage.saveProjects as jest.Mock).mockResolvedValue({ success: true })
+    ;(todoStorage.loadProjects as jest.Mock).mockResolvedValue({ success: true, data: null })
+    ;(todoStorage.saveTrash as jest.Mock).mockResolvedValue({ success: true })
+    ;(todoStorage.loadTrash as jest.Mock).mockResolvedValue({ success: true, data: null })
+    ;(todoStorage.saveArchive as jest.Mock).mockResolvedValue({ success: true })
+    ;(todoStorage.loadArchive as jest.Mock).mockResolvedValue({ success: true, data: [] })
   })
 
   describe('初始状态', () => {
@@ -103,6 +133,22 @@ describe('useTodoStore', () => {
       expect(store.error).toBe('待办事项标题不能超过200个字符')
     })
 
+    it('应该使用运行时配置的标题长度限制', () => {
+      const store = useTodoStore()
+      configureValidation({ MAX_TITLE_LENGTH: 5 })
+      
+      try {
+        expect(() => store.addTodo('abcdef')).toThrow(expect.objectContaining({ code: ErrorCode.TITLE_TOO_LONG }))
+        expect(store.addMultipleTodos(['ok', 'too long'])).toEqual([])
+        expect(store.error).toBe('待办事项标题不能超过5个字符')
+        
+        const todo = store.addTodo('short')
+        expect(store.updateTodo(todo.id, 'longer')).toBe(false)
+      } finally {
+        resetValidation()
+      }
+    })
+
     it('应该自动修剪标题的空白字符', () => {
       const store = useTodoStore()
       const title = '  测试待办事项  '
@@ -247,361 +293,2263 @@ describe('useTodoStore', () => {
     })
   })
 
-  describe('计算属性', () => {
-    beforeEach(() => {
+  describe('截止日期', () => {
+    const daysFromNow = (days: number): Date => {
+      const date = new Date()
+      date.setDate(date.getDate() + days)
+      return date
+    }
+
+    it('应该能够添加带有开始和截止日期的待办事项', () => {
       const store = useTodoStore()
-      // 添加测试数据
-      store.addTodo('任务1')
-      store.addTodo('任务2')
-      const todo3 = store.addTodo('任务3')
-      store.toggleTodo(todo3.id)
+      const startDate = daysFromNow(-1)
+      const dueDate = daysFromNow(3)
+      
+      const todo = store.addTodo('有期限的任务', { startDate, dueDate })
+      
+      expect(todo.startDate).toEqual(startDate)
+      expect(todo.dueDate).toEqual(dueDate)
     })
 
-    it('应该正确计算completedCount', () => {
+    it('应该拒绝开始日期晚于截止日期', () => {
       const store = useTodoStore()
-      expect(store.completedCount).toBe(1)
+      
+      expect(() => {
+        store.addTodo('错误的日期', { startDate: daysFromNow(5), dueDate: daysFromNow(1) })
+      }).toThrow('开始日期不能晚于截止日期')
+      expect(store.todos).toHaveLength(0)
     })
 
-    it('应该正确计算activeCount', () => {
+    it('应该能够通过updateTodo设置和清除截止日期', () => {
       const store = useTodoStore()
-      expect(store.activeCount).toBe(2)
+      const todo = store.addTodo('任务')
+      const dueDate = daysFromNow(2)
+      
+      expect(store.updateTodo(todo.id, { dueDate })).toBe(true)
+      expect(store.todos[0].dueDate).toEqual(dueDate)
+      expect(store.todos[0].title).toBe('任务')
+      
+      expect(store.updateTodo(todo.id, { dueDate: null })).toBe(true)
+      expect(store.todos[0].dueDate).toBeUndefined()
     })
 
-    it('应该正确计算totalCount', () => {
+    it('应该正确计算逾期、今天到期和即将到期的待办事项', () => {
       const store = useTodoStore()
-      expect(store.totalCount).toBe(3)
+      store.addTodo('逾期', { dueDate: daysFromNow(-2) })
+      store.addTodo('今天', { dueDate: new Date() })
+      store.addTodo('三天后', { dueDate: daysFromNow(3) })
+      store.addTodo('很久以后', { dueDate: daysFromNow(30) })
+      store.addTodo('没有期限')
+      const done = store.addTodo('已完成的逾期任务', { dueDate: daysFromNow(-5) })
+      store.toggleTodo(done.id)
+      
+      expect(store.overdueTodos.map(t => t.title)).toEqual(['逾期'])
+      expect(store.dueTodayTodos.map(t => t.title)).toEqual(['今天'])
+      expect(store.upcomingTodos.map(t => t.title)).toEqual(['三天后'])
+      expect(store.overdueCount).toBe(1)
+      expect(store.dueTodayCount).toBe(1)
+      expect(store.upcomingCount).toBe(1)
     })
 
-    it('应该正确计算hasTodos', () => {
+    it('应该支持按截止日期过滤', () => {
       const store = useTodoStore()
-      expect(store.hasTodos).toBe(true)
+      store.addTodo('逾期', { dueDate: daysFromNow(-1) })
+      store.addTodo('即将到期', { dueDate: daysFromNow(1) })
       
-      store.clearAllTodos()
-      expect(store.hasTodos).toBe(false)
+      store.setFilter('overdue')
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['逾期'])
+      
+      store.setFilter('upcoming')
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['即将到期'])
+      
+      store.setFilter('today')
+      expect(store.filteredTodos).toHaveLength(0)
     })
+  })
 
-    it('应该正确计算allCompleted', () => {
+  describe('优先级与排序', () => {
+    it('新建待办事项默认没有优先级', () => {
       const store = useTodoStore()
       
-      // 清空现有数据，重新开始测试
-      store.clearAllTodos()
-      expect(store.allCompleted).toBe(false)
+      expect(store.addTodo('普通任务').priority).toBe('none')
+      expect(store.addTodo('紧急任务', { priority: 'urgent' }).priority).toBe('urgent')
+    })
+
+    it('应该拒绝无效的优先级', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
       
-      // 添加新任务
-      const todo1 = store.addTodo('任务1')
-      const todo2 = store.addTodo('任务2')
-      expect(store.allCompleted).toBe(false)
+      expect(() => store.addTodo('错误', { priority: 'critical' as any })).toThrow('无效的优先级')
+      expect(store.updateTodo(todo.id, { priority: 'critical' as any })).toBe(false)
+      expect(store.todos[0].priority).toBe('none')
+    })
+
+    it('应该能够通过updateTodo修改优先级', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
       
-      // 完成所有任务
-      store.toggleTodo(todo1.id)
-      store.toggleTodo(todo2.id)
-      expect(store.allCompleted).toBe(true)
+      expect(store.updateTodo(todo.id, { priority: 'high' })).toBe(true)
+      expect(store.todos[0].priority).toBe('high')
     })
 
-    it('应该能够根据ID查找待办事项', () => {
+    it('应该能够按优先级排序过滤后的待办事项', () => {
       const store = useTodoStore()
-      const firstTodo = store.todos[0]
+      store.addTodo('低', { priority: 'low' })
+      store.addTodo('紧急', { priority: 'urgent' })
+      const done = store.addTodo('高（已完成）', { priority: 'high' })
+      store.addTodo('中', { priority: 'medium' })
+      store.toggleTodo(done.id)
       
-      const foundTodo = store.getTodoById(firstTodo.id)
-      expect(foundTodo).toBe(firstTodo)
+      store.setSortConfig({ field: 'priority', direction: 'desc' })
+      store.setFilter('active')
       
-      const notFound = store.getTodoById('non-existent-id')
-      expect(notFound).toBeUndefined()
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['紧急', '中', '低'])
+      // 排序不影响原始列表的顺序
+      expect(store.todos.map(t => t.title)).toEqual(['低', '紧急', '高（已完成）', '中'])
+      
+      store.setSortConfig(null)
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['低', '紧急', '中'])
     })
   })
 
-  describe('批量操作', () => {
-    it('应该能够切换所有待办事项状态', () => {
+  describe('标签', () => {
+    it('应该在添加待办事项时登记新标签', () => {
       const store = useTodoStore()
-      store.addTodo('任务1')
-      store.addTodo('任务2')
-      store.addTodo('任务3')
       
-      // 全部完成
-      store.toggleAllTodos(true)
-      expect(store.todos.every(todo => todo.completed)).toBe(true)
+      const todo = store.addTodo('修复登录', { tags: ['#bug', 'frontend', 'bug'] })
       
-      // 全部未完成
-      store.toggleAllTodos(false)
-      expect(store.todos.every(todo => !todo.completed)).toBe(true)
+      expect(todo.tags).toEqual(['bug', 'frontend'])
+      expect(store.tags.map(tag => tag.name)).toEqual(['bug', 'frontend'])
+      expect(store.tagCounts).toEqual({ bug: 1, frontend: 1 })
     })
 
-    it('应该能够清除已完成的待办事项', () => {
+    it('应该拒绝非法的标签名称', () => {
       const store = useTodoStore()
-      const uncompletedTodo = store.addTodo('未完成任务')
-      const completedTodo = store.addTodo('已完成任务')
-      store.toggleTodo(completedTodo.id)
-      
-      const clearedCount = store.clearCompleted()
       
-      expect(clearedCount).toBe(1)
-      expect(store.todos).toHaveLength(1)
-      expect(store.todos[0].id).toBe(uncompletedTodo.id)
-      expect(store.todos[0].title).toBe('未完成任务')
+      expect(() => store.addTodo('任务', { tags: ['带 空格'] })).toThrow('标签名称不能包含空格')
+      expect(() => store.createTag('a'.repeat(31))).toThrow('标签名称不能超过30个字符')
+      expect(store.todos).toHaveLength(0)
     })
 
-    it('应该能够添加多个待办事项', () => {
+    it('应该创建标签并拒绝重复名称和非法颜色', () => {
       const store = useTodoStore()
-      const titles = ['任务1', '任务2', '任务3']
       
-      const newTodos = store.addMultipleTodos(titles)
+      const tag = store.createTag('work', '#ff0000')
       
-      expect(newTodos).toHaveLength(3)
-      expect(store.todos).toHaveLength(3)
-      expect(store.todos.map(todo => todo.title)).toEqual(titles)
+      expect(tag.color).toBe('#ff0000')
+      expect(() => store.createTag('#work')).toThrow('标签 work 已存在')
+      expect(() => store.createTag('home', 'red')).toThrow('无效的标签颜色')
+      expect(store.recolorTag('work', '#00ff00')).toBe(true)
+      expect(store.getTagByName('work')?.color).toBe('#00ff00')
     })
 
-    it('应该过滤空标题', () => {
+    it('重命名标签应该同步到所有待办事项和过滤条件', () => {
       const store = useTodoStore()
-      const titles = ['任务1', '', '任务2', '   ', '任务3']
+      const a = store.addTodo('任务A', { tags: ['bug'] })
+      const b = store.addTodo('任务B', { tags: ['bug', 'ui'] })
+      store.addTodo('任务C', { tags: ['ui'] })
+      store.setTagFilter(['bug'])
       
-      const newTodos = store.addMultipleTodos(titles)
+      expect(store.renameTag('bug', 'defect')).toBe(true)
       
-      expect(newTodos).toHaveLength(3)
-      expect(store.todos).toHaveLength(3)
+      expect(store.getTodoById(a.id)?.tags).toEqual(['defect'])
+      expect(store.getTodoById(b.id)?.tags).toEqual(['defect', 'ui'])
+      expect(store.tagFilter).toEqual(['defect'])
+      expect(store.tags.map(tag => tag.name)).toEqual(['defect', 'ui'])
     })
-  })
 
-  describe('状态管理', () => {
-    it('应该能够设置加载状态', () => {
+    it('重命名为已存在的标签时应该失败', () => {
       const store = useTodoStore()
+      store.addTodo('任务', { tags: ['bug', 'ui'] })
       
-      store.setLoading(true)
-      expect(store.loading).toBe(true)
-      
-      store.setLoading(false)
-      expect(store.loading).toBe(false)
+      expect(store.renameTag('bug', 'ui')).toBe(false)
+      expect(store.error).toContain('已存在')
+      expect(store.renameTag('missing', 'x')).toBe(false)
     })
 
-    it('应该能够设置和清除错误', () => {
+    it('合并标签应该去重并移除源标签', () => {
       const store = useTodoStore()
+      const todo = store.addTodo('任务', { tags: ['bug', 'defect', 'ui'] })
       
-      store.setError('测试错误')
-      expect(store.error).toBe('测试错误')
+      expect(store.mergeTags(['bug', 'defect'], 'issue')).toBe(true)
       
-      store.clearError()
-      expect(store.error).toBeNull()
+      expect(store.getTodoById(todo.id)?.tags).toEqual(['issue', 'ui'])
+      expect(store.tags.map(tag => tag.name).sort()).toEqual(['issue', 'ui'])
     })
 
-    it('应该能够获取状态快照', () => {
+    it('删除标签应该从所有待办事项中移除', () => {
       const store = useTodoStore()
-      store.addTodo('测试任务')
-      store.setFilter('active')
-      store.setLoading(true)
+      const todo = store.addTodo('任务', { tags: ['bug', 'ui'] })
+      const before = todo.updatedAt
       
-      const snapshot = store.getStateSnapshot()
-      
-      expect(snapshot.todos).toHaveLength(1)
-      expect(snapshot.filter).toBe('active')
-      expect(snapshot.loading).toBe(true)
+      expect(store.deleteTag('bug')).toBe(true)
       
-      // 快照应该是独立的副本
-      store.addTodo('另一个任务')
-      expect(snapshot.todos).toHaveLength(1)
+      const updated = store.getTodoById(todo.id)!
+      expect(updated.tags).toEqual(['ui'])
+      expect(updated.updatedAt.getTime()).toBeGreaterThanOrEqual(before.getTime())
+      expect(store.getTagByName('bug')).toBeUndefined()
+      expect(store.deleteTag('bug')).toBe(false)
     })
 
-    it('应该能够设置待办事项列表', () => {
+    it('应该支持通过updateTodo替换标签', () => {
       const store = useTodoStore()
-      const todos: Todo[] = [
-        {
-          id: '1',
-          title: '任务1',
-          completed: false,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        },
-        {
-          id: '2',
-          title: '任务2',
-          completed: true,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-      ]
-      
-      store.setTodos(todos)
+      const todo = store.addTodo('任务')
       
-      expect(store.todos).toEqual(todos)
-      expect(store.totalCount).toBe(2)
-      expect(store.completedCount).toBe(1)
-      expect(store.activeCount).toBe(1)
+      expect(store.updateTodo(todo.id, { tags: ['new'] })).toBe(true)
+      expect(store.getTodoById(todo.id)?.tags).toEqual(['new'])
+      expect(store.getTagByName('new')).toBeDefined()
+      expect(store.updateTodo(todo.id, { tags: ['a,b'] })).toBe(false)
     })
 
-    it('应该能够清空所有待办事项', () => {
+    it('标签过滤应该与状态过滤组合，并支持任一/全部匹配', () => {
       const store = useTodoStore()
-      store.addTodo('任务1')
-      store.addTodo('任务2')
+      store.addTodo('A', { tags: ['bug'] })
+      const b = store.addTodo('B', { tags: ['bug', 'ui'] })
+      store.addTodo('C', { tags: ['ui'] })
+      store.addTodo('D')
       
-      store.clearAllTodos()
+      store.setTagFilter(['bug', 'ui'])
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['A', 'B', 'C'])
       
-      expect(store.todos).toHaveLength(0)
-      expect(store.hasTodos).toBe(false)
+      store.setTagFilter(['bug', 'ui'], 'all')
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['B'])
+      
+      store.toggleTodo(b.id)
+      store.setFilter('active')
+      expect(store.filteredTodos).toHaveLength(0)
+      
+      store.toggleTagFilter('ui')
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['A'])
     })
-  })
 
-  describe('本地存储集成', () => {
-    it('应该能够从本地存储加载数据', async () => {
-      const mockTodos: Todo[] = [
-        {
+    it('加载时应该补全未登记的标签', async () => {
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{
           id: '1',
-          title: '存储的任务1',
+          title: '旧任务',
           completed: false,
+          priority: 'none',
+          tags: ['legacy'],
           createdAt: new Date(),
           updatedAt: new Date()
-        },
-        {
-          id: '2',
-          title: '存储的任务2',
-          completed: true,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        }
-      ]
-      
-      // Mock加载函数返回测试数据
-      ;(todoStorage.loadTodos as jest.Mock).mockReturnValue({
-        success: true,
-        data: mockTodos
+        }]
       })
-      ;(todoStorage.loadFilter as jest.Mock).mockReturnValue({
-        success: true,
-        data: 'active'
-      })
-      
       const store = useTodoStore()
       
-      // 初始状态应该为空
-      expect(store.todos).toEqual([])
-      expect(store.filter).toBe('all')
-      expect(store.initialized).toBe(false)
-      
-      // 加载数据
       await store.loadFromStorage()
       
-      // 验证数据已加载
-      expect(store.todos).toEqual(mockTodos)
-      expect(store.filter).toBe('active')
-      expect(store.initialized).toBe(true)
-      expect(store.loading).toBe(false)
-      
-      // 验证调用了正确的存储函数
-      expect(todoStorage.loadTodos).toHaveBeenCalled()
-      expect(todoStorage.loadFilter).toHaveBeenCalled()
+      expect(store.getTagByName('legacy')).toBeDefined()
     })
+  })
 
-    it('应该处理加载失败的情况', async () => {
-      // Mock加载函数返回失败结果
-      ;(todoStorage.loadTodos as jest.Mock).mockReturnValue({
-        success: false,
-        error: '加载待办事项失败'
-      })
-      ;(todoStorage.loadFilter as jest.Mock).mockReturnValue({
-        success: true,
-        data: 'all'
-      })
-      
+  describe('子任务', () => {
+    it('应该创建子任务并汇总进度', () => {
       const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务1', { parentId: parent.id })
+      store.addTodo('子任务2', { parentId: parent.id })
       
-      await store.loadFromStorage()
+      store.toggleTodo(child.id)
       
-      // 验证错误状态
-      expect(store.error).toContain('加载待办事项失败')
-      expect(store.initialized).toBe(true)
-      expect(store.loading).toBe(false)
+      expect(store.getSubtasks(parent.id)).toHaveLength(2)
+      expect(store.subtaskProgress[parent.id]).toEqual({ completed: 1, total: 2, rate: 50 })
+      expect(store.topLevelCount).toBe(1)
+      expect(store.subtaskCount).toBe(2)
     })
 
-    it('应该在数据变化时自动保存到本地存储', async () => {
+    it('应该拒绝不存在的父任务和超过最大层级的嵌套', () => {
       const store = useTodoStore()
       
-      // 先初始化
-      await store.loadFromStorage()
-      
-      // 清除之前的调用记录
-      jest.clearAllMocks()
+      expect(() => store.addTodo('孤儿', { parentId: 'missing' })).toThrow('未找到ID为 missing 的父任务')
       
-      // 添加待办事项
-      store.addTodo('新任务')
+      let parentId = store.addTodo('第0层').id
+      for (let depth = 1; depth <= 3; depth++) {
+        parentId = store.addTodo(`第${depth}层`, { parentId }).id
+      }
+      expect(() => store.addTodo('第4层', { parentId })).toThrow('子任务最多嵌套3层')
+    })
+
+    it('完成父任务时应该完成所有子任务', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
+      const grandchild = store.addTodo('孙任务', { parentId: child.id })
       
-      // 等待下一个tick让watch触发
-      await new Promise(resolve => setTimeout(resolve, 0))
+      store.toggleTodo(parent.id)
       
-      // 验证自动保存被调用
-      expect(todoStorage.saveTodos).toHaveBeenCalledWith(store.todos)
+      expect(store.getTodoById(child.id)?.completed).toBe(true)
+      expect(store.getTodoById(grandchild.id)?.completed).toBe(true)
     })
 
-    it('应该在过滤器变化时自动保存', async () => {
+    it('最后一个子任务完成时应该自动完成父任务，重新打开时父任务也重新打开', () => {
       const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const a = store.addTodo('A', { parentId: parent.id })
+      const b = store.addTodo('B', { parentId: parent.id })
       
-      // 先初始化
-      await store.loadFromStorage()
+      store.toggleTodo(a.id)
+      expect(store.getTodoById(parent.id)?.completed).toBe(false)
       
-      // 清除之前的调用记录
-      jest.clearAllMocks()
+      store.toggleTodo(b.id)
+      expect(store.getTodoById(parent.id)?.completed).toBe(true)
       
-      // 改变过滤器
-      store.setFilter('completed')
+      store.toggleTodo(a.id)
+      expect(store.getTodoById(parent.id)?.completed).toBe(false)
+      expect(store.getTodoById(b.id)?.completed).toBe(true)
+    })
+
+    it('应该遵循配置的级联规则', () => {
+      const store = useTodoStore()
+      store.setCascadeRules({ completeChildrenWithParent: false, completeParentWithChildren: false })
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
       
-      // 等待下一个tick让watch触发
-      await new Promise(resolve => setTimeout(resolve, 0))
+      store.toggleTodo(parent.id)
+      expect(store.getTodoById(child.id)?.completed).toBe(false)
       
-      // 验证自动保存被调用
-      expect(todoStorage.saveFilter).toHaveBeenCalledWith('completed')
+      store.toggleTodo(parent.id)
+      store.toggleTodo(child.id)
+      expect(store.getTodoById(parent.id)?.completed).toBe(false)
+      expect(store.cascadeRules.reopenParentWithChild).toBe(true)
     })
 
-    it('应该能够手动保存待办事项到存储', async () => {
+    it('删除父任务时应该一并删除子任务', () => {
       const store = useTodoStore()
-      store.addTodo('测试任务')
-      
-      await store.saveTodosToStorage()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
+      store.addTodo('孙任务', { parentId: child.id })
+      store.addTodo('其他任务')
       
-      expect(todoStorage.saveTodos).toHaveBeenCalledWith(store.todos)
+      expect(store.deleteTodo(parent.id)).toBe(true)
+      expect(store.todos.map(t => t.title)).toEqual(['其他任务'])
     })
 
-    it('应该能够手动保存过滤器到存储', async () => {
+    it('清除已完成时应该保留仍有未完成子任务的父任务', () => {
       const store = useTodoStore()
-      store.setFilter('active')
+      store.setCascadeRules({ completeChildrenWithParent: false })
+      const parent = store.addTodo('父任务')
+      store.addTodo('未完成子任务', { parentId: parent.id })
+      const done = store.addTodo('已完成任务')
+      const doneParent = store.addTodo('已完成父任务')
+      store.addTodo('已完成子任务', { parentId: doneParent.id })
+      
+      store.toggleTodo(parent.id)
+      store.toggleTodo(done.id)
+      store.toggleTodo(doneParent.id)
+      store.toggleTodo(store.getSubtasks(doneParent.id)[0].id)
+      
+      expect(store.clearCompleted()).toBe(3)
+      expect(store.todos.map(t => t.title)).toEqual(['父任务', '未完成子任务'])
+    })
+
+    it('应该支持移动任务并阻止循环引用', () => {
+      const store = useTodoStore()
+      const a = store.addTodo('A')
+      const b = store.addTodo('B', { parentId: a.id })
+      const c = store.addTodo('C')
       
-      await store.saveFilterToStorage()
+      expect(store.updateTodo(a.id, { parentId: b.id })).toBe(false)
+      expect(store.error).toBe('不能将任务移动到自身或其子任务下')
       
-      expect(todoStorage.saveFilter).toHaveBeenCalledWith('active')
+      expect(store.updateTodo(b.id, { parentId: c.id })).toBe(true)
+      expect(store.getTodoById(b.id)?.parentId).toBe(c.id)
+      
+      expect(store.updateTodo(b.id, { parentId: null })).toBe(true)
+      expect(store.getTodoById(b.id)).not.toHaveProperty('parentId')
     })
+  })
 
-    it('应该处理保存失败的情况', async () => {
-      // Mock保存函数返回失败结果
-      ;(todoStorage.saveTodos as jest.Mock).mockReturnValue({
-        success: false,
-        error: '保存失败'
+  describe('重复待办事项', () => {
+    it('完成重复待办事项时应该生成下一次', () => {
+      const store = useTodoStore()
+      const today = new Date()
+      const todo = store.addTodo('倒垃圾', {
+        dueDate: new Date(today.getFullYear(), today.getMonth(), today.getDate() + 3),
+        priority: 'high',
+        tags: ['家务'],
+        recurrence: { frequency: 'weekly' }
       })
       
+      store.toggleTodo(todo.id)
+      
+      expect(store.todos).toHaveLength(2)
+      const next = store.todos[1]
+      expect(next.title).toBe('倒垃圾')
+      expect(next.completed).toBe(false)
+      expect(next.priority).toBe('high')
+      expect(next.tags).toEqual(['家务'])
+      expect(next.dueDate).toEqual(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 10))
+      expect(next.recurrence).toEqual({ frequency: 'weekly' })
+      expect(store.getTodoById(todo.id)?.recurrence).toBeUndefined()
+    })
+
+    it('逾期完成时跳过已经错过的日期', () => {
       const store = useTodoStore()
-      store.addTodo('测试任务')
+      const today = new Date()
+      const todo = store.addTodo('每日站会', {
+        dueDate: new Date(today.getFullYear(), today.getMonth(), today.getDate() - 4),
+        recurrence: { frequency: 'daily' }
+      })
       
-      await store.saveTodosToStorage()
+      store.toggleTodo(todo.id)
       
-      expect(store.error).toContain('保存待办事项失败')
+      expect(store.todos[1].dueDate).toEqual(new Date(today.getFullYear(), today.getMonth(), today.getDate() + 1))
     })
 
+    it('每月重复时固定截止日期当天的日期', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('交房租', {
+        dueDate: new Date(2099, 0, 31),
+        recurrence: { frequency: 'monthly' }
+      })
+      
+      expect(todo.recurrence).toEqual({ frequency: 'monthly', monthDay: 31 })
+      
+      store.toggleTodo(todo.id)
+      const february = store.todos[1]
+      expect(february.dueDate).toEqual(new Date(2099, 1, 28))
+      
+      store.toggleTodo(february.id)
+      expect(store.todos[2].dueDate).toEqual(new Date(2099, 2, 31))
+    })
+
+    it('反复切换完成状态不会重复生成', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('每日站会', { recurrence: { frequency: 'daily' } })
+      
+      store.toggleTodo(todo.id)
+      store.toggleTodo(todo.id)
+      store.toggleTodo(todo.id)
+      
+      expect(store.todos).toHaveLength(2)
+    })
+
+    it('通过updateTodo和toggleAllTodos完成时同样生成下一次', () => {
+      const store = useTodoStore()
+      const a = store.addTodo('A', { recurrence: { frequency: 'daily' } })
+      store.addTodo('B', { recurrence: { frequency: 'monthly' } })
+      
+      store.updateTodo(a.id, { completed: true })
+      expect(store.todos).toHaveLength(3)
+      
+      store.toggleAllTodos(true)
+      expect(store.todos).toHaveLength(5)
+      expect(store.activeCount).toBe(2)
+    })
+
+    it('应该拒绝非法的重复规则，并支持取消重复', () => {
+      const store = useTodoStore()
+      
+      expect(() => store.addTodo('错误', { recurrence: { frequency: 'daily', interval: 0 } }))
+        .toThrow('重复间隔必须是1到365之间的整数')
+      
+      const todo = store.addTodo('任务', { recurrence: { frequency: 'daily' } })
+      expect(store.updateTodo(todo.id, { recurrence: null })).toBe(true)
+      
+      store.toggleTodo(todo.id)
+      expect(store.todos).toHaveLength(1)
+    })
+  })
+
+  describe('多列表', () => {
+    it('初始时只有默认列表', () => {
+      const store = useTodoStore()
+      
+      expect(store.projects).toHaveLength(1)
+      expect(store.currentProjectId).toBe('default')
+      expect(store.currentProject?.name).toBe('我的待办')
+    })
+
+    it('待办事项添加到当前列表，过滤和统计只针对当前列表', () => {
+      const store = useTodoStore()
+      store.addTodo('默认列表任务')
+      const work = store.createProject('工作')
+      
+      expect(store.setCurrentProject(work.id)).toBe(true)
+      const todo = store.addTodo('工作任务')
+      
+      expect(todo.projectId).toBe(work.id)
+      expect(store.filteredTodos.map(t => t.title)).toEqual(['工作任务'])
+      expect(store.totalCount).toBe(1)
+      expect(store.projectCounts).toEqual({ default: 1, [work.id]: 1 })
+    })
+
+    it('应该拒绝空名称和重复名称', () => {
+      const store = useTodoStore()
+      
+      expect(() => store.createProject('  ')).toThrow('列表名称不能为空')
+      expect(() => store.createProject('我的待办')).toThrow('列表 "我的待办" 已存在')
+      
+      const work = store.createProject('工作')
+      expect(store.renameProject(work.id, '我的待办')).toBe(false)
+      expect(store.renameProject(work.id, '公司')).toBe(true)
+      expect(store.projects[1].name).toBe('公司')
+    })
+
+    it('应该能够调整列表顺序', () => {
+      const store = useTodoStore()
+      const a = store.createProject('A')
+      store.createProject('B')
+      
+      expect(store.moveProject(a.id, 0)).toBe(true)
+      expect(store.projects.map(p => p.name)).toEqual(['A', '我的待办', 'B'])
+    })
+
+    it('归档当前列表时切换到其他列表，且至少保留一个未归档的列表', () => {
+      const store = useTodoStore()
+      const work = store.createProject('工作')
+      store.setCurrentProject(work.id)
+      
+      expect(store.archiveProject(work.id)).toBe(true)
+      expect(store.currentProjectId).toBe('default')
+      expect(store.archivedProjects.map(p => p.id)).toEqual([work.id])
+      expect(store.setCurrentProject(work.id)).toBe(false)
+      
+      expect(store.archiveProject('default')).toBe(false)
+      expect(store.error).toBe('至少需要保留一个未归档的列表')
+      
+      expect(store.archiveProject(work.id, false)).toBe(true)
+      expect(store.activeProjects).toHaveLength(2)
+    })
+
+    it('删除列表时删除或移动其中的待办事项', () => {
+      const store = useTodoStore()
+      const a = store.createProject('A')
+      const b = store.createProject('B')
+      store.addTodo('A任务', { projectId: a.id })
+      store.addTodo('B任务', { projectId: b.id })
+      
+      expect(store.deleteProject(a.id)).toBe(true)
+      expect(store.todos.map(t => t.title)).toEqual(['B任务'])
+      
+      expect(store.deleteProject(b.id, 'default')).toBe(true)
+      expect(store.todos[0].projectId).toBe('default')
+      expect(store.projects).toHaveLength(1)
+      
+      expect(store.deleteProject('default')).toBe(false)
+    })
+
+    it('移动待办事项时子任务一同移动，父任务留在原列表时脱离父任务', () => {
+      const store = useTodoStore()
+      const work = store.createProject('工作')
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
+      const grandchild = store.addTodo('孙任务', { parentId: child.id })
+      
+      expect(store.moveTodoToProject(child.id, work.id)).toBe(true)
+      
+      expect(store.getTodoById(child.id)?.projectId).toBe(work.id)
+      expect(store.getTodoById(child.id)?.parentId).toBeUndefined()
+      expect(store.getTodoById(grandchild.id)?.projectId).toBe(work.id)
+      expect(store.getTodoById(grandchild.id)?.parentId).toBe(child.id)
+    })
+
+    it('子任务必须与父任务属于同一列表', () => {
+      const store = useTodoStore()
+      const work = store.createProject('工作')
+      const parent = store.addTodo('父任务')
+      
+      expect(store.addTodo('子任务', { parentId: parent.id }).projectId).toBe('default')
+      expect(() => store.addTodo('子任务', { parentId: parent.id, projectId: work.id }))
+        .toThrow('父任务和子任务必须属于同一列表')
+    })
+
+    it('清除已完成只影响当前列表', () => {
+      const store = useTodoStore()
+      const work = store.createProject('工作')
+      const other = store.addTodo('其他列表', { projectId: work.id })
+      store.toggleTodo(other.id)
+      const done = store.addTodo('已完成')
+      store.toggleTodo(done.id)
+      
+      expect(store.clearCompleted()).toBe(1)
+      expect(store.todos.map(t => t.title)).toEqual(['其他列表'])
+    })
+  })
+
+  describe('撤销与重做', () => {
+    it('应该能够撤销和重做删除操作', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      store.addTodo('子任务', { parentId: parent.id })
+      
+      store.deleteTodo(parent.id)
+      expect(store.todos).toHaveLength(0)
+      expect(store.undoLabel).toBe('删除待办事项')
+      
+      expect(store.undo()).toBe(true)
+      expect(store.todos.map(t => t.title)).toEqual(['父任务', '子任务'])
+      expect(store.redoLabel).toBe('删除待办事项')
+      
+      expect(store.redo()).toBe(true)
+      expect(store.todos).toHaveLength(0)
+    })
+
+    it('撤销会恢复修改前的字段值', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('原标题', { priority: 'low' })
+      
+      store.updateTodo(todo.id, { title: '新标题', priority: 'high' })
+      store.undo()
+      
+      expect(store.todos[0].title).toBe('原标题')
+      expect(store.todos[0].priority).toBe('low')
+    })
+
+    it('撤销完成重复待办事项时移除生成的下一次', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('每日站会', { recurrence: { frequency: 'daily' } })
+      
+      store.toggleTodo(todo.id)
+      expect(store.todos).toHaveLength(2)
+      
+      store.undo()
+      expect(store.todos).toHaveLength(1)
+      expect(store.todos[0].completed).toBe(false)
+      expect(store.todos[0].recurrence).toEqual({ frequency: 'daily' })
+    })
+
+    it('应该记录批量操作', () => {
+      const store = useTodoStore()
+      store.addMultipleTodos(['A', 'B'])
+      store.toggleAllTodos(true)
+      store.clearCompleted()
+      
+      expect(store.todos).toHaveLength(0)
+      store.undo()
+      expect(store.completedCount).toBe(2)
+      store.undo()
+      expect(store.activeCount).toBe(2)
+      store.undo()
+      expect(store.todos).toHaveLength(0)
+      expect(store.canUndo).toBe(false)
+    })
+
+    it('失败或没有产生变化的操作不记录', () => {
+      const store = useTodoStore()
+      
+      store.toggleTodo('missing')
+      store.clearCompleted()
+      expect(() => store.addTodo('')).toThrow()
+      
+      expect(store.canUndo).toBe(false)
+      expect(store.undo()).toBe(false)
+      expect(store.error).toBe('没有可以撤销的操作')
+    })
+
+    it('新的操作会清空重做栈', () => {
+      const store = useTodoStore()
+      store.addTodo('A')
+      store.undo()
+      expect(store.canRedo).toBe(true)
+      
+      store.addTodo('B')
+      expect(store.canRedo).toBe(false)
+    })
+
+    it('历史记录条数可配置', () => {
+      const store = useTodoStore()
+      
+      expect(store.setHistoryLimit(0)).toBe(false)
+      expect(store.setHistoryLimit(2)).toBe(true)
+      
+      store.addTodo('A')
+      store.addTodo('B')
+      store.addTodo('C')
+      
+      expect(store.undoStack).toHaveLength(2)
+      store.undo()
+      store.undo()
+      expect(store.todos.map(t => t.title)).toEqual(['A'])
+    })
+
+    it('不经过历史记录的批量修改会清空历史', () => {
+      const store = useTodoStore()
+      store.addTodo('任务', { tags: ['旧'] })
+      
+      store.renameTag('旧', '新')
+      
+      expect(store.canUndo).toBe(false)
+    })
+  })
+
+  describe('计算属性', () => {
+    beforeEach(() => {
+      const store = useTodoStore()
+      // 添加测试数据
+      store.addTodo('任务1')
+      store.addTodo('任务2')
+      const todo3 = store.addTodo('任务3')
+      store.toggleTodo(todo3.id)
+    })
+
+    it('应该正确计算completedCount', () => {
+      const store = useTodoStore()
+      expect(store.completedCount).toBe(1)
+    })
+
+    it('应该正确计算activeCount', () => {
+      const store = useTodoStore()
+      expect(store.activeCount).toBe(2)
+    })
+
+    it('应该正确计算totalCount', () => {
+      const store = useTodoStore()
+      expect(store.totalCount).toBe(3)
+    })
+
+    it('应该正确计算hasTodos', () => {
+      const store = useTodoStore()
+      expect(store.hasTodos).toBe(true)
+      
+      store.clearAllTodos()
+      expect(store.hasTodos).toBe(false)
+    })
+
+    it('应该正确计算allCompleted', () => {
+      const store = useTodoStore()
+      
+      // 清空现有数据，重新开始测试
+      store.clearAllTodos()
+      expect(store.allCompleted).toBe(false)
+      
+      // 添加新任务
+      const todo1 = store.addTodo('任务1')
+      const todo2 = store.addTodo('任务2')
+      expect(store.allCompleted).toBe(false)
+      
+      // 完成所有任务
+      store.toggleTodo(todo1.id)
+      store.toggleTodo(todo2.id)
+      expect(store.allCompleted).toBe(true)
+    })
+
+    it('应该能够根据ID查找待办事项', () => {
+      const store = useTodoStore()
+      const firstTodo = store.todos[0]
+      
+      const foundTodo = store.getTodoById(firstTodo.id)
+      expect(foundTodo).toBe(firstTodo)
+      
+      const notFound = store.getTodoById('non-existent-id')
+      expect(notFound).toBeUndefined()
+    })
+  })
+
+  describe('批量操作', () => {
+    it('应该能够切换所有待办事项状态', () => {
+      const store = useTodoStore()
+      store.addTodo('任务1')
+      store.addTodo('任务2')
+      store.addTodo('任务3')
+      
+      // 全部完成
+      store.toggleAllTodos(true)
+      expect(store.todos.every(todo => todo.completed)).toBe(true)
+      
+      // 全部未完成
+      store.toggleAllTodos(false)
+      expect(store.todos.every(todo => !todo.completed)).toBe(true)
+    })
+
+    it('应该能够清除已完成的待办事项', () => {
+      const store = useTodoStore()
+      const uncompletedTodo = store.addTodo('未完成任务')
+      const completedTodo = store.addTodo('已完成任务')
+      store.toggleTodo(completedTodo.id)
+      
+      const clearedCount = store.clearCompleted()
+      
+      expect(clearedCount).toBe(1)
+      expect(store.todos).toHaveLength(1)
+      expect(store.todos[0].id).toBe(uncompletedTodo.id)
+      expect(store.todos[0].title).toBe('未完成任务')
+    })
+
+    it('应该能够添加多个待办事项', () => {
+      const store = useTodoStore()
+      const titles = ['任务1', '任务2', '任务3']
+      
+      const newTodos = store.addMultipleTodos(titles)
+      
+      expect(newTodos).toHaveLength(3)
+      expect(store.todos).toHaveLength(3)
+      expect(store.todos.map(todo => todo.title)).toEqual(titles)
+    })
+
+    it('应该过滤空标题', () => {
+      const store = useTodoStore()
+      const titles = ['任务1', '', '任务2', '   ', '任务3']
+      
+      const newTodos = store.addMultipleTodos(titles)
+      
+      expect(newTodos).toHaveLength(3)
+      expect(store.todos).toHaveLength(3)
+    })
+
+    it('批量添加时保留完成状态并创建子任务', () => {
+      const store = useTodoStore()
+      
+      const newTodos = store.addMultipleTodos([
+        { title: '父任务', completed: true, children: [{ title: '子任务' }, { title: '  ' }] },
+        '普通任务'
+      ])
+      
+      expect(newTodos.map(todo => [todo.title, todo.completed])).toEqual([
+        ['父任务', true],
+        ['子任务', false],
+        ['普通任务', false]
+      ])
+      expect(newTodos[1].parentId).toBe(newTodos[0].id)
+      expect(newTodos[2].parentId).toBeUndefined()
+    })
+
+    it('批量添加时超过最大嵌套层数的子任务挂到最深一层', () => {
+      const store = useTodoStore()
+      
+      const newTodos = store.addMultipleTodos([
+        { title: 'L0', children: [{ title: 'L1', children: [{ title: 'L2', children: [{ title: 'L3', children: [{ title: 'L4' }] }] }] }] }
+      ])
+      
+      const byTitle = Object.fromEntries(newTodos.map(todo => [todo.title, todo]))
+      expect(byTitle.L3.parentId).toBe(byTitle.L2.id)
+      expect(byTitle.L4.parentId).toBe(byTitle.L2.id)
+    })
+
+    it('批量添加到指定列表，子任务跟随父任务', () => {
+      const store = useTodoStore()
+      const project = store.createProject('工作')
+      
+      const newTodos = store.addMultipleTodos([
+        { title: '工作任务', projectId: project.id, children: [{ title: '子任务', projectId: 'default' }] }
+      ])
+      
+      expect(newTodos.map(todo => todo.projectId)).toEqual([project.id, project.id])
+      expect(store.addMultipleTodos([{ title: '无效列表', projectId: 'missing' }])).toEqual([])
+      expect(store.error).toBe('未找到ID为 missing 的列表')
+    })
+  })
+  
+  describe('导入', () => {
+    afterEach(() => {
+      clearPlugins()
+    })
+    
+    const createImportedTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+      id,
+      title: `导入${id}`,
+      completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+      updatedAt: new Date('2024-01-01T10:00:00Z'),
+      ...overrides
+    })
+    
+    it('追加导入时重新生成冲突的ID并可以撤销', () => {
+      const store = useTodoStore()
+      const existing = store.addTodo('现有任务')
+      
+      const imported = store.importTodos([
+        createImportedTodo(existing.id, { tags: ['工作'] }),
+        createImportedTodo('child', { parentId: existing.id })
+      ], 'append')
+      
+      expect(store.todos.map(todo => todo.title)).toEqual(['现有任务', `导入${existing.id}`, '导入child'])
+      expect(imported[0].id).not.toBe(existing.id)
+      expect(imported[1].parentId).toBe(imported[0].id)
+      expect(store.tags.map(tag => tag.name)).toEqual(['工作'])
+      expect(store.undoLabel).toBe('导入待办事项')
+      
+      store.undo()
+      expect(store.todos.map(todo => todo.id)).toEqual([existing.id])
+    })
+    
+    it('合并和替换导入', () => {
+      const store = useTodoStore()
+      store.importTodos([createImportedTodo('1'), createImportedTodo('2')], 'append')
+      
+      store.importTodos([createImportedTodo('1', { title: '更新', updatedAt: new Date() }), createImportedTodo('3')], 'merge')
+      expect(store.todos.map(todo => todo.title)).toEqual(['更新', '导入2', '导入3'])
+      
+      store.importTodos([createImportedTodo('4')], 'replace')
+      expect(store.todos.map(todo => todo.id)).toEqual(['4'])
+    })
+    
+    it('所属列表不存在时放入当前列表，父任务不存在时变为顶层任务', () => {
+      const store = useTodoStore()
+      
+      const [todo] = store.importTodos([createImportedTodo('1', { projectId: 'missing', parentId: 'missing' })], 'append')
+      
+      expect(todo.projectId).toBe('default')
+      expect(store.todos[0].parentId).toBeUndefined()
+    })
+    
+    it('新增的待办事项经过 beforeAdd 钩子并填充插件字段', () => {
+      registerPlugin({
+        name: 'filter',
+        fields: { estimate: { default: 1 } },
+        hooks: { beforeAdd: input => input.title.startsWith('skip') ? false : { ...input, priority: 'high' } }
+      })
+      const store = useTodoStore()
+      
+      const imported = store.importTodos([
+        createImportedTodo('1', { title: 'skip 这个' }),
+        { ...createImportedTodo('2'), estimate: 3 } as Todo
+      ], 'append')
+      
+      expect(imported).toHaveLength(1)
+      expect(store.todos[0]).toMatchObject({ id: '2', priority: 'high', estimate: 3 })
+    })
+    
+    it('ID与现有数据相同的项同样经过验证', () => {
+      const store = useTodoStore()
+      store.importTodos([createImportedTodo('1')], 'append')
+      
+      const updatedAt = new Date()
+      expect(store.importTodos([createImportedTodo('1', { title: ' ', updatedAt })], 'merge')).toEqual([])
+      expect(store.error).toBeTruthy()
+      expect(store.importTodos([createImportedTodo('1', { priority: 'unknown' as Todo['priority'] })], 'replace')).toEqual([])
+      expect(store.importTodos([createImportedTodo('1', {
+        startDate: new Date('2024-02-01'),
+        dueDate: new Date('2024-01-01'),
+        updatedAt
+      })], 'merge')).toEqual([])
+      expect(store.todos.map(todo => todo.title)).toEqual(['导入1'])
+      
+      store.importTodos([createImportedTodo('1', { title: '  更新  ', updatedAt })], 'merge')
+      expect(store.error).toBeNull()
+      expect(store.todos[0].title).toBe('更新')
+    })
+    
+    it('有不符合规则的项时不导入任何数据', () => {
+      const store = useTodoStore()
+      
+      expect(store.importTodos([createImportedTodo('1'), createImportedTodo('2', { title: ' ' })], 'append')).toEqual([])
+      expect(store.error).toBeTruthy()
+      expect(store.todos).toHaveLength(0)
+      expect(store.canUndo).toBe(false)
+    })
+  })
+
+  describe('状态管理', () => {
+    it('应该能够设置加载状态', () => {
+      const store = useTodoStore()
+      
+      store.setLoading(true)
+      expect(store.loading).toBe(true)
+      
+      store.setLoading(false)
+      expect(store.loading).toBe(false)
+    })
+
+    it('应该能够设置和清除错误', () => {
+      const store = useTodoStore()
+      
+      store.setError('测试错误')
+      expect(store.error).toBe('测试错误')
+      
+      store.clearError()
+      expect(store.error).toBeNull()
+    })
+
+    it('应该能够获取状态快照', () => {
+      const store = useTodoStore()
+      store.addTodo('测试任务')
+      store.setFilter('active')
+      store.setLoading(true)
+      
+      const snapshot = store.getStateSnapshot()
+      
+      expect(snapshot.todos).toHaveLength(1)
+      expect(snapshot.filter).toBe('active')
+      expect(snapshot.loading).toBe(true)
+      
+      // 快照应该是独立的副本
+      store.addTodo('另一个任务')
+      expect(snapshot.todos).toHaveLength(1)
+    })
+
+    it('应该能够设置待办事项列表', () => {
+      const store = useTodoStore()
+      const todos: Todo[] = [
+        {
+          id: '1',
+          title: '任务1',
+          completed: false,
+          priority: 'none',
+          tags: [],
+          projectId: 'default',
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        {
+          id: '2',
+          title: '任务2',
+          completed: true,
+          priority: 'none',
+          tags: [],
+          projectId: 'default',
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      ]
+      
+      store.setTodos(todos)
+      
+      expect(store.todos).toEqual(todos)
+      expect(store.totalCount).toBe(2)
+      expect(store.completedCount).toBe(1)
+      expect(store.activeCount).toBe(1)
+    })
+
+    it('应该能够清空所有待办事项', () => {
+      const store = useTodoStore()
+      store.addTodo('任务1')
+      store.addTodo('任务2')
+      
+      store.clearAllTodos()
+      
+      expect(store.todos).toHaveLength(0)
+      expect(store.hasTodos).toBe(false)
+    })
+  })
+
+  describe('本地存储集成', () => {
+    it('应该能够从本地存储加载数据', async () => {
+      const mockTodos: Todo[] = [
+        {
+          id: '1',
+          title: '存储的任务1',
+          completed: false,
+          priority: 'none',
+          tags: [],
+          projectId: 'default',
+          createdAt: new Date(),
+          updatedAt: new Date()
+        },
+        {
+          id: '2',
+          title: '存储的任务2',
+          completed: true,
+          priority: 'none',
+          tags: [],
+          projectId: 'default',
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }
+      ]
+      
+      // Mock加载函数返回测试数据
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({
+        success: true,
+        data: mockTodos
+      })
+      ;(todoStorage.loadFilter as jest.Mock).mockResolvedValue({
+        success: true,
+        data: 'active'
+      })
+      
+      const store = useTodoStore()
+      
+      // 初始状态应该为空
+      expect(store.todos).toEqual([])
+      expect(store.filter).toBe('all')
+      expect(store.initialized).toBe(false)
+      
+      // 加载数据
+      await store.loadFromStorage()
+      
+      // 验证数据已加载
+      expect(store.todos).toEqual(mockTodos)
+      expect(store.filter).toBe('active')
+      expect(store.initialized).toBe(true)
+      expect(store.loading).toBe(false)
+      
+      // 验证调用了正确的存储函数
+      expect(todoStorage.loadTodos).toHaveBeenCalled()
+      expect(todoStorage.loadFilter).toHaveBeenCalled()
+    })
+
+    it('应该将旧版本的单列表数据迁移到默认列表', async () => {
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [
+          {
+            id: '1',
+            title: '旧任务',
+            completed: false,
+            priority: 'none',
+            tags: [],
+            projectId: 'missing',
+            createdAt: new Date(),
+            updatedAt: new Date()
+          }
+        ]
+      })
+      
+      const store = useTodoStore()
+      await store.loadFromStorage()
+      
+      expect(todoStorage.loadProjects).toHaveBeenCalled()
+      expect(store.projects.map(p => p.id)).toEqual(['default'])
+      expect(store.currentProjectId).toBe('default')
+      expect(store.todos[0].projectId).toBe('default')
+      expect(store.filteredTodos).toHaveLength(1)
+    })
+
+    it('应该处理加载失败的情况', async () => {
+      // Mock加载函数返回失败结果
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({
+        success: false,
+        error: '加载待办事项失败'
+      })
+      ;(todoStorage.loadFilter as jest.Mock).mockResolvedValue({
+        success: true,
+        data: 'all'
+      })
+      
+      const store = useTodoStore()
+      
+      await store.loadFromStorage()
+      
+      // 验证错误状态
+      expect(store.error).toContain('加载待办事项失败')
+      expect(store.initialized).toBe(true)
+      expect(store.loading).toBe(false)
+    })
+
+    it('应该在数据变化时自动保存到本地存储', async () => {
+      const store = useTodoStore()
+      
+      // 先初始化
+      await store.loadFromStorage()
+      
+      // 清除之前的调用记录
+      jest.clearAllMocks()
+      
+      // 添加待办事项
+      store.addTodo('新任务')
+      
+      // 等待下一个tick让watch触发
+      await new Promise(resolve => setTimeout(resolve, 0))
+      
+      // 验证自动保存被调用
+      expect(todoStorage.saveTodos).toHaveBeenCalledWith(store.todos)
+    })
+
+    it('应该在过滤器变化时自动保存', async () => {
+      const store = useTodoStore()
+      
+      // 先初始化
+      await store.loadFromStorage()
+      
+      // 清除之前的调用记录
+      jest.clearAllMocks()
+      
+      // 改变过滤器
+      store.setFilter('completed')
+      
+      // 等待下一个tick让watch触发
+      await new Promise(resolve => setTimeout(resolve, 0))
+      
+      // 验证自动保存被调用
+      expect(todoStorage.saveFilter).toHaveBeenCalledWith('completed')
+    })
+
+    it('应该能够手动保存待办事项到存储', async () => {
+      const store = useTodoStore()
+      store.addTodo('测试任务')
+      
+      await store.saveTodosToStorage()
+      
+      expect(todoStorage.saveTodos).toHaveBeenCalledWith(store.todos)
+    })
+
+    it('应该能够手动保存过滤器到存储', async () => {
+      const store = useTodoStore()
+      store.setFilter('active')
+      
+      await store.saveFilterToStorage()
+      
+      expect(todoStorage.saveFilter).toHaveBeenCalledWith('active')
+    })
+
+    it('应该处理保存失败的情况', async () => {
+      // Mock保存函数返回失败结果
+      ;(todoStorage.saveTodos as jest.Mock).mockResolvedValue({
+        success: false,
+        error: '保存失败'
+      })
+      
+      const store = useTodoStore()
+      store.addTodo('测试任务')
+      
+      await store.saveTodosToStorage()
+      
+      expect(store.error).toContain('保存待办事项失败')
+    })
+
+    it('切换存储后端后应该把当前数据写入新后端', async () => {
+      const previous = getStorageAdapter()
+      const store = useTodoStore()
+      store.addTodo('测试任务')
+      
+      try {
+        const result = await store.switchStorageAdapter(createMemoryAdapter())
+        
+        expect(result).toBe(true)
+        expect(store.storageBackend).toBe('memory')
+        expect(getStorageAdapter().type).toBe('memory')
+        expect(todoStorage.saveTodos).toHaveBeenCalledWith(store.todos)
+        expect(todoStorage.saveProjects).toHaveBeenCalled()
+      } finally {
+        setStorageAdapter(previous)
+      }
+    })
+    
+    it('新的存储后端不可用时不应该切换', async () => {
+      const store = useTodoStore()
+      const adapter = { ...createMemoryAdapter(), isAvailable: async () => false }
+      
+      const result = await store.switchStorageAdapter(adapter)
+      
+      expect(result).toBe(false)
+      expect(store.storageBackend).toBe('localStorage')
+      expect(store.error).toBe('存储后端memory不可用')
+      expect(todoStorage.saveTodos).not.toHaveBeenCalled()
+    })
+    
+    it('数据无法读取时记录恢复选项并暂停自动保存', async () => {
+      const recoveryOptions = [
+        { action: 'retry', label: '重新加载', description: '' },
+        { action: 'reset', label: '清除数据', description: '' }
+      ]
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({
+        success: false,
+        error: '数据迁移到版本1失败',
+        code: 'STORAGE_DATA_CORRUPTED',
+        recoveryOptions,
+        key: 'vue-todo-list:todos'
+      })
+      
+      const store = useTodoStore()
+      await store.loadFromStorage()
+      store.addTodo('新任务')
+      await new Promise(resolve => setTimeout(resolve, 0))
+      
+      expect(store.storageRecovery).toEqual({
+        key: 'vue-todo-list:todos',
+        error: '数据迁移到版本1失败',
+        options: recoveryOptions
+      })
+      expect(todoStorage.saveTodos).not.toHaveBeenCalled()
+    })
+    
+    it('选择清除数据后重新加载并恢复自动保存', async () => {
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValueOnce({
+        success: false,
+        error: '数据迁移到版本1失败',
+        recoveryOptions: [{ action: 'reset', label: '清除数据', description: '' }],
+        key: 'vue-todo-list:todos'
+      })
+      ;(todoStorage.resetStoredData as jest.Mock).mockResolvedValue({ success: true })
+      
+      const store = useTodoStore()
+      await store.loadFromStorage()
+      const result = await store.recoverStorage('reset')
+      
+      expect(result).toBe(true)
+      expect(todoStorage.resetStoredData).toHaveBeenCalledWith('vue-todo-list:todos')
+      expect(store.storageRecovery).toBeNull()
+      
+      store.addTodo('新任务')
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(todoStorage.saveTodos).toHaveBeenCalled()
+    })
+    
+    it('没有待处理的问题时恢复操作返回false', async () => {
+      const store = useTodoStore()
+      
+      expect(await store.recoverStorage('retry')).toBe(false)
+      expect(store.error).toBe('没有需要恢复的数据')
+    })
+    
     it('应该在初始化前不自动保存', async () => {
       const store = useTodoStore()
       
-      // 在初始化前添加数据
-      store.addTodo('测试任务')
+      // 在初始化前添加数据
+      store.addTodo('测试任务')
+      
+      // 等待一段时间
+      await new Promise(resolve => setTimeout(resolve, 10))
+      
+      // 验证没有调用保存函数（因为还没初始化）
+      expect(todoStorage.saveTodos).not.toHaveBeenCalled()
+      
+      // 初始化后再修改数据
+      await store.loadFromStorage()
+      jest.clearAllMocks()
+      
+      store.addTodo('另一个任务')
+      await new Promise(resolve => setTimeout(resolve, 0))
+      
+      // 现在应该调用保存函数
+      expect(todoStorage.saveTodos).toHaveBeenCalled()
+    })
+  })
+
+  describe('多标签页同步', () => {
+    const createStoredTodo = (id: string, title: string, updatedAt: string): Todo => ({
+      id,
+      title,
+      completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
+      createdAt: new Date('2024-01-01T10:00:00Z'),
+      updatedAt: new Date(updatedAt)
+    })
+    
+    const loadStore = async (todos: Todo[]) => {
+      ;(todoStorage.loadTodos as jest.Mock).mockResolvedValue({ success: true, data: todos })
+      const store = useTodoStore()
+      await store.loadFromStorage()
+      return store
+    }
+    
+    it('初始化之前忽略其他标签页的数据', () => {
+      const store = useTodoStore()
+      
+      expect(store.applyRemoteTodos([createStoredTodo('1', '远程', '2024-01-01T10:00:00Z')])).toBe(false)
+      expect(store.todos).toHaveLength(0)
+    })
+    
+    it('按updatedAt逐条合并，而不是整体覆盖', async () => {
+      const store = await loadStore([
+        createStoredTodo('1', '任务1', '2024-01-01T10:00:00Z'),
+        createStoredTodo('2', '任务2', '2024-01-01T10:00:00Z')
+      ])
+      store.updateTodo('1', '本地修改')
+      
+      const changed = store.applyRemoteTodos([
+        createStoredTodo('1', '任务1', '2024-01-01T10:00:00Z'),
+        createStoredTodo('2', '远程修改', '2024-01-02T10:00:00Z'),
+        createStoredTodo('3', '远程新增', '2024-01-02T10:00:00Z')
+      ])
+      
+      expect(changed).toBe(true)
+      expect(store.todos.map(todo => todo.title)).toEqual(['本地修改', '远程修改', '远程新增'])
+      expect(store.canUndo).toBe(false)
+    })
+    
+    it('其他标签页删除的待办事项在本地也被删除', async () => {
+      const store = await loadStore([
+        createStoredTodo('1', '任务1', '2024-01-01T10:00:00Z'),
+        createStoredTodo('2', '任务2', '2024-01-01T10:00:00Z')
+      ])
+      
+      store.applyRemoteTodos([createStoredTodo('1', '任务1', '2024-01-01T10:00:00Z')])
+      
+      expect(store.todos.map(todo => todo.id)).toEqual(['1'])
+    })
+    
+    it('合并结果与本地相同时不修改数据', async () => {
+      const store = await loadStore([createStoredTodo('1', '任务1', '2024-01-01T10:00:00Z')])
+      const before = store.todos
+      
+      expect(store.applyRemoteTodos([createStoredTodo('1', '任务1', '2024-01-01T10:00:00Z')])).toBe(false)
+      expect(store.todos).toBe(before)
+    })
+    
+    it('当前列表被其他标签页归档时切换到未归档的列表', async () => {
+      const store = await loadStore([])
+      const work = store.createProject('工作')
+      store.setCurrentProject(work.id)
+      
+      store.applyRemoteProjects([
+        { ...store.projects[0] },
+        { ...work, archived: true, updatedAt: new Date(Date.now() + 1000) }
+      ])
+      
+      expect(store.projects.find(project => project.id === work.id)?.archived).toBe(true)
+      expect(store.currentProjectId).toBe('default')
+    })
+  })
+  
+  describe('事件总线', () => {
+    it('添加、更新和删除待办事项时发出事件', () => {
+      const store = useTodoStore()
+      const added = jest.fn()
+      const updated = jest.fn()
+      const deleted = jest.fn()
+      store.events.on('todo:added', added)
+      store.events.on('todo:updated', updated)
+      store.events.on('todo:deleted', deleted)
+      
+      const todo = store.addTodo('任务')
+      store.updateTodo(todo.id, '新标题')
+      store.deleteTodo(todo.id)
+      
+      expect(added).toHaveBeenCalledWith({ source: 'action', label: '添加待办事项', todo: expect.objectContaining({ title: '任务' }) })
+      expect(updated).toHaveBeenCalledWith(expect.objectContaining({
+        source: 'action',
+        label: '更新待办事项',
+        todo: expect.objectContaining({ title: '新标题' }),
+        previous: expect.objectContaining({ title: '任务' })
+      }))
+      expect(deleted).toHaveBeenCalledWith(expect.objectContaining({ label: '删除待办事项', todo: expect.objectContaining({ id: todo.id }) }))
+    })
+    
+    it('载荷是副本，修改载荷不影响Store', () => {
+      const store = useTodoStore()
+      store.events.on('todo:added', ({ todo }) => {
+        todo.title = '被修改'
+      })
+      
+      store.addTodo('任务')
+      
+      expect(store.todos[0].title).toBe('任务')
+    })
+    
+    it('操作没有产生变化或失败时不发出事件', () => {
+      const store = useTodoStore()
+      const listener = jest.fn()
+      store.events.on('todo:deleted', listener)
+      
+      expect(store.deleteTodo('missing')).toBe(false)
+      expect(listener).not.toHaveBeenCalled()
+    })
+    
+    it('撤销和重做时发出带来源的事件', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
+      const deleted = jest.fn()
+      const added = jest.fn()
+      store.events.on('todo:deleted', deleted)
+      store.events.on('todo:added', added)
+      
+      store.undo()
+      store.redo()
+      
+      expect(deleted).toHaveBeenCalledWith(expect.objectContaining({ source: 'undo', label: '添加待办事项', todo: expect.objectContaining({ id: todo.id }) }))
+      expect(added).toHaveBeenCalledWith(expect.objectContaining({ source: 'redo', label: '添加待办事项' }))
+    })
+    
+    it('标签和列表的级联修改也发出事件', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务', { tags: ['工作'] })
+      const updated = jest.fn()
+      store.events.on('todo:updated', updated)
+      
+      store.renameTag('工作', '项目')
+      
+      expect(updated).toHaveBeenCalledWith(expect.objectContaining({
+        label: '重命名标签',
+        todo: expect.objectContaining({ id: todo.id, tags: ['项目'] })
+      }))
+    })
+    
+    it('过滤器变化时发出事件，取值相同时不发出', () => {
+      const store = useTodoStore()
+      const listener = jest.fn()
+      store.events.on('filter:changed', listener)
+      
+      store.setFilter('active')
+      store.setFilter('active')
+      
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ filter: 'active', previous: 'all' })
+    })
+    
+    it('加载完成和出错时发出事件', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useTodoStore()
+      const loaded = jest.fn()
+      const failed = jest.fn()
+      store.events.on('data:loaded', loaded)
+      store.events.on('error:occurred', failed)
+      
+      await store.loadFromStorage()
+      store.undo()
+      
+      expect(loaded).toHaveBeenCalledWith({ todos: [], projects: [expect.objectContaining({ id: 'default' })] })
+      expect(failed).toHaveBeenCalledWith({ message: '没有可以撤销的操作' })
+      
+      consoleSpy.mockRestore()
+    })
+    
+    it('合并其他标签页的修改时来源为 sync', async () => {
+      const store = useTodoStore()
+      await store.loadFromStorage()
+      const added = jest.fn()
+      store.events.on('todo:added', added)
+      
+      store.applyRemoteTodos([{
+        id: 'remote',
+        title: '远程新增',
+        completed: false,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        updatedAt: new Date('2024-01-01T10:00:00Z')
+      }])
+      
+      expect(added).toHaveBeenCalledWith(expect.objectContaining({ source: 'sync', todo: expect.objectContaining({ id: 'remote' }) }))
+    })
+  })
+  
+  describe('插件', () => {
+    afterEach(() => {
+      clearPlugins()
+    })
+    
+    it('beforeAdd 可以修改输入或取消添加', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      registerPlugin({
+        name: 'slash',
+        hooks: {
+          beforeAdd: input => {
+            if (input.title.startsWith('/skip')) return false
+            const match = input.title.match(/^\/urgent\s+(.*)$/)
+            return match ? { ...input, title: match[1], priority: 'urgent' } : undefined
+          }
+        }
+      })
+      const store = useTodoStore()
+      
+      const todo = store.addTodo('/urgent 修复线上问题')
+      
+      expect(todo).toMatchObject({ title: '修复线上问题', priority: 'urgent' })
+      expect(() => store.addTodo('/skip 任务')).toThrow('插件 slash 取消了添加')
+      expect(store.todos).toHaveLength(1)
+      expect(store.canUndo).toBe(true)
+      consoleSpy.mockRestore()
+    })
+    
+    it('afterToggle 收到切换后的待办事项', () => {
+      const afterToggle = jest.fn()
+      registerPlugin({ name: 'stats', hooks: { afterToggle } })
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
+      
+      store.toggleTodo(todo.id)
+      
+      expect(afterToggle).toHaveBeenCalledWith(expect.objectContaining({ id: todo.id, completed: true }))
+    })
+    
+    it('beforeDelete 返回 false 时取消删除', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      registerPlugin({ name: 'guard', hooks: { beforeDelete: todo => !todo.tags.includes('重要') } })
+      const store = useTodoStore()
+      const todo = store.addTodo('任务', { tags: ['重要'] })
+      
+      expect(store.deleteTodo(todo.id)).toBe(false)
+      expect(store.error).toBe('插件 guard 取消了删除')
+      expect(store.todos).toHaveLength(1)
+      consoleSpy.mockRestore()
+    })
+    
+    it('onLoad 在加载完成后调用', async () => {
+      const onLoad = jest.fn()
+      registerPlugin({ name: 'loader', hooks: { onLoad } })
+      const store = useTodoStore()
+      
+      await store.loadFromStorage()
+      
+      expect(onLoad).toHaveBeenCalledWith({ todos: [], projects: [expect.objectContaining({ id: 'default' })] })
+    })
+    
+    it('插件字段在新建时填充默认值，更新时执行校验', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      registerPlugin({
+        name: 'estimate',
+        fields: {
+          estimate: {
+            default: 1,
+            rules: [{ name: 'positive', message: '估时必须是正数', validator: value => typeof value === 'number' && value > 0 }]
+          }
+        }
+      })
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
+      
+      expect((todo as Todo & { estimate?: number }).estimate).toBe(1)
+      expect(store.updateTodo(todo.id, { fields: { estimate: 0 } })).toBe(false)
+      expect(store.error).toBe('估时必须是正数')
+      expect(store.updateTodo(todo.id, { fields: { estimate: 5 } })).toBe(true)
+      expect(store.todos[0]).toMatchObject({ estimate: 5 })
+      expect(store.updateTodo(todo.id, { fields: { estimate: undefined } })).toBe(true)
+      expect('estimate' in store.todos[0]).toBe(false)
+      expect(() => store.addTodo('任务', { fields: { other: 1 } })).toThrow('未知的字段：other')
+      consoleSpy.mockRestore()
+    })
+    
+    it('批量添加时每一项都经过 beforeAdd 钩子并填充插件字段', () => {
+      registerPlugin({
+        name: 'slash',
+        fields: { estimate: { default: 1 } },
+        hooks: {
+          beforeAdd: input => {
+            if (input.title.startsWith('/skip')) return false
+            const match = input.title.match(/^\/urgent\s+(.*)$/)
+            return match ? { ...input, title: match[1], priority: 'urgent', tags: ['紧急'] } : undefined
+          }
+        }
+      })
+      const store = useTodoStore()
+      
+      const created = store.addMultipleTodos([
+        { title: '/urgent 父任务', children: [{ title: '子任务' }, { title: '/skip 跳过', children: [{ title: '孙任务' }] }] },
+        '/skip 任务'
+      ])
       
-      // 等待一段时间
-      await new Promise(resolve => setTimeout(resolve, 10))
+      expect(created.map(todo => todo.title)).toEqual(['父任务', '子任务'])
+      expect(created[0]).toMatchObject({ priority: 'urgent', tags: ['紧急'], estimate: 1 })
+      expect(created[1]).toMatchObject({ parentId: created[0].id, priority: 'none', estimate: 1 })
+      expect(store.tags.map(tag => tag.name)).toContain('紧急')
+    })
+    
+    it('批量添加时插件字段不合法会使整批添加失败', () => {
+      registerPlugin({ name: 'broken', hooks: { beforeAdd: input => ({ ...input, fields: { other: 1 } }) } })
+      const store = useTodoStore()
       
-      // 验证没有调用保存函数（因为还没初始化）
-      expect(todoStorage.saveTodos).not.toHaveBeenCalled()
+      expect(store.addMultipleTodos(['任务1', '任务2'])).toEqual([])
+      expect(store.error).toBe('未知的字段：other')
+      expect(store.todos).toHaveLength(0)
+    })
+    
+    it('全部切换时对每个状态有变化的待办事项调用 afterToggle', () => {
+      const afterToggle = jest.fn()
+      const store = useTodoStore()
+      const first = store.addTodo('任务1')
+      const second = store.addTodo('任务2')
+      store.toggleTodo(second.id)
+      registerPlugin({ name: 'stats', hooks: { afterToggle } })
+      
+      store.toggleAllTodos(true)
+      
+      expect(afterToggle).toHaveBeenCalledTimes(1)
+      expect(afterToggle).toHaveBeenCalledWith(expect.objectContaining({ id: first.id, completed: true }))
+    })
+    
+    it('清除已完成时 beforeDelete 返回 false 的待办事项连同父任务保留', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id, tags: ['重要'] })
+      const other = store.addTodo('其他')
+      store.toggleAllTodos(true)
+      registerPlugin({ name: 'guard', hooks: { beforeDelete: todo => !todo.tags.includes('重要') } })
+      
+      expect(store.clearCompleted()).toBe(1)
+      expect(store.todos.map(todo => todo.id)).toEqual([parent.id, child.id])
+      expect(store.trash.map(item => item.id)).toEqual([other.id])
+      expect(store.error).toBe('插件 guard 取消了部分删除')
+    })
+  })
+  
+  describe('回收站', () => {
+    const DAY = 24 * 60 * 60 * 1000
+    
+    it('删除的待办事项连同子任务移入回收站', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
+      
+      store.deleteTodo(parent.id)
+      
+      expect(store.todos).toHaveLength(0)
+      expect(store.trash.map(item => item.id)).toEqual([parent.id, child.id])
+      expect(store.trash[0].deletedAt).toBeInstanceOf(Date)
+      expect(store.trashCount).toBe(2)
+      expect(store.totalCount).toBe(0)
+    })
+    
+    it('清除已完成的待办事项移入回收站', () => {
+      const store = useTodoStore()
+      const done = store.addTodo('已完成')
+      store.addTodo('未完成')
+      store.toggleTodo(done.id)
+      
+      expect(store.clearCompleted()).toBe(1)
+      expect(store.trash.map(item => item.title)).toEqual(['已完成'])
+    })
+    
+    it('撤销删除时从回收站取出，重做时重新放入', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
+      store.deleteTodo(todo.id)
+      
+      store.undo()
+      expect(store.todos.map(item => item.id)).toEqual([todo.id])
+      expect(store.trash).toHaveLength(0)
+      
+      store.redo()
+      expect(store.todos).toHaveLength(0)
+      expect(store.trash.map(item => item.id)).toEqual([todo.id])
+    })
+    
+    it('恢复到原父任务下，父任务不存在时恢复为顶层任务', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
+      store.deleteTodo(child.id)
+      
+      expect(store.restoreFromTrash(child.id)).toBe(true)
+      expect(store.getTodoById(child.id)?.parentId).toBe(parent.id)
+      expect(store.trash).toHaveLength(0)
+      expect(store.canUndo).toBe(false)
+      
+      store.deleteTodo(child.id)
+      store.deleteTodo(parent.id)
+      store.restoreFromTrash(child.id)
+      
+      expect(store.getTodoById(child.id)?.parentId).toBeUndefined()
+      expect(store.trash.map(item => item.id)).toEqual([parent.id])
+    })
+    
+    it('原列表已删除时恢复到当前列表', () => {
+      const store = useTodoStore()
+      const work = store.createProject('工作')
+      const todo = store.addTodo('任务', { projectId: work.id })
+      store.deleteTodo(todo.id)
+      store.deleteProject(work.id)
+      
+      store.restoreFromTrash(todo.id)
+      
+      expect(store.getTodoById(todo.id)?.projectId).toBe('default')
+    })
+    
+    it('彻底删除和清空回收站', () => {
+      const store = useTodoStore()
+      const a = store.addTodo('A')
+      const b = store.addTodo('B')
+      store.deleteTodo(a.id)
+      store.deleteTodo(b.id)
+      
+      expect(store.purgeFromTrash(a.id)).toBe(true)
+      expect(store.trash.map(item => item.id)).toEqual([b.id])
+      expect(store.emptyTrash()).toBe(1)
+      expect(store.trash).toHaveLength(0)
+    })
+    
+    it('不存在的回收站项返回错误', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useTodoStore()
+      
+      expect(store.restoreFromTrash('missing')).toBe(false)
+      expect(store.error).toBe('回收站中没有ID为 missing 的待办事项')
+      expect(store.purgeFromTrash('missing')).toBe(false)
+      consoleSpy.mockRestore()
+    })
+    
+    it('超过保留天数的待办事项被自动彻底删除', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
+      store.deleteTodo(todo.id)
+      
+      expect(store.purgeExpiredTrash(new Date(Date.now() + 29 * DAY))).toBe(0)
+      expect(store.purgeExpiredTrash(new Date(Date.now() + 31 * DAY))).toBe(1)
+      expect(store.trash).toHaveLength(0)
+    })
+    
+    it('设置保留天数时校验范围并立即清理', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useTodoStore()
+      store.trash = [{ ...store.addTodo('旧任务'), deletedAt: new Date(Date.now() - 10 * DAY) }]
+      
+      expect(store.setTrashRetention(0)).toBe(false)
+      expect(store.error).toBe('回收站保留天数必须是1到365之间的整数')
+      expect(store.setTrashRetention(7)).toBe(true)
+      expect(store.trashRetentionDays).toBe(7)
+      expect(store.trash).toHaveLength(0)
+      consoleSpy.mockRestore()
+    })
+    
+    it('加载时读取回收站并清理过期项', async () => {
+      const item = (id: string, daysAgo: number): TrashedTodo => ({
+        id,
+        title: id,
+        completed: false,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        updatedAt: new Date('2024-01-01T10:00:00Z'),
+        deletedAt: new Date(Date.now() - daysAgo * DAY)
+      })
+      ;(todoStorage.loadTrash as jest.Mock).mockResolvedValue({
+        success: true,
+        data: { items: [item('new', 1), item('old', 10)], retentionDays: 5 }
+      })
+      const store = useTodoStore()
       
-      // 初始化后再修改数据
       await store.loadFromStorage()
-      jest.clearAllMocks()
       
-      store.addTodo('另一个任务')
+      expect(store.trashRetentionDays).toBe(5)
+      expect(store.trash.map(todo => todo.id)).toEqual(['new'])
       await new Promise(resolve => setTimeout(resolve, 0))
+      expect(todoStorage.saveTrash).toHaveBeenCalledWith({ items: [expect.objectContaining({ id: 'new' })], retentionDays: 5 })
+    })
+  })
+  
+  describe('归档', () => {
+    it('归档已完成的待办事项及其子任务，未完成的保留在列表中', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      store.addTodo('子任务', { parentId: parent.id })
+      const done = store.addTodo('已完成')
+      const doneChild = store.addTodo('已完成子任务', { parentId: done.id })
+      store.toggleTodo(done.id)
+      
+      expect(store.archiveCompleted()).toBe(2)
+      expect(store.archive.map(item => item.id)).toEqual([done.id, doneChild.id])
+      expect(store.archive[0].archivedAt).toBeInstanceOf(Date)
+      expect(store.archiveCount).toBe(2)
+      expect(store.getTodoById(parent.id)).toBeDefined()
+      expect(store.totalCount).toBe(2)
+      expect(store.trash).toHaveLength(0)
+    })
+    
+    it('撤销归档时从归档取出，重做时重新归档', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('任务')
+      store.toggleTodo(todo.id)
+      store.archiveCompleted()
       
-      // 现在应该调用保存函数
-      expect(todoStorage.saveTodos).toHaveBeenCalled()
+      store.undo()
+      expect(store.todos.map(item => item.id)).toEqual([todo.id])
+      expect(store.archive).toHaveLength(0)
+      
+      store.redo()
+      expect(store.todos).toHaveLength(0)
+      expect(store.archive.map(item => item.id)).toEqual([todo.id])
+    })
+    
+    it('取消归档时连同子任务放回列表', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      const child = store.addTodo('子任务', { parentId: parent.id })
+      store.toggleTodo(parent.id)
+      store.archiveCompleted()
+      
+      expect(store.unarchiveTodo(parent.id)).toBe(true)
+      expect(store.getTodoById(child.id)?.parentId).toBe(parent.id)
+      expect(store.getTodoById(parent.id)?.completed).toBe(true)
+      expect(store.archive).toHaveLength(0)
+      expect(store.canUndo).toBe(false)
+    })
+    
+    it('不存在的归档项返回错误', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useTodoStore()
+      
+      expect(store.unarchiveTodo('missing')).toBe(false)
+      expect(store.error).toBe('归档中没有ID为 missing 的待办事项')
+      consoleSpy.mockRestore()
+    })
+    
+    it('加载时读取归档，修改后保存', async () => {
+      ;(todoStorage.loadArchive as jest.Mock).mockResolvedValue({
+        success: true,
+        data: [{
+          id: 'old',
+          title: '旧任务',
+          completed: true,
+          priority: 'none',
+          tags: [],
+          projectId: 'default',
+          createdAt: new Date('2024-01-01T10:00:00Z'),
+          updatedAt: new Date('2024-01-01T10:00:00Z'),
+          archivedAt: new Date('2024-02-01T10:00:00Z')
+        }]
+      })
+      const store = useTodoStore()
+      
+      await store.loadFromStorage()
+      expect(store.archive.map(item => item.id)).toEqual(['old'])
+      
+      store.unarchiveTodo('old')
+      await new Promise(resolve => setTimeout(resolve, 0))
+      expect(todoStorage.saveArchive).toHaveBeenCalledWith([])
+    })
+  })
+  
+  describe('手动排序', () => {
+    const titles = (todos: Todo[]) => todos.map(todo => todo.title)
+    
+    it('移动后按新顺序显示并写入排序键', () => {
+      const store = useTodoStore()
+      store.addTodo('A')
+      store.addTodo('B')
+      const c = store.addTodo('C')
+      
+      expect(store.moveTodo(c.id, 0)).toBe(true)
+      
+      expect(titles(store.filteredTodos)).toEqual(['C', 'A', 'B'])
+      expect(store.todos.map(todo => todo.order)).toEqual([1, 2, 0])
+      expect(store.error).toBeNull()
+    })
+    
+    it('新添加的待办事项排在最后', () => {
+      const store = useTodoStore()
+      store.addTodo('A')
+      const b = store.addTodo('B')
+      store.moveTodo(b.id, 0)
+      store.addTodo('C')
+      
+      expect(titles(store.filteredTodos)).toEqual(['B', 'A', 'C'])
+    })
+    
+    it('在过滤视图中移动时映射回完整列表', () => {
+      const store = useTodoStore()
+      const a = store.addTodo('A')
+      const hidden = store.addTodo('隐藏')
+      store.addTodo('B')
+      store.toggleTodo(hidden.id)
+      store.setFilter('active')
+      
+      store.moveTodo(a.id, 1)
+      
+      expect(titles(store.filteredTodos)).toEqual(['B', 'A'])
+      store.setFilter('all')
+      expect(titles(store.filteredTodos)).toEqual(['隐藏', 'B', 'A'])
+    })
+    
+    it('子任务随父任务移动，只在同级之间调整', () => {
+      const store = useTodoStore()
+      const parent = store.addTodo('父任务')
+      store.addTodo('子任务1', { parentId: parent.id })
+      const child2 = store.addTodo('子任务2', { parentId: parent.id })
+      const other = store.addTodo('其他')
+      
+      store.moveTodo(other.id, 0)
+      store.moveTodo(child2.id, 0)
+      
+      expect(titles(store.filteredTodos)).toEqual(['其他', '父任务', '子任务2', '子任务1'])
+    })
+    
+    it('可以撤销调整顺序', () => {
+      const store = useTodoStore()
+      store.addTodo('A')
+      const b = store.addTodo('B')
+      store.moveTodo(b.id, 0)
+      
+      expect(store.undoLabel).toBe('调整顺序')
+      store.undo()
+      
+      expect(titles(store.filteredTodos)).toEqual(['A', 'B'])
+    })
+    
+    it('移动到其他列表时排在最后', () => {
+      const store = useTodoStore()
+      const work = store.createProject('工作')
+      store.addTodo('W1', { projectId: work.id })
+      const w2 = store.addTodo('W2', { projectId: work.id })
+      const todo = store.addTodo('任务')
+      store.moveTodo(todo.id, 0)
+      store.setCurrentProject(work.id)
+      store.moveTodo(w2.id, 0)
+      
+      store.moveTodoToProject(todo.id, work.id)
+      
+      expect(titles(store.filteredTodos)).toEqual(['W2', 'W1', '任务'])
+    })
+    
+    it('按字段排序时或不在当前视图中时返回错误', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useTodoStore()
+      const a = store.addTodo('A')
+      store.addTodo('B')
+      
+      expect(store.moveTodo('missing', 0)).toBe(false)
+      expect(store.error).toBe('未找到ID为 missing 的待办事项')
+      
+      store.toggleTodo(a.id)
+      store.setFilter('active')
+      expect(store.moveTodo(a.id, 1)).toBe(false)
+      expect(store.error).toBe('待办事项 A 不在当前视图中')
+      
+      store.setFilter('all')
+      store.setSortConfig({ field: 'title', direction: 'asc' })
+      expect(store.moveTodo(a.id, 1)).toBe(false)
+      expect(store.error).toBe('按字段排序时不能手动调整顺序')
+      consoleSpy.mockRestore()
+    })
+  })
+  
+  describe('全文搜索', () => {
+    const titles = (todos: Todo[]) => todos.map(todo => todo.title)
+    
+    it('搜索与状态过滤和标签过滤同时生效', () => {
+      const store = useTodoStore()
+      store.addTodo('写周报', { tags: ['工作'] })
+      const done = store.addTodo('周报归档')
+      store.addTodo('买菜', { tags: ['周末'] })
+      store.toggleTodo(done.id)
+      
+      store.setSearchQuery('周')
+      expect(store.isSearching).toBe(true)
+      expect(titles(store.filteredTodos)).toEqual(['写周报', '周报归档', '买菜'])
+      
+      store.setFilter('active')
+      expect(titles(store.filteredTodos)).toEqual(['写周报', '买菜'])
+      
+      store.setTagFilter(['工作'])
+      expect(titles(store.filteredTodos)).toEqual(['写周报'])
+      
+      store.clearSearch()
+      store.setTagFilter([])
+      expect(store.isSearching).toBe(false)
+      expect(titles(store.filteredTodos)).toEqual(['写周报', '买菜'])
+    })
+    
+    it('支持区分大小写、正则表达式和指定字段', () => {
+      const store = useTodoStore()
+      store.addTodo('Review PR')
+      store.addTodo('review docs', { tags: ['pr'] })
+      
+      store.setSearchQuery('PR')
+      expect(titles(store.filteredTodos)).toEqual(['Review PR', 'review docs'])
+      
+      expect(store.setSearchOptions({ caseSensitive: true })).toBe(true)
+      expect(titles(store.filteredTodos)).toEqual(['Review PR'])
+      
+      store.setSearchOptions({ caseSensitive: false, fields: ['title'] })
+      expect(titles(store.filteredTodos)).toEqual(['Review PR'])
+      
+      store.setSearchOptions({ useRegex: true, fields: ['title', 'tags'] })
+      store.setSearchQuery('^review\\s')
+      expect(titles(store.filteredTodos)).toEqual(['Review PR', 'review docs'])
+    })
+    
+    it('正则表达式无效时显示搜索错误，不影响列表', () => {
+      const store = useTodoStore()
+      store.addTodo('任务')
+      store.setSearchOptions({ useRegex: true })
+      
+      store.setSearchQuery('(')
+      
+      expect(store.searchError).toMatch(/^无效的正则表达式/)
+      expect(store.error).toBeNull()
+      expect(store.isSearching).toBe(false)
+      expect(store.filteredTodos).toHaveLength(1)
+    })
+    
+    it('提供高亮配置，可以关闭高亮', () => {
+      const store = useTodoStore()
+      expect(store.searchHighlight).toBeNull()
+      
+      store.setSearchQuery('任务')
+      expect(store.searchHighlight?.pattern.test('任务')).toBe(true)
+      
+      store.setSearchOptions({ highlight: { enabled: false } })
+      expect(store.searchHighlight).toBeNull()
+    })
+    
+    it('搜索字段不能为空', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const store = useTodoStore()
+      
+      expect(store.setSearchOptions({ fields: [] })).toBe(false)
+      expect(store.error).toBe('至少需要搜索一个字段')
+      expect(store.searchOptions.fields).toEqual(['title', 'tags'])
+      consoleSpy.mockRestore()
+    })
+    
+    it('数千条待办事项时只编译一次搜索条件', () => {
+      const store = useTodoStore()
+      store.addMultipleTodos(Array.from({ length: 3000 }, (_, index) => `任务 ${index}`))
+      const RegExpSpy = jest.spyOn(global, 'RegExp')
+      
+      store.setSearchQuery('任务 29')
+      
+      expect(store.filteredTodos).toHaveLength(111)
+      expect(RegExpSpy).toHaveBeenCalledTimes(1)
+      RegExpSpy.mockRestore()
+    })
+  })
+  
+  describe('模糊搜索', () => {
+    const titles = (todos: Todo[]) => todos.map(todo => todo.title)
+    
+    it('容忍拼写错误并按相关度排列', () => {
+      const store = useTodoStore()
+      store.addTodo('Review deployment docs')
+      store.addTodo('Write report', { tags: ['deploy'] })
+      store.addTodo('Deploy staging')
+      store.addTodo('Buy milk')
+      
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deplyo')
+      
+      expect(store.isSearching).toBe(true)
+      expect(store.isFuzzySearching).toBe(true)
+      expect(store.searchHighlight).toBeNull()
+      expect(titles(store.filteredTodos)).toEqual(['Deploy staging', 'Review deployment docs', 'Write report'])
+    })
+    
+    it('提供匹配范围用于高亮，可以关闭高亮', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('Deploy staging')
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deplyo')
+      
+      expect(store.searchMatches).toEqual({
+        [todo.id]: [{ field: 'title', index: 0, ranges: [[0, 6]] }]
+      })
+      
+      store.setSearchOptions({ highlight: { enabled: false } })
+      expect(store.searchMatches).toEqual({})
+    })
+    
+    it('待办事项变化后更新索引', () => {
+      const store = useTodoStore()
+      const todo = store.addTodo('Write report')
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deplyo')
+      expect(store.filteredTodos).toHaveLength(0)
+      
+      store.updateTodo(todo.id, { title: 'Deploy report' })
+      expect(titles(store.filteredTodos)).toEqual(['Deploy report'])
+      
+      store.addTodo('Deploy staging')
+      expect(store.filteredTodos).toHaveLength(2)
+      
+      store.deleteTodo(todo.id)
+      expect(titles(store.filteredTodos)).toEqual(['Deploy staging'])
+      
+      store.undo()
+      expect(titles(store.filteredTodos)).toEqual(['Deploy report', 'Deploy staging'])
+    })
+    
+    it('关闭模糊匹配期间的修改在重新开启后生效', () => {
+      const store = useTodoStore()
+      store.addTodo('Deploy staging')
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deplyo')
+      expect(store.filteredTodos).toHaveLength(1)
+      
+      store.setSearchOptions({ fuzzy: false })
+      store.addTodo('Deploy production')
+      store.setSearchOptions({ fuzzy: true })
+      
+      expect(titles(store.filteredTodos)).toEqual(['Deploy staging', 'Deploy production'])
+    })
+    
+    it('与状态过滤同时生效，关闭后恢复普通搜索', () => {
+      const store = useTodoStore()
+      const done = store.addTodo('Deploy staging')
+      store.addTodo('Deploy production')
+      store.toggleTodo(done.id)
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deplyo')
+      
+      store.setFilter('active')
+      expect(titles(store.filteredTodos)).toEqual(['Deploy production'])
+      
+      store.setSearchOptions({ fuzzy: false })
+      expect(store.isFuzzySearching).toBe(false)
+      expect(store.searchMatches).toEqual({})
+      expect(store.filteredTodos).toHaveLength(0)
+    })
+    
+    it('批量修改后只同步一次索引', () => {
+      const createFuzzyIndex = jest.requireActual<typeof fuzzy>('@/utils/fuzzy').createFuzzyIndex
+      let syncCalls = 0
+      const spy = jest.spyOn(fuzzy, 'createFuzzyIndex').mockImplementation(() => {
+        const index = createFuzzyIndex()
+        const sync = index.sync
+        index.sync = todos => {
+          syncCalls++
+          return sync(todos)
+        }
+        return index
+      })
+      
+      const store = useTodoStore()
+      store.addMultipleTodos(Array.from({ length: 500 }, (_, i) => `Deploy ${i}`))
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deplyo')
+      expect(store.filteredTodos).toHaveLength(500)
+      expect(syncCalls).toBe(1)
+      
+      syncCalls = 0
+      store.toggleAllTodos(true)
+      store.toggleAllTodos(false)
+      store.updateTodo(store.todos[0].id, { title: 'Write report' })
+      expect(store.filteredTodos).toHaveLength(499)
+      expect(syncCalls).toBe(1)
+      
+      spy.mockRestore()
+    })
+    
+    it('模糊搜索时不能手动调整顺序', () => {
+      const store = useTodoStore()
+      const a = store.addTodo('Deploy a')
+      store.addTodo('Deploy b')
+      store.setSearchOptions({ fuzzy: true })
+      store.setSearchQuery('deploy')
+      
+      expect(store.moveTodo(a.id, 1)).toBe(false)
+      expect(store.error).toBe('模糊搜索时不能手动调整顺序')
+    })
+  })
+  
+  describe('智能过滤', () => {
+    const titles = (todos: Todo[]) => todos.map(todo => todo.title)
+    
+    it('按查询文本过滤，与状态过滤和搜索同时生效', () => {
+      const store = useTodoStore()
+      store.addTodo('发布后端', { tags: ['backend'], priority: 'high' })
+      store.addTodo('后端文档', { tags: ['backend'] })
+      const done = store.addTodo('发布前端', { tags: ['frontend'], priority: 'urgent' })
+      store.toggleTodo(done.id)
+      
+      expect(store.setFilterQuery('priority:>=high')).toBe(true)
+      expect(titles(store.filteredTodos)).toEqual(['发布后端', '发布前端'])
+      expect(store.filterQueryText).toBe('priority:>=high')
+      
+      store.setFilter('active')
+      expect(titles(store.filteredTodos)).toEqual(['发布后端'])
+      
+      store.setFilter('all')
+      store.setFilterQuery('tag:backend OR is:done')
+      store.setSearchQuery('发布')
+      expect(titles(store.filteredTodos)).toEqual(['发布后端', '发布前端'])
+    })
+    
+    it('接受已解析的查询条件', () => {
+      const store = useTodoStore()
+      store.addTodo('任务A', { tags: ['工作'] })
+      store.addTodo('任务B')
+      
+      expect(store.setFilterQuery({ type: 'not', child: { type: 'has', value: 'tags' } })).toBe(true)
+      
+      expect(titles(store.filteredTodos)).toEqual(['任务B'])
+      expect(store.filterQueryText).toBe('-has:tags')
+    })
+    
+    it('查询格式错误时保留原有条件，不影响列表', () => {
+      const store = useTodoStore()
+      store.addTodo('任务A', { tags: ['工作'] })
+      store.addTodo('任务B')
+      store.setFilterQuery('tag:工作')
+      
+      expect(store.setFilterQuery('tag:工作 OR')).toBe(false)
+      
+      expect(store.filterQueryError?.message).toContain('"OR" 后面缺少条件')
+      expect(store.error).toBeNull()
+      expect(store.filterQueryText).toBe('tag:工作')
+      expect(titles(store.filteredTodos)).toEqual(['任务A'])
+      
+      store.clearFilterQuery()
+      expect(store.filterQuery).toBeNull()
+      expect(store.filterQueryError).toBeNull()
+      expect(store.filteredTodos).toHaveLength(2)
     })
   })
 })
\ No newline at end of file
@@ -38,6 +38,9 @@ describe('类型定义测试', () => {
       id: 'test-id',
       title: '测试待办事项',
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date(),
       updatedAt: new Date()
     }
@@ -134,6 +137,9 @@ describe('类型定义测试', () => {
       id: 'test-id',
       title: '测试',
       completed: false,
+      priority: 'none',
+      tags: [],
+      projectId: 'default',
       createdAt: new Date(),
       updatedAt: new Date()
     }
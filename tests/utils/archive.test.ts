@@ -0,0 +1,81 @@
+/**
+ * 归档工具函数测试
+ *
+ * 测试归档相关的纯函数，包括：
+ * 1. 待办事项与归档项之间的转换
+ * 2. 按关键字和归档日期范围筛选
+ */
+
+import type { Todo, ArchivedTodo } from '@/types/todo'
+import {
+  toArchivedTodos,
+  fromArchivedTodo,
+  matchesArchiveFilter,
+  filterArchivedTodos
+} from '@/utils/archive'
+
+const createMockTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: true,
+  priority: 'none',
+  tags: ['工作'],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+const archived = (id: string, archivedAt: Date, overrides: Partial<Todo> = {}): ArchivedTodo => ({
+  ...createMockTodo(id, overrides),
+  archivedAt
+})
+
+describe('归档工具函数测试', () => {
+  test('转换为归档项时复制数据，还原时去掉归档时间', () => {
+    const todo = createMockTodo('1')
+    const archivedAt = new Date('2024-02-01T00:00:00Z')
+
+    const [item] = toArchivedTodos([todo], archivedAt)
+    item.tags.push('其他')
+
+    expect(item.archivedAt).toEqual(archivedAt)
+    expect(item.archivedAt).not.toBe(archivedAt)
+    expect(todo.tags).toEqual(['工作'])
+
+    const restored = fromArchivedTodo(item)
+    expect('archivedAt' in restored).toBe(false)
+    expect(restored).toEqual({ ...todo, tags: ['工作', '其他'] })
+  })
+
+  test('按标题或标签搜索，不区分大小写', () => {
+    const item = archived('1', new Date(2024, 1, 1), { title: 'Write Report', tags: ['Docs'] })
+
+    expect(matchesArchiveFilter(item, { query: 'report' })).toBe(true)
+    expect(matchesArchiveFilter(item, { query: ' docs ' })).toBe(true)
+    expect(matchesArchiveFilter(item, { query: '会议' })).toBe(false)
+    expect(matchesArchiveFilter(item, { query: '   ' })).toBe(true)
+  })
+
+  test('日期范围包含开始日和结束日当天', () => {
+    const item = archived('1', new Date(2024, 1, 10, 23, 30))
+
+    expect(matchesArchiveFilter(item, { from: new Date(2024, 1, 10, 12) })).toBe(true)
+    expect(matchesArchiveFilter(item, { to: new Date(2024, 1, 10) })).toBe(true)
+    expect(matchesArchiveFilter(item, { from: new Date(2024, 1, 11) })).toBe(false)
+    expect(matchesArchiveFilter(item, { to: new Date(2024, 1, 9) })).toBe(false)
+    expect(matchesArchiveFilter(item, { from: null, to: null })).toBe(true)
+  })
+
+  test('过滤结果按归档时间从新到旧排列', () => {
+    const items = [
+      archived('a', new Date(2024, 0, 5)),
+      archived('b', new Date(2024, 1, 5)),
+      archived('c', new Date(2024, 2, 5), { title: '其他' })
+    ]
+
+    expect(filterArchivedTodos(items).map(item => item.id)).toEqual(['c', 'b', 'a'])
+    expect(filterArchivedTodos(items, { query: '任务', from: new Date(2024, 1, 1) }).map(item => item.id)).toEqual(['b'])
+    expect(items.map(item => item.id)).toEqual(['a', 'b', 'c'])
+  })
+})
@@ -0,0 +1,230 @@
+/**
+ * CSV 导入导出测试
+ *
+ * 测试 CSV 相关的工具函数，包括：
+ * 1. RFC 4180 的解析与生成（引号、转义、字段内换行）
+ * 2. 待办事项的导出与字段映射
+ * 3. 导入时的类型转换与日期解析
+ * 4. skip / stop / collect 错误处理策略
+ */
+
+import type { Todo } from '@/types/todo'
+import { ErrorCode } from '@/types/error'
+import { parseCsv, stringifyCsv, exportTodosToCsv, importTodosFromCsv } from '@/utils/csv'
+
+const createMockTodo = (id: string, title: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+describe('CSV 导入导出测试', () => {
+  describe('parseCsv', () => {
+    test('解析带引号、转义双引号和字段内换行的字段', () => {
+      const rows = parseCsv('a,"b,1","say ""hi"""\r\n"多\r\n行",,c\r\n')
+
+      expect(rows).toEqual([
+        ['a', 'b,1', 'say "hi"'],
+        ['多\r\n行', '', 'c']
+      ])
+    })
+
+    test('支持LF换行并去掉BOM', () => {
+      expect(parseCsv('﻿title\nfoo\nbar')).toEqual([['title'], ['foo'], ['bar']])
+    })
+
+    test('引号没有闭合时抛出错误', () => {
+      expect(() => parseCsv('title\n"没有闭合')).toThrow(
+        expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR, context: { line: 2 } })
+      )
+    })
+  })
+
+  describe('stringifyCsv', () => {
+    test('只为需要的字段加引号', () => {
+      const csv = stringifyCsv([['plain', 'a,b', 'say "hi"', '多\n行', ' 空格', null, true]])
+
+      expect(csv).toBe('plain,"a,b","say ""hi""","多\n行"," 空格",,true')
+    })
+
+    test('生成的文本可以被原样解析回来', () => {
+      const rows = [['标题', '备注'], ['a "b"', 'x,\r\ny']]
+
+      expect(parseCsv(stringifyCsv(rows))).toEqual(rows)
+    })
+  })
+
+  describe('exportTodosToCsv', () => {
+    test('默认导出所有字段并包含标题行', () => {
+      const csv = exportTodosToCsv([
+        createMockTodo('1', '买牛奶', { tags: ['生活', '购物'], dueDate: new Date('2024-02-01T00:00:00Z') })
+      ])
+      const [header, row] = parseCsv(csv)
+
+      expect(header).toEqual([
+        'id', 'title', 'completed', 'priority', 'tags', 'projectId',
+        'parentId', 'dueDate', 'startDate', 'createdAt', 'updatedAt'
+      ])
+      expect(row).toEqual([
+        '1', '买牛奶', 'false', 'none', '生活;购物', 'default',
+        '', '2024-02-01T00:00:00.000Z', '', '2024-01-01T10:00:00.000Z', '2024-01-01T10:00:00.000Z'
+      ])
+    })
+
+    test('按字段映射导出并可以省略标题行', () => {
+      const todos = [createMockTodo('1', '第一行\n第二行', { completed: true }), createMockTodo('2', '未完成')]
+
+      const csv = exportTodosToCsv(todos, {
+        fieldMapping: { title: '标题', completed: '完成' },
+        includeHeaders: false,
+        filter: (todo: Todo) => todo.completed
+      })
+
+      expect(csv).toBe('"第一行\n第二行",true')
+    })
+
+    test('字段映射中有未知字段时抛出错误', () => {
+      expect(() => exportTodosToCsv([], { fieldMapping: { unknown: '未知' } })).toThrow('未知的字段: unknown')
+    })
+  })
+
+  describe('importTodosFromCsv', () => {
+    test('按标题行导入并转换字段类型', async () => {
+      const csv = [
+        'title,completed,priority,tags,dueDate,createdAt',
+        '"多行\n标题",yes,HIGH, 工作 ; 紧急 ,2024-02-01,2024-01-01T10:00:00Z',
+        '',
+        '只有标题,,,,,'
+      ].join('\r\n')
+
+      const result = await importTodosFromCsv(csv)
+
+      expect(result.success).toBe(true)
+      expect(result.total).toBe(2)
+      expect(result.data[0]).toMatchObject({
+        title: '多行\n标题',
+        completed: true,
+        priority: 'high',
+        tags: ['工作', '紧急'],
+        projectId: 'default',
+        dueDate: new Date('2024-02-01'),
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        updatedAt: new Date('2024-01-01T10:00:00Z')
+      })
+      expect(result.data[1]).toMatchObject({ title: '只有标题', completed: false, priority: 'none', tags: [] })
+      expect(result.data[1].id).toEqual(expect.any(String))
+    })
+
+    test('导出的数据可以完整导入', async () => {
+      const todo = createMockTodo('1', '往返', {
+        completed: true,
+        priority: 'medium',
+        tags: ['a'],
+        parentId: 'p',
+        startDate: new Date('2024-01-05T08:00:00Z')
+      })
+
+      const result = await importTodosFromCsv(exportTodosToCsv([todo]))
+
+      expect(result.data).toEqual([todo])
+    })
+
+    test('使用字段映射匹配自定义列名', async () => {
+      const result = await importTodosFromCsv('标题,完成\n写报告,是', {
+        fieldMapping: { title: '标题', completed: '完成' }
+      })
+
+      expect(result.data[0]).toMatchObject({ title: '写报告', completed: true })
+    })
+
+    test('不跳过标题行时按字段顺序匹配列', async () => {
+      const result = await importTodosFromCsv('写报告,true', {
+        skipHeaders: false,
+        fieldMapping: { title: '标题', completed: '完成' }
+      })
+
+      expect(result.total).toBe(1)
+      expect(result.data[0]).toMatchObject({ title: '写报告', completed: true })
+    })
+
+    test('缺少标题列时导入失败', async () => {
+      const result = await importTodosFromCsv('name\nfoo')
+
+      expect(result.success).toBe(false)
+      expect(result.errors).toEqual([{ row: 1, field: 'title', message: '缺少标题列' }])
+    })
+
+    test('引号没有闭合时返回错误报告', async () => {
+      const result = await importTodosFromCsv('title\n"坏数据')
+
+      expect(result.success).toBe(false)
+      expect(result.errors[0]).toMatchObject({ row: 2 })
+    })
+
+    describe('错误处理策略', () => {
+      const csv = [
+        'title,priority,dueDate',
+        '正常,low,',
+        ',critical,明天',
+        '日期错误,,not-a-date',
+        '也正常,,'
+      ].join('\n')
+
+      test('collect 报告所有错误并导入失败', async () => {
+        const result = await importTodosFromCsv(csv, { errorStrategy: 'collect' })
+
+        expect(result.success).toBe(false)
+        expect(result.skipped).toBe(2)
+        expect(result.errors).toEqual([
+          { row: 3, field: 'title', value: '', message: '待办事项标题不能为空' },
+          { row: 3, field: 'priority', value: 'critical', message: '优先级无效' },
+          { row: 3, field: 'dueDate', value: '明天', message: '日期格式无效' },
+          { row: 4, field: 'dueDate', value: 'not-a-date', message: '日期格式无效' }
+        ])
+      })
+
+      test('默认使用 collect 策略', async () => {
+        const result = await importTodosFromCsv(csv)
+
+        expect(result.errors).toHaveLength(4)
+      })
+
+      test('skip 跳过错误行并导入其余行', async () => {
+        const result = await importTodosFromCsv(csv, { errorStrategy: 'skip' })
+
+        expect(result.success).toBe(true)
+        expect(result.data.map(todo => todo.title)).toEqual(['正常', '也正常'])
+        expect(result.errors.map(error => error.row)).toEqual([3, 4])
+        expect(result.skipped).toBe(2)
+      })
+
+      test('stop 在第一个错误处停止且不导入数据', async () => {
+        const result = await importTodosFromCsv(csv, { errorStrategy: 'stop' })
+
+        expect(result.success).toBe(false)
+        expect(result.data).toEqual([])
+        expect(result.errors).toEqual([{ row: 3, field: 'title', value: '', message: '待办事项标题不能为空' }])
+      })
+    })
+
+    test('对每一行执行验证规则', async () => {
+      const result = await importTodosFromCsv('title\n短\n足够长的标题', {
+        errorStrategy: 'skip',
+        validationRules: [{
+          name: 'minLength',
+          validator: async (todo: Todo) => todo.title.length >= 3,
+          message: '标题至少3个字符'
+        }]
+      })
+
+      expect(result.data.map(todo => todo.title)).toEqual(['足够长的标题'])
+      expect(result.errors).toEqual([{ row: 2, field: 'minLength', message: '标题至少3个字符' }])
+    })
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * 截止日期工具函数测试
+ *
+ * 测试截止日期相关的纯函数，包括：
+ * 1. 自然日计算
+ * 2. 逾期/今天到期/即将到期的判断
+ * 3. 日期输入框值的转换
+ */
+
+import {
+  startOfDay,
+  diffInDays,
+  getDueStatus,
+  isOverdue,
+  isDueToday,
+  isUpcoming,
+  toDateInputValue,
+  parseDateInputValue
+} from '@/utils/dueDate'
+
+describe('截止日期工具函数测试', () => {
+  // 固定的"当前时间"：2024-03-15 下午
+  const now = new Date(2024, 2, 15, 15, 30)
+
+  describe('startOfDay / diffInDays', () => {
+    test('返回当天零点', () => {
+      const result = startOfDay(now)
+
+      expect(result.getFullYear()).toBe(2024)
+      expect(result.getMonth()).toBe(2)
+      expect(result.getDate()).toBe(15)
+      expect(result.getHours()).toBe(0)
+      expect(result.getMinutes()).toBe(0)
+    })
+
+    test('按自然日计算天数差，忽略具体时刻', () => {
+      expect(diffInDays(now, new Date(2024, 2, 15, 0, 1))).toBe(0)
+      expect(diffInDays(now, new Date(2024, 2, 16, 0, 1))).toBe(1)
+      expect(diffInDays(now, new Date(2024, 2, 14, 23, 59))).toBe(-1)
+      expect(diffInDays(now, new Date(2024, 3, 15))).toBe(31)
+    })
+  })
+
+  describe('getDueStatus', () => {
+    test('没有截止日期时返回none', () => {
+      expect(getDueStatus({ completed: false }, now)).toBe('none')
+    })
+
+    test('已完成的待办事项不算逾期', () => {
+      expect(getDueStatus({ completed: true, dueDate: new Date(2024, 2, 1) }, now)).toBe('none')
+    })
+
+    test('正确区分逾期、今天、即将到期和较远', () => {
+      expect(getDueStatus({ completed: false, dueDate: new Date(2024, 2, 14) }, now)).toBe('overdue')
+      expect(getDueStatus({ completed: false, dueDate: new Date(2024, 2, 15, 9) }, now)).toBe('today')
+      expect(getDueStatus({ completed: false, dueDate: new Date(2024, 2, 22) }, now)).toBe('upcoming')
+      expect(getDueStatus({ completed: false, dueDate: new Date(2024, 2, 23) }, now)).toBe('later')
+    })
+
+    test('支持自定义即将到期天数', () => {
+      const todo = { completed: false, dueDate: new Date(2024, 2, 18) }
+
+      expect(getDueStatus(todo, now, 2)).toBe('later')
+      expect(getDueStatus(todo, now, 3)).toBe('upcoming')
+    })
+
+    test('便捷判断函数与getDueStatus一致', () => {
+      const overdue = { completed: false, dueDate: new Date(2024, 2, 10) }
+      const today = { completed: false, dueDate: new Date(2024, 2, 15) }
+      const upcoming = { completed: false, dueDate: new Date(2024, 2, 17) }
+
+      expect(isOverdue(overdue, now)).toBe(true)
+      expect(isDueToday(today, now)).toBe(true)
+      expect(isUpcoming(upcoming, now)).toBe(true)
+      expect(isOverdue(today, now)).toBe(false)
+    })
+  })
+
+  describe('日期输入框转换', () => {
+    test('格式化为YYYY-MM-DD', () => {
+      expect(toDateInputValue(new Date(2024, 0, 5))).toBe('2024-01-05')
+      expect(toDateInputValue(undefined)).toBe('')
+      expect(toDateInputValue(new Date('invalid'))).toBe('')
+    })
+
+    test('解析YYYY-MM-DD为本地零点', () => {
+      const date = parseDateInputValue('2024-12-31')
+
+      expect(date).toBeInstanceOf(Date)
+      expect(date!.getFullYear()).toBe(2024)
+      expect(date!.getMonth()).toBe(11)
+      expect(date!.getDate()).toBe(31)
+      expect(date!.getHours()).toBe(0)
+    })
+
+    test('空值或非法日期返回null', () => {
+      expect(parseDateInputValue('')).toBeNull()
+      expect(parseDateInputValue('2024/01/01')).toBeNull()
+      expect(parseDateInputValue('2024-02-31')).toBeNull()
+    })
+  })
+})
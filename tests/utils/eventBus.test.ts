@@ -0,0 +1,102 @@
+/**
+ * 事件总线测试
+ *
+ * 测试类型化的事件发射器，包括：
+ * 1. 订阅、取消订阅和只触发一次的订阅
+ * 2. 发出事件时的调用顺序
+ * 3. 监听函数出错时不影响其他监听函数
+ */
+
+import { createEventBus } from '@/utils/eventBus'
+
+interface TestEvents {
+  ping: { count: number }
+  done: { ok: boolean }
+}
+
+describe('事件总线测试', () => {
+  test('按订阅顺序调用监听函数', () => {
+    const bus = createEventBus<TestEvents>()
+    const calls: string[] = []
+    bus.on('ping', payload => calls.push(`a${payload.count}`))
+    bus.on('ping', payload => calls.push(`b${payload.count}`))
+    bus.on('done', () => calls.push('done'))
+
+    bus.emit('ping', { count: 1 })
+
+    expect(calls).toEqual(['a1', 'b1'])
+    expect(bus.listenerCount('ping')).toBe(2)
+    expect(bus.listenerCount()).toBe(3)
+  })
+
+  test('调用返回的函数或 off 取消订阅', () => {
+    const bus = createEventBus<TestEvents>()
+    const first = jest.fn()
+    const second = jest.fn()
+    const stop = bus.on('ping', first)
+    bus.on('ping', second)
+
+    stop()
+    bus.emit('ping', { count: 1 })
+    bus.off('ping', second)
+    bus.emit('ping', { count: 2 })
+
+    expect(first).not.toHaveBeenCalled()
+    expect(second).toHaveBeenCalledTimes(1)
+    expect(bus.listenerCount('ping')).toBe(0)
+  })
+
+  test('off 不传监听函数时取消该事件的全部订阅，clear 取消全部订阅', () => {
+    const bus = createEventBus<TestEvents>()
+    bus.on('ping', jest.fn())
+    bus.on('ping', jest.fn())
+    bus.on('done', jest.fn())
+
+    bus.off('ping')
+    expect(bus.listenerCount('ping')).toBe(0)
+    expect(bus.listenerCount('done')).toBe(1)
+
+    bus.clear()
+    expect(bus.listenerCount()).toBe(0)
+  })
+
+  test('once 只触发一次', () => {
+    const bus = createEventBus<TestEvents>()
+    const listener = jest.fn()
+    bus.once('done', listener)
+
+    bus.emit('done', { ok: true })
+    bus.emit('done', { ok: false })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith({ ok: true })
+  })
+
+  test('监听函数中取消订阅不影响本次调用的其他监听函数', () => {
+    const bus = createEventBus<TestEvents>()
+    const second = jest.fn()
+    const stopSelf = bus.on('ping', () => stopSelf())
+    bus.on('ping', second)
+
+    bus.emit('ping', { count: 1 })
+
+    expect(second).toHaveBeenCalledTimes(1)
+    expect(bus.listenerCount('ping')).toBe(1)
+  })
+
+  test('监听函数出错时记录错误并继续调用其他监听函数', () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+    const bus = createEventBus<TestEvents>()
+    const listener = jest.fn()
+    bus.on('ping', () => {
+      throw new Error('boom')
+    })
+    bus.on('ping', listener)
+
+    expect(() => bus.emit('ping', { count: 1 })).not.toThrow()
+    expect(listener).toHaveBeenCalled()
+    expect(consoleSpy).toHaveBeenCalled()
+
+    consoleSpy.mockRestore()
+  })
+})
@@ -0,0 +1,130 @@
+/**
+ * 模糊搜索工具函数测试
+ *
+ * 测试模糊搜索相关的函数，包括：
+ * 1. 编辑距离和单个查询词的匹配（子串、拼写容错、按顺序出现的字符）
+ * 2. 按分数排序的搜索结果和匹配范围
+ * 3. 索引的增量更新
+ */
+
+import type { Todo } from '@/types/todo'
+import {
+  getAllowedTypos,
+  prefixDistance,
+  mergeRanges,
+  matchFuzzyText,
+  createFuzzyIndex
+} from '@/utils/fuzzy'
+
+const createMockTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+describe('模糊搜索工具函数测试', () => {
+  test('相邻字符交换计为一次编辑', () => {
+    expect(prefixDistance('deplyo', 'deploy')).toEqual({ distance: 1, length: 6 })
+    expect(prefixDistance('stagin', 'staging')).toEqual({ distance: 0, length: 6 })
+    expect(prefixDistance('abc', 'xyz').distance).toBe(3)
+  })
+
+  test('查询词越长允许的拼写错误越多', () => {
+    expect(getAllowedTypos(2)).toBe(0)
+    expect(getAllowedTypos(4)).toBe(1)
+    expect(getAllowedTypos(8)).toBe(2)
+  })
+
+  test('合并相邻或重叠的范围', () => {
+    expect(mergeRanges([[4, 6], [0, 2], [2, 3], [5, 8]])).toEqual([[0, 3], [4, 8]])
+    expect(mergeRanges([])).toEqual([])
+  })
+
+  test('子串匹配的分数高于拼写容错和按顺序出现的字符', () => {
+    const exact = matchFuzzyText('deploy', 'deploy staging')
+    const typo = matchFuzzyText('deplyo', 'deploy staging')
+    const subsequence = matchFuzzyText('dply', 'deploy staging')
+
+    expect(exact).toEqual({ score: 1, ranges: [[0, 6]] })
+    expect(typo!.ranges).toEqual([[0, 6]])
+    expect(subsequence!.ranges).toEqual([[0, 1], [2, 4], [5, 6]])
+    expect(exact!.score).toBeGreaterThan(typo!.score)
+    expect(typo!.score).toBeGreaterThan(subsequence!.score)
+  })
+
+  test('不匹配时返回null', () => {
+    expect(matchFuzzyText('release', 'deploy staging')).toBeNull()
+    expect(matchFuzzyText('', 'deploy')).toBeNull()
+  })
+
+  test('搜索结果按分数排列并包含匹配范围', () => {
+    const index = createFuzzyIndex()
+    index.sync([
+      createMockTodo('1', { title: 'Review deployment docs' }),
+      createMockTodo('2', { title: 'Deploy staging' }),
+      createMockTodo('3', { title: 'Write report', tags: ['deploy'] }),
+      createMockTodo('4', { title: 'Buy milk' })
+    ])
+
+    const results = index.search('deplyo')
+
+    expect(results.map(result => result.id)).toEqual(['2', '1', '3'])
+    expect(results[0].matches).toEqual([{ field: 'title', index: 0, ranges: [[0, 6]] }])
+    expect(results[2].matches).toEqual([{ field: 'tags', index: 0, ranges: [[0, 6]] }])
+  })
+
+  test('多个查询词都匹配时才返回结果', () => {
+    const index = createFuzzyIndex()
+    index.sync([
+      createMockTodo('1', { title: 'Deploy staging' }),
+      createMockTodo('2', { title: 'Deploy production' })
+    ])
+
+    const results = index.search('deplyo stagign')
+
+    expect(results.map(result => result.id)).toEqual(['1'])
+    expect(results[0].matches[0].ranges).toEqual([[0, 6], [7, 14]])
+    expect(index.search('  ')).toEqual([])
+  })
+
+  test('搜索插件提供的备注字段', () => {
+    const index = createFuzzyIndex()
+    index.sync([
+      { ...createMockTodo('1', { title: '周会' }), notes: '准备 deploy 计划' } as Todo
+    ])
+
+    expect(index.search('deploy')[0].matches).toEqual([{ field: 'notes', index: 0, ranges: [[3, 9]] }])
+  })
+
+  test('限制结果数量', () => {
+    const index = createFuzzyIndex()
+    index.sync(['a', 'b', 'c'].map(id => createMockTodo(id, { title: 'deploy' })))
+
+    expect(index.search('deploy', { limit: 2 }).map(result => result.id)).toEqual(['a', 'b'])
+  })
+
+  test('只重新索引内容有变化的待办事项', () => {
+    const index = createFuzzyIndex()
+    const todos = [
+      createMockTodo('1', { title: 'Deploy staging' }),
+      createMockTodo('2', { title: 'Write report' })
+    ]
+
+    expect(index.sync(todos)).toBe(2)
+    expect(index.sync(todos)).toBe(0)
+
+    todos[1] = { ...todos[1], title: 'Deploy report' }
+    expect(index.sync(todos)).toBe(1)
+    expect(index.search('deploy').map(result => result.id)).toEqual(['1', '2'])
+
+    expect(index.sync([todos[1]])).toBe(0)
+    expect(index.size).toBe(1)
+    expect(index.search('staging')).toEqual([])
+  })
+})
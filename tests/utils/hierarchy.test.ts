@@ -0,0 +1,119 @@
+/**
+ * 子任务层级工具函数测试
+ *
+ * 测试基于parentId的层级工具函数，包括：
+ * 1. 子任务、后代、祖先的查询
+ * 2. 完成进度的汇总
+ * 3. 树形结构的构建
+ * 4. 失效父子关系的修复
+ */
+
+import type { Todo } from '@/types/todo'
+import {
+  getChildren,
+  getDescendantIds,
+  getAncestorIds,
+  getDepth,
+  getSubtreeHeight,
+  getSubtaskProgress,
+  getProgressMap,
+  buildTodoTree,
+  repairHierarchy
+} from '@/utils/hierarchy'
+
+const createMockTodo = (id: string, parentId?: string, completed = false): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...(parentId ? { parentId } : {})
+})
+
+describe('子任务层级工具函数测试', () => {
+  // a
+  // ├── b（已完成）
+  // │   └── d（已完成）
+  // └── c
+  // e
+  const todos = [
+    createMockTodo('a'),
+    createMockTodo('b', 'a', true),
+    createMockTodo('c', 'a'),
+    createMockTodo('d', 'b', true),
+    createMockTodo('e')
+  ]
+
+  describe('查询', () => {
+    test('获取直接子任务', () => {
+      expect(getChildren(todos, 'a').map(t => t.id)).toEqual(['b', 'c'])
+      expect(getChildren(todos, 'e')).toEqual([])
+    })
+
+    test('获取后代和祖先', () => {
+      expect(getDescendantIds(todos, 'a')).toEqual(['b', 'c', 'd'])
+      expect(getAncestorIds(todos, 'd')).toEqual(['b', 'a'])
+      expect(getDepth(todos, 'd')).toBe(2)
+      expect(getDepth(todos, 'e')).toBe(0)
+    })
+
+    test('计算子树高度', () => {
+      expect(getSubtreeHeight(todos, 'a')).toBe(2)
+      expect(getSubtreeHeight(todos, 'b')).toBe(1)
+      expect(getSubtreeHeight(todos, 'e')).toBe(0)
+    })
+  })
+
+  describe('完成进度', () => {
+    test('按所有后代汇总进度', () => {
+      expect(getSubtaskProgress(todos, 'a')).toEqual({ completed: 2, total: 3, rate: 67 })
+      expect(getSubtaskProgress(todos, 'b')).toEqual({ completed: 1, total: 1, rate: 100 })
+      expect(getSubtaskProgress(todos, 'e')).toBeNull()
+    })
+
+    test('批量计算的结果与逐个计算一致', () => {
+      expect(getProgressMap(todos)).toEqual({
+        a: getSubtaskProgress(todos, 'a'),
+        b: getSubtaskProgress(todos, 'b')
+      })
+    })
+  })
+
+  describe('buildTodoTree', () => {
+    test('按列表顺序构建树', () => {
+      const tree = buildTodoTree(todos)
+
+      expect(tree.map(node => node.todo.id)).toEqual(['a', 'e'])
+      expect(tree[0].children.map(node => node.todo.id)).toEqual(['b', 'c'])
+      expect(tree[0].children[0].children[0].todo.id).toBe('d')
+    })
+
+    test('父任务被过滤掉时子任务作为顶层节点', () => {
+      const tree = buildTodoTree(todos.filter(todo => !todo.completed || todo.id === 'd'))
+
+      expect(tree.map(node => node.todo.id)).toEqual(['a', 'd', 'e'])
+    })
+  })
+
+  describe('repairHierarchy', () => {
+    test('没有问题时返回原数组', () => {
+      expect(repairHierarchy(todos)).toBe(todos)
+    })
+
+    test('移除指向不存在任务的parentId', () => {
+      const result = repairHierarchy([createMockTodo('x', 'missing')])
+
+      expect(result[0]).not.toHaveProperty('parentId')
+    })
+
+    test('打断循环引用', () => {
+      const result = repairHierarchy([createMockTodo('x', 'y'), createMockTodo('y', 'x')])
+
+      expect(result.filter(todo => todo.parentId)).toHaveLength(1)
+      expect(buildTodoTree(result)).toHaveLength(1)
+    })
+  })
+})
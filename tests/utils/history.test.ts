@@ -0,0 +1,123 @@
+/**
+ * 撤销/重做工具函数测试
+ *
+ * 测试历史记录相关的工具函数，包括：
+ * 1. 待办事项快照的深拷贝
+ * 2. 快照的比较
+ * 3. 历史记录栈的容量控制
+ * 4. 快照之间的差异
+ */
+
+import type { Todo } from '@/types/todo'
+import { cloneTodo, cloneTodos, diffTodos, isSameSnapshot, pushHistory } from '@/utils/history'
+
+const createMockTodo = (id: string): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: ['工作'],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  dueDate: new Date('2024-01-05T00:00:00Z'),
+  recurrence: { frequency: 'weekly', weekdays: [1, 3], until: new Date('2024-06-01T00:00:00Z') }
+})
+
+describe('撤销/重做工具函数测试', () => {
+  describe('cloneTodo', () => {
+    test('副本与原对象相等但互不影响', () => {
+      const todo = createMockTodo('1')
+      const copy = cloneTodo(todo)
+
+      expect(copy).toEqual(todo)
+
+      copy.tags.push('紧急')
+      copy.dueDate!.setFullYear(2030)
+      copy.recurrence!.weekdays!.push(5)
+      copy.recurrence!.until!.setFullYear(2030)
+
+      expect(todo.tags).toEqual(['工作'])
+      expect(todo.dueDate!.getFullYear()).toBe(2024)
+      expect(todo.recurrence!.weekdays).toEqual([1, 3])
+      expect(todo.recurrence!.until!.getFullYear()).toBe(2024)
+    })
+
+    test('插件增加的字段同样深拷贝', () => {
+      const createExtendedTodo = () => ({
+        ...createMockTodo('1'),
+        checklist: [{ text: '步骤一', done: false }],
+        reminder: { at: new Date('2024-01-04T09:00:00Z') },
+        extensions: { rec: '1w' }
+      })
+      const todo = createExtendedTodo()
+      const copy = cloneTodo(todo) as ReturnType<typeof createExtendedTodo>
+
+      expect(copy).toEqual(todo)
+
+      copy.checklist[0].done = true
+      copy.checklist.push({ text: '步骤二', done: false })
+      copy.reminder.at.setFullYear(2030)
+      copy.extensions.rec = '2w'
+
+      expect(todo).toEqual(createExtendedTodo())
+    })
+
+    test('不会添加原对象没有的可选字段', () => {
+      const { dueDate, recurrence, ...rest } = createMockTodo('1')
+      const copy = cloneTodo(rest)
+
+      expect(dueDate).toBeDefined()
+      expect(recurrence).toBeDefined()
+      expect('dueDate' in copy).toBe(false)
+      expect('recurrence' in copy).toBe(false)
+    })
+  })
+
+  describe('isSameSnapshot', () => {
+    test('内容相同的快照视为相同', () => {
+      const todos = [createMockTodo('1'), createMockTodo('2')]
+
+      expect(isSameSnapshot(todos, cloneTodos(todos))).toBe(true)
+    })
+
+    test('字段或数量不同时视为不同', () => {
+      const todos = [createMockTodo('1')]
+      const changed = cloneTodos(todos)
+      changed[0].completed = true
+
+      expect(isSameSnapshot(todos, changed)).toBe(false)
+      expect(isSameSnapshot(todos, [])).toBe(false)
+    })
+  })
+
+  describe('pushHistory', () => {
+    test('压入新记录且不修改原数组', () => {
+      const stack = [1, 2]
+
+      expect(pushHistory(stack, 3, 5)).toEqual([1, 2, 3])
+      expect(stack).toEqual([1, 2])
+    })
+
+    test('超出容量时丢弃最早的记录', () => {
+      expect(pushHistory([1, 2, 3], 4, 3)).toEqual([2, 3, 4])
+    })
+  })
+
+  describe('diffTodos', () => {
+    test('按ID找出新增、修改和删除的待办事项', () => {
+      const before = [createMockTodo('1'), createMockTodo('2'), createMockTodo('3')]
+      const after = [createMockTodo('1'), { ...createMockTodo('2'), title: '改名' }, createMockTodo('4')]
+
+      const diff = diffTodos(before, after)
+
+      expect(diff.added.map(todo => todo.id)).toEqual(['4'])
+      expect(diff.updated).toEqual([{ todo: after[1], previous: before[1] }])
+      expect(diff.deleted.map(todo => todo.id)).toEqual(['3'])
+    })
+
+    test('快照相同时没有差异', () => {
+      expect(diffTodos([createMockTodo('1')], [createMockTodo('1')])).toEqual({ added: [], updated: [], deleted: [] })
+    })
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * iCalendar 测试
+ *
+ * 测试 VTODO 的导入导出，包括：
+ * 1. 文本转义、日期格式和按字节折行
+ * 2. 内容行和嵌套组件的解析
+ * 3. Todo 与 VTODO 的字段对应以及往返导入
+ */
+
+import type { Todo } from '@/types/todo'
+import {
+  escapeICalText,
+  unescapeICalText,
+  formatICalDateTime,
+  parseICalDate,
+  foldICalLine,
+  parseICalContentLine,
+  parseICal,
+  exportTodosToICal,
+  importTodosFromICal
+} from '@/utils/ical'
+
+const createMockTodo = (id: string, title: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-02T08:30:00Z'),
+  ...overrides
+})
+
+/**
+ * 用 CRLF 连接日历文本
+ */
+const calendar = (...lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+describe('iCalendar 测试', () => {
+  describe('文本与日期', () => {
+    test('转义和反转义互为逆运算', () => {
+      const text = 'a,b;c\\d\n第二行'
+
+      expect(escapeICalText(text)).toBe('a\\,b\\;c\\\\d\\n第二行')
+      expect(unescapeICalText(escapeICalText(text))).toBe(text)
+      expect(unescapeICalText('A\\NB')).toBe('A\nB')
+    })
+
+    test('解析 DATE 与 DATE-TIME 值', () => {
+      expect(formatICalDateTime(new Date('2024-03-05T07:08:09.123Z'))).toBe('20240305T070809Z')
+      expect(parseICalDate('20240305T070809Z')).toEqual(new Date('2024-03-05T07:08:09Z'))
+      expect(parseICalDate('20240305T070809')).toEqual(new Date(2024, 2, 5, 7, 8, 9))
+      expect(parseICalDate('20240305')).toEqual(new Date(2024, 2, 5))
+      expect(parseICalDate('20240231')).toBeNull()
+      expect(parseICalDate('2024-03-05')).toBeNull()
+    })
+  })
+
+  describe('折行与内容行', () => {
+    test('按75个字节折行且不拆开多字节字符', () => {
+      const line = `SUMMARY:${'任务'.repeat(40)}`
+      const folded = foldICalLine(line)
+      const physical = folded.split('\r\n')
+
+      expect(physical.length).toBeGreaterThan(1)
+      physical.forEach(part => {
+        expect(Buffer.byteLength(part, 'utf8')).toBeLessThanOrEqual(75)
+      })
+      expect(physical.slice(1).every(part => part.startsWith(' '))).toBe(true)
+      expect(physical.map((part, index) => (index === 0 ? part : part.slice(1))).join('')).toBe(line)
+      expect(foldICalLine('SUMMARY:short')).toBe('SUMMARY:short')
+    })
+
+    test('解析参数中带引号的内容行', () => {
+      expect(parseICalContentLine('DTSTART;TZID="Asia/Shanghai:East";VALUE=DATE-TIME:20240101T090000')).toEqual({
+        name: 'DTSTART',
+        params: { TZID: 'Asia/Shanghai:East', VALUE: 'DATE-TIME' },
+        value: '20240101T090000'
+      })
+      expect(parseICalContentLine('no colon here')).toBeNull()
+    })
+
+    test('解析折行和嵌套组件', () => {
+      const [root] = parseICal(calendar(
+        'BEGIN:VTODO',
+        'SUMMARY:很长的',
+        ' 标题',
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        'END:VALARM',
+        'END:VTODO'
+      ))
+
+      expect(root.name).toBe('VCALENDAR')
+      expect(root.components[0]).toMatchObject({
+        name: 'VTODO',
+        line: 3,
+        properties: [{ name: 'SUMMARY', value: '很长的标题' }],
+        components: [{ name: 'VALARM' }]
+      })
+    })
+
+    test('BEGIN 与 END 不匹配时抛出错误', () => {
+      expect(() => parseICal(calendar('BEGIN:VTODO', 'END:VEVENT'))).toThrow('第4行')
+      expect(() => parseICal('BEGIN:VCALENDAR\r\nBEGIN:VTODO')).toThrow('没有结束')
+    })
+  })
+
+  describe('exportTodosToICal', () => {
+    test('导出 VTODO 字段', () => {
+      const ics = exportTodosToICal([
+        createMockTodo('todo-1', '写报告, 周五前; 重要', {
+          completed: true,
+          priority: 'high',
+          tags: ['工作', 'a,b'],
+          dueDate: new Date(2024, 0, 5),
+          parentId: 'todo-0'
+        })
+      ])
+      const lines = ics.split('\r\n')
+
+      expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true)
+      expect(lines.slice(0, 4)).toEqual(['BEGIN:VCALENDAR', 'VERSION:2.0', expect.stringMatching(/^PRODID:/), 'CALSCALE:GREGORIAN'])
+      expect(lines).toEqual(expect.arrayContaining([
+        'BEGIN:VTODO',
+        'UID:todo-1',
+        'CREATED:20240101T100000Z',
+        'LAST-MODIFIED:20240102T083000Z',
+        'SUMMARY:写报告\\, 周五前\\; 重要',
+        'STATUS:COMPLETED',
+        'COMPLETED:20240102T083000Z',
+        'PRIORITY:3',
+        'DUE;VALUE=DATE:20240105',
+        'CATEGORIES:工作,a\\,b',
+        'RELATED-TO:todo-0',
+        'END:VTODO'
+      ]))
+      expect(lines.some(line => line.startsWith('DTSTAMP:'))).toBe(true)
+    })
+
+    test('未完成的待办事项状态为 NEEDS-ACTION 且没有完成时间', () => {
+      const lines = exportTodosToICal([createMockTodo('1', 'A')]).split('\r\n')
+
+      expect(lines).toContain('STATUS:NEEDS-ACTION')
+      expect(lines.some(line => line.startsWith('COMPLETED:') || line.startsWith('PRIORITY:'))).toBe(false)
+    })
+  })
+
+  describe('importTodosFromICal', () => {
+    test('导入 VTODO 并忽略其他组件', () => {
+      const result = importTodosFromICal(calendar(
+        'BEGIN:VEVENT',
+        'SUMMARY:会议',
+        'END:VEVENT',
+        'BEGIN:VTODO',
+        'UID:abc@example.com',
+        'SUMMARY:买菜\\n和水果',
+        'STATUS:NEEDS-ACTION',
+        'PRIORITY:1',
+        'CATEGORIES:生活,购物',
+        'CATEGORIES:日常',
+        'CREATED:20240101T100000Z',
+        'DTSTART;TZID=Asia/Shanghai:20240110T090000',
+        'DUE;VALUE=DATE:20240111',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'UID:child',
+        'SUMMARY:子任务',
+        'COMPLETED:20240103T000000Z',
+        'RELATED-TO:abc@example.com',
+        'END:VTODO'
+      ), { projectId: 'work' })
+
+      expect(result).toMatchObject({ success: true, total: 2, skipped: 0, errors: [] })
+      expect(result.data[0]).toMatchObject({
+        id: 'abc@example.com',
+        title: '买菜\n和水果',
+        completed: false,
+        priority: 'urgent',
+        tags: ['生活', '购物', '日常'],
+        projectId: 'work',
+        createdAt: new Date('2024-01-01T10:00:00Z'),
+        startDate: new Date(2024, 0, 10, 9),
+        dueDate: new Date(2024, 0, 11)
+      })
+      expect(result.data[1]).toMatchObject({
+        id: 'child',
+        completed: true,
+        parentId: 'abc@example.com',
+        updatedAt: new Date('2024-01-03T00:00:00Z')
+      })
+    })
+
+    test('没有标题的 VTODO 被跳过，父任务不在文件中时不设置父任务', () => {
+      const result = importTodosFromICal(calendar(
+        'BEGIN:VTODO',
+        'UID:1',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'SUMMARY:孤儿任务',
+        'RELATED-TO:missing',
+        'END:VTODO'
+      ))
+
+      expect(result).toMatchObject({ success: true, total: 2, skipped: 1 })
+      expect(result.errors).toEqual([{ row: 3, message: '待办事项标题不能为空' }])
+      expect(result.data[0].parentId).toBeUndefined()
+      expect(result.data[0].id).toBeTruthy()
+    })
+
+    test('格式无效时返回错误', () => {
+      expect(importTodosFromICal('BEGIN:VTODO\r\nSUMMARY:x\r\nEND:VTODO')).toMatchObject({
+        success: false,
+        errors: [{ row: 1, message: '缺少 VCALENDAR 组件' }]
+      })
+      expect(importTodosFromICal('BEGIN:VCALENDAR\r\ngarbage\r\nEND:VCALENDAR')).toMatchObject({
+        success: false,
+        errors: [{ row: 2 }]
+      })
+    })
+
+    test('导出后再导入得到相同的字段', () => {
+      const todos = [
+        createMockTodo('p', `很长的标题${'，内容'.repeat(30)}`, { priority: 'medium', tags: ['标签'], startDate: new Date(2024, 0, 3) }),
+        createMockTodo('c', '子任务', { parentId: 'p', completed: true, priority: 'low' })
+      ]
+
+      const result = importTodosFromICal(exportTodosToICal(todos))
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual(todos)
+    })
+  })
+})
+
@@ -0,0 +1,138 @@
+/**
+ * 导入预览测试
+ *
+ * 测试导入前的预览和确认后的合并，包括：
+ * 1. 解析 JSON 备份并报告无效的数据
+ * 2. 识别新增、ID重复和标题重复的数据
+ * 3. replace / merge / append 三种导入策略
+ */
+
+import type { Todo } from '@/types/todo'
+import { parseTodosJson, createImportPreview, applyImportStrategy, resolveIdConflicts } from '@/utils/importPreview'
+
+const createMockTodo = (id: string, title: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+describe('导入预览测试', () => {
+  describe('parseTodosJson', () => {
+    test('还原日期字段并执行异步验证规则', async () => {
+      const json = JSON.stringify({ todos: [createMockTodo('1', 'A'), createMockTodo('2', 'B')] })
+
+      const result = await parseTodosJson(json, {
+        validationRules: [{ name: 'notB', validator: async (todo: Todo) => todo.title !== 'B', message: '标题不能是B' }]
+      })
+
+      expect(result).toMatchObject({ success: true, total: 2, skipped: 1 })
+      expect(result.data[0].createdAt).toEqual(new Date('2024-01-01T10:00:00Z'))
+      expect(result.errors).toEqual([{ row: 2, field: 'notB', message: '标题不能是B' }])
+    })
+
+    test('报告格式不正确的数据', async () => {
+      const result = await parseTodosJson(JSON.stringify({
+        todos: [null, { ...createMockTodo('', '  '), completed: 'yes', updatedAt: 'soon' }]
+      }))
+
+      expect(result.data).toEqual([])
+      expect(result.errors).toEqual([
+        { row: 1, message: 'Todo项数据格式不正确' },
+        { row: 2, field: 'id', value: '', message: '缺少ID' },
+        { row: 2, field: 'title', value: '  ', message: '待办事项标题不能为空' },
+        { row: 2, field: 'completed', value: 'yes', message: '完成状态必须是布尔值' },
+        { row: 2, field: 'updatedAt', value: 'soon', message: '日期格式无效' }
+      ])
+    })
+
+    test('文件无效时导入失败', async () => {
+      await expect(parseTodosJson('{')).resolves.toMatchObject({ success: false, errors: [{ row: 1, message: 'JSON 格式无效' }] })
+      await expect(parseTodosJson('{"todos": 1}')).resolves.toMatchObject({ success: false, errors: [{ row: 1, message: '无效的Todo数据格式' }] })
+    })
+  })
+
+  describe('createImportPreview', () => {
+    test('按ID和标题区分新增和重复的数据', () => {
+      const existing = [createMockTodo('1', 'Report'), createMockTodo('2', 'Groceries')]
+      const incoming = [createMockTodo('1', 'Renamed'), createMockTodo('3', 'GROCERIES '), createMockTodo('4', 'New')]
+      const errors = [{ row: 4, message: '待办事项标题不能为空' }]
+
+      const preview = createImportPreview(existing, { success: true, data: incoming, errors, total: 4, skipped: 1 })
+
+      expect(preview).toEqual({
+        success: true,
+        items: incoming,
+        newItems: [incoming[2]],
+        duplicateIds: [incoming[0]],
+        duplicateTitles: [incoming[1]],
+        invalid: errors,
+        total: 4
+      })
+    })
+  })
+
+  describe('applyImportStrategy', () => {
+    const existing = [
+      createMockTodo('1', 'Local newer', { updatedAt: new Date('2024-03-01T00:00:00Z') }),
+      createMockTodo('2', 'Local older'),
+      createMockTodo('3', 'Local only')
+    ]
+    const incoming = [
+      createMockTodo('1', 'Imported older'),
+      createMockTodo('2', 'Imported newer', { updatedAt: new Date('2024-02-01T00:00:00Z') }),
+      createMockTodo('4', 'Imported only')
+    ]
+
+    test('replace 用导入的数据替换现有数据', () => {
+      expect(applyImportStrategy(existing, incoming, 'replace')).toEqual(incoming)
+    })
+
+    test('merge 按ID合并并保留较新的一份', () => {
+      expect(applyImportStrategy(existing, incoming, 'merge').map(todo => todo.title)).toEqual([
+        'Local newer',
+        'Imported newer',
+        'Local only',
+        'Imported only'
+      ])
+    })
+
+    test('append 追加全部数据并重新生成冲突的ID', () => {
+      const result = applyImportStrategy(existing, incoming, 'append')
+
+      expect(result).toHaveLength(6)
+      expect(new Set(result.map(todo => todo.id)).size).toBe(6)
+      expect(result.slice(0, 3)).toEqual(existing)
+      expect(result[5].id).toBe('4')
+    })
+  })
+
+  describe('resolveIdConflicts', () => {
+    test('重新生成ID时同步更新子任务的父任务ID', () => {
+      const result = resolveIdConflicts([createMockTodo('p', 'Existing')], [
+        createMockTodo('p', 'Parent'),
+        createMockTodo('c', 'Child', { parentId: 'p' }),
+        createMockTodo('d', 'Other', { parentId: 'elsewhere' })
+      ])
+
+      expect(result[0].id).not.toBe('p')
+      expect(result[1]).toMatchObject({ id: 'c', parentId: result[0].id })
+      expect(result[2].parentId).toBe('elsewhere')
+    })
+
+    test('顶层待办事项不会多出 parentId 键', () => {
+      const result = resolveIdConflicts([createMockTodo('1', 'Existing')], [
+        createMockTodo('1', 'Conflict'),
+        createMockTodo('2', 'New')
+      ])
+
+      result.forEach(todo => expect(Object.keys(todo)).not.toContain('parentId'))
+      expect(result[1]).toEqual(createMockTodo('2', 'New'))
+    })
+  })
+})
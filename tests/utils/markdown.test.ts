@@ -0,0 +1,177 @@
+/**
+ * Markdown 任务列表测试
+ *
+ * 测试 Markdown 任务列表的导入导出，包括：
+ * 1. 导出完成状态、子任务缩进和列表标题
+ * 2. 解析完成状态、嵌套层级和标题分组
+ * 3. 导出后再解析得到相同的结构
+ * 4. 从 Markdown 文件导入待办事项
+ */
+
+import type { Todo, Project } from '@/types/todo'
+import { exportTodosToMarkdown, parseMarkdownTasks, importTodosFromMarkdown } from '@/utils/markdown'
+
+const createMockTodo = (id: string, title: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+const createMockProject = (id: string, name: string): Project => ({
+  id,
+  name,
+  archived: false,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+describe('Markdown 任务列表测试', () => {
+  describe('exportTodosToMarkdown', () => {
+    test('导出完成状态并缩进子任务', () => {
+      const todos = [
+        createMockTodo('1', '父任务'),
+        createMockTodo('2', '子任务', { parentId: '1', completed: true }),
+        createMockTodo('3', '孙任务', { parentId: '2' }),
+        createMockTodo('4', '多行\n标题')
+      ]
+
+      expect(exportTodosToMarkdown(todos)).toBe([
+        '- [ ] 父任务',
+        '  - [x] 子任务',
+        '    - [ ] 孙任务',
+        '- [ ] 多行 标题'
+      ].join('\n'))
+    })
+
+    test('提供列表时按列表分组并生成标题', () => {
+      const projects = [createMockProject('default', '我的待办'), createMockProject('work', '工作'), createMockProject('empty', '空列表')]
+      const todos = [
+        createMockTodo('1', '工作任务', { projectId: 'work' }),
+        createMockTodo('2', '个人任务'),
+        createMockTodo('3', '未知列表', { projectId: 'missing' })
+      ]
+
+      expect(exportTodosToMarkdown(todos, { projects, headingLevel: 3 })).toBe([
+        '### 我的待办',
+        '',
+        '- [ ] 个人任务',
+        '',
+        '### 工作',
+        '',
+        '- [ ] 工作任务',
+        '',
+        '- [ ] 未知列表'
+      ].join('\n'))
+    })
+  })
+
+  describe('parseMarkdownTasks', () => {
+    test('解析完成状态和嵌套层级', () => {
+      const sections = parseMarkdownTasks([
+        '说明文字',
+        '- [ ] 父任务',
+        '  - [x] 子任务',
+        '\t- [X] 制表符缩进的孙任务',
+        '  * [ ] 第二个子任务',
+        '- 普通列表项',
+        '1. [x] 有序列表',
+        '- [ ]',
+        '```',
+        '- [ ] 代码块中的内容',
+        '```'
+      ].join('\r\n'))
+
+      expect(sections).toEqual([{
+        heading: null,
+        items: [
+          {
+            title: '父任务',
+            completed: false,
+            children: [
+              { title: '子任务', completed: true, children: [{ title: '制表符缩进的孙任务', completed: true }] },
+              { title: '第二个子任务', completed: false }
+            ]
+          },
+          { title: '有序列表', completed: true }
+        ]
+      }])
+    })
+
+    test('按标题分组，没有任务的标题被忽略', () => {
+      const sections = parseMarkdownTasks([
+        '# 项目说明',
+        '## 工作 ##',
+        '- [ ] 写报告',
+        '## 空标题',
+        'text'
+      ].join('\n'))
+
+      expect(sections).toEqual([{ heading: '工作', items: [{ title: '写报告', completed: false }] }])
+    })
+
+    test('导出后再解析得到相同的结构', () => {
+      const projects = [createMockProject('default', '我的待办'), createMockProject('work', '工作')]
+      const todos = [
+        createMockTodo('1', 'A', { completed: true }),
+        createMockTodo('2', 'A1', { parentId: '1' }),
+        createMockTodo('3', 'B', { projectId: 'work' })
+      ]
+
+      const sections = parseMarkdownTasks(exportTodosToMarkdown(todos, { projects }))
+
+      expect(sections).toEqual([
+        { heading: '我的待办', items: [{ title: 'A', completed: true, children: [{ title: 'A1', completed: false }] }] },
+        { heading: '工作', items: [{ title: 'B', completed: false }] }
+      ])
+    })
+  })
+
+  describe('importTodosFromMarkdown', () => {
+    test('按标题匹配列表并还原子任务', () => {
+      const projects = [createMockProject('default', '我的待办'), createMockProject('work', '工作')]
+
+      const result = importTodosFromMarkdown([
+        '- [ ] 标题前的任务',
+        '## 工作',
+        '- [x] 写报告',
+        '  - [ ] 收集数据',
+        '## 未知列表',
+        '- [ ] 买牛奶'
+      ].join('\n'), { projects, defaultProjectId: 'default' })
+
+      expect(result).toMatchObject({ success: true, errors: [], total: 4, skipped: 0 })
+      const [first, report, data, milk] = result.data
+      expect(first).toMatchObject({ title: '标题前的任务', projectId: 'default' })
+      expect(first).not.toHaveProperty('parentId')
+      expect(report).toMatchObject({ title: '写报告', completed: true, projectId: 'work' })
+      expect(data).toMatchObject({ title: '收集数据', completed: false, projectId: 'work', parentId: report.id })
+      expect(milk).toMatchObject({ title: '买牛奶', projectId: 'default' })
+    })
+
+    test('标题过长的任务连同子任务一起跳过并报告行号', () => {
+      const result = importTodosFromMarkdown([
+        '- [ ] 正常任务',
+        `- [ ] ${'a'.repeat(300)}`,
+        '  - [ ] 子任务'
+      ].join('\n'))
+
+      expect(result.data.map(todo => todo.title)).toEqual(['正常任务'])
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0]).toMatchObject({ row: 2, field: 'title' })
+      expect(result).toMatchObject({ total: 3, skipped: 2 })
+    })
+
+    test('没有任务列表项时导入失败', () => {
+      const result = importTodosFromMarkdown('# 只有标题\n普通文字')
+
+      expect(result.success).toBe(false)
+      expect(result.data).toEqual([])
+    })
+  })
+})
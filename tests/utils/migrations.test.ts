@@ -0,0 +1,123 @@
+/**
+ * 数据结构迁移测试
+ *
+ * 测试持久化数据的版本管理，包括：
+ * 1. 版本号的读取与包装
+ * 2. 迁移的登记与取消
+ * 3. 按版本顺序执行迁移
+ * 4. 迁移失败时的错误和恢复选项
+ */
+
+import { STORAGE_CONFIG, STORAGE_KEYS } from '@/types'
+import { ErrorCode } from '@/types/error'
+import {
+  registerMigration,
+  unregisterMigration,
+  getSchemaMigrations,
+  getCurrentSchemaVersion,
+  isVersionedData,
+  readSchemaVersion,
+  wrapVersioned,
+  getBackupKey,
+  migratePayload,
+  getRecoveryOptions
+} from '@/utils/migrations'
+
+describe('数据结构迁移测试', () => {
+  afterEach(() => {
+    unregisterMigration(2)
+    unregisterMigration(3)
+  })
+
+  describe('版本号', () => {
+    test('旧版本直接保存的数据视为版本0', () => {
+      expect(readSchemaVersion(['a'])).toBe(0)
+      expect(readSchemaVersion({ schemaVersion: 1, data: [] })).toBe(1)
+      expect(isVersionedData({ schemaVersion: '1', data: [] })).toBe(false)
+    })
+
+    test('包装数据时使用当前版本号', () => {
+      expect(wrapVersioned('all')).toEqual({
+        schemaVersion: STORAGE_CONFIG.SCHEMA_VERSION,
+        data: 'all'
+      })
+    })
+
+    test('备份键名包含原始版本号', () => {
+      expect(getBackupKey(STORAGE_KEYS.TODOS, 0)).toBe(`${STORAGE_KEYS.TODOS}:backup-v0`)
+    })
+  })
+
+  describe('迁移登记', () => {
+    test('登记后按版本号排序并提升当前版本', () => {
+      registerMigration({ version: 3, description: 'v3', migrate: (_key, data) => data })
+      registerMigration({ version: 2, description: 'v2', migrate: (_key, data) => data })
+
+      expect(getSchemaMigrations().map(migration => migration.version)).toEqual([1, 2, 3])
+      expect(getCurrentSchemaVersion()).toBe(3)
+    })
+
+    test('版本号重复或无效时抛出错误', () => {
+      expect(() => registerMigration({ version: 1, description: '重复', migrate: data => data }))
+        .toThrow('版本1的迁移已存在')
+      expect(() => registerMigration({ version: 1.5, description: '无效', migrate: data => data }))
+        .toThrow('迁移版本号必须是正整数')
+    })
+
+    test('内置迁移不能取消登记', () => {
+      expect(unregisterMigration(1)).toBe(false)
+      expect(getCurrentSchemaVersion()).toBe(STORAGE_CONFIG.SCHEMA_VERSION)
+    })
+  })
+
+  describe('migratePayload', () => {
+    test('依次执行比原始版本新的迁移', () => {
+      registerMigration({
+        version: 2,
+        description: '过滤器改为大写',
+        migrate: (key, data) => key === STORAGE_KEYS.FILTER && typeof data === 'string' ? data.toUpperCase() : data
+      })
+
+      const result = migratePayload(STORAGE_KEYS.FILTER, 'active')
+
+      expect(result).toEqual({ data: 'ACTIVE', fromVersion: 0, toVersion: 2, migrated: true })
+    })
+
+    test('已是当前版本时不迁移', () => {
+      const result = migratePayload(STORAGE_KEYS.FILTER, wrapVersioned('active'))
+
+      expect(result.data).toBe('active')
+      expect(result.migrated).toBe(false)
+    })
+
+    test('旧版本待办事项补全缺失字段', () => {
+      const result = migratePayload<unknown[]>(STORAGE_KEYS.TODOS, [{ id: '1', title: '旧数据' }])
+
+      expect(result.data[0]).toMatchObject({ priority: 'none', tags: [], projectId: 'default' })
+    })
+
+    test('迁移失败时抛出数据损坏错误', () => {
+      expect(() => migratePayload(STORAGE_KEYS.TODOS, [{ title: '缺少ID' }])).toThrow(
+        expect.objectContaining({
+          code: ErrorCode.STORAGE_DATA_CORRUPTED,
+          context: expect.objectContaining({ fromVersion: 0, failedVersion: 1 })
+        })
+      )
+    })
+
+    test('缺少中间版本的迁移时抛出错误', () => {
+      registerMigration({ version: 3, description: 'v3', migrate: (_key, data) => data })
+
+      expect(() => migratePayload(STORAGE_KEYS.FILTER, { schemaVersion: 1, data: 'all' })).toThrow('缺少升级到版本2的迁移')
+    })
+  })
+
+  describe('getRecoveryOptions', () => {
+    test('有备份时在说明中提示备份位置', () => {
+      const options = getRecoveryOptions('backup-key')
+
+      expect(options.map(option => option.action)).toEqual(['retry', 'reset'])
+      expect(options[1].description).toContain('backup-key')
+    })
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * 手动排序工具函数测试
+ *
+ * 测试拖拽排序相关的纯函数，包括：
+ * 1. 按排序键排列
+ * 2. 视图中的同级项
+ * 3. 过滤视图中的移动映射回完整列表
+ */
+
+import type { Todo } from '@/types/todo'
+import { sortByManualOrder, getViewSiblings, moveInView } from '@/utils/ordering'
+
+const createMockTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+const ids = (todos: Todo[]) => todos.map(todo => todo.id)
+
+describe('手动排序工具函数测试', () => {
+  test('按排序键排列，没有排序键的按原顺序排在最后', () => {
+    const todos = [
+      createMockTodo('a'),
+      createMockTodo('b', { order: 2 }),
+      createMockTodo('c', { order: 0 }),
+      createMockTodo('d'),
+      createMockTodo('e', { order: 2 })
+    ]
+
+    expect(ids(sortByManualOrder(todos))).toEqual(['c', 'b', 'e', 'a', 'd'])
+    expect(ids(todos)).toEqual(['a', 'b', 'c', 'd', 'e'])
+  })
+
+  test('同级项与树形结构的显示一致', () => {
+    const view = [
+      createMockTodo('p'),
+      createMockTodo('c1', { parentId: 'p' }),
+      createMockTodo('orphan', { parentId: 'hidden' }),
+      createMockTodo('c2', { parentId: 'p' }),
+      createMockTodo('q')
+    ]
+
+    expect(ids(getViewSiblings(view, 'q'))).toEqual(['p', 'orphan', 'q'])
+    expect(ids(getViewSiblings(view, 'c2'))).toEqual(['c1', 'c2'])
+    expect(getViewSiblings(view, 'missing')).toEqual([])
+  })
+
+  test('在完整视图中移动', () => {
+    const full = ['a', 'b', 'c', 'd'].map(id => createMockTodo(id))
+
+    expect(ids(moveInView(full, full, 'd', 0))).toEqual(['d', 'a', 'b', 'c'])
+    expect(ids(moveInView(full, full, 'a', 2))).toEqual(['b', 'c', 'a', 'd'])
+    expect(ids(moveInView(full, full, 'a', 99))).toEqual(['b', 'c', 'd', 'a'])
+    expect(moveInView(full, full, 'b', 1)).toBe(full)
+    expect(moveInView(full, full, 'missing', 0)).toBe(full)
+  })
+
+  test('过滤视图中的移动保持被过滤项的相对位置', () => {
+    const full = ['a', 'h1', 'b', 'h2', 'c'].map(id => createMockTodo(id))
+    const view = full.filter(todo => !todo.id.startsWith('h'))
+
+    // 向前移动：放在新的后一项之前
+    expect(ids(moveInView(full, view, 'c', 1))).toEqual(['a', 'h1', 'c', 'b', 'h2'])
+    // 向后移动：放在新的前一项之后
+    expect(ids(moveInView(full, view, 'a', 1))).toEqual(['h1', 'b', 'a', 'h2', 'c'])
+  })
+
+  test('只在同级项之间移动', () => {
+    const full = [
+      createMockTodo('p'),
+      createMockTodo('c1', { parentId: 'p' }),
+      createMockTodo('q'),
+      createMockTodo('c2', { parentId: 'p' })
+    ]
+
+    expect(ids(moveInView(full, full, 'c2', 0))).toEqual(['p', 'c2', 'c1', 'q'])
+    expect(ids(moveInView(full, full, 'q', 0))).toEqual(['q', 'p', 'c1', 'c2'])
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * 插件系统测试
+ *
+ * 测试插件的注册和调用，包括：
+ * 1. 名称和字段冲突的检查
+ * 2. 钩子按注册顺序调用，出错时不影响其他插件
+ * 3. 插件字段的默认值和校验
+ * 4. 扩展点组件的查询和 Vue 插件的安装
+ */
+
+import { createApp, defineComponent, h } from 'vue'
+import type { Todo, TrashedTodo, ArchivedTodo } from '@/types/todo'
+import { ErrorCode } from '@/types/error'
+import {
+  registerPlugin,
+  unregisterPlugin,
+  getPlugins,
+  clearPlugins,
+  createTodoPlugins,
+  runBeforeAdd,
+  runAfterToggle,
+  runBeforeDelete,
+  resolvePluginFields,
+  getPluginComponents
+} from '@/utils/plugins'
+
+const createMockTodo = (id: string): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+describe('插件系统测试', () => {
+  afterEach(() => {
+    clearPlugins()
+  })
+
+  describe('注册', () => {
+    test('注册和注销插件', () => {
+      registerPlugin({ name: 'a' })
+      registerPlugin({ name: 'b' })
+
+      expect(getPlugins().map(plugin => plugin.name)).toEqual(['a', 'b'])
+      expect(unregisterPlugin('a')).toBe(true)
+      expect(unregisterPlugin('a')).toBe(false)
+      expect(getPlugins().map(plugin => plugin.name)).toEqual(['b'])
+    })
+
+    test('名称重复或为空时抛出错误', () => {
+      registerPlugin({ name: 'a' })
+
+      expect(() => registerPlugin({ name: 'a' })).toThrow('插件 a 已经注册')
+      expect(() => registerPlugin({ name: ' ' })).toThrow('插件名称不能为空')
+    })
+
+    test('字段与内置字段或其他插件的字段重名时抛出错误', () => {
+      registerPlugin({ name: 'a', fields: { estimate: {} } })
+
+      expect(() => registerPlugin({ name: 'b', fields: { title: {} } })).toThrow('与内置字段重名')
+      expect(() => registerPlugin({ name: 'd', fields: { order: {} } })).toThrow('与内置字段重名')
+      expect(() => registerPlugin({ name: 'c', fields: { estimate: {} } })).toThrow(expect.objectContaining({
+        code: ErrorCode.PLUGIN_ERROR
+      }))
+      expect(getPlugins()).toHaveLength(1)
+    })
+
+    test('回收站、归档记录和所有可选字段同样不能被插件使用', () => {
+      const record: Required<TrashedTodo & ArchivedTodo> = {
+        id: '1',
+        title: 'A',
+        completed: false,
+        priority: 'none',
+        tags: [],
+        projectId: 'default',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        dueDate: new Date(),
+        startDate: new Date(),
+        parentId: 'p',
+        recurrence: { frequency: 'daily', interval: 1 },
+        order: 1,
+        extensions: {},
+        deletedAt: new Date(),
+        archivedAt: new Date()
+      }
+
+      Object.keys(record).forEach(field => {
+        expect(() => registerPlugin({ name: `plugin-${field}`, fields: { [field]: {} } })).toThrow(`字段 ${field} 与内置字段重名`)
+      })
+      expect(getPlugins()).toHaveLength(0)
+    })
+
+    test('createTodoPlugins 在 app.use 时注册插件并调用 install', () => {
+      const install = jest.fn()
+      const app = createApp({ render: () => null })
+
+      app.use(createTodoPlugins([{ name: 'a', install }, { name: 'b' }]))
+
+      expect(getPlugins().map(plugin => plugin.name)).toEqual(['a', 'b'])
+      expect(install).toHaveBeenCalledWith(app)
+    })
+  })
+
+  describe('钩子', () => {
+    test('beforeAdd 依次修改输入，返回 false 时取消', () => {
+      registerPlugin({ name: 'tagger', hooks: { beforeAdd: input => ({ ...input, tags: ['自动'] }) } })
+      registerPlugin({ name: 'upper', hooks: { beforeAdd: input => ({ ...input, title: input.title.toUpperCase() }) } })
+
+      expect(runBeforeAdd({ title: 'abc' })).toEqual({ input: { title: 'ABC', tags: ['自动'] }, cancelledBy: null })
+
+      registerPlugin({ name: 'blocker', hooks: { beforeAdd: () => false } })
+      expect(runBeforeAdd({ title: 'abc' }).cancelledBy).toBe('blocker')
+    })
+
+    test('钩子出错时记录错误并继续调用其他插件', () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {})
+      const afterToggle = jest.fn()
+      registerPlugin({ name: 'broken', hooks: { afterToggle: () => { throw new Error('boom') } } })
+      registerPlugin({ name: 'ok', hooks: { afterToggle } })
+
+      runAfterToggle(createMockTodo('1'))
+
+      expect(afterToggle).toHaveBeenCalledWith(createMockTodo('1'))
+      expect(consoleSpy).toHaveBeenCalled()
+      consoleSpy.mockRestore()
+    })
+
+    test('beforeDelete 返回取消删除的插件名称', () => {
+      registerPlugin({ name: 'keep-pinned', hooks: { beforeDelete: todo => todo.id !== 'pinned' } })
+
+      expect(runBeforeDelete(createMockTodo('1'))).toBeNull()
+      expect(runBeforeDelete(createMockTodo('pinned'))).toBe('keep-pinned')
+    })
+  })
+
+  describe('字段', () => {
+    beforeEach(() => {
+      registerPlugin({
+        name: 'estimate',
+        fields: {
+          estimate: {
+            default: 1,
+            rules: [{ name: 'positive', message: '估时必须是正数', validator: value => typeof value === 'number' && value > 0 }]
+          },
+          note: { default: () => '' }
+        }
+      })
+    })
+
+    test('新建时填充默认值', () => {
+      expect(resolvePluginFields({ estimate: 3 }, true)).toEqual({ error: null, fields: { estimate: 3, note: '' } })
+    })
+
+    test('更新时只返回提供的字段，undefined 表示清除', () => {
+      expect(resolvePluginFields({ estimate: undefined })).toEqual({ error: null, fields: { estimate: undefined } })
+      expect(resolvePluginFields()).toEqual({ error: null, fields: {} })
+    })
+
+    test('执行校验规则并拒绝未知字段', () => {
+      expect(resolvePluginFields({ estimate: -1 }).error).toBe('估时必须是正数')
+      expect(resolvePluginFields({ unknown: 1 }).error).toBe('未知的字段：unknown')
+    })
+  })
+
+  test('按注册顺序返回扩展点的组件', () => {
+    const A = defineComponent({ render: () => h('span', 'a') })
+    const B = defineComponent({ render: () => h('span', 'b') })
+    registerPlugin({ name: 'a', components: { 'todo-item:meta': A } })
+    registerPlugin({ name: 'b', components: { 'todo-item:meta': B, 'todo-list:footer': B } })
+
+    expect(getPluginComponents('todo-item:meta').map(entry => entry.key)).toEqual(['a:todo-item:meta', 'b:todo-item:meta'])
+    expect(getPluginComponents('todo-list:header')).toEqual([])
+  })
+})
@@ -0,0 +1,115 @@
+/**
+ * 列表工具函数测试
+ *
+ * 测试多列表相关的工具函数，包括：
+ * 1. 列表名称的校验
+ * 2. 旧版本单列表数据的迁移
+ * 3. 数组元素的移动
+ */
+
+import type { Project, Todo } from '@/types/todo'
+import {
+  createDefaultProject,
+  validateProjectName,
+  migrateProjects,
+  moveItem
+} from '@/utils/projects'
+
+const createMockProject = (id: string, name: string, archived = false): Project => ({
+  id,
+  name,
+  archived,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+const createMockTodo = (id: string, projectId = 'default'): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+describe('列表工具函数测试', () => {
+  describe('validateProjectName', () => {
+    const projects = [createMockProject('work', '工作')]
+
+    test('校验空名称和过长的名称', () => {
+      expect(validateProjectName('')).toBe('列表名称不能为空')
+      expect(validateProjectName('a'.repeat(51))).toBe('列表名称不能超过50个字符')
+      expect(validateProjectName('生活')).toBeNull()
+    })
+
+    test('重名检查忽略大小写，并可排除自身', () => {
+      const english = [createMockProject('work', 'Work')]
+
+      expect(validateProjectName('工作', projects)).toBe('列表 "工作" 已存在')
+      expect(validateProjectName('work', english)).toBe('列表 "work" 已存在')
+      expect(validateProjectName('工作', projects, 'work')).toBeNull()
+    })
+  })
+
+  describe('migrateProjects', () => {
+    test('没有列表数据时创建默认列表', () => {
+      const todos = [createMockTodo('1')]
+      const result = migrateProjects(null, todos)
+
+      expect(result.migrated).toBe(true)
+      expect(result.data.projects.map(p => p.id)).toEqual(['default'])
+      expect(result.data.currentProjectId).toBe('default')
+      expect(result.todos).toBe(todos)
+    })
+
+    test('所属列表不存在的待办事项归入默认列表', () => {
+      const stored = { projects: [createMockProject('work', '工作')], currentProjectId: 'work' }
+      const result = migrateProjects(stored, [createMockTodo('1', 'work'), createMockTodo('2', 'gone')])
+
+      expect(result.migrated).toBe(true)
+      expect(result.data.projects.map(p => p.id)).toEqual(['default', 'work'])
+      expect(result.todos.map(t => t.projectId)).toEqual(['work', 'default'])
+      expect(result.data.currentProjectId).toBe('work')
+    })
+
+    test('当前列表无效或已归档时选中第一个未归档的列表', () => {
+      const stored = {
+        projects: [createMockProject('old', '旧', true), createMockProject('work', '工作')],
+        currentProjectId: 'old'
+      }
+
+      expect(migrateProjects(stored, []).data.currentProjectId).toBe('work')
+    })
+
+    test('数据完整时不做修改', () => {
+      const stored = { projects: [createDefaultProject()], currentProjectId: 'default' }
+      const todos = [createMockTodo('1')]
+      const result = migrateProjects(stored, todos)
+
+      expect(result.migrated).toBe(false)
+      expect(result.todos).toBe(todos)
+      expect(result.data.projects).toBe(stored.projects)
+    })
+  })
+
+  describe('moveItem', () => {
+    test('移动元素到新位置', () => {
+      expect(moveItem(['a', 'b', 'c'], 0, 2)).toEqual(['b', 'c', 'a'])
+      expect(moveItem(['a', 'b', 'c'], 2, 0)).toEqual(['c', 'a', 'b'])
+    })
+
+    test('目标位置超出范围时限制在边界内', () => {
+      expect(moveItem(['a', 'b', 'c'], 0, 10)).toEqual(['b', 'c', 'a'])
+      expect(moveItem(['a', 'b', 'c'], 2, -1)).toEqual(['c', 'a', 'b'])
+    })
+
+    test('位置无效或未变化时返回原数组', () => {
+      const items = ['a', 'b']
+
+      expect(moveItem(items, 5, 0)).toBe(items)
+      expect(moveItem(items, 1, 1)).toBe(items)
+    })
+  })
+})
@@ -0,0 +1,177 @@
+/**
+ * 智能过滤查询语言测试
+ *
+ * 测试查询语言相关的函数，包括：
+ * 1. 解析字段条件、文本、OR、取反和括号
+ * 2. 格式错误时的错误信息和位置
+ * 3. 按查询条件过滤待办事项
+ * 4. 语法树转换回查询文本
+ */
+
+import type { Todo } from '@/types/todo'
+import { parseQuery, matchesQuery, filterByQuery, stringifyQuery, type QueryNode } from '@/utils/query'
+
+const createMockTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date(2024, 0, 1, 10),
+  updatedAt: new Date(2024, 0, 1, 10),
+  ...overrides
+})
+
+const parse = (input: string): QueryNode => {
+  const { query, error } = parseQuery(input)
+  expect(error).toBeNull()
+  return query!
+}
+
+const now = new Date(2024, 5, 10, 15, 30)
+
+describe('智能过滤查询语言测试', () => {
+  describe('解析', () => {
+    test('解析请求中的示例查询', () => {
+      expect(parse('is:active tag:backend due:<7d priority:>=high "release"')).toEqual({
+        type: 'and',
+        children: [
+          { type: 'is', value: 'active' },
+          { type: 'tag', value: 'backend' },
+          { type: 'date', field: 'dueDate', op: '<', value: { type: 'relative', days: 7 } },
+          { type: 'priority', op: '>=', value: 'high' },
+          { type: 'text', value: 'release' }
+        ]
+      })
+    })
+
+    test('OR 的优先级低于 AND，支持取反和括号', () => {
+      expect(parse('tag:a tag:b OR -is:done')).toEqual({
+        type: 'or',
+        children: [
+          { type: 'and', children: [{ type: 'tag', value: 'a' }, { type: 'tag', value: 'b' }] },
+          { type: 'not', child: { type: 'is', value: 'completed' } }
+        ]
+      })
+      expect(parse('NOT (tag:a OR tag:b) AND has:due')).toEqual({
+        type: 'and',
+        children: [
+          {
+            type: 'not',
+            child: { type: 'or', children: [{ type: 'tag', value: 'a' }, { type: 'tag', value: 'b' }] }
+          },
+          { type: 'has', value: 'due' }
+        ]
+      })
+    })
+
+    test('解析日期、优先级和带引号的值', () => {
+      expect(parse('due:today')).toEqual({ type: 'date', field: 'dueDate', op: '=', value: { type: 'relative', days: 0 } })
+      expect(parse('created:>=-2w')).toMatchObject({ op: '>=', value: { type: 'relative', days: -14 } })
+      expect(parse('start:2024-05-01')).toMatchObject({ field: 'startDate', value: { type: 'absolute', date: new Date(2024, 4, 1) } })
+      expect(parse('priority:高')).toEqual({ type: 'priority', op: '=', value: 'high' })
+      expect(parse('title:"release notes"')).toEqual({ type: 'title', value: 'release notes' })
+      expect(parse('tag:#工作')).toEqual({ type: 'tag', value: '工作' })
+      expect(parse('"is:active"')).toEqual({ type: 'text', value: 'is:active' })
+      expect(parse('or')).toEqual({ type: 'text', value: 'or' })
+    })
+
+    test('空查询返回null', () => {
+      expect(parseQuery('   ')).toEqual({ query: null, error: null })
+    })
+  })
+
+  describe('错误信息', () => {
+    test.each([
+      ['is:active "release', 10, '引号没有闭合'],
+      ['(tag:a OR tag:b', 0, '缺少与 "(" 对应的 ")"'],
+      ['tag:a)', 5, '多余的 ")"'],
+      ['tag:a OR', 6, '"OR" 后面缺少条件'],
+      ['OR tag:a', 0, '"OR" 前面缺少条件'],
+      ['tag:a NOT', 6, '"NOT" 后面缺少条件'],
+      ['()', 1, '括号中缺少条件'],
+      ['tag:', 0, '"tag:" 后面缺少值'],
+      ['tag:>a', 0, '"tag:" 不支持比较运算符 ">"'],
+      ['is:pending', 0, '无效的状态 "pending"'],
+      ['priority:>=critical', 0, '无效的优先级 "critical"'],
+      ['due:<soon', 0, '无效的日期 "soon"'],
+      ['prority:high', 0, '你是不是想输入 "priority"']
+    ])('%s', (input, start, message) => {
+      const { query, error } = parseQuery(input)
+
+      expect(query).toBeNull()
+      expect(error!.start).toBe(start)
+      expect(error!.message).toMatch(new RegExp(`^第 ${start + 1} 个字符：`))
+      expect(error!.message).toContain(message)
+    })
+
+    test('未知字段没有相近的字段名时提示加引号', () => {
+      expect(parseQuery('http://example.com').error!.message).toContain('请加上引号')
+    })
+  })
+
+  describe('求值', () => {
+    const todos = [
+      createMockTodo('1', { title: 'Prepare release', tags: ['backend'], priority: 'high', dueDate: new Date(2024, 5, 12) }),
+      createMockTodo('2', { title: 'Release party', tags: ['team'], priority: 'urgent', dueDate: new Date(2024, 5, 20) }),
+      createMockTodo('3', { title: 'Fix release bug', tags: ['backend'], priority: 'medium', dueDate: new Date(2024, 5, 8) }),
+      createMockTodo('4', { title: 'Ship release', tags: ['Backend'], priority: 'urgent', completed: true, dueDate: new Date(2024, 5, 11) }),
+      createMockTodo('5', { title: 'Write docs', tags: ['backend'], priority: 'high' })
+    ]
+    const ids = (input: string) => filterByQuery(todos, parse(input), now).map(todo => todo.id)
+
+    test('请求中的示例查询', () => {
+      expect(ids('is:active tag:backend due:<7d priority:>=high "release"')).toEqual(['1'])
+    })
+
+    test('状态、属性和文本', () => {
+      expect(ids('is:completed')).toEqual(['4'])
+      expect(ids('is:overdue')).toEqual(['3'])
+      expect(ids('-has:due')).toEqual(['5'])
+      expect(ids('RELEASE')).toEqual(['1', '2', '3', '4'])
+      expect(ids('title:docs OR tag:team')).toEqual(['2', '5'])
+      expect(ids('tag:backend')).toEqual(['1', '3', '4', '5'])
+    })
+
+    test('按自然日比较日期，没有日期的不满足条件', () => {
+      expect(ids('due:today')).toEqual([])
+      expect(ids('due:tomorrow')).toEqual(['4'])
+      expect(ids('due:<=2d')).toEqual(['1', '3', '4'])
+      expect(ids('due:>=2024-06-12 due:<2024-06-20')).toEqual(['1'])
+      expect(ids('-due:>1w')).toEqual(['1', '3', '4', '5'])
+    })
+
+    test('按权重比较优先级', () => {
+      expect(ids('priority:>high')).toEqual(['2', '4'])
+      expect(ids('priority:<high')).toEqual(['3'])
+      expect(ids('priority:high')).toEqual(['1', '5'])
+    })
+
+    test('没有查询条件时返回原数组', () => {
+      expect(filterByQuery(todos, null)).toBe(todos)
+    })
+
+    test('重复和子任务', () => {
+      const recurring = createMockTodo('r', { recurrence: { frequency: 'daily' } })
+      const child = createMockTodo('c', { parentId: 'r' })
+
+      expect(matchesQuery(recurring, parse('is:recurring has:recurrence'), now)).toBe(true)
+      expect(matchesQuery(child, parse('is:subtask'), now)).toBe(true)
+      expect(matchesQuery(recurring, parse('is:subtask'), now)).toBe(false)
+    })
+  })
+
+  describe('转换为查询文本', () => {
+    test.each([
+      'is:active tag:backend due:<7d priority:>=high release',
+      '(tag:a OR tag:b) -(is:completed has:due)',
+      'title:"release notes" "is:active" "-x" tag:"a b"',
+      'created:>=2024-01-01 due:-3d start:today'
+    ])('%s', input => {
+      const query = parse(input)
+      expect(stringifyQuery(query)).toBe(input)
+      expect(parse(stringifyQuery(query))).toEqual(query)
+    })
+  })
+})
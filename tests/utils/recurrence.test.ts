@@ -0,0 +1,167 @@
+/**
+ * 重复规则工具函数测试
+ *
+ * 测试重复待办事项的计算引擎，包括：
+ * 1. 重复规则的校验
+ * 2. 各种频率下一次日期的计算
+ * 3. 开始/截止日期的顺延
+ * 4. 重复规则的文字描述
+ */
+
+import type { RecurrenceRule } from '@/types/todo'
+import {
+  validateRecurrenceRule,
+  getNextOccurrence,
+  getNextOccurrenceDates,
+  pinRecurrenceRule,
+  describeRecurrence
+} from '@/utils/recurrence'
+
+/** 以本地时间构造日期，月份从1开始 */
+const day = (year: number, month: number, date: number) => new Date(year, month - 1, date)
+
+describe('重复规则工具函数测试', () => {
+  describe('validateRecurrenceRule', () => {
+    test('合法的规则', () => {
+      expect(validateRecurrenceRule({ frequency: 'daily' })).toBeNull()
+      expect(validateRecurrenceRule({ frequency: 'weekly', weekdays: [0, 6], interval: 2 })).toBeNull()
+      expect(validateRecurrenceRule({ frequency: 'monthly', monthDay: 31 })).toBeNull()
+    })
+
+    test('非法的规则', () => {
+      expect(validateRecurrenceRule({ frequency: 'yearly' } as unknown as RecurrenceRule)).toContain('无效的重复频率')
+      expect(validateRecurrenceRule({ frequency: 'daily', interval: 0 })).toContain('重复间隔')
+      expect(validateRecurrenceRule({ frequency: 'daily', interval: 1.5 })).toContain('重复间隔')
+      expect(validateRecurrenceRule({ frequency: 'weekly', weekdays: [7] })).toContain('星期')
+      expect(validateRecurrenceRule({ frequency: 'weekly', weekdays: [] })).toContain('星期')
+      expect(validateRecurrenceRule({ frequency: 'monthly', monthDay: 32 })).toContain('日期')
+      expect(validateRecurrenceRule({ frequency: 'daily', until: new Date('invalid') })).toContain('截止日期')
+    })
+  })
+
+  describe('getNextOccurrence', () => {
+    test('每天与每N天', () => {
+      expect(getNextOccurrence({ frequency: 'daily' }, day(2024, 2, 28))).toEqual(day(2024, 2, 29))
+      expect(getNextOccurrence({ frequency: 'daily', interval: 3 }, day(2024, 12, 30))).toEqual(day(2025, 1, 2))
+    })
+
+    test('每周指定的星期几', () => {
+      // 2024-03-15 是星期五
+      const rule: RecurrenceRule = { frequency: 'weekly', weekdays: [1, 3] }
+
+      expect(getNextOccurrence(rule, day(2024, 3, 15))).toEqual(day(2024, 3, 18))
+      expect(getNextOccurrence(rule, day(2024, 3, 18))).toEqual(day(2024, 3, 20))
+    })
+
+    test('未指定星期几时按基准日期的星期重复', () => {
+      expect(getNextOccurrence({ frequency: 'weekly' }, day(2024, 3, 15))).toEqual(day(2024, 3, 22))
+    })
+
+    test('每隔N周只在间隔周内取日期', () => {
+      const rule: RecurrenceRule = { frequency: 'weekly', interval: 2, weekdays: [1, 5] }
+
+      // 周一之后同一周的周五仍然有效
+      expect(getNextOccurrence(rule, day(2024, 3, 11))).toEqual(day(2024, 3, 15))
+      // 周五之后跳过下一周，取两周后的周一
+      expect(getNextOccurrence(rule, day(2024, 3, 15))).toEqual(day(2024, 3, 25))
+    })
+
+    test('每月指定日期，超出当月天数时取最后一天', () => {
+      expect(getNextOccurrence({ frequency: 'monthly', monthDay: 15 }, day(2024, 3, 15))).toEqual(day(2024, 4, 15))
+      expect(getNextOccurrence({ frequency: 'monthly', monthDay: 20 }, day(2024, 3, 15))).toEqual(day(2024, 3, 20))
+      expect(getNextOccurrence({ frequency: 'monthly', monthDay: 31 }, day(2024, 1, 31))).toEqual(day(2024, 2, 29))
+      expect(getNextOccurrence({ frequency: 'monthly', interval: 3 }, day(2024, 11, 30))).toEqual(day(2025, 2, 28))
+    })
+
+    test('完成后N天以完成时间为基准', () => {
+      const rule: RecurrenceRule = { frequency: 'afterCompletion', interval: 3 }
+
+      expect(getNextOccurrence(rule, day(2024, 3, 1), new Date(2024, 2, 10, 18, 30))).toEqual(day(2024, 3, 13))
+    })
+
+    test('超过until时不再重复', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', until: day(2024, 3, 16) }
+
+      expect(getNextOccurrence(rule, day(2024, 3, 15))).toEqual(day(2024, 3, 16))
+      expect(getNextOccurrence(rule, day(2024, 3, 16))).toBeNull()
+    })
+  })
+
+  describe('getNextOccurrenceDates', () => {
+    test('开始日期与截止日期保持相同间隔', () => {
+      const result = getNextOccurrenceDates(
+        { recurrence: { frequency: 'weekly' }, dueDate: day(2024, 3, 15), startDate: day(2024, 3, 13) },
+        day(2024, 3, 14)
+      )
+
+      expect(result).toEqual({ dueDate: day(2024, 3, 22), startDate: day(2024, 3, 20) })
+    })
+
+    test('没有截止日期时以完成时间为基准', () => {
+      const result = getNextOccurrenceDates({ recurrence: { frequency: 'daily' } }, new Date(2024, 2, 14, 9))
+
+      expect(result).toEqual({ dueDate: day(2024, 3, 15) })
+    })
+
+    test('没有重复规则时返回null', () => {
+      expect(getNextOccurrenceDates({}, new Date())).toBeNull()
+    })
+
+    test('逾期完成时顺延到完成当天之后的第一次', () => {
+      expect(getNextOccurrenceDates(
+        { recurrence: { frequency: 'daily' }, dueDate: day(2024, 3, 10), startDate: day(2024, 3, 9) },
+        new Date(2024, 2, 14, 9)
+      )).toEqual({ dueDate: day(2024, 3, 15), startDate: day(2024, 3, 14) })
+      expect(getNextOccurrenceDates(
+        { recurrence: { frequency: 'daily', interval: 3 }, dueDate: day(2024, 3, 10) },
+        new Date(2024, 2, 14, 9)
+      )).toEqual({ dueDate: day(2024, 3, 16) })
+      // 2024-03-04 是周一
+      expect(getNextOccurrenceDates(
+        { recurrence: { frequency: 'weekly' }, dueDate: day(2024, 3, 4) },
+        new Date(2024, 2, 20, 9)
+      )).toEqual({ dueDate: day(2024, 3, 25) })
+    })
+
+    test('顺延后超过结束日期时返回null', () => {
+      expect(getNextOccurrenceDates(
+        { recurrence: { frequency: 'daily', until: day(2024, 3, 12) }, dueDate: day(2024, 3, 10) },
+        new Date(2024, 2, 14, 9)
+      )).toBeNull()
+    })
+
+    test('每月重复没有指定日期时按截止日期当天计算，不会因为月末而提前', () => {
+      const first = getNextOccurrenceDates({ recurrence: { frequency: 'monthly' }, dueDate: day(2024, 1, 31) }, day(2024, 1, 31))
+      expect(first).toEqual({ dueDate: day(2024, 2, 29) })
+
+      const rule = pinRecurrenceRule({ frequency: 'monthly' }, day(2024, 1, 31))
+      expect(getNextOccurrenceDates({ recurrence: rule, dueDate: first!.dueDate }, first!.dueDate))
+        .toEqual({ dueDate: day(2024, 3, 31) })
+    })
+  })
+
+  describe('pinRecurrenceRule', () => {
+    test('每月重复没有指定日期时使用截止日期当天', () => {
+      expect(pinRecurrenceRule({ frequency: 'monthly' }, day(2024, 1, 31))).toEqual({ frequency: 'monthly', monthDay: 31 })
+    })
+
+    test('其他情况保持不变', () => {
+      const rule: RecurrenceRule = { frequency: 'monthly', monthDay: 15 }
+      expect(pinRecurrenceRule(rule, day(2024, 1, 31))).toEqual(rule)
+      expect(pinRecurrenceRule({ frequency: 'monthly' })).toEqual({ frequency: 'monthly' })
+      expect(pinRecurrenceRule({ frequency: 'daily' }, day(2024, 1, 31))).toEqual({ frequency: 'daily' })
+    })
+  })
+
+  describe('describeRecurrence', () => {
+    test('生成中文描述', () => {
+      expect(describeRecurrence({ frequency: 'daily' })).toBe('每天')
+      expect(describeRecurrence({ frequency: 'daily', interval: 2 })).toBe('每2天')
+      expect(describeRecurrence({ frequency: 'weekly', weekdays: [3, 1] })).toBe('每周一、三')
+      expect(describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [1] })).toBe('每2周的周一')
+      expect(describeRecurrence({ frequency: 'monthly', monthDay: 15 })).toBe('每月15日')
+      expect(describeRecurrence({ frequency: 'monthly' })).toBe('每月')
+      expect(describeRecurrence({ frequency: 'afterCompletion', interval: 3 })).toBe('完成后3天')
+    })
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * 全文搜索工具函数测试
+ *
+ * 测试搜索相关的纯函数，包括：
+ * 1. 编译搜索条件（普通关键字、正则表达式、区分大小写）
+ * 2. 按字段查找匹配的待办事项
+ * 3. 拆分高亮片段
+ */
+
+import type { Todo } from '@/types/todo'
+import {
+  escapeRegExp,
+  createSearchPattern,
+  getSearchableTexts,
+  matchesSearch,
+  searchTodos,
+  splitHighlight,
+  splitRanges
+} from '@/utils/search'
+
+const createMockTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+const fields = ['title', 'tags']
+
+describe('全文搜索工具函数测试', () => {
+  test('普通关键字中的特殊字符按字面匹配', () => {
+    expect(escapeRegExp('a.b*(c)')).toBe('a\\.b\\*\\(c\\)')
+
+    const { pattern } = createSearchPattern({ keyword: ' 1+1 ' })
+    expect(pattern!.test('1+1=2')).toBe(true)
+    expect(pattern!.test('11')).toBe(false)
+  })
+
+  test('关键字为空时不搜索', () => {
+    expect(createSearchPattern({ keyword: '   ' })).toEqual({ pattern: null, error: null })
+  })
+
+  test('默认不区分大小写，可以切换为区分大小写', () => {
+    expect(createSearchPattern({ keyword: 'Report' }).pattern!.test('report')).toBe(true)
+    expect(createSearchPattern({ keyword: 'Report', caseSensitive: true }).pattern!.test('report')).toBe(false)
+  })
+
+  test('使用正则表达式，表达式无效时返回错误', () => {
+    const { pattern } = createSearchPattern({ keyword: '^周[一二]', useRegex: true })
+    expect(pattern!.test('周一例会')).toBe(true)
+    expect(pattern!.test('下周一')).toBe(false)
+
+    const invalid = createSearchPattern({ keyword: '(', useRegex: true })
+    expect(invalid.pattern).toBeNull()
+    expect(invalid.error).toMatch(/^无效的正则表达式: /)
+  })
+
+  test('只搜索字符串和字符串数组字段', () => {
+    const todo = createMockTodo('1', { tags: ['工作'] })
+
+    expect(getSearchableTexts(todo, 'title')).toEqual(['任务1'])
+    expect(getSearchableTexts(todo, 'tags')).toEqual(['工作'])
+    expect(getSearchableTexts(todo, 'createdAt')).toEqual([])
+    expect(getSearchableTexts(todo, 'missing')).toEqual([])
+  })
+
+  test('在指定字段中查找', () => {
+    const todo = createMockTodo('1', { title: '写周报', tags: ['工作'] })
+
+    expect(matchesSearch(todo, /工作/, fields)).toBe(true)
+    expect(matchesSearch(todo, /工作/, ['title'])).toBe(false)
+    // 带 g 标志的表达式也能重复使用
+    const global = /周报/g
+    expect(matchesSearch(todo, global, fields)).toBe(true)
+    expect(matchesSearch(todo, global, fields)).toBe(true)
+  })
+
+  test('过滤待办事项并保持原有顺序', () => {
+    const todos = [
+      createMockTodo('1', { title: 'B 报告' }),
+      createMockTodo('2', { title: '会议' }),
+      createMockTodo('3', { title: 'A 报告' })
+    ]
+
+    expect(searchTodos(todos, { keyword: '报告', fields }).todos.map(todo => todo.id)).toEqual(['1', '3'])
+    expect(searchTodos(todos, { keyword: '', fields }).todos).toBe(todos)
+
+    const invalid = searchTodos(todos, { keyword: '[', fields, useRegex: true })
+    expect(invalid.todos).toBe(todos)
+    expect(invalid.error).not.toBeNull()
+  })
+
+  test('拆分高亮片段', () => {
+    expect(splitHighlight('写报告，改报告', /报告/)).toEqual([
+      { text: '写', match: false },
+      { text: '报告', match: true },
+      { text: '，改', match: false },
+      { text: '报告', match: true }
+    ])
+    expect(splitHighlight('没有匹配', /报告/)).toEqual([{ text: '没有匹配', match: false }])
+    expect(splitHighlight('', /报告/)).toEqual([{ text: '', match: false }])
+  })
+
+  test('跳过长度为0的匹配', () => {
+    const segments = splitHighlight('baab', /a*/)
+
+    expect(segments).toEqual([
+      { text: 'b', match: false },
+      { text: 'aa', match: true },
+      { text: 'b', match: false }
+    ])
+    expect(segments.map(segment => segment.text).join('')).toBe('baab')
+  })
+  test('按匹配范围拆分片段', () => {
+    expect(splitRanges('deploy staging', [[0, 6]])).toEqual([
+      { text: 'deploy', match: true },
+      { text: ' staging', match: false }
+    ])
+    expect(splitRanges('abcdef', [[1, 2], [4, 10]]).map(segment => segment.text)).toEqual(['a', 'b', 'cd', 'ef'])
+    expect(splitRanges('没有匹配', [])).toEqual([{ text: '没有匹配', match: false }])
+  })
+})
@@ -0,0 +1,102 @@
+/**
+ * 排序工具函数测试
+ *
+ * 测试基于SortConfig的待办事项排序，包括：
+ * 1. 优先级校验与权重
+ * 2. 按优先级、日期、标题排序
+ * 3. 空值处理与稳定排序
+ * 4. 自定义比较函数
+ */
+
+import type { Todo, TodoPriority } from '@/types/todo'
+import { isValidPriority, getPriorityWeight, sortTodos } from '@/utils/sort'
+
+const createMockTodo = (id: string, priority: TodoPriority, extra: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority,
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...extra
+})
+
+describe('排序工具函数测试', () => {
+  describe('优先级', () => {
+    test('校验合法的优先级', () => {
+      expect(isValidPriority('urgent')).toBe(true)
+      expect(isValidPriority('none')).toBe(true)
+      expect(isValidPriority('critical')).toBe(false)
+      expect(isValidPriority(undefined)).toBe(false)
+    })
+
+    test('权重随优先级递增', () => {
+      const weights = (['none', 'low', 'medium', 'high', 'urgent'] as TodoPriority[]).map(getPriorityWeight)
+
+      expect(weights).toEqual([...weights].sort((a, b) => a - b))
+      expect(new Set(weights).size).toBe(5)
+    })
+  })
+
+  describe('sortTodos', () => {
+    const todos = [
+      createMockTodo('1', 'low'),
+      createMockTodo('2', 'urgent'),
+      createMockTodo('3', 'none'),
+      createMockTodo('4', 'high'),
+      createMockTodo('5', 'high')
+    ]
+
+    test('按优先级降序排列，相同优先级保持原顺序', () => {
+      const result = sortTodos(todos, { field: 'priority', direction: 'desc' })
+
+      expect(result.map(t => t.id)).toEqual(['2', '4', '5', '1', '3'])
+    })
+
+    test('按优先级升序排列', () => {
+      const result = sortTodos(todos, { field: 'priority', direction: 'asc' })
+
+      expect(result.map(t => t.id)).toEqual(['3', '1', '4', '5', '2'])
+    })
+
+    test('不修改原数组', () => {
+      sortTodos(todos, { field: 'priority', direction: 'desc' })
+
+      expect(todos.map(t => t.id)).toEqual(['1', '2', '3', '4', '5'])
+    })
+
+    test('没有截止日期的待办事项总是排在最后', () => {
+      const withDates = [
+        createMockTodo('a', 'none'),
+        createMockTodo('b', 'none', { dueDate: new Date('2024-02-01') }),
+        createMockTodo('c', 'none', { dueDate: new Date('2024-01-15') })
+      ]
+
+      expect(sortTodos(withDates, { field: 'dueDate', direction: 'asc' }).map(t => t.id))
+        .toEqual(['c', 'b', 'a'])
+      expect(sortTodos(withDates, { field: 'dueDate', direction: 'desc' }).map(t => t.id))
+        .toEqual(['b', 'c', 'a'])
+    })
+
+    test('按标题排序', () => {
+      const result = sortTodos(
+        [createMockTodo('2', 'none'), createMockTodo('1', 'none')],
+        { field: 'title', direction: 'asc' }
+      )
+
+      expect(result.map(t => t.title)).toEqual(['任务1', '任务2'])
+    })
+
+    test('自定义比较函数按方向取反', () => {
+      const byIdLength = (a: Todo, b: Todo) => a.id.length - b.id.length
+      const items = [createMockTodo('long', 'none'), createMockTodo('x', 'none')]
+
+      expect(sortTodos(items, { field: 'id', direction: 'asc', compareFn: byIdLength }).map(t => t.id))
+        .toEqual(['x', 'long'])
+      expect(sortTodos(items, { field: 'id', direction: 'desc', compareFn: byIdLength }).map(t => t.id))
+        .toEqual(['long', 'x'])
+    })
+  })
+})
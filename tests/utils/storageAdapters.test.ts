@@ -0,0 +1,268 @@
+/**
+ * 存储适配器测试
+ *
+ * 测试不同存储后端的统一接口，包括：
+ * 1. 内存适配器的读写、删除和清空
+ * 2. localStorage适配器的键名前缀与配额错误
+ * 3. IndexedDB不可用时的降级，写入等待事务提交
+ * 4. 适配器之间的数据复制
+ */
+
+import { STORAGE_CONFIG, STORAGE_KEYS } from '@/types'
+import { ErrorCode, TodoError } from '@/types/error'
+import {
+  createMemoryAdapter,
+  createLocalStorageAdapter,
+  createIndexedDBAdapter,
+  selectStorageAdapter,
+  copyStorageData
+} from '@/utils/storageAdapters'
+
+type Handler = (() => void) | null
+
+interface FakeRequest {
+  result: unknown
+  error: null
+  onsuccess: Handler
+  onerror: Handler
+}
+
+interface FakeTransaction {
+  error: Error | null
+  oncomplete: Handler
+  onerror: Handler
+  onabort: Handler
+}
+
+/**
+ * 安装一个最小的 IndexedDB 模拟，请求异步成功，事务由测试手动提交或中止
+ */
+const installFakeIndexedDB = () => {
+  const records = new Map<string, unknown>()
+  const transactions: FakeTransaction[] = []
+
+  const createRequest = (result: unknown): FakeRequest => {
+    const request: FakeRequest = { result, error: null, onsuccess: null, onerror: null }
+    setTimeout(() => request.onsuccess?.())
+    return request
+  }
+
+  const db = {
+    objectStoreNames: { contains: () => true },
+    transaction: () => {
+      const transaction: FakeTransaction = { error: null, oncomplete: null, onerror: null, onabort: null }
+      transactions.push(transaction)
+      return Object.assign(transaction, {
+        objectStore: () => ({
+          get: (key: string) => createRequest(records.get(key)),
+          put: (value: unknown, key: string) => {
+            records.set(key, value)
+            return createRequest(key)
+          },
+          delete: (key: string) => {
+            records.delete(key)
+            return createRequest(undefined)
+          }
+        })
+      })
+    }
+  }
+
+  Object.defineProperty(window, 'indexedDB', {
+    value: { open: () => createRequest(db) },
+    configurable: true
+  })
+
+  return { records, transactions }
+}
+
+/** 等待模拟请求的回调执行 */
+const flushRequests = () => new Promise(resolve => setTimeout(resolve, 0))
+
+describe('存储适配器测试', () => {
+  beforeEach(() => {
+    localStorage.clear()
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('createMemoryAdapter', () => {
+    test('读写数据并返回副本', async () => {
+      const adapter = createMemoryAdapter()
+      const value = { title: '学习Vue 3', tags: ['vue'] }
+
+      await adapter.set('todo', value)
+      value.tags.push('changed')
+
+      expect(await adapter.get('todo')).toEqual({ title: '学习Vue 3', tags: ['vue'] })
+      expect(await adapter.get('missing')).toBeUndefined()
+    })
+
+    test('删除、列出和清空键名', async () => {
+      const adapter = createMemoryAdapter({ a: 1, b: 2 })
+
+      await adapter.remove('a')
+      expect(await adapter.keys()).toEqual(['b'])
+
+      await adapter.clear()
+      expect(await adapter.keys()).toEqual([])
+    })
+
+    test('容量估算没有上限', async () => {
+      const adapter = createMemoryAdapter({ key: 'value' })
+
+      const estimate = await adapter.estimate()
+
+      expect(adapter.type).toBe('memory')
+      expect(estimate.used).toBe('key'.length + '"value"'.length)
+      expect(estimate.total).toBeNull()
+    })
+  })
+
+  describe('createLocalStorageAdapter', () => {
+    test('数据以JSON保存在localStorage中', async () => {
+      const adapter = createLocalStorageAdapter()
+
+      await adapter.set(STORAGE_KEYS.FILTER, 'active')
+
+      expect(localStorage.getItem(STORAGE_KEYS.FILTER)).toBe('"active"')
+      expect(await adapter.get(STORAGE_KEYS.FILTER)).toBe('active')
+    })
+
+    test('只列出和清空带前缀的键名', async () => {
+      const adapter = createLocalStorageAdapter()
+      localStorage.setItem('other-app', 'keep')
+      await adapter.set(STORAGE_KEYS.TODOS, [])
+
+      expect(await adapter.keys()).toEqual([STORAGE_KEYS.TODOS])
+
+      await adapter.clear()
+      expect(localStorage.getItem(STORAGE_KEYS.TODOS)).toBeNull()
+      expect(localStorage.getItem('other-app')).toBe('keep')
+    })
+
+    test('容量估算使用localStorage的配额', async () => {
+      const adapter = createLocalStorageAdapter()
+      await adapter.set(STORAGE_KEYS.FILTER, 'all')
+
+      const estimate = await adapter.estimate()
+
+      expect(estimate.used).toBeGreaterThan(0)
+      expect(estimate.total).toBe(STORAGE_CONFIG.LOCAL_STORAGE_QUOTA)
+    })
+
+    test('损坏的数据抛出数据损坏错误', async () => {
+      const adapter = createLocalStorageAdapter()
+      localStorage.setItem(STORAGE_KEYS.TODOS, 'invalid json')
+
+      await expect(adapter.get(STORAGE_KEYS.TODOS)).rejects.toMatchObject({
+        code: ErrorCode.STORAGE_DATA_CORRUPTED
+      })
+    })
+
+    test('空间不足时抛出配额错误', async () => {
+      const adapter = createLocalStorageAdapter()
+      jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new DOMException('quota', 'QuotaExceededError')
+      })
+
+      const promise = adapter.set(STORAGE_KEYS.TODOS, [])
+
+      await expect(promise).rejects.toBeInstanceOf(TodoError)
+      await expect(promise).rejects.toMatchObject({
+        message: '存储空间不足，无法保存数据',
+        code: ErrorCode.STORAGE_QUOTA_EXCEEDED
+      })
+    })
+  })
+
+  describe('createIndexedDBAdapter', () => {
+    test('环境不支持IndexedDB时不可用', async () => {
+      const adapter = createIndexedDBAdapter()
+
+      expect(adapter.type).toBe('indexedDB')
+      expect(await adapter.isAvailable()).toBe(false)
+      await expect(adapter.get('key')).rejects.toMatchObject({
+        code: ErrorCode.STORAGE_NOT_AVAILABLE
+      })
+    })
+
+    describe('使用模拟的IndexedDB', () => {
+      afterEach(() => {
+        Reflect.deleteProperty(window, 'indexedDB')
+      })
+
+      test('写入在事务提交后才完成', async () => {
+        const { records, transactions } = installFakeIndexedDB()
+        const adapter = createIndexedDBAdapter()
+        let done = false
+
+        const writing = adapter.set('todo', { title: '学习Vue 3' }).then(() => {
+          done = true
+        })
+        await flushRequests()
+        await flushRequests()
+
+        expect(records.has('todo')).toBe(true)
+        expect(done).toBe(false)
+
+        transactions[0].oncomplete?.()
+        await writing
+
+        expect(done).toBe(true)
+      })
+
+      test('事务出错或中止时写入失败', async () => {
+        const { transactions } = installFakeIndexedDB()
+        const adapter = createIndexedDBAdapter()
+
+        const writing = adapter.set('todo', 1)
+        await flushRequests()
+        await flushRequests()
+        transactions[0].error = new DOMException('quota', 'QuotaExceededError')
+        transactions[0].onabort?.()
+
+        await expect(writing).rejects.toMatchObject({ code: ErrorCode.STORAGE_QUOTA_EXCEEDED })
+
+        const removing = adapter.remove('todo')
+        await flushRequests()
+        transactions[1].error = new Error('写入失败')
+        transactions[1].onerror?.()
+
+        await expect(removing).rejects.toThrow('写入失败')
+      })
+    })
+  })
+
+  describe('selectStorageAdapter', () => {
+    test('IndexedDB不可用时退回localStorage', async () => {
+      const adapter = await selectStorageAdapter()
+
+      expect(adapter.type).toBe('localStorage')
+    })
+  })
+
+  describe('copyStorageData', () => {
+    test('目标为空时复制所有数据', async () => {
+      const source = createMemoryAdapter({ a: 1, b: [2] })
+      const target = createMemoryAdapter()
+
+      const copied = await copyStorageData(source, target)
+
+      expect(copied).toBe(2)
+      expect(await target.get('b')).toEqual([2])
+    })
+
+    test('目标已有数据时不覆盖', async () => {
+      const source = createMemoryAdapter({ a: 1 })
+      const target = createMemoryAdapter({ a: 2 })
+
+      const copied = await copyStorageData(source, target)
+
+      expect(copied).toBe(0)
+      expect(await target.get('a')).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * 多标签页同步测试
+ *
+ * 测试多标签页同步的工具函数，包括：
+ * 1. 按 updatedAt 合并并发修改
+ * 2. 新增与删除的识别
+ * 3. BroadcastChannel 消息的发送与接收
+ * 4. storage 事件的降级处理
+ */
+
+import type { Todo } from '@/types/todo'
+import { STORAGE_KEYS } from '@/types'
+import { createSyncBase, mergeRecords, createTabSync } from '@/utils/tabSync'
+import { wrapVersioned } from '@/utils/migrations'
+
+const createMockTodo = (id: string, title: string, updatedAt = '2024-01-01T10:00:00Z'): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date(updatedAt)
+})
+
+/**
+ * 简单的 BroadcastChannel 实现：同名频道的其他实例都能收到消息
+ */
+class FakeBroadcastChannel {
+  static channels: FakeBroadcastChannel[] = []
+  onmessage: ((event: { data: unknown }) => void) | null = null
+
+  constructor(public name: string) {
+    FakeBroadcastChannel.channels.push(this)
+  }
+
+  postMessage(data: unknown) {
+    FakeBroadcastChannel.channels
+      .filter(channel => channel !== this && channel.name === this.name)
+      .forEach(channel => channel.onmessage?.({ data }))
+  }
+
+  close() {
+    FakeBroadcastChannel.channels = FakeBroadcastChannel.channels.filter(channel => channel !== this)
+  }
+}
+
+describe('多标签页同步测试', () => {
+  describe('mergeRecords', () => {
+    test('两边都有的记录保留较新的一份', () => {
+      const local = [createMockTodo('1', '本地修改', '2024-01-02T10:00:00Z'), createMockTodo('2', '旧标题')]
+      const remote = [createMockTodo('1', '远程旧版'), createMockTodo('2', '远程修改', '2024-01-03T10:00:00Z')]
+
+      const { merged, changed } = mergeRecords(createSyncBase(remote), local, remote)
+
+      expect(merged.map(todo => todo.title)).toEqual(['本地修改', '远程修改'])
+      expect(changed).toBe(true)
+    })
+
+    test('两边新增的记录都会保留', () => {
+      const base = createSyncBase([createMockTodo('1', '共同')])
+      const local = [createMockTodo('1', '共同'), createMockTodo('local', '本地新增')]
+      const remote = [createMockTodo('1', '共同'), createMockTodo('remote', '远程新增')]
+
+      const { merged } = mergeRecords(base, local, remote)
+
+      expect(merged.map(todo => todo.id)).toEqual(['1', 'local', 'remote'])
+    })
+
+    test('另一边删除的记录被移除，删除后又修改过的记录保留', () => {
+      const base = createSyncBase([createMockTodo('1', '一'), createMockTodo('2', '二')])
+      const local = [createMockTodo('1', '一'), createMockTodo('2', '本地修改', '2024-01-02T10:00:00Z')]
+      const remote: Todo[] = []
+
+      const { merged } = mergeRecords(base, local, remote)
+
+      expect(merged.map(todo => todo.id)).toEqual(['2'])
+    })
+
+    test('本地删除的记录不会被其他标签页的旧数据恢复', () => {
+      const base = createSyncBase([createMockTodo('1', '一')])
+
+      const { merged, changed } = mergeRecords(base, [], [createMockTodo('1', '一')])
+
+      expect(merged).toEqual([])
+      expect(changed).toBe(false)
+    })
+
+    test('时间相同时两边得到相同的结果', () => {
+      const a = createMockTodo('1', '甲')
+      const b = createMockTodo('1', '乙')
+
+      const fromA = mergeRecords(new Map(), [a], [b]).merged[0]
+      const fromB = mergeRecords(new Map(), [b], [a]).merged[0]
+
+      expect(fromA).toBe(fromB)
+    })
+
+    test('没有新内容时返回本地记录且changed为false', () => {
+      const local = [createMockTodo('1', '一', '2024-01-02T10:00:00Z')]
+
+      const { merged, changed } = mergeRecords(new Map(), local, [createMockTodo('1', '旧')])
+
+      expect(merged[0]).toBe(local[0])
+      expect(changed).toBe(false)
+    })
+  })
+
+  describe('createTabSync', () => {
+    const originalChannel = (globalThis as any).BroadcastChannel
+
+    afterEach(() => {
+      ;(globalThis as any).BroadcastChannel = originalChannel
+      FakeBroadcastChannel.channels = []
+    })
+
+    test('通过BroadcastChannel在标签页之间传递待办事项', () => {
+      ;(globalThis as any).BroadcastChannel = FakeBroadcastChannel
+      const onTodos = jest.fn()
+      const sender = createTabSync({ onTodos: jest.fn(), onProjects: jest.fn() })
+      const receiver = createTabSync({ onTodos, onProjects: jest.fn() })
+
+      sender.broadcastTodos([createMockTodo('1', '同步')])
+
+      expect(sender.transport).toBe('broadcastChannel')
+      expect(onTodos).toHaveBeenCalledTimes(1)
+      const received = onTodos.mock.calls[0][0] as Todo[]
+      expect(received[0].title).toBe('同步')
+      expect(received[0].updatedAt).toBeInstanceOf(Date)
+
+      receiver.close()
+      sender.broadcastTodos([])
+      expect(onTodos).toHaveBeenCalledTimes(1)
+    })
+
+    test('回收站的变化通过onTrash传递，删除时间被还原', () => {
+      ;(globalThis as any).BroadcastChannel = FakeBroadcastChannel
+      const onTrash = jest.fn()
+      const sender = createTabSync({ onTodos: jest.fn(), onProjects: jest.fn() })
+      createTabSync({ onTodos: jest.fn(), onProjects: jest.fn(), onTrash })
+
+      sender.broadcastTrash([{ ...createMockTodo('1', '已删除'), deletedAt: new Date('2024-02-01T00:00:00Z') }])
+
+      expect(onTrash).toHaveBeenCalledTimes(1)
+      expect(onTrash.mock.calls[0][0][0].deletedAt).toEqual(new Date('2024-02-01T00:00:00Z'))
+    })
+
+    test('归档的变化通过onArchive传递，归档时间被还原', () => {
+      ;(globalThis as any).BroadcastChannel = FakeBroadcastChannel
+      const onArchive = jest.fn()
+      const sender = createTabSync({ onTodos: jest.fn(), onProjects: jest.fn() })
+      createTabSync({ onTodos: jest.fn(), onProjects: jest.fn(), onArchive })
+
+      sender.broadcastArchive([{ ...createMockTodo('1', '已归档'), archivedAt: new Date('2024-02-01T00:00:00Z') }])
+
+      expect(onArchive).toHaveBeenCalledTimes(1)
+      expect(onArchive.mock.calls[0][0][0].archivedAt).toEqual(new Date('2024-02-01T00:00:00Z'))
+    })
+
+    test('不支持BroadcastChannel时监听storage事件', () => {
+      ;(globalThis as any).BroadcastChannel = undefined
+      const onTodos = jest.fn()
+      const onProjects = jest.fn()
+      const sync = createTabSync({ onTodos, onProjects })
+
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: STORAGE_KEYS.TODOS,
+        newValue: JSON.stringify(wrapVersioned([createMockTodo('1', '其他标签页')]))
+      }))
+      window.dispatchEvent(new StorageEvent('storage', {
+        key: STORAGE_KEYS.PROJECTS,
+        newValue: JSON.stringify(wrapVersioned({
+          projects: [{ id: 'work', name: '工作', archived: false, createdAt: '2024-01-01', updatedAt: '2024-01-01' }],
+          currentProjectId: 'work'
+        }))
+      }))
+
+      expect(sync.transport).toBe('storageEvent')
+      expect((onTodos.mock.calls[0][0] as Todo[])[0].title).toBe('其他标签页')
+      expect(onProjects.mock.calls[0][0][0].updatedAt).toBeInstanceOf(Date)
+
+      sync.close()
+      window.dispatchEvent(new StorageEvent('storage', { key: STORAGE_KEYS.TODOS, newValue: '[]' }))
+      expect(onTodos).toHaveBeenCalledTimes(1)
+    })
+  })
+})
@@ -0,0 +1,107 @@
+/**
+ * 标签工具函数测试
+ *
+ * 测试标签相关的纯函数，包括：
+ * 1. 名称规范化与校验
+ * 2. 标签列表的去重与替换
+ * 3. 从标题中解析 #标签
+ * 4. 标签过滤匹配
+ */
+
+import {
+  normalizeTagName,
+  validateTagName,
+  normalizeTagList,
+  replaceTags,
+  extractHashTags,
+  matchesTagFilter,
+  isValidTagColor,
+  pickTagColor
+} from '@/utils/tags'
+import { TAG_COLORS } from '@/types'
+
+describe('标签工具函数测试', () => {
+  describe('名称规范化与校验', () => {
+    test('去除空白和开头的#号', () => {
+      expect(normalizeTagName('  #bug ')).toBe('bug')
+      expect(normalizeTagName('##前端')).toBe('前端')
+    })
+
+    test('校验非法名称', () => {
+      expect(validateTagName('bug')).toBeNull()
+      expect(validateTagName('')).toBe('标签名称不能为空')
+      expect(validateTagName('a b')).not.toBeNull()
+      expect(validateTagName('a,b')).not.toBeNull()
+      expect(validateTagName('x'.repeat(31))).not.toBeNull()
+    })
+
+    test('列表去重并丢弃非法名称', () => {
+      expect(normalizeTagList(['#bug', 'bug', '', 'ui', 'a b'])).toEqual(['bug', 'ui'])
+    })
+  })
+
+  describe('replaceTags', () => {
+    test('没有变化时返回原数组', () => {
+      const tags = ['a', 'b']
+
+      expect(replaceTags(tags, ['c'], 'd')).toBe(tags)
+    })
+
+    test('替换后去重并保持顺序', () => {
+      expect(replaceTags(['a', 'b', 'c'], ['a', 'c'], 'b')).toEqual(['b'])
+      expect(replaceTags(['a', 'b'], ['a'], 'z')).toEqual(['z', 'b'])
+    })
+
+    test('目标为null时移除标签', () => {
+      expect(replaceTags(['a', 'b'], ['a'], null)).toEqual(['b'])
+    })
+  })
+
+  describe('extractHashTags', () => {
+    test('提取标签并清理标题', () => {
+      expect(extractHashTags('修复 #bug 登录问题 #前端')).toEqual({
+        title: '修复 登录问题',
+        tags: ['bug', '前端']
+      })
+    })
+
+    test('忽略编号和单词中间的#号', () => {
+      expect(extractHashTags('处理工单 #123 和 C#')).toEqual({
+        title: '处理工单 #123 和 C#',
+        tags: []
+      })
+    })
+
+    test('重复的标签只保留一次', () => {
+      expect(extractHashTags('#a 任务 #a').tags).toEqual(['a'])
+    })
+  })
+
+  describe('matchesTagFilter', () => {
+    test('没有选中标签时全部匹配', () => {
+      expect(matchesTagFilter([], [])).toBe(true)
+    })
+
+    test('区分任一匹配和全部匹配', () => {
+      expect(matchesTagFilter(['a'], ['a', 'b'], 'any')).toBe(true)
+      expect(matchesTagFilter(['a'], ['a', 'b'], 'all')).toBe(false)
+      expect(matchesTagFilter(['a', 'b', 'c'], ['a', 'b'], 'all')).toBe(true)
+    })
+  })
+
+  describe('颜色', () => {
+    test('校验十六进制颜色', () => {
+      expect(isValidTagColor('#fff')).toBe(true)
+      expect(isValidTagColor('#3b82f6')).toBe(true)
+      expect(isValidTagColor('blue')).toBe(false)
+    })
+
+    test('按已有标签数量轮流分配颜色', () => {
+      const existing = TAG_COLORS.map((color, i) => ({ name: `t${i}`, color, createdAt: new Date() }))
+
+      expect(pickTagColor([])).toBe(TAG_COLORS[0])
+      expect(pickTagColor(existing)).toBe(TAG_COLORS[0])
+      expect(pickTagColor(existing.slice(0, 2))).toBe(TAG_COLORS[2])
+    })
+  })
+})
@@ -4,12 +4,14 @@
  * 测试Todo应用专用的存储函数，包括：
  * 1. Todo列表的保存和加载
  * 2. 过滤器状态的持久化
- * 3. 应用设置的存储
+ * 3. 标签库、列表与应用设置的存储
  * 4. 完整应用状态的管理
+ * 5. 数据版本号与旧数据迁移
  */
 
 import type { Todo, FilterType } from '@/types/todo'
-import { STORAGE_KEYS } from '@/types'
+import { STORAGE_KEYS, STORAGE_CONFIG } from '@/types'
+import { ErrorCode } from '@/types/error'
 import {
   saveTodos,
   loadTodos,
@@ -17,17 +19,32 @@ import {
   loadFilter,
   saveSettings,
   loadSettings,
+  saveTags,
+  loadTags,
+  saveProjects,
+  loadProjects,
+  saveTrash,
+  loadTrash,
+  saveArchive,
+  loadArchive,
   loadAppState,
   saveAppState,
   clearAppData,
-  checkStorageHealth
+  checkStorageHealth,
+  resetStoredData,
+  reviveTodo
 } from '@/utils/todoStorage'
+import { setStorageAdapter } from '@/utils/storage'
+import { createLocalStorageAdapter, createMemoryAdapter } from '@/utils/storageAdapters'
 
 // 测试数据
 const createMockTodo = (id: string, title: string, completed = false): Todo => ({
   id,
   title,
   completed,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
   createdAt: new Date('2024-01-01T10:00:00Z'),
   updatedAt: new Date('2024-01-01T10:00:00Z')
 })
@@ -56,8 +73,8 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('saveTodos', () => {
-    test('成功保存Todo列表', () => {
-      const result = saveTodos(mockTodos)
+    test('成功保存Todo列表', async () => {
+      const result = await saveTodos(mockTodos)
       
       expect(result.success).toBe(true)
       expect(result.data).toEqual(mockTodos)
@@ -68,16 +85,16 @@ describe('Todo存储工具函数测试', () => {
       expect(console.log).toHaveBeenCalledWith('✅ 成功保存 3 个待办事项')
     })
 
-    test('保存空数组时成功', () => {
-      const result = saveTodos([])
+    test('保存空数组时成功', async () => {
+      const result = await saveTodos([])
       
       expect(result.success).toBe(true)
       expect(result.data).toEqual([])
       expect(console.log).toHaveBeenCalledWith('✅ 成功保存 0 个待办事项')
     })
 
-    test('传入非数组时返回验证错误', () => {
-      const result = saveTodos('not an array' as any)
+    test('传入非数组时返回验证错误', async () => {
+      const result = await saveTodos('not an array' as any)
       
       expect(result.success).toBe(false)
       expect(result.error).toContain('Todo列表必须是数组类型')
@@ -87,14 +104,14 @@ describe('Todo存储工具函数测试', () => {
       )
     })
 
-    test('Todo项数据格式不正确时返回验证错误', () => {
+    test('Todo项数据格式不正确时返回验证错误', async () => {
       const invalidTodos = [
         { id: '1', title: '正常Todo', completed: false, createdAt: new Date(), updatedAt: new Date() },
         { id: '', title: 'ID为空', completed: false, createdAt: new Date(), updatedAt: new Date() }, // 无效：ID为空
         { title: '缺少ID', completed: false, createdAt: new Date(), updatedAt: new Date() } // 无效：缺少ID
       ]
       
-      const result = saveTodos(invalidTodos as Todo[])
+      const result = await saveTodos(invalidTodos as Todo[])
       
       expect(result.success).toBe(false)
       expect(result.error).toContain('Todo项数据格式不正确')
@@ -102,12 +119,12 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('loadTodos', () => {
-    test('成功加载Todo列表', () => {
+    test('成功加载Todo列表', async () => {
       // 先保存数据
-      saveTodos(mockTodos)
+      await saveTodos(mockTodos)
       
       // 加载数据
-      const result = loadTodos()
+      const result = await loadTodos()
       
       expect(result.success).toBe(true)
       expect(result.data).toHaveLength(3)
@@ -121,19 +138,77 @@ describe('Todo存储工具函数测试', () => {
       expect(console.log).toHaveBeenCalledWith('✅ 成功加载 3 个待办事项')
     })
 
-    test('没有存储数据时返回空数组', () => {
-      const result = loadTodos()
+    test('开始和截止日期与createdAt一样被还原为Date对象', async () => {
+      const todoWithDates: Todo = {
+        ...createMockTodo('4', '有期限的任务'),
+        startDate: new Date('2024-01-02T00:00:00Z'),
+        dueDate: new Date('2024-01-10T00:00:00Z')
+      }
+      await saveTodos([todoWithDates, createMockTodo('5', '没有期限')])
+      
+      const result = await loadTodos()
+      
+      expect(result.success).toBe(true)
+      expect(result.data![0].dueDate).toBeInstanceOf(Date)
+      expect(result.data![0].dueDate!.toISOString()).toBe('2024-01-10T00:00:00.000Z')
+      expect(result.data![0].startDate!.toISOString()).toBe('2024-01-02T00:00:00.000Z')
+      expect(result.data![1]).not.toHaveProperty('dueDate')
+      expect(result.data![1]).not.toHaveProperty('startDate')
+    })
+
+    test('还原重复规则中的日期', async () => {
+      await saveTodos([{
+        ...createMockTodo('6', '每周例会'),
+        recurrence: { frequency: 'weekly', weekdays: [1], until: new Date('2024-06-30T00:00:00Z') }
+      }])
+      
+      const result = await loadTodos()
+      
+      expect(result.data![0].recurrence).toEqual({
+        frequency: 'weekly',
+        weekdays: [1],
+        until: new Date('2024-06-30T00:00:00Z')
+      })
+    })
+
+    test('保留手动排序键，无效的排序键被移除', async () => {
+      localStorage.setItem(STORAGE_KEYS.TODOS, JSON.stringify([
+        { ...createMockTodo('7', '已排序'), order: 2 },
+        { ...createMockTodo('8', '无效排序'), order: 'first' }
+      ]))
+      
+      const result = await loadTodos()
+      
+      expect(result.data![0].order).toBe(2)
+      expect('order' in result.data![1]).toBe(false)
+    })
+
+    test('旧数据缺失的优先级补充为none，缺失的标签补充为空数组，缺失的列表补充为默认列表', async () => {
+      localStorage.setItem(STORAGE_KEYS.TODOS, JSON.stringify([
+        { id: 'legacy', title: '旧数据', completed: false, createdAt: '2024-01-01T10:00:00Z', updatedAt: '2024-01-01T10:00:00Z' }
+      ]))
+      
+      const result = await loadTodos()
+      
+      expect(result.success).toBe(true)
+      expect(result.data![0].priority).toBe('none')
+      expect(result.data![0].tags).toEqual([])
+      expect(result.data![0].projectId).toBe('default')
+    })
+
+    test('没有存储数据时返回空数组', async () => {
+      const result = await loadTodos()
       
       expect(result.success).toBe(true)
       expect(result.data).toEqual([])
       expect(console.log).toHaveBeenCalledWith('✅ 成功加载 0 个待办事项')
     })
 
-    test('存储数据格式不正确时返回错误', () => {
+    test('存储数据格式不正确时返回错误', async () => {
       // 直接设置无效数据
-      localStorage.setItem(STORAGE_KEYS.TODOS, JSON.stringify('not an array'))
+      localStorage.setItem(STORAGE_KEYS.TODOS, JSON.stringify({ schemaVersion: 1, data: 'not an array' }))
       
-      const result = loadTodos()
+      const result = await loadTodos()
       
       expect(result.success).toBe(false)
       expect(result.error).toContain('存储的Todo数据格式不正确')
@@ -143,11 +218,11 @@ describe('Todo存储工具函数测试', () => {
       )
     })
 
-    test('存储数据损坏时返回错误', () => {
+    test('存储数据损坏时返回错误', async () => {
       // 设置损坏的JSON数据
       localStorage.setItem(STORAGE_KEYS.TODOS, 'invalid json {')
       
-      const result = loadTodos()
+      const result = await loadTodos()
       
       expect(result.success).toBe(false)
       expect(result.error).toContain('数据反序列化失败')
@@ -155,21 +230,21 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('saveFilter', () => {
-    test('成功保存有效的过滤器状态', () => {
+    test('成功保存有效的过滤器状态', async () => {
       const validFilters: FilterType[] = ['all', 'active', 'completed']
       
-      validFilters.forEach(filter => {
-        const result = saveFilter(filter)
+      for (const filter of validFilters) {
+        const result = await saveFilter(filter)
         
         expect(result.success).toBe(true)
         expect(result.data).toBe(filter)
         expect(result.key).toBe(STORAGE_KEYS.FILTER)
         expect(console.log).toHaveBeenCalledWith(`✅ 成功保存过滤器状态: ${filter}`)
-      })
+      }
     })
 
-    test('保存无效过滤器时返回验证错误', () => {
-      const result = saveFilter('invalid' as FilterType)
+    test('保存无效过滤器时返回验证错误', async () => {
+      const result = await saveFilter('invalid' as FilterType)
       
       expect(result.success).toBe(false)
       expect(result.error).toContain('无效的过滤器类型')
@@ -181,30 +256,30 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('loadFilter', () => {
-    test('成功加载过滤器状态', () => {
+    test('成功加载过滤器状态', async () => {
       // 先保存过滤器状态
-      saveFilter('completed')
+      await saveFilter('completed')
       
       // 加载过滤器状态
-      const result = loadFilter()
+      const result = await loadFilter()
       
       expect(result.success).toBe(true)
       expect(result.data).toBe('completed')
       expect(console.log).toHaveBeenCalledWith('✅ 成功加载过滤器状态: completed')
     })
 
-    test('没有存储数据时返回默认值', () => {
-      const result = loadFilter()
+    test('没有存储数据时返回默认值', async () => {
+      const result = await loadFilter()
       
       expect(result.success).toBe(true)
       expect(result.data).toBe('all')
     })
 
-    test('存储的过滤器状态无效时返回默认值', () => {
+    test('存储的过滤器状态无效时返回默认值', async () => {
       // 直接设置无效的过滤器状态
       localStorage.setItem(STORAGE_KEYS.FILTER, JSON.stringify('invalid'))
       
-      const result = loadFilter()
+      const result = await loadFilter()
       
       expect(result.success).toBe(true)
       expect(result.data).toBe('all')
@@ -213,14 +288,14 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('saveSettings', () => {
-    test('成功保存应用设置', () => {
+    test('成功保存应用设置', async () => {
       const settings = {
         theme: 'dark' as const,
         language: 'en-US' as const,
         autoSave: false
       }
       
-      const result = saveSettings(settings)
+      const result = await saveSettings(settings)
       
       expect(result.success).toBe(true)
       expect(result.data!.theme).toBe('dark')
@@ -230,12 +305,12 @@ describe('Todo存储工具函数测试', () => {
       expect(console.log).toHaveBeenCalledWith('✅ 成功保存应用设置')
     })
 
-    test('部分更新设置时合并现有设置', () => {
+    test('部分更新设置时合并现有设置', async () => {
       // 先保存初始设置
-      saveSettings({ theme: 'light' as const, autoSave: true })
+      await saveSettings({ theme: 'light' as const, autoSave: true })
       
       // 部分更新设置
-      const result = saveSettings({ theme: 'dark' as const })
+      const result = await saveSettings({ theme: 'dark' as const })
       
       expect(result.success).toBe(true)
       expect(result.data!.theme).toBe('dark')
@@ -244,20 +319,20 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('loadSettings', () => {
-    test('成功加载应用设置', () => {
+    test('成功加载应用设置', async () => {
       // 先保存设置
-      saveSettings({ theme: 'dark' as const })
+      await saveSettings({ theme: 'dark' as const })
       
       // 加载设置
-      const result = loadSettings()
+      const result = await loadSettings()
       
       expect(result.success).toBe(true)
       expect(result.data!.theme).toBe('dark')
       expect(console.log).toHaveBeenCalledWith('✅ 成功加载应用设置')
     })
 
-    test('没有存储数据时返回默认设置', () => {
-      const result = loadSettings()
+    test('没有存储数据时返回默认设置', async () => {
+      const result = await loadSettings()
       
       expect(result.success).toBe(true)
       expect(result.data!.version).toBe('1.0.0')
@@ -267,15 +342,118 @@ describe('Todo存储工具函数测试', () => {
     })
   })
 
+  describe('saveTags / loadTags', () => {
+    test('保存并加载标签库，日期被还原为Date对象', async () => {
+      const tags = [{ name: 'bug', color: '#ef4444', createdAt: new Date('2024-01-01T10:00:00Z') }]
+      
+      expect((await saveTags(tags)).success).toBe(true)
+      
+      const result = await loadTags()
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual(tags)
+      expect(result.data![0].createdAt).toBeInstanceOf(Date)
+    })
+
+    test('标签数据格式不正确时保存失败', async () => {
+      const result = await saveTags([{ name: '', color: '#fff', createdAt: new Date() }])
+      
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('标签数据格式不正确')
+    })
+  })
+
+  describe('saveProjects / loadProjects', () => {
+    test('保存并加载列表数据，日期被还原为Date对象', async () => {
+      const data = {
+        projects: [{
+          id: 'work',
+          name: '工作',
+          archived: false,
+          createdAt: new Date('2024-01-01T10:00:00Z'),
+          updatedAt: new Date('2024-01-01T10:00:00Z')
+        }],
+        currentProjectId: 'work'
+      }
+      
+      expect((await saveProjects(data)).success).toBe(true)
+      
+      const result = await loadProjects()
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual(data)
+      expect(result.data!.projects[0].createdAt).toBeInstanceOf(Date)
+    })
+
+    test('没有存储数据时返回null', async () => {
+      const result = await loadProjects()
+      
+      expect(result.success).toBe(true)
+      expect(result.data).toBeNull()
+    })
+  })
+
+  describe('saveTrash / loadTrash', () => {
+    test('保存并加载回收站，删除时间被还原为Date对象', async () => {
+      const data = {
+        items: [{ ...mockTodos[0], deletedAt: new Date('2024-02-01T10:00:00Z') }],
+        retentionDays: 7
+      }
+      
+      expect((await saveTrash(data)).success).toBe(true)
+      
+      const result = await loadTrash()
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual(data)
+      expect(result.data!.items[0].deletedAt).toBeInstanceOf(Date)
+    })
+
+    test('没有存储数据时返回null，缺少保留天数时使用默认值', async () => {
+      expect((await loadTrash()).data).toBeNull()
+      
+      localStorage.setItem(STORAGE_KEYS.TRASH, JSON.stringify({ items: [] }))
+      expect((await loadTrash()).data).toEqual({ items: [], retentionDays: 30 })
+    })
+
+    test('缺少删除时间时保存失败', async () => {
+      const result = await saveTrash({ items: [mockTodos[0] as any], retentionDays: 30 })
+      
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('回收站数据格式不正确')
+    })
+  })
+
+  describe('saveArchive / loadArchive', () => {
+    test('保存并加载归档，归档时间被还原为Date对象', async () => {
+      const items = [{ ...mockTodos[1], archivedAt: new Date('2024-02-01T10:00:00Z') }]
+      
+      expect((await saveArchive(items)).success).toBe(true)
+      
+      const result = await loadArchive()
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual(items)
+      expect(result.data![0].archivedAt).toBeInstanceOf(Date)
+    })
+
+    test('没有存储数据时返回空数组', async () => {
+      expect((await loadArchive()).data).toEqual([])
+    })
+
+    test('缺少归档时间时保存失败', async () => {
+      const result = await saveArchive([mockTodos[0] as any])
+      
+      expect(result.success).toBe(false)
+      expect(result.error).toBe('归档数据格式不正确')
+    })
+  })
+
   describe('loadAppState', () => {
-    test('成功加载完整应用状态', () => {
+    test('成功加载完整应用状态', async () => {
       // 先保存一些数据
-      saveTodos(mockTodos)
-      saveFilter('active')
-      saveSettings({ theme: 'dark' as const })
+      await saveTodos(mockTodos)
+      await saveFilter('active')
+      await saveSettings({ theme: 'dark' as const })
       
       // 加载完整状态
-      const state = loadAppState()
+      const state = await loadAppState()
       
       expect(state.todos).toHaveLength(3)
       expect(state.filter).toBe('active')
@@ -289,14 +467,14 @@ describe('Todo存储工具函数测试', () => {
       })
     })
 
-    test('部分数据加载失败时收集错误', () => {
+    test('部分数据加载失败时收集错误', async () => {
       // 设置损坏的Todo数据
       localStorage.setItem(STORAGE_KEYS.TODOS, 'invalid json')
       
       // 正常的过滤器数据
-      saveFilter('completed')
+      await saveFilter('completed')
       
-      const state = loadAppState()
+      const state = await loadAppState()
       
       expect(state.todos).toEqual([]) // 使用默认值
       expect(state.filter).toBe('completed') // 正常加载
@@ -306,14 +484,14 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('saveAppState', () => {
-    test('成功保存完整应用状态', () => {
+    test('成功保存完整应用状态', async () => {
       const appState = {
         todos: mockTodos,
         filter: 'active' as FilterType,
         settings: { theme: 'dark' as const }
       }
       
-      const result = saveAppState(appState)
+      const result = await saveAppState(appState)
       
       expect(result.success).toBe(true)
       expect(result.errors).toHaveLength(0)
@@ -326,11 +504,15 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('clearAppData', () => {
-    test('成功清除所有应用数据', () => {
+    test('成功清除所有应用数据', async () => {
       // 先保存一些数据
-      saveTodos(mockTodos)
-      saveFilter('active')
-      saveSettings({ theme: 'dark' as const })
+      await saveTodos(mockTodos)
+      await saveFilter('active')
+      await saveSettings({ theme: 'dark' as const })
+      await saveTags([{ name: 'bug', color: '#ef4444', createdAt: new Date() }])
+      await saveProjects({ projects: [], currentProjectId: 'default' })
+      await saveTrash({ items: [], retentionDays: 30 })
+      await saveArchive([])
       
       // 验证数据存在
       expect(localStorage.getItem(STORAGE_KEYS.TODOS)).not.toBeNull()
@@ -338,7 +520,7 @@ describe('Todo存储工具函数测试', () => {
       expect(localStorage.getItem(STORAGE_KEYS.SETTINGS)).not.toBeNull()
       
       // 清除数据
-      const result = clearAppData()
+      const result = await clearAppData()
       
       expect(result.success).toBe(true)
       expect(result.errors).toHaveLength(0)
@@ -347,6 +529,10 @@ describe('Todo存储工具函数测试', () => {
       expect(localStorage.getItem(STORAGE_KEYS.TODOS)).toBeNull()
       expect(localStorage.getItem(STORAGE_KEYS.FILTER)).toBeNull()
       expect(localStorage.getItem(STORAGE_KEYS.SETTINGS)).toBeNull()
+      expect(localStorage.getItem(STORAGE_KEYS.TAGS)).toBeNull()
+      expect(localStorage.getItem(STORAGE_KEYS.PROJECTS)).toBeNull()
+      expect(localStorage.getItem(STORAGE_KEYS.TRASH)).toBeNull()
+      expect(localStorage.getItem(STORAGE_KEYS.ARCHIVE)).toBeNull()
       
       expect(console.log).toHaveBeenCalledWith('🗑️ 应用数据清除完成:', {
         success: true,
@@ -356,13 +542,13 @@ describe('Todo存储工具函数测试', () => {
   })
 
   describe('checkStorageHealth', () => {
-    test('存储健康时返回正常状态', () => {
+    test('存储健康时返回正常状态', async () => {
       // 保存一些正常数据
-      saveTodos(mockTodos)
-      saveFilter('active')
-      saveSettings({ theme: 'light' as const })
+      await saveTodos(mockTodos)
+      await saveFilter('active')
+      await saveSettings({ theme: 'light' as const })
       
-      const health = checkStorageHealth()
+      const health = await checkStorageHealth()
       
       expect(health.available).toBe(true)
       expect(health.dataIntegrity).toBe(true)
@@ -372,21 +558,148 @@ describe('Todo存储工具函数测试', () => {
       expect(health.issues).toHaveLength(0)
     })
 
-    test('数据损坏时返回相应状态', () => {
+    test('数据损坏时返回相应状态', async () => {
       // 设置损坏的数据
       localStorage.setItem(STORAGE_KEYS.TODOS, 'invalid json')
       localStorage.setItem(STORAGE_KEYS.FILTER, JSON.stringify('invalid-filter'))
       
-      const health = checkStorageHealth()
+      const health = await checkStorageHealth()
       
       expect(health.available).toBe(true)
       expect(health.dataIntegrity).toBe(false)
       expect(health.issues).toContain('Todo数据损坏')
     })
+
+    test('回收站单独计数和检查', async () => {
+      await saveTodos(mockTodos)
+      await saveTrash({ items: [{ ...createMockTodo('4', '旧任务'), deletedAt: new Date() }], retentionDays: 30 })
+      
+      expect((await checkStorageHealth()).counts).toEqual({ todos: 3, trashed: 1, archived: 0 })
+      
+      localStorage.setItem(STORAGE_KEYS.TRASH, 'invalid json')
+      const health = await checkStorageHealth()
+      
+      expect(health.dataIntegrity).toBe(false)
+      expect(health.issues).toEqual(['回收站数据损坏'])
+      expect(health.counts).toEqual({ todos: 3, trashed: 0, archived: 0 })
+    })
+
+    test('归档单独计数和检查', async () => {
+      await saveTodos(mockTodos)
+      await saveArchive([{ ...createMockTodo('4', '旧任务', true), archivedAt: new Date() }])
+      
+      expect((await checkStorageHealth()).counts).toEqual({ todos: 3, trashed: 0, archived: 1 })
+      
+      localStorage.setItem(STORAGE_KEYS.ARCHIVE, 'invalid json')
+      const health = await checkStorageHealth()
+      
+      expect(health.dataIntegrity).toBe(false)
+      expect(health.issues).toEqual(['归档数据损坏'])
+      expect(health.counts).toEqual({ todos: 3, trashed: 0, archived: 0 })
+    })
+
+    test('使用内存存储时读写都经过适配器且没有容量上限', async () => {
+      setStorageAdapter(createMemoryAdapter())
+      
+      try {
+        await saveTodos(mockTodos)
+        const loaded = await loadTodos()
+        const health = await checkStorageHealth()
+        
+        expect(loaded.data).toHaveLength(3)
+        expect(localStorage.getItem(STORAGE_KEYS.TODOS)).toBeNull()
+        expect(health.backend).toBe('memory')
+        expect(health.usage.used).toBeGreaterThan(0)
+        expect(health.usage.total).toBeNull()
+        expect(health.usage.percentage).toBe(0)
+      } finally {
+        setStorageAdapter(createLocalStorageAdapter())
+      }
+    })
+  })
+
+  describe('数据版本与迁移', () => {
+    const backupKey = `${STORAGE_KEYS.TODOS}${STORAGE_CONFIG.BACKUP_SUFFIX}0`
+    
+    test('保存的数据带有当前版本号', async () => {
+      await saveTodos(mockTodos)
+      await saveFilter('active')
+      await saveSettings({ theme: 'dark' as const })
+      
+      const storedTodos = JSON.parse(localStorage.getItem(STORAGE_KEYS.TODOS)!)
+      expect(storedTodos.schemaVersion).toBe(STORAGE_CONFIG.SCHEMA_VERSION)
+      expect(storedTodos.data).toHaveLength(3)
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.FILTER)!)).toEqual({
+        schemaVersion: STORAGE_CONFIG.SCHEMA_VERSION,
+        data: 'active'
+      })
+      expect(JSON.parse(localStorage.getItem(STORAGE_KEYS.SETTINGS)!).data.theme).toBe('dark')
+    })
+
+    test('旧版本数据迁移后写回新版本，并保留原始数据的备份', async () => {
+      const legacy = [{ id: 'legacy', title: '旧数据', completed: false, createdAt: '2024-01-01T10:00:00Z', updatedAt: '2024-01-01T10:00:00Z' }]
+      localStorage.setItem(STORAGE_KEYS.TODOS, JSON.stringify(legacy))
+      
+      const result = await loadTodos()
+      
+      expect(result.success).toBe(true)
+      expect(JSON.parse(localStorage.getItem(backupKey)!)).toEqual(legacy)
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEYS.TODOS)!)
+      expect(stored.schemaVersion).toBe(STORAGE_CONFIG.SCHEMA_VERSION)
+      expect(stored.data[0].priority).toBe('none')
+      expect(console.log).toHaveBeenCalledWith(`🔄 ${STORAGE_KEYS.TODOS} 已从版本 0 迁移到版本 1`)
+    })
+
+    test('迁移失败时返回数据损坏错误和恢复选项，且不修改原始数据', async () => {
+      const raw = JSON.stringify('not an array')
+      localStorage.setItem(STORAGE_KEYS.TODOS, raw)
+      
+      const result = await loadTodos()
+      
+      expect(result.success).toBe(false)
+      expect(result.code).toBe(ErrorCode.STORAGE_DATA_CORRUPTED)
+      expect(result.error).toContain('数据迁移到版本1失败')
+      expect(result.recoveryOptions!.map(option => option.action)).toEqual(['retry', 'reset'])
+      expect(result.recoveryOptions![1].description).toContain(backupKey)
+      expect(localStorage.getItem(STORAGE_KEYS.TODOS)).toBe(raw)
+      expect(localStorage.getItem(backupKey)).toBe(raw)
+    })
+
+    test('数据版本高于当前版本时不读取', async () => {
+      localStorage.setItem(STORAGE_KEYS.FILTER, JSON.stringify({ schemaVersion: 99, data: 'active' }))
+      
+      const result = await loadFilter()
+      
+      expect(result.success).toBe(false)
+      expect(result.code).toBe(ErrorCode.STORAGE_DATA_CORRUPTED)
+      expect(result.error).toContain('请升级应用')
+    })
+
+    test('设置无法读取时不会被保存覆盖', async () => {
+      const raw = JSON.stringify({ schemaVersion: 99, data: {} })
+      localStorage.setItem(STORAGE_KEYS.SETTINGS, raw)
+      
+      const result = await saveSettings({ theme: 'dark' as const })
+      
+      expect(result.success).toBe(false)
+      expect(localStorage.getItem(STORAGE_KEYS.SETTINGS)).toBe(raw)
+    })
+
+    test('清除无法读取的数据时保留备份', async () => {
+      localStorage.setItem(STORAGE_KEYS.TODOS, JSON.stringify('not an array'))
+      await loadTodos()
+      
+      const result = await resetStoredData(STORAGE_KEYS.TODOS)
+      
+      expect(result.success).toBe(true)
+      expect(localStorage.getItem(STORAGE_KEYS.TODOS)).toBeNull()
+      expect(localStorage.getItem(backupKey)).not.toBeNull()
+      expect((await loadTodos()).data).toEqual([])
+    })
   })
 
   describe('边界情况和错误处理', () => {
-    test('处理包含特殊字符的Todo标题', () => {
+    test('处理包含特殊字符的Todo标题', async () => {
       const specialTodos: Todo[] = [
         createMockTodo('1', '包含emoji的标题 🎉✨'),
         createMockTodo('2', '包含引号的标题 "测试"'),
@@ -394,10 +707,10 @@ describe('Todo存储工具函数测试', () => {
         createMockTodo('4', '包含HTML标签的标题 <script>alert("test")</script>')
       ]
       
-      const saveResult = saveTodos(specialTodos)
+      const saveResult = await saveTodos(specialTodos)
       expect(saveResult.success).toBe(true)
       
-      const loadResult = loadTodos()
+      const loadResult = await loadTodos()
       expect(loadResult.success).toBe(true)
       expect(loadResult.data![0].title).toBe('包含emoji的标题 🎉✨')
       expect(loadResult.data![1].title).toBe('包含引号的标题 "测试"')
@@ -405,19 +718,50 @@ describe('Todo存储工具函数测试', () => {
       expect(loadResult.data![3].title).toBe('包含HTML标签的标题 <script>alert("test")</script>')
     })
 
-    test('处理日期对象的序列化和反序列化', () => {
+    test('处理日期对象的序列化和反序列化', async () => {
       const now = new Date()
       const todoWithDate = createMockTodo('1', '测试日期')
       todoWithDate.createdAt = now
       todoWithDate.updatedAt = now
       
-      const saveResult = saveTodos([todoWithDate])
+      const saveResult = await saveTodos([todoWithDate])
       expect(saveResult.success).toBe(true)
       
-      const loadResult = loadTodos()
+      const loadResult = await loadTodos()
       expect(loadResult.success).toBe(true)
       expect(loadResult.data![0].createdAt).toBeInstanceOf(Date)
       expect(loadResult.data![0].createdAt.getTime()).toBe(now.getTime())
     })
+
+    test('还原时丢弃格式无效的可选字段，保留插件字段', () => {
+      const todo = reviveTodo({
+        id: '1',
+        title: '旧数据',
+        completed: true,
+        tags: ['工作', 3],
+        createdAt: '2024-01-01T10:00:00.000Z',
+        updatedAt: '2024-01-01T10:00:00.000Z',
+        dueDate: '2024-01-05T00:00:00.000Z',
+        parentId: '',
+        order: 'first',
+        recurrence: { frequency: 'yearly' },
+        notes: '插件字段'
+      })
+
+      expect(todo).toEqual({
+        id: '1',
+        title: '旧数据',
+        completed: true,
+        priority: 'none',
+        tags: ['工作'],
+        projectId: 'default',
+        createdAt: new Date('2024-01-01T10:00:00.000Z'),
+        updatedAt: new Date('2024-01-01T10:00:00.000Z'),
+        dueDate: new Date('2024-01-05T00:00:00.000Z'),
+        notes: '插件字段'
+      })
+      expect(reviveTodo({ recurrence: { frequency: 'weekly', weekdays: [1, '2'], until: '2024-06-01T00:00:00.000Z' } }).recurrence)
+        .toEqual({ frequency: 'weekly', weekdays: [1], until: new Date('2024-06-01T00:00:00.000Z') })
+    })
   })
 })
\ No newline at end of file
@@ -0,0 +1,193 @@
+/**
+ * todo.txt 测试
+ *
+ * 测试 todo.txt 格式的解析、生成以及与 Todo 的转换，包括：
+ * 1. 完成标记、优先级、日期、项目、情境和扩展的解析
+ * 2. 生成的文本可以被再次解析
+ * 3. 导入导出往返后不丢失信息，包括未识别的扩展
+ */
+
+import type { Todo, Project } from '@/types/todo'
+import {
+  parseTodoTxtLine,
+  stringifyTodoTxtLine,
+  todoToTodoTxtTask,
+  todoTxtTaskToTodo,
+  exportTodosToTodoTxt,
+  importTodosFromTodoTxt
+} from '@/utils/todoTxt'
+
+const createMockTodo = (id: string, title: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date(2024, 0, 1, 10),
+  updatedAt: new Date(2024, 0, 1, 10),
+  ...overrides
+})
+
+const createMockProject = (id: string, name: string): Project => ({
+  id,
+  name,
+  archived: false,
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z')
+})
+
+describe('todo.txt 测试', () => {
+  describe('parseTodoTxtLine', () => {
+    test('解析优先级、创建日期、项目和情境', () => {
+      expect(parseTodoTxtLine('(A) 2011-03-02 Call Mom +Family +PeaceLoveAndHappiness @iphone @phone')).toEqual({
+        completed: false,
+        priority: 'A',
+        completionDate: null,
+        creationDate: '2011-03-02',
+        description: 'Call Mom',
+        projects: ['Family', 'PeaceLoveAndHappiness'],
+        contexts: ['iphone', 'phone'],
+        extensions: {}
+      })
+    })
+
+    test('解析已完成任务的完成日期、创建日期和 pri 扩展', () => {
+      expect(parseTodoTxtLine('x 2011-03-03 2011-03-01 Review Tim\'s pull request pri:B')).toMatchObject({
+        completed: true,
+        priority: 'B',
+        completionDate: '2011-03-03',
+        creationDate: '2011-03-01',
+        description: 'Review Tim\'s pull request',
+        extensions: {}
+      })
+    })
+
+    test('不在行首位置的标记按普通文本处理', () => {
+      expect(parseTodoTxtLine('Really gotta call Mom (A) @phone')).toMatchObject({
+        priority: null,
+        description: 'Really gotta call Mom (A)'
+      })
+      expect(parseTodoTxtLine('xylophone lesson')).toMatchObject({ completed: false, description: 'xylophone lesson' })
+      expect(parseTodoTxtLine('(b) lowercase')).toMatchObject({ priority: null, description: '(b) lowercase' })
+    })
+
+    test('解析 key:value 扩展，链接和邮件地址不是扩展', () => {
+      expect(parseTodoTxtLine('Read https://example.com/a due:2024-05-01 rec:+1w mail a@b.c')).toMatchObject({
+        description: 'Read https://example.com/a mail a@b.c',
+        extensions: { due: '2024-05-01', rec: '+1w' }
+      })
+    })
+
+    test('空行返回null', () => {
+      expect(parseTodoTxtLine('   ')).toBeNull()
+    })
+  })
+
+  describe('stringifyTodoTxtLine', () => {
+    test('生成的文本可以被再次解析', () => {
+      const lines = [
+        '(A) 2011-03-02 Call Mom +Family @phone',
+        'x 2011-03-03 2011-03-01 Review pull request pri:B',
+        'Plain task id:42 rec:+1w'
+      ]
+
+      lines.forEach(line => {
+        const task = parseTodoTxtLine(line)!
+        expect(stringifyTodoTxtLine(task)).toBe(line)
+      })
+    })
+  })
+
+  describe('与 Todo 的转换', () => {
+    const projects = [createMockProject('default', '我的待办'), createMockProject('work', 'Work Stuff')]
+
+    test('优先级、日期和情境对应到 Todo', () => {
+      const task = parseTodoTxtLine('(B) 2024-01-01 Write report +Work_Stuff +Q1 @office due:2024-02-01 t:2024-01-15')!
+      const todo = todoTxtTaskToTodo(task, { projects })
+
+      expect(todo).toMatchObject({
+        title: 'Write report',
+        completed: false,
+        priority: 'high',
+        projectId: 'work',
+        tags: ['office', '+Q1'],
+        createdAt: new Date(2024, 0, 1),
+        dueDate: new Date(2024, 1, 1),
+        startDate: new Date(2024, 0, 15)
+      })
+      expect(todo.extensions).toBeUndefined()
+    })
+
+    test('没有匹配的列表时使用默认列表', () => {
+      const todo = todoTxtTaskToTodo(parseTodoTxtLine('Task +Unknown')!, { projects, defaultProjectId: 'work' })
+
+      expect(todo.projectId).toBe('work')
+      expect(todo.tags).toEqual(['+Unknown'])
+    })
+
+    test('(E)~(Z) 导入为低优先级并保留原字母', () => {
+      const todo = todoTxtTaskToTodo(parseTodoTxtLine('(F) Someday')!)
+
+      expect(todo.priority).toBe('low')
+      expect(todo.extensions).toEqual({ pri: 'F' })
+      expect(stringifyTodoTxtLine(todoToTodoTxtTask(todo))).toMatch(/^\(F\) /)
+    })
+
+    test('格式不正确的日期保留为扩展', () => {
+      const todo = todoTxtTaskToTodo(parseTodoTxtLine('Task due:tomorrow')!)
+
+      expect(todo.dueDate).toBeUndefined()
+      expect(todo.extensions).toEqual({ due: 'tomorrow' })
+    })
+
+    test('导出时列表写为 +项目，以 + 开头的标签写为项目', () => {
+      const todo = createMockTodo('1', 'Plan', {
+        projectId: 'work',
+        priority: 'urgent',
+        tags: ['+Q1', 'office'],
+        dueDate: new Date(2024, 1, 1)
+      })
+
+      expect(exportTodosToTodoTxt([todo], { projects })).toBe('(A) 2024-01-01 Plan +Work_Stuff +Q1 @office due:2024-02-01')
+    })
+
+    test('已完成的待办事项写入完成日期和 pri 扩展', () => {
+      const todo = createMockTodo('1', 'Done', {
+        completed: true,
+        priority: 'medium',
+        updatedAt: new Date(2024, 0, 3, 9)
+      })
+
+      expect(exportTodosToTodoTxt([todo])).toBe('x 2024-01-03 2024-01-01 Done pri:C')
+    })
+  })
+
+  describe('导入导出往返', () => {
+    test('往返后内容不变，未识别的扩展被保留', () => {
+      const projects = [createMockProject('default', '我的待办'), createMockProject('home', 'Home')]
+      const text = [
+        '(A) 2024-01-01 Call Mom +Home @phone due:2024-01-10',
+        'x 2024-01-05 2024-01-02 Pay rent +Home id:7 rec:1m pri:B',
+        '(G) 2024-01-01 Learn knitting @hobby h:1',
+        '2024-01-01 Read https://example.com t:2024-02-01'
+      ].join('\n')
+
+      const result = importTodosFromTodoTxt(text, { projects })
+
+      expect(result.success).toBe(true)
+      expect(result.data[1].extensions).toEqual({ id: '7', rec: '1m' })
+      expect(exportTodosToTodoTxt(result.data, { projects })).toBe(text)
+    })
+
+    test('无法转换的行被跳过并记录行号', () => {
+      const result = importTodosFromTodoTxt('Task one\r\n\r\nx 2024-01-01 +Project\r\nTask two')
+
+      expect(result.success).toBe(true)
+      expect(result.total).toBe(3)
+      expect(result.skipped).toBe(1)
+      expect(result.data.map(todo => todo.title)).toEqual(['Task one', 'Task two'])
+      expect(result.errors).toEqual([{ row: 3, value: 'x 2024-01-01 +Project', message: '待办事项标题不能为空' }])
+    })
+  })
+})
@@ -0,0 +1,87 @@
+/**
+ * 回收站工具函数测试
+ *
+ * 测试回收站相关的纯函数，包括：
+ * 1. 待办事项与回收站项之间的转换
+ * 2. 回收站中的父子关系
+ * 3. 保留天数与过期计算
+ */
+
+import type { Todo, TrashedTodo } from '@/types/todo'
+import {
+  toTrashedTodos,
+  fromTrashedTodo,
+  getTrashSubtreeIds,
+  getPurgeDate,
+  getDaysUntilPurge,
+  splitExpiredTrash
+} from '@/utils/trash'
+
+const createMockTodo = (id: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title: `任务${id}`,
+  completed: false,
+  priority: 'none',
+  tags: ['工作'],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+const trashed = (id: string, deletedAt: string, overrides: Partial<Todo> = {}): TrashedTodo => ({
+  ...createMockTodo(id, overrides),
+  deletedAt: new Date(deletedAt)
+})
+
+describe('回收站工具函数测试', () => {
+  test('转换为回收站项时复制数据，还原时去掉删除时间', () => {
+    const todo = createMockTodo('1')
+    const deletedAt = new Date('2024-02-01T00:00:00Z')
+
+    const [item] = toTrashedTodos([todo], deletedAt)
+    item.tags.push('其他')
+
+    expect(item.deletedAt).toEqual(deletedAt)
+    expect(item.deletedAt).not.toBe(deletedAt)
+    expect(todo.tags).toEqual(['工作'])
+
+    const restored = fromTrashedTodo(item)
+    expect('deletedAt' in restored).toBe(false)
+    expect(restored).toEqual({ ...todo, tags: ['工作', '其他'] })
+  })
+
+  test('获取回收站中某一项及其子任务', () => {
+    const trash = [
+      trashed('p', '2024-02-01T00:00:00Z'),
+      trashed('c', '2024-02-01T00:00:00Z', { parentId: 'p' }),
+      trashed('g', '2024-02-01T00:00:00Z', { parentId: 'c' }),
+      trashed('x', '2024-02-01T00:00:00Z')
+    ]
+
+    expect(getTrashSubtreeIds(trash, 'p')).toEqual(['p', 'c', 'g'])
+    expect(getTrashSubtreeIds(trash, 'x')).toEqual(['x'])
+  })
+
+  test('按保留天数计算彻底删除的时间和剩余天数', () => {
+    const item = trashed('1', '2024-02-01T00:00:00Z')
+
+    expect(getPurgeDate(item, 30)).toEqual(new Date('2024-03-02T00:00:00Z'))
+    expect(getDaysUntilPurge(item, 30, new Date('2024-02-01T12:00:00Z'))).toBe(30)
+    expect(getDaysUntilPurge(item, 30, new Date('2024-03-01T00:00:00Z'))).toBe(1)
+    expect(getDaysUntilPurge(item, 30, new Date('2024-04-01T00:00:00Z'))).toBe(0)
+  })
+
+  test('拆分出已过期的回收站项并保持顺序', () => {
+    const trash = [
+      trashed('new', '2024-02-20T00:00:00Z'),
+      trashed('old', '2024-02-01T00:00:00Z'),
+      trashed('edge', '2024-02-03T00:00:00Z')
+    ]
+
+    const { kept, expired } = splitExpiredTrash(trash, 7, new Date('2024-02-10T00:00:00Z'))
+
+    expect(kept.map(item => item.id)).toEqual(['new'])
+    expect(expired.map(item => item.id)).toEqual(['old', 'edge'])
+  })
+})
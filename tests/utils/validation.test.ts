@@ -0,0 +1,135 @@
+/**
+ * 验证引擎测试
+ *
+ * 测试基于 ValidationRule 的通用校验，包括：
+ * 1. 同步和异步执行规则，生成带有 ErrorCode 的结果
+ * 2. 必需规则与空值的处理
+ * 3. 标题的内置规则
+ * 4. 在运行时修改验证限制
+ */
+
+import type { ValidationRule } from '@/types/utils'
+import { ErrorCode, TodoError } from '@/types/error'
+import { DEFAULT_VALIDATION_RULES, VALIDATION_RULES } from '@/types'
+import {
+  validate,
+  validateAsync,
+  toTodoError,
+  createTitleRules,
+  validateTitle,
+  configureValidation,
+  resetValidation
+} from '@/utils/validation'
+
+const evenRule: ValidationRule = {
+  name: 'even',
+  message: '必须是偶数',
+  validator: (value: number) => value % 2 === 0
+}
+
+const positiveRule: ValidationRule = {
+  name: 'positive',
+  message: '必须是正数',
+  code: ErrorCode.VALIDATION_ERROR,
+  validator: (value: number) => value > 0
+}
+
+describe('验证引擎测试', () => {
+  afterEach(() => {
+    resetValidation()
+  })
+
+  describe('validate', () => {
+    test('按顺序执行所有规则并收集错误', () => {
+      expect(validate(-3, [evenRule, positiveRule])).toEqual({
+        valid: false,
+        errors: [
+          { field: 'even', message: '必须是偶数', code: ErrorCode.VALIDATION_ERROR, value: -3 },
+          { field: 'positive', message: '必须是正数', code: ErrorCode.VALIDATION_ERROR, value: -3 }
+        ]
+      })
+      expect(validate(4, [evenRule, positiveRule])).toEqual({ valid: true, errors: [] })
+    })
+
+    test('提供字段名时错误使用该字段名，abortEarly 在第一个错误时停止', () => {
+      const result = validate(-3, [evenRule, positiveRule], { field: 'count', abortEarly: true })
+
+      expect(result.field).toBe('count')
+      expect(result.errors).toHaveLength(1)
+      expect(result.errors[0].field).toBe('count')
+    })
+
+    test('非必需的规则跳过空值', () => {
+      const rule: ValidationRule = { name: 'short', message: '太长', validator: (value: string) => value.length < 3 }
+
+      expect(validate('  ', [rule]).valid).toBe(true)
+      expect(validate(undefined, [{ ...rule, required: true, validator: (value: unknown) => value !== undefined }]).valid).toBe(false)
+    })
+
+    test('同步执行异步规则时抛出错误', () => {
+      const asyncRule: ValidationRule = { name: 'remote', message: '不可用', validator: async () => true }
+
+      expect(() => validate('x', [asyncRule])).toThrow(TodoError)
+    })
+  })
+
+  describe('validateAsync', () => {
+    test('等待异步规则的结果', async () => {
+      const asyncRule: ValidationRule = { name: 'remote', message: '不可用', validator: async (value: string) => value !== 'taken' }
+
+      await expect(validateAsync('taken', [asyncRule])).resolves.toMatchObject({
+        valid: false,
+        errors: [{ field: 'remote' }]
+      })
+      await expect(validateAsync('free', [asyncRule])).resolves.toEqual({ valid: true, errors: [] })
+    })
+  })
+
+  describe('标题规则', () => {
+    test('空标题和过长的标题使用对应的错误代码', () => {
+      expect(validateTitle('   ').errors).toEqual([
+        { field: 'title', message: '待办事项标题不能为空', code: ErrorCode.EMPTY_TITLE, value: '   ' }
+      ])
+      expect(validateTitle('a'.repeat(201)).errors[0]).toMatchObject({ code: ErrorCode.TITLE_TOO_LONG, message: '待办事项标题不能超过200个字符' })
+      expect(validateTitle(` ${'a'.repeat(200)} `).valid).toBe(true)
+      expect(validateTitle(123).valid).toBe(false)
+    })
+
+    test('可以指定最大长度', () => {
+      expect(validate('abcdef', createTitleRules(5)).errors[0].message).toBe('待办事项标题不能超过5个字符')
+    })
+
+    test('toTodoError 转换第一个错误', () => {
+      const error = toTodoError(validateTitle(''))
+
+      expect(error).toBeInstanceOf(TodoError)
+      expect(error).toMatchObject({ message: '待办事项标题不能为空', code: ErrorCode.EMPTY_TITLE, context: { field: 'title' } })
+      expect(toTodoError(validateTitle('ok'))).toBeNull()
+    })
+  })
+
+  describe('运行时配置', () => {
+    test('修改限制后立即生效，重置后恢复默认值', () => {
+      const limits = configureValidation({ MAX_TITLE_LENGTH: 10, MIN_TITLE_LENGTH: 2 })
+
+      expect(limits.MAX_TITLE_LENGTH).toBe(10)
+      expect(VALIDATION_RULES.MAX_TITLE_LENGTH).toBe(10)
+      expect(validateTitle('a'.repeat(11)).errors[0].message).toBe('待办事项标题不能超过10个字符')
+      expect(validateTitle('a').valid).toBe(false)
+
+      resetValidation()
+
+      expect(VALIDATION_RULES).toEqual(DEFAULT_VALIDATION_RULES)
+      expect(validateTitle('a'.repeat(11)).valid).toBe(true)
+    })
+
+    test('拒绝无效的限制且不修改任何值', () => {
+      expect(() => configureValidation({ MAX_TAG_LENGTH: 0 })).toThrow('MAX_TAG_LENGTH')
+      expect(() => configureValidation({ MAX_TITLE_LENGTH: 1.5 })).toThrow(TodoError)
+      expect(() => configureValidation({ MIN_TITLE_LENGTH: 50, MAX_TITLE_LENGTH: 10 })).toThrow('最小长度')
+      expect(() => configureValidation({ UNKNOWN: 1 } as any)).toThrow('未知的验证限制')
+
+      expect(VALIDATION_RULES).toEqual(DEFAULT_VALIDATION_RULES)
+    })
+  })
+})
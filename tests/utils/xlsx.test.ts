@@ -0,0 +1,164 @@
+/**
+ * XLSX 导入导出测试
+ *
+ * 测试 XLSX 相关的工具函数，包括：
+ * 1. Excel 日期序列号的转换
+ * 2. 工作簿的结构、日期单元格、布尔单元格和统计工作表
+ * 3. 字段映射与导入往返
+ * 4. 共享字符串和日期样式的读取
+ */
+
+import type { Todo } from '@/types/todo'
+import { createZip, readZip, encodeUtf8, decodeUtf8 } from '@/utils/zip'
+import {
+  dateToSerial,
+  serialToDate,
+  exportTodosToXlsx,
+  importTodosFromXlsx,
+  readXlsxRows
+} from '@/utils/xlsx'
+
+const createMockTodo = (id: string, title: string, overrides: Partial<Todo> = {}): Todo => ({
+  id,
+  title,
+  completed: false,
+  priority: 'none',
+  tags: [],
+  projectId: 'default',
+  createdAt: new Date('2024-01-01T10:00:00Z'),
+  updatedAt: new Date('2024-01-01T10:00:00Z'),
+  ...overrides
+})
+
+/**
+ * 读取工作簿中的文本文件
+ */
+const readPart = (xlsx: Uint8Array, path: string) => decodeUtf8(readZip(xlsx).get(path) as Uint8Array)
+
+describe('XLSX 导入导出测试', () => {
+  describe('日期序列号', () => {
+    test('本地时间与序列号互相转换', () => {
+      const date = new Date(2024, 0, 2, 12, 0, 0)
+
+      expect(dateToSerial(date)).toBe(45293.5)
+      expect(serialToDate(45293.5)).toEqual(date)
+    })
+  })
+
+  describe('exportTodosToXlsx', () => {
+    test('生成包含待办事项和统计工作表的工作簿', () => {
+      const xlsx = exportTodosToXlsx([createMockTodo('1', '任务')])
+      const files = readZip(xlsx)
+
+      expect(files.has('[Content_Types].xml')).toBe(true)
+      expect(readPart(xlsx, 'xl/workbook.xml')).toContain('<sheet name="待办事项" sheetId="1" r:id="rId1"/>')
+      expect(readPart(xlsx, 'xl/workbook.xml')).toContain('<sheet name="统计" sheetId="2" r:id="rId2"/>')
+    })
+
+    test('日期写为日期单元格，完成状态写为布尔单元格', () => {
+      const todo = createMockTodo('1', 'A & <B>', { completed: true, dueDate: new Date(2024, 0, 2, 12) })
+
+      const sheet = readPart(exportTodosToXlsx([todo], {
+        fieldMapping: { title: '标题', completed: '已完成', dueDate: '截止日期' }
+      }), 'xl/worksheets/sheet1.xml')
+
+      expect(sheet).toContain('<c r="A1" s="2" t="inlineStr"><is><t xml:space="preserve">标题</t></is></c>')
+      expect(sheet).toContain('<t xml:space="preserve">A &amp; &lt;B&gt;</t>')
+      expect(sheet).toContain('<c r="B2" t="b"><v>1</v></c>')
+      expect(sheet).toContain('<c r="C2" s="1"><v>45293.5</v></c>')
+    })
+
+    test('统计工作表根据导出的待办事项计算', () => {
+      const todos = [
+        createMockTodo('1', '父任务', { completed: true }),
+        createMockTodo('2', '子任务', { parentId: '1' }),
+        createMockTodo('3', '其他列表', { projectId: 'work' })
+      ]
+
+      const xlsx = exportTodosToXlsx(todos, { filter: (todo: Todo) => todo.projectId === 'default' })
+      const files = readZip(xlsx)
+      const summary = readXlsxRows(createZip([
+        { name: 'xl/worksheets/sheet1.xml', data: files.get('xl/worksheets/sheet2.xml') as Uint8Array },
+        { name: 'xl/styles.xml', data: files.get('xl/styles.xml') as Uint8Array }
+      ]))
+
+      expect(summary.slice(0, 7)).toEqual([
+        ['指标', '数值'],
+        ['总数', 2],
+        ['已完成', 1],
+        ['未完成', 1],
+        ['完成率（%）', 50],
+        ['顶层任务', 1],
+        ['子任务', 1]
+      ])
+      expect(summary[7][1]).toBeInstanceOf(Date)
+    })
+
+    test('可以传入现成的统计数据', () => {
+      const stats = { total: 9, completed: 3, active: 6, completionRate: 33, topLevel: 9, subtasks: 0, trashed: 0 }
+
+      const sheet = readPart(exportTodosToXlsx([], {}, stats), 'xl/worksheets/sheet2.xml')
+
+      expect(sheet).toContain('<c r="B2"><v>9</v></c>')
+    })
+  })
+
+  describe('importTodosFromXlsx', () => {
+    test('导出的工作簿可以完整导入', async () => {
+      const todo = createMockTodo('1', '多行\n标题', {
+        completed: true,
+        priority: 'high',
+        tags: ['工作', '紧急'],
+        dueDate: new Date(2024, 1, 1, 9, 30)
+      })
+
+      const result = await importTodosFromXlsx(exportTodosToXlsx([todo]))
+
+      expect(result.success).toBe(true)
+      expect(result.data).toEqual([todo])
+    })
+
+    test('使用字段映射匹配重命名的列', async () => {
+      const fieldMapping = { title: '标题', completed: '已完成' }
+      const xlsx = exportTodosToXlsx([createMockTodo('1', '写报告', { completed: true })], { fieldMapping })
+
+      const result = await importTodosFromXlsx(xlsx, { fieldMapping })
+
+      expect(result.data[0]).toMatchObject({ title: '写报告', completed: true })
+    })
+
+    test('读取共享字符串和自定义日期格式的单元格', async () => {
+      const xml = (body: string) => encodeUtf8(`<?xml version="1.0"?>${body}`)
+      const ns = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"'
+      const xlsx = createZip([
+        { name: 'xl/sharedStrings.xml', data: xml(`<sst ${ns}><si><t>title</t></si><si><t>dueDate</t></si><si><r><t>富</t></r><r><t>文本</t></r></si></sst>`) },
+        { name: 'xl/styles.xml', data: xml(`<styleSheet ${ns}><numFmts><numFmt numFmtId="170" formatCode="yyyy&quot;年&quot;m&quot;月&quot;d&quot;日&quot;"/></numFmts><cellXfs><xf numFmtId="0"/><xf numFmtId="170"/></cellXfs></styleSheet>`) },
+        { name: 'xl/worksheets/sheet1.xml', data: xml(`<worksheet ${ns}><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row><row r="3"><c r="A3" t="s"><v>2</v></c><c r="B3" s="1"><v>45293</v></c></row></sheetData></worksheet>`) }
+      ])
+
+      const result = await importTodosFromXlsx(xlsx)
+
+      expect(result.total).toBe(1)
+      expect(result.data[0]).toMatchObject({ title: '富文本', dueDate: new Date(2024, 0, 2) })
+    })
+
+    test('错误报告中的行号与工作表一致', async () => {
+      const xlsx = exportTodosToXlsx([
+        createMockTodo('1', '正常'),
+        createMockTodo('2', '优先级错误', { priority: 'critical' as Todo['priority'] })
+      ])
+
+      const result = await importTodosFromXlsx(xlsx, { errorStrategy: 'skip' })
+
+      expect(result.data).toHaveLength(1)
+      expect(result.errors).toEqual([{ row: 3, field: 'priority', value: 'critical', message: '优先级无效' }])
+    })
+
+    test('不是有效的 XLSX 时返回错误报告', async () => {
+      const result = await importTodosFromXlsx(encodeUtf8('not a workbook'))
+
+      expect(result.success).toBe(false)
+      expect(result.errors[0].message).toBe('文件不是有效的 ZIP 格式')
+    })
+  })
+})
@@ -0,0 +1,95 @@
+/**
+ * ZIP 读写测试
+ *
+ * 测试 XLSX 使用的 ZIP 工具函数，包括：
+ * 1. UTF-8 编码与解码
+ * 2. CRC32 校验
+ * 3. 生成与读取 ZIP 文件
+ * 4. DEFLATE 解压
+ */
+
+import { deflateRawSync } from 'zlib'
+import { ErrorCode } from '@/types/error'
+import { encodeUtf8, decodeUtf8, crc32, createZip, readZip, inflateRaw } from '@/utils/zip'
+
+describe('ZIP 读写测试', () => {
+  describe('UTF-8', () => {
+    test('编码结果与 Buffer 一致并可以解码', () => {
+      const text = 'abc 中文 😀\n'
+
+      expect(Array.from(encodeUtf8(text))).toEqual(Array.from(Buffer.from(text, 'utf8')))
+      expect(decodeUtf8(encodeUtf8(text))).toBe(text)
+    })
+  })
+
+  describe('crc32', () => {
+    test('计算标准校验值', () => {
+      expect(crc32(encodeUtf8('123456789'))).toBe(0xcbf43926)
+    })
+  })
+
+  describe('createZip / readZip', () => {
+    test('生成的文件可以读回所有条目', () => {
+      const zip = createZip([
+        { name: 'a.txt', data: encodeUtf8('hello') },
+        { name: '目录/b.xml', data: encodeUtf8('<x/>') }
+      ])
+
+      const files = readZip(zip)
+
+      expect(Array.from(files.keys())).toEqual(['a.txt', '目录/b.xml'])
+      expect(decodeUtf8(files.get('目录/b.xml') as Uint8Array)).toBe('<x/>')
+    })
+
+    test('读取使用 DEFLATE 压缩的条目', () => {
+      const content = encodeUtf8('<row>重复的内容</row>'.repeat(200))
+      const zip = createZip([{ name: 'sheet.xml', data: content }])
+      const compressed = deflateRawSync(Buffer.from(content))
+
+      // 将条目改写为压缩存储：压缩方式为8，并替换数据和大小
+      const nameLength = 'sheet.xml'.length
+      const local = zip.slice(0, 30 + nameLength)
+      const central = zip.slice(30 + nameLength + content.length, zip.length - 22)
+      const end = zip.slice(zip.length - 22)
+      new DataView(local.buffer).setUint16(8, 8, true)
+      new DataView(local.buffer).setUint32(18, compressed.length, true)
+      new DataView(central.buffer).setUint16(10, 8, true)
+      new DataView(central.buffer).setUint32(20, compressed.length, true)
+      new DataView(end.buffer).setUint32(16, local.length + compressed.length, true)
+      const deflated = Buffer.concat([local, compressed, central, end])
+
+      expect(decodeUtf8(readZip(deflated).get('sheet.xml') as Uint8Array)).toBe(decodeUtf8(content))
+    })
+
+    test('不是 ZIP 文件时抛出错误', () => {
+      expect(() => readZip(encodeUtf8('not a zip'))).toThrow(
+        expect.objectContaining({ code: ErrorCode.VALIDATION_ERROR })
+      )
+    })
+  })
+
+  describe('inflateRaw', () => {
+    test.each([
+      ['空数据', ''],
+      ['短文本（固定霍夫曼编码）', 'abcabcabc'],
+      ['长文本（动态霍夫曼编码）', Array.from({ length: 500 }, (_, i) => `第${i}行 ${i % 7}`).join('\n')]
+    ])('解压%s', (_name, text) => {
+      const compressed = deflateRawSync(Buffer.from(text, 'utf8'))
+
+      expect(decodeUtf8(inflateRaw(compressed))).toBe(text)
+    })
+
+    test('解压不压缩的块', () => {
+      const text = 'stored block'
+      const compressed = deflateRawSync(Buffer.from(text), { level: 0 })
+
+      expect(decodeUtf8(inflateRaw(compressed))).toBe(text)
+    })
+
+    test('数据不完整时抛出错误', () => {
+      const compressed = deflateRawSync(Buffer.from('truncated data '.repeat(20)))
+
+      expect(() => inflateRaw(compressed.subarray(0, 5))).toThrow('压缩数据不完整')
+    })
+  })
+})